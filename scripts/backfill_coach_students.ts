@@ -0,0 +1,67 @@
+import fs from "node:fs";
+import path from "node:path";
+import dotenv from "dotenv";
+
+/**
+ * Create coach_students owner rows for existing students
+ * - students with profiles.added_by_coach_id get that coach as owner
+ * - --assign-unowned-to=<coach id or email> gives every remaining student without an owner to one coach
+ * Usage: npm run roster:backfill [-- --assign-unowned-to=coach@example.com] [-- --dry-run]
+ */
+
+const envPath = path.join(process.cwd(), ".env.local");
+if (fs.existsSync(envPath)) {
+  dotenv.config({ path: envPath });
+}
+
+const dryRun = process.argv.includes("--dry-run");
+const assignUnownedTo = process.argv.find((arg) => arg.startsWith("--assign-unowned-to="))?.split("=")[1] ?? null;
+
+async function main() {
+  // Imported after dotenv so Prisma sees .env.local
+  const { prisma } = await import("../src/lib/prisma");
+  const { assignStudentOwner, findCoach } = await import("../src/lib/coach/roster");
+
+  try {
+    let fallbackCoachId: string | null = null;
+    if (assignUnownedTo) {
+      const coach = await findCoach(
+        assignUnownedTo.includes("@") ? { coachEmail: assignUnownedTo } : { coachId: assignUnownedTo }
+      );
+      if (!coach) {
+        throw new Error(`Coach not found: ${assignUnownedTo}`);
+      }
+      fallbackCoachId = coach.id;
+    }
+
+    const unowned = await prisma.profiles.findMany({
+      where: { role: "student", coaches: { none: { access: "owner" } } },
+      select: { id: true, added_by_coach_id: true },
+    });
+
+    let assigned = 0;
+    let skipped = 0;
+    for (const student of unowned) {
+      const coachId = student.added_by_coach_id ?? fallbackCoachId;
+      if (!coachId) {
+        skipped++;
+        continue;
+      }
+      if (!dryRun) {
+        await assignStudentOwner(student.id, coachId);
+      }
+      assigned++;
+    }
+
+    console.log(
+      `[roster:backfill] unowned=${unowned.length} assigned=${assigned} skipped=${skipped}${dryRun ? " (dry run)" : ""}`
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[roster:backfill] Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
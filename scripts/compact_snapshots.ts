@@ -0,0 +1,36 @@
+import fs from "node:fs";
+import path from "node:path";
+import dotenv from "dotenv";
+
+/**
+ * Apply the stats_snapshots retention policy: full resolution for 14 days, then one snapshot
+ * per day up to a year, then one per week; delta window baselines are always kept
+ * Usage: npm run snapshots:compact [-- --dry-run]
+ */
+
+const envPath = path.join(process.cwd(), ".env.local");
+if (fs.existsSync(envPath)) {
+  dotenv.config({ path: envPath });
+}
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  // Imported after dotenv so Prisma sees .env.local
+  const { prisma } = await import("../src/lib/prisma");
+  const { compactSnapshots } = await import("../src/lib/stats/snapshotRetention");
+
+  try {
+    const report = await compactSnapshots({ now: new Date(), dryRun });
+    console.log(
+      `[snapshots:compact] series=${report.series} scanned=${report.scanned} removed_daily=${report.removed.daily} removed_weekly=${report.removed.weekly} protected_baselines=${report.protectedBaselines}${dryRun ? " (dry run)" : ""}`
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[snapshots:compact] Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
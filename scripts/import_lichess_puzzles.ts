@@ -0,0 +1,132 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import dotenv from "dotenv";
+
+/**
+ * Import the Lichess puzzle database CSV (https://database.lichess.org/lichess_db_puzzle.csv.zst)
+ * into the puzzles table and/or chess_puzzles, streaming it in batches
+ * - progress is saved to a checkpoint file after every batch; rerunning the same command resumes
+ * - filters: --min-rating, --max-rating, --themes=fork,pin (any of), --min-popularity, --min-plays
+ * Usage: npm run puzzles:import -- <file.csv | -> [--into=puzzles|chess_puzzles|both]
+ *          [--batch-size=1000] [--limit=N] [--checkpoint=path] [--restart] [--dry-run]
+ * Compressed dumps can be piped in: zstd -dc lichess_db_puzzle.csv.zst | npm run puzzles:import -- - --checkpoint=...
+ */
+
+const envPath = path.join(process.cwd(), ".env.local");
+if (fs.existsSync(envPath)) {
+  dotenv.config({ path: envPath });
+}
+
+const args = process.argv.slice(2);
+const source = args.find((arg) => arg === "-" || !arg.startsWith("--")) ?? null;
+const dryRun = args.includes("--dry-run");
+const restart = args.includes("--restart");
+
+function option(name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+function intOption(name: string): number | undefined {
+  const value = option(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`--${name} must be an integer, got ${value}`);
+  }
+  return parsed;
+}
+
+type Checkpoint = {
+  source: string;
+  settings: string;
+  line: number;
+  updatedAt: string;
+};
+
+async function main() {
+  if (!source) {
+    throw new Error("Usage: npm run puzzles:import -- <file.csv | -> [options]");
+  }
+
+  const into = option("into") ?? "puzzles";
+  if (into !== "puzzles" && into !== "chess_puzzles" && into !== "both") {
+    throw new Error(`--into must be puzzles, chess_puzzles or both, got ${into}`);
+  }
+  const filter = {
+    minRating: intOption("min-rating"),
+    maxRating: intOption("max-rating"),
+    themes: option("themes")?.split(",").filter(Boolean),
+    minPopularity: intOption("min-popularity"),
+    minPlays: intOption("min-plays"),
+  };
+  const batchSize = intOption("batch-size");
+  const limit = intOption("limit");
+
+  const checkpointPath = option("checkpoint") ?? (source === "-" ? null : `${source}.import-checkpoint.json`);
+  if (!checkpointPath && !dryRun) {
+    throw new Error("Reading from stdin needs --checkpoint=<path> to be resumable");
+  }
+  // Line numbers only line up when the same rows are filtered the same way
+  const settings = JSON.stringify({ into, filter });
+
+  let skipLines = 0;
+  if (checkpointPath && !restart && fs.existsSync(checkpointPath)) {
+    const checkpoint: Checkpoint = JSON.parse(fs.readFileSync(checkpointPath, "utf8"));
+    if (checkpoint.settings !== settings) {
+      throw new Error(`Checkpoint ${checkpointPath} was written with other options; pass --restart to start over`);
+    }
+    skipLines = checkpoint.line;
+    console.log(`[puzzles:import] Resuming after line ${skipLines}`);
+  }
+
+  const saveCheckpoint = (line: number) => {
+    if (!checkpointPath || dryRun) {
+      return;
+    }
+    const checkpoint: Checkpoint = { source, settings, line, updatedAt: new Date().toISOString() };
+    fs.writeFileSync(checkpointPath, JSON.stringify(checkpoint, null, 2));
+  };
+
+  // Imported after dotenv so Prisma sees .env.local
+  const { prisma } = await import("../src/lib/prisma");
+  const { importLichessPuzzles } = await import("../src/lib/puzzles/lichessImport");
+
+  const input = source === "-" ? process.stdin : fs.createReadStream(source, { encoding: "utf8" });
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    const progress = await importLichessPuzzles(lines, {
+      into,
+      filter,
+      batchSize,
+      skipLines,
+      limit,
+      dryRun,
+      onBatch: (batch) => {
+        saveCheckpoint(batch.line);
+        console.log(
+          `[puzzles:import] line=${batch.line} matched=${batch.matched} inserted_puzzles=${batch.inserted.puzzles} inserted_chess_puzzles=${batch.inserted.chessPuzzles}`
+        );
+      },
+    });
+    saveCheckpoint(progress.line);
+
+    for (const error of progress.errors) {
+      console.warn(`[puzzles:import] Skipped ${error}`);
+    }
+    console.log(
+      `[puzzles:import] Done: lines=${progress.line} matched=${progress.matched} filtered=${progress.filtered} invalid=${progress.invalid} inserted_puzzles=${progress.inserted.puzzles} inserted_chess_puzzles=${progress.inserted.chessPuzzles}${dryRun ? " (dry run)" : ""}`
+    );
+  } finally {
+    lines.close();
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[puzzles:import] Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
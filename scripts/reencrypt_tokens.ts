@@ -0,0 +1,41 @@
+import fs from "node:fs";
+import path from "node:path";
+import dotenv from "dotenv";
+
+/**
+ * Re-encrypt stored Lichess tokens with the first key in LICHESS_ENCRYPTION_KEYS
+ * Usage: npm run tokens:reencrypt [-- --dry-run]
+ */
+
+const envPath = path.join(process.cwd(), ".env.local");
+if (fs.existsSync(envPath)) {
+  dotenv.config({ path: envPath });
+}
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  // Imported after dotenv so Prisma and the key list see .env.local
+  const { getCurrentKeyId } = await import("../src/lib/security/tokenEncryption");
+  const { reencryptStoredTokens } = await import("../src/lib/security/reencryptTokens");
+  const { prisma } = await import("../src/lib/prisma");
+
+  console.log(`[tokens:reencrypt] Current key id: ${getCurrentKeyId()}${dryRun ? " (dry run)" : ""}`);
+
+  try {
+    const summary = await reencryptStoredTokens({ dryRun });
+    console.log(
+      `[tokens:reencrypt] scanned=${summary.scanned} reencrypted=${summary.reencrypted} current=${summary.current} failed=${summary.failed}`
+    );
+    if (summary.failed > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[tokens:reencrypt] Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
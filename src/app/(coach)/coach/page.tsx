@@ -1,12 +1,52 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { Fragment, useState, useMemo, useEffect } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { scheduleLichessRequest } from "@/lib/rateLimiter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { PERFS, type Perf } from "@/lib/stats_v2/types";
+import { DELTA_WINDOW_KEYS, type DeltaWindowKey } from "@/lib/stats/deltaWindows";
+import type { WindowStats } from "@/lib/stats/windowStats";
+
+// Per time control stats as returned in stats.perfs
+interface PerfStat {
+  games24h: number;
+  games7d: number;
+  rating: number | null;
+  ratingDelta24h: number | null;
+  ratingDelta7d: number | null;
+}
+
+const PERF_LABELS: Record<Perf, string> = {
+  bullet: "Bullet",
+  blitz: "Blitz",
+  rapid: "Rapid",
+  classical: "Classical",
+  daily: "Daily",
+  chess960: "Chess960",
+};
+
+const DEFAULT_VISIBLE_PERFS: Perf[] = ["rapid", "blitz"];
+const VISIBLE_PERFS_STORAGE_KEY = "coach_visible_perfs";
+
+// Manual "Update stats" walks the roster in update-stats-v2 pages (the route caps limit at 100)
+const UPDATE_STATS_PAGE_SIZE = 100;
+const UPDATE_STATS_MAX_PAGES = 1000; // safety stop, as in the scheduler
+
+const WINDOW_LABELS: Record<DeltaWindowKey, string> = {
+  "24h": "24h",
+  "3d": "3d",
+  "7d": "7d",
+  "30d": "30d",
+  "90d": "90d",
+  season: "Season",
+};
+
+const DEFAULT_VISIBLE_WINDOWS: DeltaWindowKey[] = ["24h", "7d"];
+const VISIBLE_WINDOWS_STORAGE_KEY = "coach_visible_windows";
 
 // API Response type - matches the structure from /api/coach/students
 interface ApiStudent {
@@ -20,13 +60,27 @@ interface ApiStudent {
     rapidGames7d: number | null;
     blitzGames24h: number | null;
     blitzGames7d: number | null;
-    puzzles3d: number; // Maps from DB column puzzles_24h
+    puzzles24h?: number | null;
+    puzzles3d: number; // Deprecated alias of puzzles24h
     puzzles7d: number;
     puzzle_total: number;
     rapidRatingDelta24h?: number | null;
     rapidRatingDelta7d?: number | null;
     blitzRatingDelta24h?: number | null;
     blitzRatingDelta7d?: number | null;
+    perfs?: Partial<Record<Perf, PerfStat>>;
+    // Games, rating deltas and puzzles per window; missing for rows synced before window stats existed
+    windows?: WindowStats;
+    // Puzzle Storm (Lichess): best run score and runs; Puzzle Rush (Chess.com): best score only
+    // null = unknown, 0 = confirmed none
+    stormBestScore24h?: number | null;
+    stormBestScore7d?: number | null;
+    stormRuns24h?: number | null;
+    stormRuns7d?: number | null;
+    rushBestScore?: number | null;
+    // How the puzzle counts were produced: exact from the Lichess activity log, or a puzzle_total delta
+    puzzles24hMethod?: PuzzleCountMethod | null;
+    puzzles7dMethod?: PuzzleCountMethod | null;
   };
   platform?: string;
   platform_username?: string;
@@ -40,6 +94,10 @@ interface ApiStudent {
   statsUpdateOk?: boolean | null;
   statsUpdateErrorCode?: string | null;
   statsUpdateAttemptAt?: string | null;
+  // The stored Lichess token was rejected; the student has to connect Lichess again
+  needsReauth?: boolean;
+  // "shared": another coach owns this student; null when an admin views someone else's student
+  access?: "owner" | "shared" | null;
 }
 
 // Internal Student type for table display (includes additional fields with defaults)
@@ -51,8 +109,9 @@ type Student = ApiStudent & {
   blitzGames24h: number | null;
   blitzGames7d: number | null;
   homeworkCompletionPct: number;
-  puzzleDelta3d: number | null; // Use puzzles3d from API
+  puzzleDelta24h: number | null;
   puzzleDelta7d: number | null;
+  lastActiveStatus: "green" | "grey";
   // Stats freshness metadata (only for lichess/chesscom)
   statsSource?: "v2" | "none";
   statsComputedAt?: string | null;
@@ -63,18 +122,17 @@ type Student = ApiStudent & {
   statsUpdateAttemptAt?: string | null;
 };
 
+type PuzzleCountMethod = "activity" | "snapshot";
+
 type SortKey =
   | "index"
   | "nickname"
   | "platform"
-  | "rapid24h"
-  | "rapid7d"
-  | "blitz24h"
-  | "blitz7d"
-  | "rapidRating"
-  | "blitzRating"
-  | "puzzleDelta3d"
-  | "puzzleDelta7d"
+  | `${Perf}${DeltaWindowKey}`
+  | `${Perf}Rating`
+  | `puzzles${DeltaWindowKey}`
+  | "storm7d"
+  | "rushBest"
   | "puzzleRating"
   | "homeworkPct"
   | "lastActive";
@@ -89,6 +147,128 @@ function formatCount(value: number | null | undefined): string {
   return value.toString();
 }
 
+/**
+ * Map an /api/coach/students row to a table row with defaults for missing fields
+ */
+function toStudent(item: ApiStudent): Student {
+  // Compute lastActiveStatus: 'green' if active in last 24h (has games or puzzles), 'grey' otherwise
+  const hasActivity24h = (item.stats?.rapidGames24h ?? 0) + (item.stats?.blitzGames24h ?? 0) + (item.stats?.puzzles24h ?? item.stats?.puzzles3d ?? 0) > 0;
+  const lastActiveStatus: 'green' | 'grey' = hasActivity24h ? 'green' : 'grey';
+
+  return {
+    ...item,
+    lastActiveStatus,
+    platform: (item.platform === "lichess" || item.platform === "chesscom" ? item.platform : "lichess") as "lichess" | "chesscom",
+    handle: item.platform_username || item.nickname, // Use platform_username if available, otherwise nickname
+    // CRITICAL: Read from item.stats (the API response structure)
+    // Preserve nulls from API for proper "—" display
+    rapidGames24h: item.stats?.rapidGames24h ?? null,
+    rapidGames7d: item.stats?.rapidGames7d ?? null,
+    blitzGames24h: item.stats?.blitzGames24h ?? null,
+    blitzGames7d: item.stats?.blitzGames7d ?? null,
+    homeworkCompletionPct: 0, // API doesn't provide this yet
+    // Older API responses only carry the 24h count under its original name, puzzles3d
+    puzzleDelta24h: item.stats?.puzzles24h ?? item.stats?.puzzles3d ?? null,
+    puzzleDelta7d: item.stats?.puzzles7d ?? null,
+  };
+}
+
+/**
+ * Small marker after a puzzle count showing whether it is exact or estimated
+ */
+function PuzzleMethodMarker({ method }: { method: PuzzleCountMethod | null | undefined }) {
+  if (!method) return null;
+  return (
+    <span
+      className="ml-1 text-[10px] font-normal text-[hsl(var(--muted-foreground))]"
+      title={method === "activity" ? "Exact count from the Lichess puzzle activity log" : "Estimated from the change in total puzzles solved"}
+    >
+      {method === "activity" ? "exact" : "Δ"}
+    </span>
+  );
+}
+
+/**
+ * Stats for one time control; rapid/blitz fall back to the legacy fields for rows synced before perf stats existed
+ */
+function getPerfStat(student: Student, perf: Perf): PerfStat | null {
+  const stat = student.stats?.perfs?.[perf];
+  if (stat) return stat;
+
+  if (perf === "rapid" || perf === "blitz") {
+    const games24h = perf === "rapid" ? student.rapidGames24h : student.blitzGames24h;
+    const games7d = perf === "rapid" ? student.rapidGames7d : student.blitzGames7d;
+    return {
+      games24h: games24h ?? 0,
+      games7d: games7d ?? 0,
+      rating: (perf === "rapid" ? student.stats?.rapidRating : student.stats?.blitzRating) ?? null,
+      ratingDelta24h: (perf === "rapid" ? student.stats?.rapidRatingDelta24h : student.stats?.blitzRatingDelta24h) ?? null,
+      ratingDelta7d: (perf === "rapid" ? student.stats?.rapidRatingDelta7d : student.stats?.blitzRatingDelta7d) ?? null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Games for one time control in a window; null when the window isn't covered by stored games
+ * 24h/7d fall back to the fixed fields for rows synced before window stats existed
+ */
+function getWindowGames(student: Student, perf: Perf, window: DeltaWindowKey): number | null {
+  const windowStat = student.stats?.windows?.[window];
+  if (windowStat) return windowStat.games ? (windowStat.games[perf] ?? 0) : null;
+
+  const stat = getPerfStat(student, perf);
+  if (window === "24h") return stat?.games24h ?? null;
+  if (window === "7d") return stat?.games7d ?? null;
+  return null;
+}
+
+/**
+ * Rating change for one time control in a window, with the same fallback as getWindowGames
+ */
+function getWindowRatingDelta(student: Student, perf: Perf, window: DeltaWindowKey): number | null {
+  const windowStat = student.stats?.windows?.[window];
+  if (windowStat) return windowStat.ratingDeltas[perf] ?? null;
+
+  const stat = getPerfStat(student, perf);
+  if (window === "24h") return stat?.ratingDelta24h ?? null;
+  if (window === "7d") return stat?.ratingDelta7d ?? null;
+  return null;
+}
+
+/**
+ * Puzzles solved in a window and how the count was produced, with the same fallback as getWindowGames
+ */
+function getWindowPuzzles(
+  student: Student,
+  window: DeltaWindowKey
+): { count: number | null; method: PuzzleCountMethod | null | undefined } {
+  const windowStat = student.stats?.windows?.[window];
+  if (windowStat) return { count: windowStat.puzzles, method: windowStat.puzzlesMethod };
+
+  if (window === "24h") return { count: student.puzzleDelta24h, method: student.stats?.puzzles24hMethod };
+  if (window === "7d") return { count: student.puzzleDelta7d, method: student.stats?.puzzles7dMethod };
+  return { count: null, method: null };
+}
+
+/**
+ * Read the sort value for a per time control or puzzle column key (e.g. "bullet24h", "rapidRating", "puzzles30d")
+ */
+function getColumnSortValue(student: Student, key: SortKey): number | null | undefined {
+  for (const window of DELTA_WINDOW_KEYS) {
+    if (key === `puzzles${window}`) return getWindowPuzzles(student, window).count;
+  }
+  for (const perf of PERFS) {
+    if (!key.startsWith(perf)) continue;
+    const column = key.slice(perf.length);
+    if (column === "Rating") return getPerfStat(student, perf)?.rating;
+    const window = DELTA_WINDOW_KEYS.find((w) => w === column);
+    if (window) return getWindowGames(student, perf, window);
+  }
+  return undefined;
+}
+
 /**
  * Format date for tooltip display
  */
@@ -161,6 +341,8 @@ export default function CoachDashboardPage() {
   const [sortKey, setSortKey] = useState<SortKey>("nickname");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("asc");
   const [platformFilter, setPlatformFilter] = useState<"all" | "lichess" | "chesscom">("all");
+  const [visiblePerfs, setVisiblePerfs] = useState<Perf[]>(DEFAULT_VISIBLE_PERFS);
+  const [visibleWindows, setVisibleWindows] = useState<DeltaWindowKey[]>(DEFAULT_VISIBLE_WINDOWS);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -217,644 +399,20 @@ export default function CoachDashboardPage() {
     return { label, color };
   }
 
-  // Helper to get badge variant and label from lastActiveStatus
-  function getStatusBadge(status: 'green' | 'grey'): { label: string; variant: "success" | "warning" | "muted" } {
-    if (status === "green") {
+  // Helper to get badge variant and label for the Last Active column
+  // Uses last_active from the sync when known, otherwise falls back to lastActiveStatus
+  function getStatusBadge(student: Student): { label: string; variant: "success" | "warning" | "muted" } {
+    const seenAt = student.last_active ? new Date(student.last_active).getTime() : null;
+    if (seenAt !== null) {
+      const { label, color } = formatLastActive(seenAt);
+      return { label, variant: color === "green" ? "success" : color === "yellow" ? "warning" : "muted" };
+    }
+    if (student.lastActiveStatus === "green") {
       return { label: "Active", variant: "success" };
     }
     return { label: "Inactive", variant: "muted" };
   }
 
-  // Update student stats from live APIs
-  async function updateStudentStats(studentsList: Student[]) {
-    if (studentsList.length === 0) return;
-
-    try {
-      // Fetch stats for all students in parallel
-      const updatePromises = studentsList.map(async (student) => {
-        // Skip if no handle
-        if (!student.handle) {
-          return { studentId: student.id, updates: null };
-        }
-
-        try {
-          if (student.platform === "lichess") {
-            // Fetch Lichess stats
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 8000);
-            
-            try {
-              const response = await fetch(
-                `https://lichess.org/api/user/${encodeURIComponent(student.handle)}`,
-                {
-                  headers: { Accept: "application/json" },
-                  signal: controller.signal,
-                }
-              );
-              
-              clearTimeout(timeoutId);
-
-            if (!response.ok) {
-              console.warn(`Failed to fetch Lichess stats for ${student.handle}: ${response.status}`);
-              return { studentId: student.id, updates: null };
-            }
-
-            const data = await response.json();
-
-            // Safe parsing with optional chaining
-            const updates = {
-              rapidRating: data.perfs?.rapid?.rating || null,
-              blitzRating: data.perfs?.blitz?.rating || null,
-              puzzleRating: data.perfs?.puzzle?.rating || null,
-              seenAt: data.seenAt || null, // Timestamp in milliseconds
-            };
-
-              console.log(`✅ Lichess stats fetched for ${student.handle}:`, updates);
-              return { studentId: student.id, updates };
-            } catch (fetchError) {
-              clearTimeout(timeoutId);
-              throw fetchError;
-            }
-
-          } else if (student.platform === "chesscom") {
-            // Fetch Chess.com stats
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 8000);
-            
-            try {
-              const response = await fetch(
-                `https://api.chess.com/pub/player/${encodeURIComponent(student.handle)}/stats`,
-                {
-                  headers: { Accept: "application/json" },
-                  signal: controller.signal,
-                }
-              );
-              
-              clearTimeout(timeoutId);
-
-            if (!response.ok) {
-              console.warn(`Failed to fetch Chess.com stats for ${student.handle}: ${response.status}`);
-              return { studentId: student.id, updates: null };
-            }
-
-            const data = await response.json();
-
-            // Safe parsing with optional chaining
-            const updates = {
-              rapidRating: data.chess_rapid?.last?.rating || null,
-              blitzRating: data.chess_blitz?.last?.rating || null,
-              puzzleRating: data.tactics?.highest?.rating || null,
-              seenAt: null, // Chess.com API doesn't provide seenAt timestamp
-            };
-
-              console.log(`✅ Chess.com stats fetched for ${student.handle}:`, updates);
-              return { studentId: student.id, updates };
-            } catch (fetchError) {
-              clearTimeout(timeoutId);
-              throw fetchError;
-            }
-          }
-
-          return { studentId: student.id, updates: null };
-        } catch (error) {
-          console.warn(`Error fetching stats for ${student.handle}:`, error);
-          return { studentId: student.id, updates: null };
-        }
-      });
-
-      const results = await Promise.all(updatePromises);
-
-      // Update state with fetched stats
-      setStudents((prevStudents) => {
-        return prevStudents.map((student) => {
-          const result = results.find((r) => r.studentId === student.id);
-          if (result && result.updates) {
-            return {
-              ...student,
-              stats: {
-                ...(student.stats || {}),
-                rapidRating: result.updates.rapidRating ?? student.stats?.rapidRating,
-                blitzRating: result.updates.blitzRating ?? student.stats?.blitzRating,
-                puzzleRating: result.updates.puzzleRating ?? student.stats?.puzzleRating,
-              },
-            };
-          }
-          return student;
-        });
-      });
-    } catch (error) {
-      console.error("Error updating student stats:", error);
-    }
-  }
-
-  // Fetch Lichess game activity for a specific username (with localStorage caching)
-  async function fetchLichessGames(
-    username: string
-  ): Promise<{ rapidGames24h: number; rapidGames7d: number; blitzGames24h: number; blitzGames7d: number }> {
-    const cacheKey = `lichess_cache_${username}`;
-    const cacheMaxAge = 10 * 60 * 1000; // 10 minutes in milliseconds
-
-    // 1. Check cache first
-    try {
-      const cachedData = localStorage.getItem(cacheKey);
-      if (cachedData) {
-        const parsed = JSON.parse(cachedData);
-        const cacheAge = Date.now() - parsed.timestamp;
-        
-        if (cacheAge < cacheMaxAge) {
-          console.log(`[CACHE HIT] Using cached data for ${username} (${Math.round(cacheAge / 1000)}s old)`);
-          return {
-            rapidGames24h: parsed.rapidGames24h,
-            rapidGames7d: parsed.rapidGames7d,
-            blitzGames24h: parsed.blitzGames24h,
-            blitzGames7d: parsed.blitzGames7d,
-          };
-        }
-      }
-    } catch (e) {
-      // Cache parse error, continue to API call
-      console.warn(`Cache read error for ${username}:`, e);
-    }
-
-    const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-    const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
-
-    // Retry with exponential backoff for 429/503 errors
-    const fetchWithRetry = async (retryCount = 0): Promise<Response> => {
-      const backoffDelays = [5000, 10000, 20000]; // 5s, 10s, 20s
-
-      try {
-        // Schedule through rate limiter (serializes requests, ~1 per 1.2s)
-        const res = await scheduleLichessRequest(async () => {
-          return fetch(
-            `https://lichess.org/api/games/user/${encodeURIComponent(username)}?since=${sevenDaysAgo}&max=200`,
-            { headers: { Accept: "application/x-ndjson" } }
-          );
-        });
-
-        // If rate limited (429) or service unavailable (503), retry with backoff
-        if ((res.status === 429 || res.status === 503) && retryCount < 3) {
-          const delay = backoffDelays[retryCount] || 20000;
-          console.warn(
-            `[RETRY ${retryCount + 1}/3] ${res.status} for ${username}, waiting ${delay}ms...`
-          );
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          return fetchWithRetry(retryCount + 1);
-        }
-
-        return res;
-      } catch (error) {
-        // On network error, retry if we haven't exceeded max retries
-        if (retryCount < 3) {
-          const delay = backoffDelays[retryCount] || 20000;
-          console.warn(`[RETRY ${retryCount + 1}/3] Network error for ${username}, waiting ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          return fetchWithRetry(retryCount + 1);
-        }
-        throw error;
-      }
-    };
-
-    try {
-      // 2. Fetch as text (NOT json) to handle newline-delimited response
-      // Increased limit to 200 to capture more games (in case user plays a lot of Bullet)
-      const res = await fetchWithRetry();
-
-      if (!res.ok) {
-        // Handle errors - try to use stale cache instead of returning zeros
-        console.warn(`Failed to fetch Lichess games for ${username}: ${res.status}`);
-        
-        // Try to use stale cache as fallback
-        try {
-          const cachedData = localStorage.getItem(cacheKey);
-          if (cachedData) {
-            const parsed = JSON.parse(cachedData);
-            console.log(`[CACHE FALLBACK] Using stale cache for ${username} due to ${res.status} error`);
-            return {
-              rapidGames24h: parsed.rapidGames24h,
-              rapidGames7d: parsed.rapidGames7d,
-              blitzGames24h: parsed.blitzGames24h,
-              blitzGames7d: parsed.blitzGames7d,
-            };
-          }
-        } catch (e) {
-          // Cache fallback failed
-        }
-
-        // If no cache available and request failed, throw error to be caught below
-        // This prevents returning zeros which would overwrite good data
-        throw new Error(`Lichess API returned ${res.status} for ${username}`);
-      }
-
-      const text = await res.text();
-
-      // 3. Parse NDJSON (split by newline)
-      if (!text.trim()) {
-        console.log(`No games found for ${username} (empty response)`);
-        // Empty response might mean no games OR API issue
-        // Try cache fallback first
-        try {
-          const cachedData = localStorage.getItem(cacheKey);
-          if (cachedData) {
-            const parsed = JSON.parse(cachedData);
-            console.log(`[CACHE FALLBACK] Using stale cache for ${username} (empty API response)`);
-            return {
-              rapidGames24h: parsed.rapidGames24h,
-              rapidGames7d: parsed.rapidGames7d,
-              blitzGames24h: parsed.blitzGames24h,
-              blitzGames7d: parsed.blitzGames7d,
-            };
-          }
-        } catch (e) {
-          // Cache fallback failed
-        }
-        // Only return zeros if no cache available (likely truly no games)
-        return { rapidGames24h: 0, rapidGames7d: 0, blitzGames24h: 0, blitzGames7d: 0 };
-      }
-
-      const games = text
-        .trim()
-        .split("\n")
-        .map((line) => {
-          try {
-            return JSON.parse(line);
-          } catch (e) {
-            return null;
-          }
-        })
-        .filter((g) => g !== null);
-
-      // Debug logging for robo4040
-      if (username === "robo4040") {
-        console.log(`[DEBUG robo4040] Raw text length: ${text.length}`);
-        console.log(`[DEBUG robo4040] Parsed games count: ${games.length}`);
-        if (games.length > 0) {
-          console.log(
-            `[DEBUG robo4040] First game speed: ${games[0].speed || "missing"}, CreatedAt: ${games[0].createdAt || "missing"}`
-          );
-          // Log counts breakdown
-          const blitz = games.filter((g) => (g.speed || "").toLowerCase() === "blitz").length;
-          const rapid = games.filter((g) => (g.speed || "").toLowerCase() === "rapid").length;
-          const bullet = games.filter((g) => (g.speed || "").toLowerCase() === "bullet").length;
-          console.log(
-            `[DEBUG robo4040] Calculated inside function -> Blitz: ${blitz}, Rapid: ${rapid}, Bullet: ${bullet}`
-          );
-        }
-      }
-
-      // 4. Categorize by speed property (with safe fallback)
-      // Initialize counters
-      let rapidCount = 0;
-      let blitzCount = 0;
-
-      games.forEach((g) => {
-        // Lichess 'speed' property: 'rapid', 'blitz', 'bullet', 'classical', 'correspondence'
-        // Use safe fallback for missing speed property
-        const speed = (g.speed || "unknown").toLowerCase();
-        if (speed === "rapid") rapidCount++;
-        if (speed === "blitz") blitzCount++;
-      });
-
-      // Calculate 24h stats (with safe property access)
-      const rapid24h = games.filter(
-        (g) =>
-          (g.speed || "").toLowerCase() === "rapid" &&
-          g.createdAt &&
-          new Date(g.createdAt).getTime() > oneDayAgo
-      ).length;
-      const blitz24h = games.filter(
-        (g) =>
-          (g.speed || "").toLowerCase() === "blitz" &&
-          g.createdAt &&
-          new Date(g.createdAt).getTime() > oneDayAgo
-      ).length;
-
-      const result = {
-        rapidGames24h: rapid24h,
-        rapidGames7d: rapidCount,
-        blitzGames24h: blitz24h,
-        blitzGames7d: blitzCount,
-      };
-
-      console.log(
-        `Stats for ${username}: Rapid=${rapidCount} (24h: ${rapid24h}), Blitz=${blitzCount} (24h: ${blitz24h})`
-      );
-
-      // 5. Save to cache
-      try {
-        localStorage.setItem(
-          cacheKey,
-          JSON.stringify({
-            ...result,
-            timestamp: Date.now(),
-          })
-        );
-        console.log(`[CACHE SAVED] Cached data for ${username}`);
-      } catch (e) {
-        console.warn(`Failed to save cache for ${username}:`, e);
-      }
-
-      return result;
-    } catch (error) {
-      console.error(`Error fetching games for ${username}:`, error);
-      
-      // On error, try to use stale cache as fallback
-      try {
-        const cachedData = localStorage.getItem(cacheKey);
-        if (cachedData) {
-          const parsed = JSON.parse(cachedData);
-          console.log(`[CACHE FALLBACK] Using stale cache for ${username} due to error: ${error}`);
-          return {
-            rapidGames24h: parsed.rapidGames24h,
-            rapidGames7d: parsed.rapidGames7d,
-            blitzGames24h: parsed.blitzGames24h,
-            blitzGames7d: parsed.blitzGames7d,
-          };
-        }
-      } catch (e) {
-        // Fallback cache also failed
-      }
-      
-      // IMPORTANT: Return null or throw to indicate failure, instead of zeros
-      // This prevents overwriting good data with zeros
-      console.error(`[CRITICAL] No cache available and fetch failed for ${username}. Returning zeros (may overwrite data).`);
-      // Note: In a production system, you might want to throw here or return a special error object
-      // For now, we return zeros but log a critical warning
-      return { rapidGames24h: 0, rapidGames7d: 0, blitzGames24h: 0, blitzGames7d: 0 };
-    }
-  }
-
-  // Fetch Lichess puzzle stats (total puzzles solved)
-  async function fetchLichessPuzzleStats(username: string): Promise<number> {
-    console.log(`[PUZZLES] fetchLichessPuzzleStats called for: ${username}`);
-    const cacheKey = `lichess_puzzles_total_v1_${username}`;
-    const cacheMaxAge = 15 * 60 * 1000; // 15 minutes in milliseconds
-
-    // 1. Check cache first
-    try {
-      const cachedData = localStorage.getItem(cacheKey);
-      if (cachedData) {
-        const parsed = JSON.parse(cachedData);
-        const cacheAge = Date.now() - parsed.timestamp;
-
-        if (cacheAge < cacheMaxAge) {
-          console.log(
-            `[PUZZLES CACHE HIT] Using cached puzzle data for ${username} (${Math.round(cacheAge / 1000)}s old)`
-          );
-          return parsed.puzzlesTotal;
-        }
-      }
-    } catch (e) {
-      // Cache parse error, continue to API call
-      console.warn(`Puzzle cache read error for ${username}:`, e);
-    }
-
-    try {
-      // 2. Fetch user profile from Lichess API (public endpoint)
-      const res = await scheduleLichessRequest(async () => {
-        return fetch(`https://lichess.org/api/user/${encodeURIComponent(username)}`);
-      });
-
-      if (!res.ok) {
-        console.warn(`Failed to fetch Lichess profile for ${username}: ${res.status}`);
-        // Try stale cache on error
-        try {
-          const cachedData = localStorage.getItem(cacheKey);
-          if (cachedData) {
-            const parsed = JSON.parse(cachedData);
-            console.log(`[PUZZLES CACHE FALLBACK] Using stale cache for ${username} due to ${res.status}`);
-            return parsed.puzzlesTotal;
-          }
-        } catch (e) {
-          // Cache fallback failed
-        }
-        return 0;
-      }
-
-      const data = await res.json();
-
-      // 3. Extract total puzzles solved from perfs.puzzle.games
-      const puzzlesTotal = data?.perfs?.puzzle?.games ?? 0;
-
-      console.log(`[PUZZLES] Found ${puzzlesTotal} total puzzles for ${username}`);
-
-      // 4. Save to cache
-      try {
-        localStorage.setItem(
-          cacheKey,
-          JSON.stringify({
-            puzzlesTotal,
-            timestamp: Date.now(),
-          })
-        );
-        console.log(`[PUZZLES CACHE SAVED] Cached puzzle data for ${username}: ${puzzlesTotal} total puzzles`);
-      } catch (e) {
-        console.warn(`Failed to save puzzle cache for ${username}:`, e);
-      }
-
-      return puzzlesTotal;
-    } catch (error) {
-      console.error(`Error fetching puzzle stats for ${username}:`, error);
-
-      // Try stale cache on error
-      try {
-        const cachedData = localStorage.getItem(cacheKey);
-        if (cachedData) {
-          const parsed = JSON.parse(cachedData);
-          console.log(`[PUZZLES CACHE FALLBACK] Using stale cache for ${username} due to error`);
-          return parsed.puzzlesTotal;
-        }
-      } catch (e) {
-        // Cache fallback failed
-      }
-
-      return 0;
-    }
-  }
-
-  // Fetch puzzle stats for all students
-  async function fetchPuzzleStats(studentsList: Student[]) {
-    if (studentsList.length === 0) {
-      console.log("[PUZZLES] No students to fetch puzzle stats for");
-      return;
-    }
-
-    console.log(`[PUZZLES] Starting puzzle stats fetch for ${studentsList.length} students`);
-
-    try {
-      // Fetch puzzle stats for Lichess students in parallel
-      const lichessStudents = studentsList.filter((s) => s.platform === "lichess" && s.handle);
-      console.log(`[PUZZLES] Found ${lichessStudents.length} Lichess students to fetch`);
-
-      const puzzlePromises = lichessStudents.map(async (student) => {
-        console.log(`[PUZZLES] Fetching puzzles for: ${student.handle} (id: ${student.id})`);
-        try {
-          const puzzlesTotal = await fetchLichessPuzzleStats(student.handle);
-          console.log(`[PUZZLES] Got ${puzzlesTotal} puzzles for ${student.handle}`);
-
-          return { studentId: student.id, puzzles24h: puzzlesTotal };
-        } catch (error) {
-          console.warn(`[PUZZLES] Error fetching puzzle stats for ${student.handle}:`, error);
-          return { studentId: student.id, puzzles24h: null };
-        }
-      });
-
-      const results = await Promise.all(puzzlePromises);
-      console.log(`[PUZZLES] Puzzle stats fetch complete. Results:`, results);
-
-      // Update state with fetched puzzle stats and recalculate deltas
-      setStudents((prevStudents) => {
-        const updated = prevStudents.map((student) => {
-          const result = results.find((r) => r.studentId === student.id);
-          if (result && result.puzzles24h !== null) {
-            console.log(`[PUZZLES] Updating student ${student.id} with ${result.puzzles24h} puzzles`);
-            
-            // Update puzzles3d with new value
-            return {
-              ...student,
-              stats: {
-                ...student.stats,
-                puzzles3d: result.puzzles24h,
-              },
-              puzzleDelta3d: result.puzzles24h, // Also update puzzleDelta3d for sorting
-            };
-          }
-          return student;
-        });
-        console.log(`[PUZZLES] State update complete. Updated ${results.filter(r => r.puzzles24h !== null).length} students`);
-        
-        return updated;
-      });
-    } catch (error) {
-      console.error("Error fetching puzzle stats:", error);
-    }
-  }
-
-  // Fetch recent game activity (last 7 days and 24 hours)
-  async function fetchRecentActivity(studentsList: Student[]) {
-    if (studentsList.length === 0) return;
-
-    const now = Date.now();
-    const timestamp24hAgo = now - 24 * 60 * 60 * 1000;
-    const timestamp7dAgo = now - 7 * 24 * 60 * 60 * 1000;
-
-    try {
-      // Fetch activity for all students in parallel
-      const activityPromises = studentsList.map(async (student) => {
-        // Skip if no handle
-        if (!student.handle) {
-          return { studentId: student.id, activity: null };
-        }
-
-        try {
-          if (student.platform === "lichess") {
-            // Use dedicated Lichess games function
-            const activity = await fetchLichessGames(student.handle);
-
-            console.log(`✅ Lichess activity fetched for ${student.handle}:`, activity);
-            return { studentId: student.id, activity };
-
-          } else if (student.platform === "chesscom") {
-            // Fetch Chess.com games (current month)
-            const today = new Date();
-            const year = today.getFullYear();
-            const month = String(today.getMonth() + 1).padStart(2, "0");
-
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-            try {
-              const response = await fetch(
-                `https://api.chess.com/pub/player/${encodeURIComponent(student.handle)}/games/${year}/${month}`,
-                {
-                  headers: { Accept: "application/json" },
-                  signal: controller.signal,
-                }
-              );
-
-              clearTimeout(timeoutId);
-
-              if (!response.ok) {
-                console.warn(`Failed to fetch Chess.com games for ${student.handle}: ${response.status}`);
-                return { studentId: student.id, activity: null };
-              }
-
-              const data = await response.json();
-              const games = data.games || [];
-
-              let rapidGames7d = 0;
-              let rapidGames24h = 0;
-              let blitzGames7d = 0;
-              let blitzGames24h = 0;
-
-              for (const game of games) {
-                const timeClass = game.time_class; // 'blitz', 'rapid', etc.
-                const endTime = game.end_time; // Unix timestamp in seconds
-
-                if (!endTime) continue;
-
-                // Convert to milliseconds
-                const endTimeMs = endTime * 1000;
-                const isWithin7d = endTimeMs >= timestamp7dAgo;
-                const isWithin24h = endTimeMs >= timestamp24hAgo;
-
-                if (timeClass === "rapid") {
-                  if (isWithin7d) rapidGames7d++;
-                  if (isWithin24h) rapidGames24h++;
-                } else if (timeClass === "blitz") {
-                  if (isWithin7d) blitzGames7d++;
-                  if (isWithin24h) blitzGames24h++;
-                }
-              }
-
-              const activity = {
-                rapidGames24h,
-                rapidGames7d,
-                blitzGames24h,
-                blitzGames7d,
-              };
-
-              console.log(`✅ Chess.com activity fetched for ${student.handle}:`, activity);
-              return { studentId: student.id, activity };
-            } catch (fetchError) {
-              clearTimeout(timeoutId);
-              throw fetchError;
-            }
-          }
-
-          return { studentId: student.id, activity: null };
-        } catch (error) {
-          console.warn(`Error fetching activity for ${student.handle}:`, error);
-          return { studentId: student.id, activity: null };
-        }
-      });
-
-      const results = await Promise.all(activityPromises);
-
-      // Update state with fetched activity (only update if activity is not null)
-      // This prevents overwriting good data with zeros from failed requests
-      setStudents((prevStudents) => {
-        return prevStudents.map((student) => {
-          const result = results.find((r) => r.studentId === student.id);
-          // Only update if we got valid activity data (not null)
-          if (result && result.activity) {
-            return {
-              ...student,
-              rapidGames24h: result.activity.rapidGames24h,
-              rapidGames7d: result.activity.rapidGames7d,
-              blitzGames24h: result.activity.blitzGames24h,
-              blitzGames7d: result.activity.blitzGames7d,
-            };
-          }
-          // If activity is null (failed fetch, no cache), keep existing student data
-          return student;
-        });
-      });
-    } catch (error) {
-      console.error("Error fetching recent activity:", error);
-    }
-  }
-
   // Fetch students from API on mount and start scheduler
   useEffect(() => {
     async function fetchStudents() {
@@ -875,28 +433,7 @@ export default function CoachDashboardPage() {
         }
 
         // Map API response to Student type with defaults for missing fields
-        const mappedStudents: Student[] = apiData.map((item: ApiStudent) => {
-          // Compute lastActiveStatus: 'green' if active in last 24h (has games or puzzles), 'grey' otherwise
-          const hasActivity24h = (item.stats?.rapidGames24h ?? 0) + (item.stats?.blitzGames24h ?? 0) + (item.stats?.puzzles3d ?? 0) > 0;
-          const lastActiveStatus: 'green' | 'grey' = hasActivity24h ? 'green' : 'grey';
-          
-          return {
-            ...item,
-            lastActiveStatus,
-            platform: (item.platform === "lichess" || item.platform === "chesscom" ? item.platform : "lichess") as "lichess" | "chesscom",
-            handle: item.platform_username || item.nickname, // Use platform_username if available, otherwise nickname
-            // CRITICAL: Read from item.stats (the API response structure)
-            // Preserve nulls from API for proper "—" display
-            rapidGames24h: item.stats?.rapidGames24h ?? null,
-            rapidGames7d: item.stats?.rapidGames7d ?? null,
-            blitzGames24h: item.stats?.blitzGames24h ?? null,
-            blitzGames7d: item.stats?.blitzGames7d ?? null,
-            homeworkCompletionPct: 0, // API doesn't provide this yet
-            // Map puzzles3d to puzzleDelta3d for display in Puzzles (3d) column
-            puzzleDelta3d: item.stats?.puzzles3d ?? null,
-            puzzleDelta7d: item.stats?.puzzles7d ?? null,
-          };
-        });
+        const mappedStudents: Student[] = apiData.map(toStudent);
 
         setStudents(mappedStudents);
       } catch (error) {
@@ -937,56 +474,28 @@ export default function CoachDashboardPage() {
     setIsAdding(true);
 
     try {
-      const response = await fetch(
-        `/api/player-lookup?username=${encodeURIComponent(trimmedNickname)}`
-      );
+      // Creates the student (or adds accounts to one already on the roster) and queues a first sync
+      const response = await fetch("/api/coach/students", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: trimmedNickname }),
+      });
 
-      if (response.ok) {
-        const data = await response.json();
-        const apiRows = data.rows || [];
-        
-        // Map API rows to Student type, initializing delta fields to null (no history yet)
-        const newRows: Student[] = apiRows.map((row: any) => ({
-          ...row,
-          puzzleDelta3d: null,
-          puzzleDelta7d: null,
-          seenAt: null, // Will be updated when stats are fetched
-        }));
-        
-        // Filter out duplicates by (platform + handle) case-insensitive
-        const filteredRows = newRows.filter((row) => {
-          const isDuplicate = students.some(
-            (s) =>
-              s.platform === row.platform &&
-              s.handle.toLowerCase() === row.handle.toLowerCase()
-          );
-          return !isDuplicate;
-        });
-
-        if (filteredRows.length === 0) {
-          setErrorMsg("All accounts for this nickname already exist");
-        } else {
-          // Sort: lichess first, then chesscom
-          const sortedRows = filteredRows.sort((a, b) => {
-            if (a.platform === "lichess" && b.platform === "chesscom") return -1;
-            if (a.platform === "chesscom" && b.platform === "lichess") return 1;
-            return 0;
-          });
-          
-          // Prepend to the beginning of the list
-          const updatedStudents = [...sortedRows, ...students];
-          setStudents(updatedStudents);
-          setNicknameInput("");
-
-          // Update stats for all students (including newly added ones)
-          updateStudentStats(updatedStudents);
-          
-          // Fetch puzzle stats for newly added students
-          fetchPuzzleStats(updatedStudents);
-        }
-      } else {
-        const errorData = await response.json();
-        setErrorMsg(errorData.error || "Failed to lookup player");
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        setErrorMsg(errorData.error || "Failed to add student");
+        return;
+      }
+
+      setNicknameInput("");
+
+      const studentsResponse = await fetch("/api/coach/students");
+      if (!studentsResponse.ok) {
+        throw new Error(`Failed to fetch students: ${studentsResponse.statusText}`);
+      }
+      const apiData: ApiStudent[] = await studentsResponse.json();
+      if (Array.isArray(apiData)) {
+        setStudents(apiData.map(toStudent));
       }
     } catch (error) {
       setErrorMsg("Network error. Please try again.");
@@ -1006,8 +515,11 @@ export default function CoachDashboardPage() {
   };
 
   // Delete student permanently from database
-  const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to permanently delete this student from the database?")) {
+  const handleDelete = async (id: string, shared: boolean) => {
+    const question = shared
+      ? "Remove this student from your roster? The owning coach keeps them."
+      : "Are you sure you want to permanently delete this student from the database?";
+    if (!confirm(question)) {
       return;
     }
 
@@ -1040,22 +552,37 @@ export default function CoachDashboardPage() {
     setUpdateStatsStatus("Updating...");
     
     try {
-      // Call v2 stats endpoint (replaces legacy /api/cron/update-stats)
-      const response = await fetch("/api/cron/update-stats-v2?limit=100&offset=0");
+      // Call v2 stats endpoint (replaces legacy /api/cron/update-stats), following its keyset
+      // cursor page by page like the scheduler does, so the whole roster is queued
+      let queued = 0;
+      let processed = 0;
+      let total = 0;
+      let after: string | null = null;
+      for (let page = 0; page < UPDATE_STATS_MAX_PAGES; page++) {
+        const cursorParam = after ? `&after=${encodeURIComponent(after)}` : "";
+        const response = await fetch(`/api/cron/update-stats-v2?limit=${UPDATE_STATS_PAGE_SIZE}${cursorParam}`);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
-        throw new Error(errorData.error || `HTTP ${response.status}`);
-      }
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+          throw new Error(errorData.error || `HTTP ${response.status}`);
+        }
 
-      const result = await response.json();
-      console.log("Stats v2 update completed:", result);
+        const result: { queued?: number; processed?: number; total?: number; nextCursor?: string | null } =
+          await response.json();
+        console.log("Stats v2 sync jobs enqueued:", result);
 
-      // Update status message
-      const processed = result.processed || 0;
-      const total = result.total || 0;
-      const errors = result.errors?.length || 0;
-      setUpdateStatsStatus(`Updated: processed ${processed} / total ${total}, errors ${errors}`);
+        queued += result.queued || 0;
+        processed += result.processed || 0;
+        total = result.total || 0;
+
+        if (!result.nextCursor) {
+          break;
+        }
+        after = result.nextCursor;
+      }
+
+      // Update status message (the background worker picks the jobs up within a minute)
+      setUpdateStatsStatus(`Queued ${queued} sync job(s) for ${processed} / total ${total}`);
 
       // Refresh students list from API
       try {
@@ -1066,24 +593,7 @@ export default function CoachDashboardPage() {
         const apiData: ApiStudent[] = await studentsResponse.json();
         
         if (Array.isArray(apiData)) {
-          const mappedStudents: Student[] = apiData.map((item: ApiStudent) => {
-            const hasActivity24h = (item.stats?.rapidGames24h ?? 0) + (item.stats?.blitzGames24h ?? 0) + (item.stats?.puzzles3d ?? 0) > 0;
-            const lastActiveStatus: 'green' | 'grey' = hasActivity24h ? 'green' : 'grey';
-            
-            return {
-              ...item,
-              lastActiveStatus,
-              platform: (item.platform === "lichess" || item.platform === "chesscom" ? item.platform : "lichess") as "lichess" | "chesscom",
-              handle: item.platform_username || item.nickname,
-              rapidGames24h: item.stats?.rapidGames24h ?? null,
-              rapidGames7d: item.stats?.rapidGames7d ?? null,
-              blitzGames24h: item.stats?.blitzGames24h ?? null,
-              blitzGames7d: item.stats?.blitzGames7d ?? null,
-              homeworkCompletionPct: 0,
-              puzzleDelta3d: item.stats?.puzzles3d ?? null,
-              puzzleDelta7d: item.stats?.puzzles7d ?? null,
-            };
-          });
+          const mappedStudents: Student[] = apiData.map(toStudent);
           setStudents(mappedStudents);
         }
       } catch (fetchError) {
@@ -1102,10 +612,46 @@ export default function CoachDashboardPage() {
     }
   };
 
+  // Restore the time control and window pickers from localStorage
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(VISIBLE_PERFS_STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      if (Array.isArray(parsed)) {
+        setVisiblePerfs(PERFS.filter((perf) => parsed.includes(perf)));
+      }
+      const storedWindows = localStorage.getItem(VISIBLE_WINDOWS_STORAGE_KEY);
+      const parsedWindows = storedWindows ? JSON.parse(storedWindows) : null;
+      if (Array.isArray(parsedWindows)) {
+        setVisibleWindows(DELTA_WINDOW_KEYS.filter((window) => parsedWindows.includes(window)));
+      }
+    } catch {
+      // Ignore malformed storage, keep defaults
+    }
+  }, []);
+
+  // Show/hide the columns for one time control (kept in table order)
+  const handleTogglePerf = (perf: Perf) => {
+    const next = visiblePerfs.includes(perf)
+      ? visiblePerfs.filter((p) => p !== perf)
+      : PERFS.filter((p) => p === perf || visiblePerfs.includes(p));
+    setVisiblePerfs(next);
+    localStorage.setItem(VISIBLE_PERFS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // Show/hide the game, rating delta and puzzle columns for one window (kept in window order)
+  const handleToggleWindow = (window: DeltaWindowKey) => {
+    const next = visibleWindows.includes(window)
+      ? visibleWindows.filter((w) => w !== window)
+      : DELTA_WINDOW_KEYS.filter((w) => w === window || visibleWindows.includes(w));
+    setVisibleWindows(next);
+    localStorage.setItem(VISIBLE_WINDOWS_STORAGE_KEY, JSON.stringify(next));
+  };
+
   const handleSort = (key: SortKey) => {
     // Numeric columns default to "desc", text columns default to "asc"
-    const numericKeys: SortKey[] = ["rapid24h", "rapid7d", "blitz24h", "blitz7d", "rapidRating", "blitzRating", "puzzleRating", "homeworkPct", "puzzleDelta3d", "puzzleDelta7d", "lastActive"];
-    const defaultDir: "asc" | "desc" = numericKeys.includes(key) ? "desc" : "asc";
+    const textKeys: SortKey[] = ["index", "nickname", "platform"];
+    const defaultDir: "asc" | "desc" = textKeys.includes(key) ? "asc" : "desc";
 
     if (sortKey === key) {
       setSortDir(sortDir === "asc" ? "desc" : "asc");
@@ -1143,37 +689,13 @@ export default function CoachDashboardPage() {
           bVal = b.platform.toLowerCase();
           isString = true;
           break;
-        case "rapid24h":
-          aVal = a.rapidGames24h;
-          bVal = b.rapidGames24h;
+        case "storm7d":
+          aVal = a.stats?.stormBestScore7d;
+          bVal = b.stats?.stormBestScore7d;
           break;
-        case "rapid7d":
-          aVal = a.rapidGames7d;
-          bVal = b.rapidGames7d;
-          break;
-        case "blitz24h":
-          aVal = a.blitzGames24h;
-          bVal = b.blitzGames24h;
-          break;
-        case "blitz7d":
-          aVal = a.blitzGames7d;
-          bVal = b.blitzGames7d;
-          break;
-        case "rapidRating":
-          aVal = a.stats?.rapidRating;
-          bVal = b.stats?.rapidRating;
-          break;
-        case "blitzRating":
-          aVal = a.stats?.blitzRating;
-          bVal = b.stats?.blitzRating;
-          break;
-        case "puzzleDelta3d":
-          aVal = a.stats?.puzzles3d;
-          bVal = b.stats?.puzzles3d;
-          break;
-        case "puzzleDelta7d":
-          aVal = a.puzzleDelta7d;
-          bVal = b.puzzleDelta7d;
+        case "rushBest":
+          aVal = a.stats?.rushBestScore;
+          bVal = b.stats?.rushBestScore;
           break;
         case "puzzleRating":
           aVal = a.stats?.puzzleRating;
@@ -1184,16 +706,15 @@ export default function CoachDashboardPage() {
           bVal = b.homeworkCompletionPct;
           break;
         case "lastActive":
-          // Sort by lastActiveStatus: 'green' (active) comes before 'grey' (inactive)
-          // For ascending: green = 0, grey = 1
-          // For descending: grey = 0, green = 1
-          const greenValue = 0;
-          const greyValue = 1;
-          aVal = a.lastActiveStatus === "green" ? greenValue : greyValue;
-          bVal = b.lastActiveStatus === "green" ? greenValue : greyValue;
+          // Sort by last_active time; students never seen sort as oldest
+          aVal = a.last_active ? new Date(a.last_active).getTime() : 0;
+          bVal = b.last_active ? new Date(b.last_active).getTime() : 0;
           break;
         default:
-          return 0;
+          // Per time control and per window columns ("bullet24h", "rapid30d", "blitzRating", "puzzles7d", ...)
+          aVal = getColumnSortValue(a, sortKey);
+          bVal = getColumnSortValue(b, sortKey);
+          break;
       }
 
       if (isString) {
@@ -1398,6 +919,40 @@ export default function CoachDashboardPage() {
                 <option value="lichess">Lichess</option>
                 <option value="chesscom">Chess.com</option>
               </select>
+              <details className="relative">
+                <summary className="h-9 px-3 flex items-center text-sm rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--background))] text-[hsl(var(--foreground))] cursor-pointer list-none select-none">
+                  Controls ({visiblePerfs.length})
+                </summary>
+                <div className="absolute right-0 z-20 mt-1 w-40 rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--card))] p-2 shadow-md">
+                  {PERFS.map((perf) => (
+                    <label key={perf} className="flex items-center gap-2 px-1 py-1 text-sm text-[hsl(var(--foreground))] cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={visiblePerfs.includes(perf)}
+                        onChange={() => handleTogglePerf(perf)}
+                      />
+                      {PERF_LABELS[perf]}
+                    </label>
+                  ))}
+                </div>
+              </details>
+              <details className="relative">
+                <summary className="h-9 px-3 flex items-center text-sm rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--background))] text-[hsl(var(--foreground))] cursor-pointer list-none select-none">
+                  Windows ({visibleWindows.length})
+                </summary>
+                <div className="absolute right-0 z-20 mt-1 w-40 rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--card))] p-2 shadow-md">
+                  {DELTA_WINDOW_KEYS.map((window) => (
+                    <label key={window} className="flex items-center gap-2 px-1 py-1 text-sm text-[hsl(var(--foreground))] cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={visibleWindows.includes(window)}
+                        onChange={() => handleToggleWindow(window)}
+                      />
+                      {WINDOW_LABELS[window]}
+                    </label>
+                  ))}
+                </div>
+              </details>
               <div className="group flex items-center w-[200px] sm:w-[220px] focus-within:w-[320px] sm:focus-within:w-[420px] transition-[width] duration-200">
                 <Input
                   type="text"
@@ -1479,91 +1034,72 @@ export default function CoachDashboardPage() {
                   )}
                 </span>
               </th>
-              <th
-                className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("rapid24h")}
-              >
-                <span className="inline-flex items-center justify-end">
-                  Rapid 24h
-                  {sortKey === "rapid24h" && (
-                    <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
-                      {sortDir === "asc" ? "▲" : "▼"}
-                    </span>
-                  )}
-                </span>
-              </th>
-              <th
-                className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("rapid7d")}
-              >
-                <span className="inline-flex items-center justify-end">
-                  Rapid 7d
-                  {sortKey === "rapid7d" && (
-                    <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
-                      {sortDir === "asc" ? "▲" : "▼"}
-                    </span>
-                  )}
-                </span>
-              </th>
-              <th
-                className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("blitz24h")}
-              >
-                <span className="inline-flex items-center justify-end">
-                  Blitz 24h
-                  {sortKey === "blitz24h" && (
-                    <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
-                      {sortDir === "asc" ? "▲" : "▼"}
-                    </span>
-                  )}
-                </span>
-              </th>
-              <th
-                className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("blitz7d")}
-              >
-                <span className="inline-flex items-center justify-end">
-                  Blitz 7d
-                  {sortKey === "blitz7d" && (
-                    <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
-                      {sortDir === "asc" ? "▲" : "▼"}
-                    </span>
-                  )}
-                </span>
-              </th>
-              <th
-                className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("rapidRating")}
-              >
-                <span className="inline-flex items-center">
-                  Rapid rating
-                  {sortKey === "rapidRating" && (
-                    <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
-                      {sortDir === "asc" ? "▲" : "▼"}
-                    </span>
-                  )}
-                </span>
-              </th>
-              <th
-                className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("blitzRating")}
-              >
-                <span className="inline-flex items-center">
-                  Blitz rating
-                  {sortKey === "blitzRating" && (
-                    <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
-                      {sortDir === "asc" ? "▲" : "▼"}
+              {visiblePerfs.map((perf) => (
+                <Fragment key={`${perf}-games`}>
+                  {visibleWindows.map((window) => {
+                    const key: SortKey = `${perf}${window}`;
+                    return (
+                      <th
+                        key={key}
+                        className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
+                        onClick={() => handleSort(key)}
+                      >
+                        <span className="inline-flex items-center justify-end">
+                          {PERF_LABELS[perf]} {WINDOW_LABELS[window]}
+                          {sortKey === key && (
+                            <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
+                              {sortDir === "asc" ? "▲" : "▼"}
+                            </span>
+                          )}
+                        </span>
+                      </th>
+                    );
+                  })}
+                </Fragment>
+              ))}
+              {visiblePerfs.map((perf) => (
+                <th
+                  key={`${perf}-rating`}
+                  className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
+                  onClick={() => handleSort(`${perf}Rating`)}
+                >
+                  <span className="inline-flex items-center">
+                    {PERF_LABELS[perf]} rating
+                    {sortKey === `${perf}Rating` && (
+                      <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
+                        {sortDir === "asc" ? "▲" : "▼"}
+                      </span>
+                    )}
+                  </span>
+                </th>
+              ))}
+              {visibleWindows.map((window) => {
+                const key: SortKey = `puzzles${window}`;
+                return (
+                  <th
+                    key={key}
+                    className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
+                    onClick={() => handleSort(key)}
+                  >
+                    <span className="inline-flex items-center justify-end">
+                      Puzzles {WINDOW_LABELS[window]}
+                      {sortKey === key && (
+                        <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
+                          {sortDir === "asc" ? "▲" : "▼"}
+                        </span>
+                      )}
                     </span>
-                  )}
-                </span>
-              </th>
+                  </th>
+                );
+              })}
               <th
                 className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("puzzleDelta3d")}
+                onClick={() => handleSort("storm7d")}
+                title="Lichess Puzzle Storm: best run score 24h / 7d (Lichess does not report puzzles solved across runs)"
               >
                 <span className="inline-flex items-center justify-end">
-                  Puzzles 24H
-                  {sortKey === "puzzleDelta3d" && (
+                  Storm best 24H / 7D
+                  {sortKey === "storm7d" && (
                     <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
                       {sortDir === "asc" ? "▲" : "▼"}
                     </span>
@@ -1572,11 +1108,12 @@ export default function CoachDashboardPage() {
               </th>
               <th
                 className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-xs font-semibold text-[hsl(var(--foreground))] uppercase tracking-wide cursor-pointer hover:bg-[hsl(var(--muted))] transition-colors"
-                onClick={() => handleSort("puzzleDelta7d")}
+                onClick={() => handleSort("rushBest")}
+                title="Chess.com Puzzle Rush: best score (Chess.com does not report Rush activity)"
               >
                 <span className="inline-flex items-center justify-end">
-                  Puzzles (7d)
-                  {sortKey === "puzzleDelta7d" && (
+                  Rush best
+                  {sortKey === "rushBest" && (
                     <span className="ml-1.5 text-xs text-[hsl(var(--muted-foreground))]">
                       {sortDir === "asc" ? "▲" : "▼"}
                     </span>
@@ -1629,18 +1166,33 @@ export default function CoachDashboardPage() {
           </thead>
           <tbody>
             {sortedStudents.map((student, index) => {
-              const { label: lastActiveLabel, variant: lastActiveVariant } = getStatusBadge(student.lastActiveStatus);
+              const { label: lastActiveLabel, variant: lastActiveVariant } = getStatusBadge(student);
               return (
                 <tr key={student.id} className="border-b border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))] transition-colors bg-[hsl(var(--card))]">
                   <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-center text-sm text-[hsl(var(--foreground))] tabular-nums">
                     {index + 1}
                   </td>
                   <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-sm font-medium text-[hsl(var(--foreground))]">
-                    {student.nickname}
+                    <Link href={`/coach/students/${student.id}`} className="hover:underline">
+                      {student.nickname}
+                    </Link>
+                    {student.access === "shared" && (
+                      <span className="ml-2 text-xs font-normal text-[hsl(var(--muted-foreground))]" title="Shared with you by the owning coach">
+                        shared
+                      </span>
+                    )}
                   </td>
                   <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-sm text-[hsl(var(--muted-foreground))]">
                     <div className="flex items-center gap-2">
                       <span>{student.platform === "lichess" ? "Lichess" : "Chess.com"}</span>
+                      {student.needsReauth && (
+                        <span
+                          className="text-xs text-amber-600 dark:text-amber-400"
+                          title="Lichess rejected the stored token; puzzle counts are estimated until the student reconnects Lichess"
+                        >
+                          reconnect
+                        </span>
+                      )}
                       {/* Stats freshness badge removed - TODO: Re-enable after investigating stale badge issues */}
                       {/* {(student.platform === "lichess" || student.platform === "chesscom") && 
                        (student.statsIsStale === true || student.statsComputedAt === null || student.statsComputedAt === undefined) && (
@@ -1653,80 +1205,81 @@ export default function CoachDashboardPage() {
                       )} */}
                     </div>
                   </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
-                    {student.statsIsStale === true && (student.rapidGames24h === 0 || student.rapidGames24h === null || student.rapidGames24h === undefined) 
-                      ? <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                      : formatCount(student.rapidGames24h)}
-                  </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
-                    {student.statsIsStale === true && (student.rapidGames7d === 0 || student.rapidGames7d === null || student.rapidGames7d === undefined) 
-                      ? <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                      : formatCount(student.rapidGames7d)}
-                  </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
-                    {student.statsIsStale === true && (student.blitzGames24h === 0 || student.blitzGames24h === null || student.blitzGames24h === undefined) 
-                      ? <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                      : formatCount(student.blitzGames24h)}
-                  </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
-                    {student.statsIsStale === true && (student.blitzGames7d === 0 || student.blitzGames7d === null || student.blitzGames7d === undefined) 
-                      ? <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                      : formatCount(student.blitzGames7d)}
-                  </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
-                    {student.stats?.rapidRating !== null && student.stats?.rapidRating !== undefined && student.stats?.rapidRating !== 0 ? (
-                      <div className="flex flex-col items-end">
-                        <span className="font-medium">{student.stats.rapidRating}</span>
-                        <span className="text-xs whitespace-nowrap">
-                          <span className={formatRatingDelta(student.stats?.rapidRatingDelta24h).className}>
-                            {formatRatingDelta(student.stats?.rapidRatingDelta24h).text}
-                          </span>
-                          <span className="text-[hsl(var(--muted-foreground))]"> / </span>
-                          <span className={formatRatingDelta(student.stats?.rapidRatingDelta7d).className}>
-                            {formatRatingDelta(student.stats?.rapidRatingDelta7d).text}
-                          </span>
-                        </span>
-                      </div>
-                    ) : (
-                      <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                    )}
-                  </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
-                    {student.stats?.blitzRating !== null && student.stats?.blitzRating !== undefined && student.stats?.blitzRating !== 0 ? (
-                      <div className="flex flex-col items-end">
-                        <span className="font-medium">{student.stats.blitzRating}</span>
-                        <span className="text-xs whitespace-nowrap">
-                          <span className={formatRatingDelta(student.stats?.blitzRatingDelta24h).className}>
-                            {formatRatingDelta(student.stats?.blitzRatingDelta24h).text}
-                          </span>
-                          <span className="text-[hsl(var(--muted-foreground))]"> / </span>
-                          <span className={formatRatingDelta(student.stats?.blitzRatingDelta7d).className}>
-                            {formatRatingDelta(student.stats?.blitzRatingDelta7d).text}
-                          </span>
-                        </span>
-                      </div>
-                    ) : (
-                      <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                    )}
-                  </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm tabular-nums">
-                    {student.platform === "chesscom" ? (
-                      <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                    ) : student.stats?.puzzles3d !== null && student.stats?.puzzles3d !== undefined ? (
-                      <span className={(student.stats?.puzzles3d ?? 0) > 0 ? "text-green-600 dark:text-green-400 font-semibold" : "text-[hsl(var(--foreground))]"}>
-                        {student.stats?.puzzles3d}
+                  {visiblePerfs.map((perf) => (
+                    <Fragment key={`${perf}-games`}>
+                      {visibleWindows.map((window) => {
+                        const count = getWindowGames(student, perf, window);
+                        return (
+                          <td key={window} className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
+                            {student.statsIsStale === true && (count === 0 || count === null)
+                              ? <span className="text-[hsl(var(--muted-foreground))]">—</span>
+                              : formatCount(count)}
+                          </td>
+                        );
+                      })}
+                    </Fragment>
+                  ))}
+                  {visiblePerfs.map((perf) => {
+                    const stat = getPerfStat(student, perf);
+                    return (
+                      <td key={`${perf}-rating`} className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm text-[hsl(var(--foreground))] tabular-nums">
+                        {stat?.rating !== null && stat?.rating !== undefined && stat.rating !== 0 ? (
+                          <div className="flex flex-col items-end">
+                            <span className="font-medium">{stat.rating}</span>
+                            <span className="text-xs whitespace-nowrap" title={visibleWindows.map((window) => WINDOW_LABELS[window]).join(" / ")}>
+                              {visibleWindows.map((window, i) => {
+                                const delta = formatRatingDelta(getWindowRatingDelta(student, perf, window));
+                                return (
+                                  <Fragment key={window}>
+                                    {i > 0 && <span className="text-[hsl(var(--muted-foreground))]"> / </span>}
+                                    <span className={delta.className}>{delta.text}</span>
+                                  </Fragment>
+                                );
+                              })}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-[hsl(var(--muted-foreground))]">—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  {visibleWindows.map((window) => {
+                    const puzzles = getWindowPuzzles(student, window);
+                    return (
+                      <td key={`puzzles-${window}`} className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm tabular-nums">
+                        {student.platform === "chesscom" ? (
+                          <span className="text-[hsl(var(--muted-foreground))]">—</span>
+                        ) : puzzles.count !== null ? (
+                          <>
+                            <span className={puzzles.count > 0 ? "text-green-600 dark:text-green-400 font-semibold" : "text-[hsl(var(--foreground))]"}>
+                              {puzzles.count}
+                            </span>
+                            <PuzzleMethodMarker method={puzzles.method} />
+                          </>
+                        ) : (
+                          <span className="text-[hsl(var(--muted-foreground))]">—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td
+                    className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm tabular-nums whitespace-nowrap"
+                    title={student.platform === "lichess" ? `Runs: ${formatCount(student.stats?.stormRuns24h)} / ${formatCount(student.stats?.stormRuns7d)}` : undefined}
+                  >
+                    {student.platform === "lichess" ? (
+                      <span className="text-[hsl(var(--foreground))]">
+                        {formatCount(student.stats?.stormBestScore24h)}
+                        <span className="text-[hsl(var(--muted-foreground))]"> / </span>
+                        {formatCount(student.stats?.stormBestScore7d)}
                       </span>
                     ) : (
                       <span className="text-[hsl(var(--muted-foreground))]">—</span>
                     )}
                   </td>
-                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm tabular-nums">
+                  <td className="border-r border-[hsl(var(--border))] px-3 py-2 text-right text-sm tabular-nums whitespace-nowrap">
                     {student.platform === "chesscom" ? (
-                      <span className="text-[hsl(var(--muted-foreground))]">—</span>
-                    ) : student.puzzleDelta7d !== null ? (
-                      <span className={student.puzzleDelta7d > 0 ? "text-green-600 dark:text-green-400 font-semibold" : "text-[hsl(var(--muted-foreground))]"}>
-                        {student.puzzleDelta7d > 0 ? "+" : ""}{student.puzzleDelta7d}
-                      </span>
+                      <span className="text-[hsl(var(--foreground))]">{formatCount(student.stats?.rushBestScore)}</span>
                     ) : (
                       <span className="text-[hsl(var(--muted-foreground))]">—</span>
                     )}
@@ -1760,9 +1313,9 @@ export default function CoachDashboardPage() {
                         variant="ghost"
                         size="sm"
                         className="h-8 w-8 p-0 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
-                        onClick={() => handleDelete(student.id)}
-                        title="Delete student"
-                        aria-label="Delete student"
+                        onClick={() => handleDelete(student.id, student.access === "shared")}
+                        title={student.access === "shared" ? "Remove from my roster" : "Delete student"}
+                        aria-label={student.access === "shared" ? "Remove from my roster" : "Delete student"}
                       >
                         🗑
                       </Button>
@@ -0,0 +1,472 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { PageShell } from "@/components/layout/page-shell";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { EmptyState } from "@/components/ui/empty-state";
+import { PERFS, type Perf } from "@/lib/stats_v2/types";
+import type { PlatformDetail, RatingPoint, StudentDetail } from "@/lib/coach/studentDetail";
+
+const PERF_LABELS: Record<Perf, string> = {
+  bullet: "Bullet",
+  blitz: "Blitz",
+  rapid: "Rapid",
+  classical: "Classical",
+  daily: "Daily",
+  chess960: "Chess960",
+};
+
+// One line colour per series in the rating chart
+const SERIES_COLORS: Record<Perf | "puzzle", string> = {
+  bullet: "#f59e0b",
+  blitz: "#3b82f6",
+  rapid: "#10b981",
+  classical: "#8b5cf6",
+  daily: "#64748b",
+  chess960: "#ec4899",
+  puzzle: "#ef4444",
+};
+
+const PLATFORM_LABELS: Record<string, string> = {
+  lichess: "Lichess",
+  chesscom: "Chess.com",
+};
+
+/**
+ * Format a value for display: null/undefined -> "—"
+ */
+function formatValue(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) {
+    return "—";
+  }
+  return String(value);
+}
+
+function formatDelta(delta: number | null | undefined): { text: string; className: string } {
+  if (delta === null || delta === undefined) {
+    return { text: "—", className: "text-[hsl(var(--muted-foreground))]" };
+  }
+  if (delta > 0) {
+    return { text: `+${delta}`, className: "text-green-600 dark:text-green-400" };
+  }
+  if (delta < 0) {
+    return { text: `${delta}`, className: "text-red-600 dark:text-red-400" };
+  }
+  return { text: "0", className: "text-[hsl(var(--muted-foreground))]" };
+}
+
+function formatDateTime(iso: string | null | undefined): string {
+  if (!iso) {
+    return "—";
+  }
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Rating history as one SVG line per series (no chart library in the app)
+ */
+function RatingChart({ points, series }: { points: RatingPoint[]; series: Array<Perf | "puzzle"> }) {
+  const width = 640;
+  const height = 200;
+  const pad = 32;
+
+  const valueOf = (point: RatingPoint, key: Perf | "puzzle") => (key === "puzzle" ? point.puzzle : point.perfs[key] ?? null);
+  const values = points.flatMap((point) => series.map((key) => valueOf(point, key))).filter((v): v is number => v !== null);
+  if (values.length === 0) {
+    return <p className="text-sm text-[hsl(var(--muted-foreground))]">No rating history yet.</p>;
+  }
+
+  const times = points.map((point) => new Date(point.capturedAt).getTime());
+  const minT = Math.min(...times);
+  const maxT = Math.max(...times);
+  const minV = Math.min(...values) - 20;
+  const maxV = Math.max(...values) + 20;
+  const x = (t: number) => pad + (maxT === minT ? 0.5 : (t - minT) / (maxT - minT)) * (width - 2 * pad);
+  const y = (v: number) => height - pad - ((v - minV) / (maxV - minV)) * (height - 2 * pad);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Rating history">
+        <text x={4} y={y(maxV - 20) + 4} className="fill-[hsl(var(--muted-foreground))] text-[10px]">
+          {Math.round(maxV - 20)}
+        </text>
+        <text x={4} y={y(minV + 20) + 4} className="fill-[hsl(var(--muted-foreground))] text-[10px]">
+          {Math.round(minV + 20)}
+        </text>
+        {series.map((key) => {
+          const coords = points
+            .map((point, i) => ({ t: times[i], v: valueOf(point, key) }))
+            .filter((c): c is { t: number; v: number } => c.v !== null)
+            .map((c) => `${x(c.t).toFixed(1)},${y(c.v).toFixed(1)}`);
+          if (coords.length === 0) return null;
+          return (
+            <polyline key={key} points={coords.join(" ")} fill="none" stroke={SERIES_COLORS[key]} strokeWidth={2} />
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-xs text-[hsl(var(--muted-foreground))]">
+        {series.map((key) => (
+          <span key={key} className="flex items-center gap-1">
+            <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: SERIES_COLORS[key] }} />
+            {key === "puzzle" ? "Puzzles" : PERF_LABELS[key]}
+          </span>
+        ))}
+        <span className="ml-auto">
+          {formatDateTime(points[0].capturedAt)} – {formatDateTime(points[points.length - 1].capturedAt)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function SyncStatus({ platform }: { platform: PlatformDetail }) {
+  const sync = platform.sync;
+  if (!sync) {
+    return <Badge variant="muted">Not synced yet</Badge>;
+  }
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex items-center gap-2">
+        {sync.lastUpdateOk === false ? (
+          <Badge variant="warning">Sync failed{sync.lastUpdateErrorCode ? ` (${sync.lastUpdateErrorCode})` : ""}</Badge>
+        ) : (
+          <Badge variant="success">Synced</Badge>
+        )}
+        {sync.gamesTruncated && <Badge variant="warning">Game history truncated</Badge>}
+        {platform.needsReauth && <Badge variant="warning">Lichess reconnect needed</Badge>}
+      </div>
+      {sync.lastUpdateOk === false && sync.lastUpdateErrorMessage && (
+        <p className="text-xs text-red-600 dark:text-red-400 break-words">{sync.lastUpdateErrorMessage}</p>
+      )}
+      <p className="text-xs text-[hsl(var(--muted-foreground))]">
+        Stats computed {formatDateTime(sync.computedAt)} · last attempt {formatDateTime(sync.lastUpdateAttemptAt)} · last
+        active {formatDateTime(sync.lastActiveAt)}
+      </p>
+    </div>
+  );
+}
+
+function PlatformCard({ platform }: { platform: PlatformDetail }) {
+  const puzzles = platform.puzzles;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {PLATFORM_LABELS[platform.platform] ?? platform.platform}{" "}
+          <span className="text-base font-normal text-[hsl(var(--muted-foreground))]">{platform.username ?? ""}</span>
+        </CardTitle>
+        <CardDescription>
+          {platform.platform === "lichess" && (platform.lichessTokenConnected ? "Lichess account connected · " : "No Lichess token · ")}
+          Last synced {formatDateTime(platform.lastSyncedAt)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <SyncStatus platform={platform} />
+
+        {platform.perfs.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs uppercase tracking-wide text-[hsl(var(--muted-foreground))]">
+                <th className="py-1 text-left font-semibold">Time control</th>
+                <th className="py-1 text-right font-semibold">Rating</th>
+                <th className="py-1 text-right font-semibold">Δ 24h</th>
+                <th className="py-1 text-right font-semibold">Δ 7d</th>
+                <th className="py-1 text-right font-semibold">Games 24h</th>
+                <th className="py-1 text-right font-semibold">Games 7d</th>
+              </tr>
+            </thead>
+            <tbody>
+              {platform.perfs.map((stat) => {
+                const delta24h = formatDelta(stat.ratingDelta24h);
+                const delta7d = formatDelta(stat.ratingDelta7d);
+                return (
+                  <tr key={stat.perf} className="border-t border-[hsl(var(--border))] tabular-nums">
+                    <td className="py-1 text-[hsl(var(--foreground))]">{PERF_LABELS[stat.perf]}</td>
+                    <td className="py-1 text-right">{formatValue(stat.rating)}</td>
+                    <td className={`py-1 text-right ${delta24h.className}`}>{delta24h.text}</td>
+                    <td className={`py-1 text-right ${delta7d.className}`}>{delta7d.text}</td>
+                    <td className="py-1 text-right">{stat.games24h}</td>
+                    <td className="py-1 text-right">{stat.games7d}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-[hsl(var(--muted-foreground))]">No games or ratings synced yet.</p>
+        )}
+
+        {puzzles && (
+          <div className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-4">
+            <div>
+              <p className="text-xs text-[hsl(var(--muted-foreground))]">Puzzles 24h</p>
+              <p className="tabular-nums">
+                {formatValue(puzzles.solved24h)}
+                {puzzles.method24h === "snapshot" && <span className="ml-1 text-xs text-[hsl(var(--muted-foreground))]">Δ</span>}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-[hsl(var(--muted-foreground))]">Puzzles 7d</p>
+              <p className="tabular-nums">
+                {formatValue(puzzles.solved7d)}
+                {puzzles.method7d === "snapshot" && <span className="ml-1 text-xs text-[hsl(var(--muted-foreground))]">Δ</span>}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-[hsl(var(--muted-foreground))]">Puzzles total</p>
+              <p className="tabular-nums">{formatValue(puzzles.total)}</p>
+            </div>
+            {platform.platform === "chesscom" ? (
+              <div>
+                <p className="text-xs text-[hsl(var(--muted-foreground))]">Rush best score</p>
+                <p className="tabular-nums">{formatValue(puzzles.rushBestScore)}</p>
+              </div>
+            ) : (
+              <div>
+                <p className="text-xs text-[hsl(var(--muted-foreground))]">Storm best run 24h / 7d</p>
+                <p className="tabular-nums">
+                  {formatValue(puzzles.stormBestScore24h)} / {formatValue(puzzles.stormBestScore7d)}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CoachStudentDetailPage() {
+  const params = useParams<{ id: string }>();
+  const studentId = params.id;
+
+  const [detail, setDetail] = useState<StudentDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [noteInput, setNoteInput] = useState("");
+  const [noteError, setNoteError] = useState<string | null>(null);
+  const [isSavingNote, setIsSavingNote] = useState(false);
+
+  const loadDetail = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/coach/student/${studentId}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      setDetail(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load student");
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  const handleAddNote = async () => {
+    const body = noteInput.trim();
+    if (!body) {
+      setNoteError("Note cannot be empty");
+      return;
+    }
+
+    setNoteError(null);
+    setIsSavingNote(true);
+    try {
+      const response = await fetch(`/api/coach/student/${studentId}/notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        setNoteError(errorData.error || "Failed to save note");
+        return;
+      }
+      setNoteInput("");
+      await loadDetail();
+    } catch {
+      setNoteError("Network error. Please try again.");
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    if (!confirm("Delete this note?")) {
+      return;
+    }
+    const response = await fetch(`/api/coach/student/${studentId}/notes?noteId=${encodeURIComponent(noteId)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      alert(`Failed to delete note: ${errorData.error || `HTTP ${response.status}`}`);
+      return;
+    }
+    await loadDetail();
+  };
+
+  const backLink = (
+    <Link href="/coach">
+      <Button variant="outline">Back to Dashboard</Button>
+    </Link>
+  );
+
+  if (loading) {
+    return (
+      <PageShell title="Student" actions={backLink}>
+        <p className="text-sm text-[hsl(var(--muted-foreground))]">Loading…</p>
+      </PageShell>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <PageShell title="Student" actions={backLink}>
+        <EmptyState title="Student unavailable" description={error ?? "Student not found"} icon="👤" />
+      </PageShell>
+    );
+  }
+
+  // Chart the time controls that have at least one rating in the window, plus puzzles
+  const chartSeries: Array<Perf | "puzzle"> = [
+    ...PERFS.filter((perf) => detail.ratingHistory.some((point) => point.perfs[perf] !== undefined)),
+    ...(detail.ratingHistory.some((point) => point.puzzle !== null) ? (["puzzle"] as const) : []),
+  ];
+
+  return (
+    <PageShell
+      title={detail.nickname}
+      description={detail.access === "shared" ? "Shared with you by the owning coach" : undefined}
+      actions={backLink}
+    >
+      {detail.platforms.length === 0 ? (
+        <EmptyState title="No linked platforms" description="This student has no Lichess or Chess.com account linked." icon="🔗" />
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {detail.platforms.map((platform) => (
+            <PlatformCard key={platform.platform} platform={platform} />
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rating history</CardTitle>
+          <CardDescription>From stats snapshots, last 90 days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RatingChart points={detail.ratingHistory} series={chartSeries} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent games</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {detail.recentGames.length === 0 ? (
+            <p className="text-sm text-[hsl(var(--muted-foreground))]">No games synced yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs uppercase tracking-wide text-[hsl(var(--muted-foreground))]">
+                  <th className="py-1 text-left font-semibold">Ended</th>
+                  <th className="py-1 text-left font-semibold">Platform</th>
+                  <th className="py-1 text-left font-semibold">Time control</th>
+                  <th className="py-1 text-left font-semibold">Color</th>
+                  <th className="py-1 text-left font-semibold">Result</th>
+                  <th className="py-1 text-right font-semibold">Opponent</th>
+                  <th className="py-1 text-left font-semibold pl-4">Opening</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detail.recentGames.map((game) => (
+                  <tr key={`${game.platform}-${game.gameId}`} className="border-t border-[hsl(var(--border))]">
+                    <td className="py-1 whitespace-nowrap">{formatDateTime(game.endedAt)}</td>
+                    <td className="py-1">{PLATFORM_LABELS[game.platform] ?? game.platform}</td>
+                    <td className="py-1">
+                      {PERF_LABELS[game.timeClass as Perf] ?? game.timeClass}
+                      {game.rated === false && <span className="ml-1 text-xs text-[hsl(var(--muted-foreground))]">casual</span>}
+                    </td>
+                    <td className="py-1 capitalize">{formatValue(game.color)}</td>
+                    <td
+                      className={`py-1 capitalize ${
+                        game.result === "win"
+                          ? "text-green-600 dark:text-green-400"
+                          : game.result === "loss"
+                            ? "text-red-600 dark:text-red-400"
+                            : ""
+                      }`}
+                    >
+                      {formatValue(game.result)}
+                    </td>
+                    <td className="py-1 text-right tabular-nums">{formatValue(game.opponentRating)}</td>
+                    <td className="py-1 pl-4 text-[hsl(var(--muted-foreground))]">{formatValue(game.openingName)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Notes</CardTitle>
+          <CardDescription>Visible to every coach with access to this student</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <textarea
+              value={noteInput}
+              onChange={(e) => setNoteInput(e.target.value)}
+              rows={3}
+              placeholder="Add a note…"
+              className="w-full rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--background))] px-3 py-2 text-sm text-[hsl(var(--foreground))]"
+            />
+            <div className="flex items-center gap-3">
+              <Button onClick={handleAddNote} disabled={isSavingNote}>
+                {isSavingNote ? "Saving…" : "Add note"}
+              </Button>
+              {noteError && <span className="text-sm text-red-600 dark:text-red-400">{noteError}</span>}
+            </div>
+          </div>
+          {detail.notes.length === 0 ? (
+            <p className="text-sm text-[hsl(var(--muted-foreground))]">No notes yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {detail.notes.map((note) => (
+                <li key={note.id} className="border-t border-[hsl(var(--border))] pt-3">
+                  <div className="flex items-center justify-between text-xs text-[hsl(var(--muted-foreground))]">
+                    <span>
+                      {note.authorName} · {formatDateTime(note.createdAt)}
+                    </span>
+                    <button type="button" onClick={() => handleDeleteNote(note.id)} className="hover:text-red-600">
+                      Delete
+                    </button>
+                  </div>
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-[hsl(var(--foreground))]">{note.body}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </PageShell>
+  );
+}
@@ -1,6 +1,7 @@
 import { PageShell } from "@/components/layout/page-shell";
 import { EmptyState } from "@/components/ui/empty-state";
 import { Button } from "@/components/ui/button";
+import { LichessConnectCard } from "@/components/lichess-connect-card";
 
 export default function StudentPage() {
   return (
@@ -8,6 +9,7 @@ export default function StudentPage() {
       title="Analytics"
       description="View your progress and performance analytics"
     >
+      <LichessConnectCard />
       <EmptyState
         title="Analytics Coming Soon"
         description="In the MVP, we will add personalized analytics showing your progress, strengths, and areas for improvement."
@@ -1,6 +1,5 @@
 import { PageShell } from "@/components/layout/page-shell";
-import { EmptyState } from "@/components/ui/empty-state";
-import { Button } from "@/components/ui/button";
+import { PuzzleSolver } from "@/components/puzzle-solver";
 
 export default function StudentPuzzlesPage() {
   return (
@@ -8,16 +7,7 @@ export default function StudentPuzzlesPage() {
       title="Puzzles"
       description="Practice with chess puzzles and improve your tactical skills"
     >
-      <EmptyState
-        title="Puzzles Coming Soon"
-        description="In the MVP, we will add a puzzle solver with curated puzzles, difficulty levels, and progress tracking."
-        action={
-          <Button variant="outline" disabled>
-            Coming Soon
-          </Button>
-        }
-        icon="🧩"
-      />
+      <PuzzleSolver />
     </PageShell>
   );
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { startScheduler } from '@/lib/cron/scheduler';
+import { requireRole, STAFF_ROLES } from '@/lib/security/authorize';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -9,6 +10,11 @@ export const runtime = 'nodejs';
  * Access at /api/_boot
  */
 export async function GET() {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   try {
     // Check if scheduler is already running using globalThis guard
     const g = globalThis as any;
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireRole, STAFF_ROLES } from "@/lib/security/authorize";
+import { getRosterStudentIds } from "@/lib/coach/roster";
+import { getReviewCounts } from "@/lib/puzzles/puzzleReviews";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Puzzle review queue per student on the caller's roster (admins: every student)
+ * due includes overdue reviews; overdue ones have waited a day or more
+ */
+export async function GET() {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const rosterIds = await getRosterStudentIds(authResult.auth);
+    const students = await prisma.profiles.findMany({
+      where: {
+        role: "student",
+        ...(rosterIds !== null ? { id: { in: rosterIds } } : {}),
+      },
+      select: { id: true },
+    });
+
+    const studentIds = students.map((student) => student.id);
+    const counts = await getReviewCounts(studentIds);
+
+    return NextResponse.json({
+      students: studentIds.map((studentId) => ({
+        studentId,
+        ...(counts.get(studentId) ?? { due: 0, overdue: 0, queued: 0 }),
+      })),
+    });
+  } catch (error) {
+    console.error("Error loading puzzle review counts:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
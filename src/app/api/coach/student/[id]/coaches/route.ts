@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireRole, STAFF_ROLES } from "@/lib/security/authorize";
+import { findCoach, getStudentAccess, shareStudent, unshareStudent } from "@/lib/coach/roster";
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET: Coaches with access to the student (any coach on the roster may look)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    if (!(await getStudentAccess(authResult.auth, id))) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    const links = await prisma.coach_students.findMany({
+      where: { student_id: id },
+      orderBy: { created_at: 'asc' },
+      select: {
+        access: true,
+        created_at: true,
+        coach: { select: { id: true, full_name: true, username: true, email: true } },
+      },
+    });
+
+    return NextResponse.json({
+      coaches: links.map((link) => ({
+        id: link.coach.id,
+        name: link.coach.full_name || link.coach.username || link.coach.email || "Unnamed",
+        email: link.coach.email,
+        access: link.access,
+        since: link.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Error listing student coaches:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST: Share the student with another coach ({ coachId } or { coachEmail }); owner or admin only
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const access = await getStudentAccess(authResult.auth, id);
+    if (!access) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+    if (access === "shared") {
+      return NextResponse.json({ error: "Only the owning coach can share this student" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const coach = await findCoach({ coachId: body?.coachId, coachEmail: body?.coachEmail });
+    if (!coach) {
+      return NextResponse.json({ error: "Coach not found" }, { status: 404 });
+    }
+
+    await shareStudent(id, coach.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === "ALREADY_OWNER") {
+      return NextResponse.json({ error: "That coach already owns this student" }, { status: 409 });
+    }
+    console.error("Error sharing student:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE: Stop sharing the student with a coach (?coachId=)
+ * The owner and admins can remove anyone shared; a shared coach can remove themselves
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const coachId = request.nextUrl.searchParams.get("coachId");
+    if (!coachId) {
+      return NextResponse.json({ error: "coachId is required" }, { status: 400 });
+    }
+
+    const access = await getStudentAccess(authResult.auth, id);
+    if (!access) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+    if (access === "shared" && coachId !== authResult.auth.userId) {
+      return NextResponse.json({ error: "Only the owning coach can change sharing" }, { status: 403 });
+    }
+
+    if (!(await unshareStudent(id, coachId))) {
+      return NextResponse.json({ error: "Student is not shared with that coach" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unsharing student:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
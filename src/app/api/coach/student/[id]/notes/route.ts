@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireRole, STAFF_ROLES } from "@/lib/security/authorize";
+import { getStudentAccess } from "@/lib/coach/roster";
+
+export const dynamic = 'force-dynamic';
+
+const MAX_NOTE_LENGTH = 5000;
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST: Add a note to the student ({ body }); any coach on the roster may write
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    if (!(await getStudentAccess(authResult.auth, id))) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    const payload = await request.json().catch(() => ({}));
+    const body = typeof payload?.body === "string" ? payload.body.trim() : "";
+    if (!body) {
+      return NextResponse.json({ error: "Note cannot be empty" }, { status: 400 });
+    }
+    if (body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json({ error: `Notes are limited to ${MAX_NOTE_LENGTH} characters` }, { status: 400 });
+    }
+
+    const note = await prisma.student_notes.create({
+      data: { student_id: id, author_id: authResult.auth.userId, body },
+      select: { id: true, created_at: true },
+    });
+
+    return NextResponse.json({ id: note.id, createdAt: note.created_at }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding student note:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE: Remove a note (?noteId=); only its author or an admin
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const noteId = request.nextUrl.searchParams.get("noteId");
+    if (!noteId) {
+      return NextResponse.json({ error: "noteId is required" }, { status: 400 });
+    }
+
+    if (!(await getStudentAccess(authResult.auth, id))) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    const note = await prisma.student_notes.findFirst({
+      where: { id: noteId, student_id: id },
+      select: { author_id: true },
+    });
+    if (!note) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+    if (note.author_id !== authResult.auth.userId && authResult.auth.role !== "admin") {
+      return NextResponse.json({ error: "Only the author can delete this note" }, { status: 403 });
+    }
+
+    await prisma.student_notes.delete({ where: { id: noteId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting student note:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -1,11 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/prisma";
+import { requireRole, STAFF_ROLES } from "@/lib/security/authorize";
+import { getStudentAccess, unshareStudent } from "@/lib/coach/roster";
+import { getStudentDetail } from "@/lib/coach/studentDetail";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Everything the student detail page shows (platforms, ratings history, games, sync status, notes)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+
+    // Students outside the caller's roster answer 404, same as missing ones
+    const access = await getStudentAccess(authResult.auth, id);
+    const detail = access ? await getStudentDetail(id, access) : null;
+    if (!detail) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("Error loading student detail:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   try {
     const { id } = await params;
 
@@ -14,6 +53,18 @@ export async function DELETE(
       return NextResponse.json({ error: "Missing ID" }, { status: 400 });
     }
 
+    // Students outside the caller's roster answer 404, same as missing ones
+    const access = await getStudentAccess(authResult.auth, id);
+    if (!access) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    // A coach the student is only shared with removes it from their own roster
+    if (access === "shared") {
+      await unshareStudent(id, authResult.auth.userId);
+      return NextResponse.json({ success: true, message: "Student removed from your roster" });
+    }
+
     // Delete using Prisma
     // Cascade delete will automatically remove related stats_snapshots, platform_connections, etc.
     await prisma.profiles.delete({
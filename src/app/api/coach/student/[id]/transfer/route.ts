@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireRole, STAFF_ROLES } from "@/lib/security/authorize";
+import { findCoach, getStudentAccess, transferStudent } from "@/lib/coach/roster";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST: Make another coach the owner ({ coachId } or { coachEmail }, optional keepAccess)
+ * Owner or admin only; with keepAccess the previous owner stays on as a shared coach
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const access = await getStudentAccess(authResult.auth, id);
+    if (!access) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+    if (access === "shared") {
+      return NextResponse.json({ error: "Only the owning coach can transfer this student" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const coach = await findCoach({ coachId: body?.coachId, coachEmail: body?.coachEmail });
+    if (!coach) {
+      return NextResponse.json({ error: "Coach not found" }, { status: 404 });
+    }
+
+    await transferStudent(id, coach.id, { keepPreviousOwner: body?.keepAccess === true });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error transferring student:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -1,18 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import type { player_perf_stats } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { requireRole, STAFF_ROLES } from "@/lib/security/authorize";
+import { getRosterAccessMap, getRosterStudentIds } from "@/lib/coach/roster";
+import { addCoachStudent } from "@/lib/coach/addStudent";
 
 export const dynamic = 'force-dynamic';
 
 export const revalidate = 0; // Disable cache to show fresh DB data immediately
 
 export async function GET(request: NextRequest) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const debug = searchParams.get('debug') === '1';
 
+    // Coaches see their own roster (owned + shared with them), admins see everyone
+    const [rosterIds, accessMap] = await Promise.all([
+      getRosterStudentIds(authResult.auth),
+      getRosterAccessMap(authResult.auth.userId),
+    ]);
+
     const students = await prisma.profiles.findMany({
-      where: { role: "student" },
+      where: {
+        role: "student",
+        ...(rosterIds !== null ? { id: { in: rosterIds } } : {}),
+      },
       include: {
         platform_connections: true,
         stats_snapshots: {
@@ -31,10 +49,12 @@ export async function GET(request: NextRequest) {
     const v2StatsMap = new Map<string, Map<string, any>>();
     // Map: studentId -> platform -> latest snapshot (for ratings)
     const v2SnapshotMap = new Map<string, Map<string, any>>();
+    // Map: studentId -> platform -> per time control stats rows
+    const v2PerfStatsMap = new Map<string, Map<string, player_perf_stats[]>>();
     
     if (studentsWithV2Platforms.length > 0) {
       // Fetch most recent v2 stats and snapshots for each student-platform combination
-      const v2StatsPromises: Array<Promise<{ studentId: string; platform: string; stat: any; snapshot: any } | null>> = [];
+      const v2StatsPromises: Array<Promise<{ studentId: string; platform: string; stat: any; snapshot: any; perfStats: player_perf_stats[] } | null>> = [];
       
       for (const student of studentsWithV2Platforms) {
         for (const conn of student.platform_connections) {
@@ -62,8 +82,16 @@ export async function GET(request: NextRequest) {
                     puzzle_rating: true,
                   },
                 });
+
+                // Per time control stats (bullet, blitz, rapid, classical, daily, chess960)
+                const perfStats = await prisma.player_perf_stats.findMany({
+                  where: {
+                    student_id: student.id,
+                    platform: conn.platform,
+                  },
+                });
                 
-                return stat ? { studentId: student.id, platform: conn.platform, stat, snapshot } : null;
+                return stat ? { studentId: student.id, platform: conn.platform, stat, snapshot, perfStats } : null;
               })()
             );
           }
@@ -76,8 +104,10 @@ export async function GET(request: NextRequest) {
           if (!v2StatsMap.has(result.studentId)) {
             v2StatsMap.set(result.studentId, new Map());
             v2SnapshotMap.set(result.studentId, new Map());
+            v2PerfStatsMap.set(result.studentId, new Map());
           }
           v2StatsMap.get(result.studentId)!.set(result.platform, result.stat);
+          v2PerfStatsMap.get(result.studentId)!.set(result.platform, result.perfStats);
           if (result.snapshot) {
             v2SnapshotMap.get(result.studentId)!.set(result.platform, result.snapshot);
           }
@@ -100,6 +130,27 @@ export async function GET(request: NextRequest) {
       const v2Snapshot = platform && (platform === 'lichess' || platform === 'chesscom')
         ? platformSnapshotMap?.get(platform)
         : null;
+      const v2PerfStats = platform && (platform === 'lichess' || platform === 'chesscom')
+        ? v2PerfStatsMap.get(student.id)?.get(platform) ?? []
+        : [];
+
+      // Per time control stats keyed by perf (empty until the first sync after perf stats were added)
+      const perfs: Record<string, {
+        games24h: number;
+        games7d: number;
+        rating: number | null;
+        ratingDelta24h: number | null;
+        ratingDelta7d: number | null;
+      }> = {};
+      for (const row of v2PerfStats) {
+        perfs[row.perf] = {
+          games24h: row.games_24h,
+          games7d: row.games_7d,
+          rating: row.rating ?? null,
+          ratingDelta24h: row.rating_delta_24h ?? null,
+          ratingDelta7d: row.rating_delta_7d ?? null,
+        };
+      }
 
       // Determine stats source (v2 is default for Lichess and Chess.com)
       const isV2Platform = platform === 'lichess' || platform === 'chesscom';
@@ -215,7 +266,12 @@ export async function GET(request: NextRequest) {
         platform: connection?.platform || "None",
         platform_username: connection?.platform_username || "",
         avatar_url: student.avatar_url,
-        last_active: latestStats?.captured_at || connection?.last_synced_at || null,
+        // 'owner' | 'shared' for the calling coach; null when an admin views someone else's student
+        access: accessMap.get(student.id) ?? null,
+        // v2: when the student was last seen on the platform (computed by the sync); legacy: last snapshot
+        last_active: isV2Platform
+          ? (v2Stats?.last_active_at ?? null)
+          : (latestStats?.captured_at || connection?.last_synced_at || null),
         
         stats: {
             // RATINGS (from platform-specific snapshot for v2, legacy snapshot for others)
@@ -230,15 +286,36 @@ export async function GET(request: NextRequest) {
             blitzGames7d: blitzGames7d,
             
             // PUZZLES (v2 for Lichess and Chess.com, legacy for other platforms)
+            puzzles24h: isV2Platform ? puzzle24h : (latestStats?.puzzle_24h ?? 0),
+            // Deprecated alias of puzzles24h (it always held the 24h count), kept for older clients
             puzzles3d: isV2Platform ? puzzle24h : (latestStats?.puzzle_24h ?? 0),
             puzzles7d: isV2Platform ? puzzle7d : (latestStats?.puzzle_7d ?? 0),
             puzzle_total: isV2Platform ? puzzleTotal : (latestStats?.puzzle_total ?? 0),
+            // 'activity' = exact count from the student's Lichess token, 'snapshot' = puzzle_total delta
+            puzzles24hMethod: v2Stats?.puzzle_24h_method ?? null,
+            puzzles7dMethod: v2Stats?.puzzle_7d_method ?? null,
             
             // RATING DELTAS (v2 for Lichess and Chess.com only, null when missing)
             rapidRatingDelta24h: isV2Platform ? rapidRatingDelta24h : null,
             rapidRatingDelta7d: isV2Platform ? rapidRatingDelta7d : null,
             blitzRatingDelta24h: isV2Platform ? blitzRatingDelta24h : null,
             blitzRatingDelta7d: isV2Platform ? blitzRatingDelta7d : null,
+
+            // PER TIME CONTROL (v2 only): { [perf]: { games24h, games7d, rating, ratingDelta24h, ratingDelta7d } }
+            perfs,
+
+            // CONFIGURABLE WINDOWS (v2 only): { [24h|3d|7d|30d|90d|season]: { start, baselineAt, games, ratingDeltas, puzzles, puzzlesMethod } }
+            windows: v2Stats?.window_stats ?? {},
+
+            // PUZZLE STORM (Lichess) / PUZZLE RUSH (Chess.com), v2 only: null = unknown, 0 = confirmed none
+            stormBestScore24h: v2Stats?.storm_best_score_24h ?? null,
+            stormBestScore7d: v2Stats?.storm_best_score_7d ?? null,
+            stormRuns24h: v2Stats?.storm_runs_24h ?? null,
+            stormRuns7d: v2Stats?.storm_runs_7d ?? null,
+            // Always null: Chess.com exposes no Rush history to count from
+            rushAttempts24h: v2Stats?.rush_attempts_24h ?? null,
+            rushAttempts7d: v2Stats?.rush_attempts_7d ?? null,
+            rushBestScore: v2Stats?.rush_best_score ?? null,
         }
       };
 
@@ -251,6 +328,7 @@ export async function GET(request: NextRequest) {
         result.statsUpdateOk = statsUpdateOk;
         result.statsUpdateErrorCode = statsUpdateErrorCode;
         result.statsUpdateAttemptAt = statsUpdateAttemptAt;
+        result.needsReauth = connection?.needs_reauth ?? false;
       }
 
       // Add debug field if requested
@@ -267,3 +345,38 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
+
+/**
+ * POST: Add a student to the caller's roster
+ * Body: { nickname?, lichess?, chesscom? } or { username } to look the same handle up on both platforms
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const text = (value: unknown) => (typeof value === "string" ? value : null);
+    const username = text(body.username);
+    const result = await addCoachStudent(authResult.auth, {
+      nickname: text(body.nickname),
+      lichess: text(body.lichess) ?? username,
+      chesscom: text(body.chesscom) ?? username,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, notFound: result.notFound }, { status: result.status });
+    }
+
+    return NextResponse.json(result, { status: result.created ? 201 : 200 });
+  } catch (error) {
+    console.error("Error in POST /api/coach/students:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compactSnapshots } from '@/lib/stats/snapshotRetention';
+import { ADMIN_ROLES, requireCronOrRole } from '@/lib/security/authorize';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Apply the stats_snapshots retention policy (see snapshotRetention)
+ * ?dryRun=1 only reports how many rows each tier would remove
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireCronOrRole(request, ADMIN_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const startTime = Date.now();
+  const dryRunParam = request.nextUrl.searchParams.get('dryRun');
+  const dryRun = dryRunParam === '1' || dryRunParam === 'true';
+  console.log(`[compact-snapshots] Starting${dryRun ? ' (dry run)' : ''}...`);
+
+  try {
+    const report = await compactSnapshots({ now: new Date(), dryRun });
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[compact-snapshots] Completed in ${duration}ms - series: ${report.series}, scanned: ${report.scanned}, removed daily: ${report.removed.daily}, weekly: ${report.removed.weekly}, protected baselines: ${report.protectedBaselines}`
+    );
+
+    return NextResponse.json({ ok: true, ...report });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error(`[compact-snapshots] Fatal error after ${duration}ms:`, error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { runSyncWorker } from '@/lib/cron/syncWorker';
+import { requireCronOrRole, STAFF_ROLES } from '@/lib/security/authorize';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Drain due stats sync jobs (enqueued by /api/cron/update-stats-v2)
+ * Safe to call from several places at once; each job is leased to one worker
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireCronOrRole(request, STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  const startTime = Date.now();
+  const workerId = `route-${randomUUID()}`;
+  console.log(`[sync-worker] Starting ${workerId}...`);
+
+  try {
+    const maxJobsRaw = request.nextUrl.searchParams.get('maxJobs');
+    let maxJobs = maxJobsRaw ? parseInt(maxJobsRaw, 10) : 50;
+    if (isNaN(maxJobs) || maxJobs < 1) maxJobs = 1;
+    if (maxJobs > 200) maxJobs = 200;
+
+    const summary = await runSyncWorker({ workerId, maxJobs });
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[sync-worker] Completed in ${duration}ms - processed: ${summary.processed}, succeeded: ${summary.succeeded}, retried: ${summary.retried}, failed: ${summary.failed}`
+    );
+
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error(`[sync-worker] Fatal error after ${duration}ms:`, error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/prisma";
+import { platformFetch } from "@/lib/platformHttp";
+import { requireCronOrRole, STAFF_ROLES } from "@/lib/security/authorize";
 
 export const dynamic = 'force-dynamic';
 
@@ -14,18 +16,14 @@ async function countLichessGamesWindow(
   max: number = 400
 ): Promise<number> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-    
     try {
-      const response = await fetch(
+      const response = await platformFetch(
         `https://lichess.org/api/games/user/${username}?since=${sinceMs}&max=${max}&perfType=${perfType}&moves=false&clocks=false&evals=false&opening=false&pgnInJson=false`,
         { 
           headers: { Accept: "application/x-ndjson" },
-          signal: controller.signal
+          timeoutMs: 8000
         }
       );
-      clearTimeout(timeoutId);
       
       if (response.ok) {
         const text = await response.text();
@@ -33,7 +31,6 @@ async function countLichessGamesWindow(
       }
       return 0;
     } catch (fetchError) {
-      clearTimeout(timeoutId);
       return 0;
     }
   } catch (error) {
@@ -64,18 +61,13 @@ async function fetchLichessNdjsonDebug(url: string): Promise<{
   };
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-    
     try {
-      const response = await fetch(url, {
+      const response = await platformFetch(url, {
         headers: {
-          Accept: "application/x-ndjson",
-          "User-Agent": "RoboChess/1.0 (debug)"
+          Accept: "application/x-ndjson"
         },
-        signal: controller.signal
+        timeoutMs: 8000
       });
-      clearTimeout(timeoutId);
       
       diagnostics.status = response.status;
       diagnostics.contentType = response.headers.get("content-type") || null;
@@ -103,7 +95,6 @@ async function fetchLichessNdjsonDebug(url: string): Promise<{
       
       return diagnostics;
     } catch (fetchError) {
-      clearTimeout(timeoutId);
       diagnostics.error = fetchError instanceof Error ? fetchError.message : String(fetchError);
       return diagnostics;
     }
@@ -126,18 +117,14 @@ async function countChessComGamesWindow(
   let games7d = 0;
   
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-    
     try {
-      const archivesResponse = await fetch(
+      const archivesResponse = await platformFetch(
         `https://api.chess.com/pub/player/${username}/games/archives`,
         { 
           headers: { Accept: "application/json" },
-          signal: controller.signal
+          timeoutMs: 8000
         }
       );
-      clearTimeout(timeoutId);
       
       if (!archivesResponse.ok) {
         return { games24h: 0, games7d: 0 };
@@ -148,14 +135,10 @@ async function countChessComGamesWindow(
 
       for (const archiveUrl of recentArchives) {
         try {
-          const archiveController = new AbortController();
-          const archiveTimeout = setTimeout(() => archiveController.abort(), 8000);
-          
-          const archiveResponse = await fetch(archiveUrl, { 
+          const archiveResponse = await platformFetch(archiveUrl, { 
             headers: { Accept: "application/json" },
-            signal: archiveController.signal
+            timeoutMs: 8000
           });
-          clearTimeout(archiveTimeout);
           
           if (archiveResponse.ok) {
             const data = await archiveResponse.json();
@@ -176,7 +159,6 @@ async function countChessComGamesWindow(
         }
       }
     } catch (fetchError) {
-      clearTimeout(timeoutId);
       return { games24h: 0, games7d: 0 };
     }
   } catch (error) {
@@ -186,7 +168,12 @@ async function countChessComGamesWindow(
   return { games24h, games7d };
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const authResult = await requireCronOrRole(request, STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   try {
     const students = await prisma.profiles.findMany({
       where: { role: "student" },
@@ -305,7 +292,7 @@ export async function GET() {
           // --- PLATFORM-SPECIFIC LOGIC ---
           if (connection.platform === 'lichess') {
             // Fetch Lichess profile for ratings and totals
-            const response = await fetch(`https://lichess.org/api/user/${username}`);
+            const response = await platformFetch(`https://lichess.org/api/user/${username}`);
             if (!response.ok) {
               updates.push(`SKIP ${username} (lichess): API error ${response.status}`);
               continue;
@@ -462,13 +449,13 @@ export async function GET() {
 
           } else if (connection.platform === 'chesscom' || connection.platform === 'chess.com') {
             // Fetch Chess.com profile for ratings and totals
-            const profileResponse = await fetch(`https://api.chess.com/pub/player/${username}`);
+            const profileResponse = await platformFetch(`https://api.chess.com/pub/player/${username}`);
             if (!profileResponse.ok) {
               updates.push(`SKIP ${username} (chess.com): API error ${profileResponse.status}`);
               continue;
             }
 
-            const statsResponse = await fetch(`https://api.chess.com/pub/player/${username}/stats`);
+            const statsResponse = await platformFetch(`https://api.chess.com/pub/player/${username}/stats`);
             let chesscomStats = null;
             if (statsResponse.ok) {
               chesscomStats = await statsResponse.json();
@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { ADMIN_ROLES, requireRole } from "@/lib/security/authorize";
 
 export async function GET() {
+  const authResult = await requireRole(ADMIN_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
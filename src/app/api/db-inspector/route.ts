@@ -1,10 +1,16 @@
 import { NextResponse } from "next/server";
 
 import { prisma } from "@/lib/prisma";
+import { ADMIN_ROLES, requireRole } from "@/lib/security/authorize";
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
+  const authResult = await requireRole(ADMIN_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   try {
     const students = await prisma.profiles.findMany({
       where: { role: "student" },
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/utils/supabase/server';
-import { prisma } from '@/lib/prisma';
+import { requireRole, STAFF_ROLES } from '@/lib/security/authorize';
+import { platformFetch } from '@/lib/platformHttp';
 import { safeNdjsonLineParse } from '@/lib/stats/gamesActivityV2';
 
 export const dynamic = 'force-dynamic';
@@ -23,7 +23,7 @@ interface LichessGame {
  * - Debug key (header or query param matching DEBUG_API_KEY)
  * - Coach/admin auth (production only, when no debug key)
  */
-async function checkAuth(request: NextRequest): Promise<{ authorized: boolean; error?: string }> {
+async function checkAuth(request: NextRequest): Promise<{ authorized: boolean; status?: number; error?: string }> {
   // 1. Dev bypass: allow in non-production environments
   if (process.env.NODE_ENV !== 'production') {
     return { authorized: true };
@@ -45,41 +45,23 @@ async function checkAuth(request: NextRequest): Promise<{ authorized: boolean; e
   }
 
   // 3. Production: require coach/admin auth guard
-  try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return { authorized: false, error: 'Unauthorized' };
-    }
-
-    // Check user role in profiles table
-    const profile = await prisma.profiles.findUnique({
-      where: { id: user.id },
-      select: { role: true },
-    });
-
-    if (!profile || (profile.role !== 'coach' && profile.role !== 'admin')) {
-      return { authorized: false, error: 'Unauthorized' };
-    }
-
-    return { authorized: true };
-  } catch (error) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
     return {
       authorized: false,
-      error: 'Unauthorized',
+      status: authResult.response.status,
+      error: authResult.response.status === 403 ? 'Forbidden' : 'Unauthorized',
     };
   }
+
+  return { authorized: true };
 }
 
 export async function GET(request: NextRequest) {
   // Check authorization
   const auth = await checkAuth(request);
   if (!auth.authorized) {
-    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    return NextResponse.json({ ok: false, error: auth.error ?? 'Unauthorized' }, { status: auth.status ?? 401 });
   }
 
   try {
@@ -130,34 +112,25 @@ export async function GET(request: NextRequest) {
     const now = new Date();
     const sinceMs = now.getTime() - days * 24 * 60 * 60 * 1000;
 
-    // Build headers (same as computeFromLichess)
+    // Build headers (same as fetchLichessGames)
     const headers: Record<string, string> = {
       Accept: 'application/x-ndjson',
-      'User-Agent': 'RoboChess/1.0',
     };
 
-    // Add token if present in env (same as computeFromLichess)
+    // Add token if present in env (same as fetchLichessGames)
     const token = process.env.LICHESS_TOKEN;
     if (token) {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    // Build URL (same as computeFromLichess)
+    // Build URL (single perf type; the sync itself exports all perf types at once)
     const url = `https://lichess.org/api/games/user/${username}?since=${sinceMs}&max=400&perfType=${perfType}&moves=false&clocks=false&evals=false&opening=false&pgnInJson=false`;
 
     // Fetch from Lichess
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
-
     let response: Response;
     try {
-      response = await fetch(url, {
-        headers,
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
+      response = await platformFetch(url, { headers });
     } catch (fetchError) {
-      clearTimeout(timeoutId);
       return NextResponse.json(
         {
           ok: false,
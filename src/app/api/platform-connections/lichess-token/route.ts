@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { createClient } from '@/utils/supabase/server';
+import { ANY_ROLE, requireRole } from '@/lib/security/authorize';
 
 import { prisma } from '@/lib/prisma';
 
-import { encryptToken } from '@/lib/security/tokenEncryption';
+import { decryptToken } from '@/lib/security/tokenEncryption';
+
+import { fetchLichessAccount, revokeLichessToken, saveLichessConnection } from '@/lib/lichessOAuth';
+import type { LichessAccount } from '@/lib/lichessOAuth';
 
 export const runtime = 'nodejs';
 
@@ -15,25 +18,23 @@ export const dynamic = 'force-dynamic';
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authResult = await requireRole(ANY_ROLE);
+    if (!authResult.ok) {
+      return authResult.response;
     }
+    const userId = authResult.auth.userId;
 
     const connection = await prisma.platform_connections.findUnique({
       where: {
         user_id_platform: {
-          user_id: user.id,
+          user_id: userId,
           platform: 'lichess',
         },
       },
       select: {
+        platform_username: true,
         lichess_oauth_token_encrypted: true,
+        needs_reauth: true,
       },
     });
 
@@ -41,6 +42,8 @@ export async function GET(request: NextRequest) {
       hasToken:
         connection?.lichess_oauth_token_encrypted !== null &&
         connection?.lichess_oauth_token_encrypted !== undefined,
+      needsReauth: connection?.needs_reauth ?? false,
+      username: connection?.platform_username ?? null,
     });
   } catch (error) {
     console.error('Error checking Lichess token:', error);
@@ -49,19 +52,17 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST: Save encrypted Lichess token for current user
+ * POST: Save a pasted personal Lichess token for current user
+ * Prefer the OAuth flow (/api/platform-connections/lichess/authorize); the token is verified
+ * against /api/account either way, so the connection gets the real username
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authResult = await requireRole(ANY_ROLE);
+    if (!authResult.ok) {
+      return authResult.response;
     }
+    const userId = authResult.auth.userId;
 
     const body = await request.json();
     const { token } = body;
@@ -71,37 +72,81 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'token must be a non-empty string' }, { status: 400 });
     }
 
-    // Encrypt token
-    const encryptedToken = encryptToken(token);
+    let account: LichessAccount;
+    try {
+      account = await fetchLichessAccount(token.trim());
+    } catch (accountError) {
+      if (accountError instanceof Error && accountError.message === 'LICHESS_TOKEN_INVALID') {
+        return NextResponse.json({ error: 'Lichess rejected the token' }, { status: 400 });
+      }
+      throw accountError;
+    }
+
+    await saveLichessConnection(userId, account, token.trim());
+
+    return NextResponse.json({ ok: true, username: account.username });
+  } catch (error) {
+    console.error('Error saving Lichess token:', error);
+
+    if (error instanceof Error && error.message.includes('LICHESS_ENCRYPTION_KEY')) {
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+
+/**
+ * DELETE: Disconnect Lichess for current user
+ * Revokes the token at Lichess and removes it; the connection itself stays for public stats
+ */
+export async function DELETE() {
+  try {
+    const authResult = await requireRole(ANY_ROLE);
+    if (!authResult.ok) {
+      return authResult.response;
+    }
+    const userId = authResult.auth.userId;
 
-    // Upsert platform_connections record
-    await prisma.platform_connections.upsert({
+    const connection = await prisma.platform_connections.findUnique({
       where: {
         user_id_platform: {
-          user_id: user.id,
+          user_id: userId,
           platform: 'lichess',
         },
       },
-      update: {
-        lichess_oauth_token_encrypted: encryptedToken,
-      },
-      create: {
-        user_id: user.id,
-        platform: 'lichess',
-        platform_username: 'UNKNOWN',
-        lichess_oauth_token_encrypted: encryptedToken,
+      select: {
+        id: true,
+        lichess_oauth_token_encrypted: true,
       },
     });
 
-    return NextResponse.json({ ok: true });
-  } catch (error) {
-    console.error('Error saving Lichess token:', error);
+    if (!connection?.lichess_oauth_token_encrypted) {
+      return NextResponse.json({ ok: true });
+    }
 
-    if (error instanceof Error && error.message.includes('LICHESS_ENCRYPTION_KEY')) {
-      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    // Best effort: the stored token is dropped even if Lichess can't be reached
+    try {
+      await revokeLichessToken(decryptToken(connection.lichess_oauth_token_encrypted));
+    } catch (revokeError) {
+      console.warn(
+        'Could not revoke Lichess token:',
+        revokeError instanceof Error ? revokeError.message : String(revokeError)
+      );
     }
 
+    await prisma.platform_connections.update({
+      where: { id: connection.id },
+      data: {
+        lichess_oauth_token_encrypted: null,
+        needs_reauth: false,
+      },
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Error disconnecting Lichess:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
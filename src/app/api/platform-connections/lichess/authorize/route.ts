@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ANY_ROLE, requireRole } from '@/lib/security/authorize';
+
+import { prisma } from '@/lib/prisma';
+
+import {
+  buildLichessAuthorizeUrl,
+  createPkceSession,
+  getLichessClientId,
+  getLichessRedirectUri,
+  OAUTH_STATE_TTL_MS,
+} from '@/lib/lichessOAuth';
+
+export const runtime = 'nodejs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Start the "Connect Lichess" flow for the current user
+ * Stores state + PKCE verifier and redirects to the Lichess consent screen
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireRole(ANY_ROLE);
+    if (!authResult.ok) {
+      return authResult.response;
+    }
+    const userId = authResult.auth.userId;
+
+    const now = new Date();
+    const { state, codeVerifier, codeChallenge } = createPkceSession();
+
+    // Drop abandoned authorisations before adding a new one
+    await prisma.lichess_oauth_states.deleteMany({
+      where: { expires_at: { lt: now } },
+    });
+    await prisma.lichess_oauth_states.create({
+      data: {
+        state,
+        user_id: userId,
+        code_verifier: codeVerifier,
+        expires_at: new Date(now.getTime() + OAUTH_STATE_TTL_MS),
+      },
+    });
+
+    return NextResponse.redirect(
+      buildLichessAuthorizeUrl({
+        clientId: getLichessClientId(),
+        redirectUri: getLichessRedirectUri(request.nextUrl.origin),
+        codeChallenge,
+        state,
+      })
+    );
+  } catch (error) {
+    console.error('Error starting Lichess OAuth:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
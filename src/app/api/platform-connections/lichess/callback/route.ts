@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ANY_ROLE, requireRole } from '@/lib/security/authorize';
+
+import { prisma } from '@/lib/prisma';
+
+import {
+  exchangeLichessCode,
+  fetchLichessAccount,
+  getLichessClientId,
+  getLichessRedirectUri,
+  saveLichessConnection,
+} from '@/lib/lichessOAuth';
+
+export const runtime = 'nodejs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Back to the student dashboard with the outcome in ?lichess=
+ */
+function redirectWithStatus(request: NextRequest, status: string) {
+  const url = new URL('/student', request.nextUrl.origin);
+  url.searchParams.set('lichess', status);
+  return NextResponse.redirect(url);
+}
+
+/**
+ * GET: Lichess redirects here after the consent screen
+ * Verifies state, exchanges the code with the stored PKCE verifier and saves the token
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const state = params.get('state');
+  const code = params.get('code');
+
+  try {
+    const authResult = await requireRole(ANY_ROLE);
+    if (!authResult.ok) {
+      return authResult.response;
+    }
+    const userId = authResult.auth.userId;
+
+    if (!state) {
+      return redirectWithStatus(request, 'invalid_state');
+    }
+
+    // States are single-use: consume it whatever the outcome
+    const pending = await prisma.lichess_oauth_states.findUnique({ where: { state } });
+    if (pending) {
+      await prisma.lichess_oauth_states.delete({ where: { state } });
+    }
+
+    if (!pending || pending.user_id !== userId || pending.expires_at.getTime() < Date.now()) {
+      return redirectWithStatus(request, 'invalid_state');
+    }
+
+    // The student declined on the consent screen
+    if (params.get('error') || !code) {
+      return redirectWithStatus(request, 'denied');
+    }
+
+    const token = await exchangeLichessCode({
+      code,
+      codeVerifier: pending.code_verifier,
+      redirectUri: getLichessRedirectUri(request.nextUrl.origin),
+      clientId: getLichessClientId(),
+    });
+    const account = await fetchLichessAccount(token);
+
+    await saveLichessConnection(userId, account, token);
+
+    return redirectWithStatus(request, 'connected');
+  } catch (error) {
+    console.error('Error completing Lichess OAuth:', error);
+    return redirectWithStatus(request, 'error');
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
+import { platformFetch } from "@/lib/platformHttp";
+import { requireRole, STAFF_ROLES } from "@/lib/security/authorize";
+import { assignStudentOwner, getStudentAccess } from "@/lib/coach/roster";
 
 // --- TYPES ---
 type LichessUser = {
@@ -57,25 +60,13 @@ type PlayerLookupResponse = {
 
 // --- HELPERS ---
 
-async function fetchWithTimeout(
+// Lookups are interactive, so keep a shorter timeout than the sync jobs
+function fetchWithTimeout(
   url: string,
   options: RequestInit = {},
   timeoutMs: number = 8000
 ): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
+  return platformFetch(url, { ...options, timeoutMs });
 }
 
 // Нова функція для отримання пазлів за 24 години
@@ -236,6 +227,11 @@ async function countChessComGames(
 // --- MAIN HANDLER ---
 
 export async function GET(request: NextRequest) {
+  const authResult = await requireRole(STAFF_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   const searchParams = request.nextUrl.searchParams;
   const username = searchParams.get("username");
   const debugMode = searchParams.get("debug") === "1";
@@ -363,7 +359,13 @@ export async function GET(request: NextRequest) {
         await supabase.from("platform_connections").insert({
             user_id: userId, platform: row.platform, platform_username: row.handle, last_synced_at: new Date().toISOString()
         });
+        await assignStudentOwner(userId, authResult.auth.userId);
       } else {
+        // Another coach's student: leave it alone until it is shared or transferred
+        if (!(await getStudentAccess(authResult.auth, existing.user_id))) {
+          console.warn(`[player-lookup] ${row.platform}/${row.handle} belongs to another coach's roster - not saved`);
+          continue;
+        }
         await supabase.from("platform_connections").update({ last_synced_at: new Date().toISOString() }).eq("id", existing.id);
       }
 
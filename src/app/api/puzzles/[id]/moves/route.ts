@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ANY_ROLE, requireRole } from "@/lib/security/authorize";
+import { submitPuzzleMoves } from "@/lib/puzzles/puzzleSessions";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST: Check the caller's moves so far ({ moves: ["e2e4", ...], sessionId?, timeSpentSeconds? })
+ * Answers the opponent's reply while the moves follow the solution; a solved or failed puzzle
+ * records one attempt per session (the move that failed goes to broken_on_move) and answers the
+ * caller's updated puzzle rating. Illegal moves answer 400 and record nothing; any mate solves
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireRole(ANY_ROLE);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const payload = await request.json().catch(() => ({}));
+
+    const moves = payload?.moves;
+    if (!Array.isArray(moves) || !moves.every((move) => typeof move === "string")) {
+      return NextResponse.json({ error: "moves must be an array of UCI moves" }, { status: 400 });
+    }
+    const sessionId = typeof payload?.sessionId === "string" ? payload.sessionId : null;
+    const timeSpentSeconds =
+      typeof payload?.timeSpentSeconds === "number" && Number.isFinite(payload.timeSpentSeconds)
+        ? payload.timeSpentSeconds
+        : null;
+
+    const result = await submitPuzzleMoves(authResult.auth.userId, id, { sessionId, moves, timeSpentSeconds });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      ...result.check,
+      solution: result.solution,
+      recorded: result.recorded,
+      rating: result.rating,
+    });
+  } catch (error) {
+    console.error("Error checking puzzle moves:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
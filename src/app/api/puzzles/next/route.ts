@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ANY_ROLE, requireRole } from "@/lib/security/authorize";
+import { DEFAULT_PUZZLE_MODE, isPuzzleMode } from "@/lib/puzzles/puzzleSessions";
+import { selectNextPuzzle } from "@/lib/puzzles/puzzleSelection";
+import { pickDueReviewPuzzle } from "@/lib/puzzles/puzzleReviews";
+import { REVIEW_PUZZLE_MODE } from "@/lib/puzzles/reviewScheduler";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Next puzzle for the caller (?mode=tactics), near their puzzle rating or ?rating=
+ * Skips puzzles attempted in the last 30 days and favours the caller's weakest themes
+ * ?mode=review serves the caller's longest-waiting due review instead
+ * Returns the starting position only; moves are checked by POST /api/puzzles/[id]/moves
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireRole(ANY_ROLE);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const mode = searchParams.get("mode") ?? DEFAULT_PUZZLE_MODE;
+    if (!isPuzzleMode(mode)) {
+      return NextResponse.json({ error: "Invalid puzzle mode" }, { status: 400 });
+    }
+
+    if (mode === REVIEW_PUZZLE_MODE) {
+      const puzzle = await pickDueReviewPuzzle(authResult.auth.userId);
+      if (!puzzle) {
+        return NextResponse.json({ error: "No puzzles due for review" }, { status: 404 });
+      }
+      return NextResponse.json({ puzzle });
+    }
+
+    const ratingParam = searchParams.get("rating");
+    const targetRating = ratingParam ? parseInt(ratingParam, 10) : undefined;
+    if (targetRating !== undefined && (isNaN(targetRating) || targetRating < 0 || targetRating > 4000)) {
+      return NextResponse.json({ error: "rating must be a number between 0 and 4000" }, { status: 400 });
+    }
+
+    const next = await selectNextPuzzle(authResult.auth.userId, { mode, targetRating });
+    if (!next) {
+      return NextResponse.json({ error: "No puzzles left in this mode" }, { status: 404 });
+    }
+    return NextResponse.json({ puzzle: next.puzzle, targetRating: next.targetRating });
+  } catch (error) {
+    console.error("Error picking next puzzle:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
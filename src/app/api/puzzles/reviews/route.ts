@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { ANY_ROLE, requireRole } from "@/lib/security/authorize";
+import { getReviewSummary } from "@/lib/puzzles/puzzleReviews";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: The caller's puzzle review queue: due, overdue and queued counts and the next due date
+ * Due reviews are served by GET /api/puzzles/next?mode=review
+ */
+export async function GET() {
+  const authResult = await requireRole(ANY_ROLE);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const summary = await getReviewSummary(authResult.auth.userId);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Error loading puzzle reviews:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { ANY_ROLE, requireRole } from "@/lib/security/authorize";
+import { getPuzzleSessionSummary } from "@/lib/puzzles/puzzleSessions";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Attempt totals of one of the caller's puzzle sessions
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireRole(ANY_ROLE);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const summary = await getPuzzleSessionSummary(authResult.auth.userId, id);
+    if (!summary) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Error loading puzzle session:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
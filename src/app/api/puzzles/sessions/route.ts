@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ANY_ROLE, requireRole } from "@/lib/security/authorize";
+import { createPuzzleSession, DEFAULT_PUZZLE_MODE, isPuzzleMode } from "@/lib/puzzles/puzzleSessions";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST: Start a puzzle solving session ({ mode? }); attempts made with its id are grouped under it
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireRole(ANY_ROLE);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const payload = await request.json().catch(() => ({}));
+    const mode = typeof payload?.mode === "string" ? payload.mode : DEFAULT_PUZZLE_MODE;
+    if (!isPuzzleMode(mode)) {
+      return NextResponse.json({ error: "Invalid puzzle mode" }, { status: 400 });
+    }
+
+    const session = await createPuzzleSession(authResult.auth.userId, mode);
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    console.error("Error starting puzzle session:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Allow/deny matrix for every API route
+ * Each handler is called as an anonymous visitor, a student, a coach and an admin (and with
+ * the cron secret where it applies); denied calls must answer 401/403, allowed calls anything else
+ * Uses Vitest with mocked Supabase session, Prisma and background services
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const session = vi.hoisted(() => ({
+  user: null as { id: string } | null,
+  profile: null as { role: string | null } | null,
+}));
+
+vi.mock('@/utils/supabase/server', () => ({
+  createClient: async () => ({
+    auth: { getUser: async () => ({ data: { user: session.user }, error: null }) },
+  }),
+}));
+
+// Only the role lookup (and an empty review queue) is real; handlers that get past the guard fail on the missing models
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    profiles: { findUnique: async () => session.profile },
+    puzzle_reviews: { groupBy: async () => [], findFirst: async () => null },
+  },
+}));
+
+vi.mock('@/lib/cron/scheduler', () => ({ startScheduler: vi.fn() }));
+
+vi.mock('@/lib/cron/syncWorker', () => ({
+  runSyncWorker: vi.fn(async ({ workerId }: { workerId: string }) => ({
+    workerId,
+    processed: 0,
+    succeeded: 0,
+    retried: 0,
+    failed: 0,
+  })),
+}));
+
+import * as boot from './_boot/route';
+import * as coachReviews from './coach/reviews/route';
+import * as coachStudent from './coach/student/[id]/route';
+import * as coachStudentCoaches from './coach/student/[id]/coaches/route';
+import * as coachStudentNotes from './coach/student/[id]/notes/route';
+import * as coachStudentTransfer from './coach/student/[id]/transfer/route';
+import * as coachStudents from './coach/students/route';
+import * as compactSnapshots from './cron/compact-snapshots/route';
+import * as syncWorker from './cron/sync-worker/route';
+import * as updateStatsV2 from './cron/update-stats-v2/route';
+import * as updateStats from './cron/update-stats/route';
+import * as dbHealth from './db-health/route';
+import * as dbInspector from './db-inspector/route';
+import * as lichessExport from './debug/lichess-export/route';
+import * as lichessToken from './platform-connections/lichess-token/route';
+import * as lichessAuthorize from './platform-connections/lichess/authorize/route';
+import * as lichessCallback from './platform-connections/lichess/callback/route';
+import * as playerLookup from './player-lookup/route';
+import * as puzzleMoves from './puzzles/[id]/moves/route';
+import * as puzzleNext from './puzzles/next/route';
+import * as puzzleReviews from './puzzles/reviews/route';
+import * as puzzleSession from './puzzles/sessions/[id]/route';
+import * as puzzleSessions from './puzzles/sessions/route';
+import * as studentHistory from './students/[id]/history/route';
+import * as testDb from './test-db/route';
+
+type Caller = 'anonymous' | 'student' | 'coach' | 'admin';
+
+const CALLERS: Caller[] = ['anonymous', 'student', 'coach', 'admin'];
+
+const CRON_SECRET = 'test-cron-secret';
+
+function request(path: string, init: { method?: string; headers?: Record<string, string>; body?: string } = {}) {
+  return new NextRequest(`http://localhost${path}`, init);
+}
+
+type RouteCase = {
+  name: string;
+  call: (headers?: Record<string, string>) => Promise<Response>;
+  allowed: Caller[];
+  cron?: boolean;
+};
+
+const ROUTES: RouteCase[] = [
+  { name: 'GET /api/_boot', call: () => boot.GET(), allowed: ['coach', 'admin'] },
+  { name: 'GET /api/coach/reviews', call: () => coachReviews.GET(), allowed: ['coach', 'admin'] },
+  {
+    name: 'GET /api/coach/students',
+    call: () => coachStudents.GET(request('/api/coach/students')),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'POST /api/coach/students',
+    call: () => coachStudents.POST(request('/api/coach/students', { method: 'POST', body: '{}' })),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'GET /api/coach/student/[id]',
+    call: () => coachStudent.GET(request('/api/coach/student/s1'), { params: Promise.resolve({ id: 's1' }) }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'DELETE /api/coach/student/[id]',
+    call: () =>
+      coachStudent.DELETE(request('/api/coach/student/s1', { method: 'DELETE' }), {
+        params: Promise.resolve({ id: 's1' }),
+      }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'GET /api/coach/student/[id]/coaches',
+    call: () =>
+      coachStudentCoaches.GET(request('/api/coach/student/s1/coaches'), { params: Promise.resolve({ id: 's1' }) }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'POST /api/coach/student/[id]/coaches',
+    call: () =>
+      coachStudentCoaches.POST(request('/api/coach/student/s1/coaches', { method: 'POST', body: '{}' }), {
+        params: Promise.resolve({ id: 's1' }),
+      }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'DELETE /api/coach/student/[id]/coaches',
+    call: () =>
+      coachStudentCoaches.DELETE(request('/api/coach/student/s1/coaches?coachId=c2', { method: 'DELETE' }), {
+        params: Promise.resolve({ id: 's1' }),
+      }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'POST /api/coach/student/[id]/notes',
+    call: () =>
+      coachStudentNotes.POST(request('/api/coach/student/s1/notes', { method: 'POST', body: '{}' }), {
+        params: Promise.resolve({ id: 's1' }),
+      }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'DELETE /api/coach/student/[id]/notes',
+    call: () =>
+      coachStudentNotes.DELETE(request('/api/coach/student/s1/notes?noteId=n1', { method: 'DELETE' }), {
+        params: Promise.resolve({ id: 's1' }),
+      }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'POST /api/coach/student/[id]/transfer',
+    call: () =>
+      coachStudentTransfer.POST(request('/api/coach/student/s1/transfer', { method: 'POST', body: '{}' }), {
+        params: Promise.resolve({ id: 's1' }),
+      }),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'GET /api/cron/compact-snapshots',
+    call: (headers) => compactSnapshots.GET(request('/api/cron/compact-snapshots?dryRun=1', { headers })),
+    allowed: ['admin'],
+    cron: true,
+  },
+  {
+    name: 'GET /api/cron/sync-worker',
+    call: (headers) => syncWorker.GET(request('/api/cron/sync-worker', { headers })),
+    allowed: ['coach', 'admin'],
+    cron: true,
+  },
+  {
+    name: 'GET /api/cron/update-stats-v2',
+    call: (headers) => updateStatsV2.GET(request('/api/cron/update-stats-v2', { headers })),
+    allowed: ['coach', 'admin'],
+    cron: true,
+  },
+  {
+    name: 'GET /api/cron/update-stats',
+    call: (headers) => updateStats.GET(request('/api/cron/update-stats', { headers })),
+    allowed: ['coach', 'admin'],
+    cron: true,
+  },
+  { name: 'GET /api/db-health', call: () => dbHealth.GET(), allowed: ['admin'] },
+  { name: 'GET /api/db-inspector', call: () => dbInspector.GET(), allowed: ['admin'] },
+  { name: 'GET /api/test-db', call: () => testDb.GET(), allowed: ['admin'] },
+  {
+    name: 'GET /api/debug/lichess-export',
+    call: () => lichessExport.GET(request('/api/debug/lichess-export')),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'GET /api/player-lookup',
+    call: () => playerLookup.GET(request('/api/player-lookup')),
+    allowed: ['coach', 'admin'],
+  },
+  {
+    name: 'POST /api/puzzles/sessions',
+    call: () => puzzleSessions.POST(request('/api/puzzles/sessions', { method: 'POST', body: '{}' })),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'GET /api/puzzles/sessions/[id]',
+    call: () =>
+      puzzleSession.GET(request('/api/puzzles/sessions/ps1'), { params: Promise.resolve({ id: 'ps1' }) }),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'GET /api/puzzles/next',
+    call: () => puzzleNext.GET(request('/api/puzzles/next')),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  { name: 'GET /api/puzzles/reviews', call: () => puzzleReviews.GET(), allowed: ['student', 'coach', 'admin'] },
+  {
+    name: 'POST /api/puzzles/[id]/moves',
+    call: () =>
+      puzzleMoves.POST(request('/api/puzzles/p1/moves', { method: 'POST', body: '{"moves":["e2e4"]}' }), {
+        params: Promise.resolve({ id: 'p1' }),
+      }),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'GET /api/students/[id]/history',
+    call: () =>
+      studentHistory.GET(request('/api/students/s1/history?metric=rapid_rating'), {
+        params: Promise.resolve({ id: 's1' }),
+      }),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'GET /api/platform-connections/lichess-token',
+    call: () => lichessToken.GET(request('/api/platform-connections/lichess-token')),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'POST /api/platform-connections/lichess-token',
+    call: () =>
+      lichessToken.POST(request('/api/platform-connections/lichess-token', { method: 'POST', body: '{}' })),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'DELETE /api/platform-connections/lichess-token',
+    call: () => lichessToken.DELETE(),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'GET /api/platform-connections/lichess/authorize',
+    call: () => lichessAuthorize.GET(request('/api/platform-connections/lichess/authorize')),
+    allowed: ['student', 'coach', 'admin'],
+  },
+  {
+    name: 'GET /api/platform-connections/lichess/callback',
+    call: () => lichessCallback.GET(request('/api/platform-connections/lichess/callback')),
+    allowed: ['student', 'coach', 'admin'],
+  },
+];
+
+function signInAs(caller: Caller) {
+  if (caller === 'anonymous') {
+    session.user = null;
+    session.profile = null;
+  } else {
+    session.user = { id: `${caller}-1` };
+    session.profile = { role: caller };
+  }
+}
+
+describe('API route authorization', () => {
+  beforeAll(() => {
+    // Denied and failing handlers log; keep the test output readable
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('CRON_SECRET', CRON_SECRET);
+    // The debug export skips auth outside production
+    vi.stubEnv('NODE_ENV', 'production');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  for (const route of ROUTES) {
+    describe(route.name, () => {
+      for (const caller of CALLERS) {
+        const allowed = route.allowed.includes(caller);
+
+        it(`${allowed ? 'allows' : 'denies'} ${caller}`, async () => {
+          signInAs(caller);
+
+          const response = await route.call();
+
+          if (allowed) {
+            expect([401, 403]).not.toContain(response.status);
+          } else {
+            expect(response.status).toBe(caller === 'anonymous' ? 401 : 403);
+          }
+        });
+      }
+
+      if (route.cron) {
+        it('allows the cron secret without a session', async () => {
+          signInAs('anonymous');
+
+          const response = await route.call({ Authorization: `Bearer ${CRON_SECRET}` });
+
+          expect([401, 403]).not.toContain(response.status);
+        });
+
+        it('denies a wrong cron secret', async () => {
+          signInAs('anonymous');
+
+          const response = await route.call({ Authorization: 'Bearer not-the-secret' });
+
+          expect(response.status).toBe(401);
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { ANY_ROLE, requireRole } from "@/lib/security/authorize";
+import { getStudentAccess } from "@/lib/coach/roster";
+import {
+  countBuckets,
+  getSnapshotHistory,
+  HISTORY_BUCKET_SIZES,
+  HISTORY_METRICS,
+  isHistoryBucketSize,
+  isHistoryMetric,
+  MAX_HISTORY_BUCKETS,
+} from "@/lib/stats/snapshotHistory";
+
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Range used when `from` is omitted
+const DEFAULT_RANGE_DAYS = { day: 30, week: 182 };
+
+/**
+ * Parse an ISO date/time query parameter; undefined when absent, null when malformed
+ */
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET: Bucketed time series of one stats_snapshots metric
+ * ?metric=rapid_rating&platform=lichess&from=2024-01-01&to=2024-03-01&bucket=day|week
+ * Coaches see students on their roster, students only themselves; buckets without data are null
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireRole(ANY_ROLE);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const { auth } = authResult;
+
+    // Students outside the caller's roster answer 404, same as missing ones
+    const allowed = auth.role === "student" ? auth.userId === id : (await getStudentAccess(auth, id)) !== null;
+    if (!allowed) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const metric = searchParams.get("metric") ?? "";
+    if (!isHistoryMetric(metric)) {
+      return NextResponse.json(
+        { error: `metric must be one of: ${HISTORY_METRICS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const bucket = searchParams.get("bucket") ?? "day";
+    if (!isHistoryBucketSize(bucket)) {
+      return NextResponse.json(
+        { error: `bucket must be one of: ${HISTORY_BUCKET_SIZES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const toParam = parseDateParam(searchParams.get("to"));
+    const fromParam = parseDateParam(searchParams.get("from"));
+    if (toParam === null || fromParam === null) {
+      return NextResponse.json({ error: "from and to must be ISO dates" }, { status: 400 });
+    }
+    const to = toParam ?? new Date();
+    const from = fromParam ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS[bucket] * DAY_MS);
+    if (from > to) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 });
+    }
+    if (countBuckets(from, to, bucket) > MAX_HISTORY_BUCKETS) {
+      return NextResponse.json(
+        { error: `Range too large: at most ${MAX_HISTORY_BUCKETS} ${bucket} buckets` },
+        { status: 400 }
+      );
+    }
+
+    // Ratings from different platforms don't belong on one line: default to the student's
+    // main connection (Lichess first, like the dashboard)
+    let platform = searchParams.get("platform");
+    if (platform !== null && platform !== "lichess" && platform !== "chesscom") {
+      return NextResponse.json({ error: "platform must be lichess or chesscom" }, { status: 400 });
+    }
+    if (platform === null) {
+      const connections = await prisma.platform_connections.findMany({
+        where: { user_id: id },
+        select: { platform: true },
+      });
+      platform =
+        connections.find((connection) => connection.platform === "lichess")?.platform ??
+        connections.find((connection) => connection.platform === "chesscom")?.platform ??
+        null;
+    }
+
+    const buckets = await getSnapshotHistory({ studentId: id, metric, platform, from, to, bucket });
+
+    return NextResponse.json({
+      studentId: id,
+      metric,
+      platform,
+      bucket,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      buckets,
+    });
+  } catch (error) {
+    console.error("Error loading student history:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
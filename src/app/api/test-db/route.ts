@@ -1,10 +1,16 @@
 import { NextResponse } from "next/server";
 
 import { prisma } from "@/lib/prisma";
+import { ADMIN_ROLES, requireRole } from "@/lib/security/authorize";
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
+  const authResult = await requireRole(ADMIN_ROLES);
+  if (!authResult.ok) {
+    return authResult.response;
+  }
+
   try {
     const testEmail = "test_db_check@example.com";
     const testUsername = "TEST_PLAYER_DB_CHECK";
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+type LichessTokenStatus = {
+  hasToken: boolean;
+  needsReauth: boolean;
+  username: string | null;
+};
+
+// Outcome of the OAuth callback, passed back as ?lichess=
+const CALLBACK_MESSAGES: Record<string, string> = {
+  connected: "Lichess connected.",
+  denied: "Lichess access was not granted.",
+  invalid_state: "The Lichess sign-in expired. Please try again.",
+  error: "Could not connect Lichess. Please try again.",
+};
+
+/**
+ * "Connect Lichess" card: starts the OAuth flow and lets the student disconnect again
+ */
+export function LichessConnectCard() {
+  const [status, setStatus] = useState<LichessTokenStatus | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function loadStatus() {
+    try {
+      const response = await fetch("/api/platform-connections/lichess-token");
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading Lichess connection:", error);
+    }
+  }
+
+  useEffect(() => {
+    const outcome = new URLSearchParams(window.location.search).get("lichess");
+    if (outcome) {
+      setMessage(CALLBACK_MESSAGES[outcome] ?? null);
+    }
+    loadStatus();
+  }, []);
+
+  async function handleDisconnect() {
+    setBusy(true);
+    try {
+      const response = await fetch("/api/platform-connections/lichess-token", { method: "DELETE" });
+      setMessage(response.ok ? "Lichess disconnected." : "Could not disconnect Lichess.");
+      await loadStatus();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const connected = status?.hasToken === true && !status.needsReauth;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle>Lichess</CardTitle>
+          {connected && <Badge variant="success">Connected</Badge>}
+          {status?.needsReauth && <Badge variant="warning">Reconnect needed</Badge>}
+        </div>
+        <CardDescription>
+          Connecting Lichess lets your coach see exactly how many puzzles you solved. Only puzzle activity is shared.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-3">
+        {connected ? (
+          <>
+            {status?.username && (
+              <span className="text-sm text-[hsl(var(--foreground))]">Signed in as {status.username}</span>
+            )}
+            <Button variant="outline" size="sm" onClick={handleDisconnect} disabled={busy}>
+              Disconnect
+            </Button>
+          </>
+        ) : (
+          <Button
+            size="sm"
+            onClick={() => {
+              window.location.href = "/api/platform-connections/lichess/authorize";
+            }}
+            disabled={status === null}
+          >
+            {status?.needsReauth ? "Reconnect Lichess" : "Connect Lichess"}
+          </Button>
+        )}
+        {message && <span className="text-sm text-[hsl(var(--muted-foreground))]">{message}</span>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { cn } from "@/lib/cn";
+import { coordsToSquare, type Board, type PieceCode, type PieceColor } from "@/lib/puzzles/board";
+
+const PIECE_GLYPHS: Record<PieceCode, string> = {
+  K: "♔",
+  Q: "♕",
+  R: "♖",
+  B: "♗",
+  N: "♘",
+  P: "♙",
+  k: "♚",
+  q: "♛",
+  r: "♜",
+  b: "♝",
+  n: "♞",
+  p: "♟",
+};
+
+type PuzzleBoardProps = {
+  board: Board;
+  orientation: PieceColor;
+  selected: string | null;
+  /** Squares of the last move played, highlighted */
+  lastMove: string | null;
+  disabled?: boolean;
+  onSquareClick: (square: string) => void;
+};
+
+/**
+ * Click-to-move chess board; the parent decides what a click means
+ */
+export function PuzzleBoard({ board, orientation, selected, lastMove, disabled, onSquareClick }: PuzzleBoardProps) {
+  const order = [0, 1, 2, 3, 4, 5, 6, 7];
+  const ranks = orientation === "white" ? order : [...order].reverse();
+  const files = orientation === "white" ? order : [...order].reverse();
+  const highlighted = lastMove ? [lastMove.slice(0, 2), lastMove.slice(2, 4)] : [];
+
+  return (
+    <div className="grid grid-cols-8 w-full max-w-[480px] aspect-square rounded-lg overflow-hidden border border-[hsl(var(--border))] select-none">
+      {ranks.map((rank) =>
+        files.map((file) => {
+          const square = coordsToSquare(rank, file);
+          const piece = board[rank][file];
+          const light = (rank + file) % 2 === 0;
+          return (
+            <button
+              key={square}
+              type="button"
+              aria-label={square}
+              disabled={disabled}
+              onClick={() => onSquareClick(square)}
+              className={cn(
+                "relative flex items-center justify-center text-[min(9vw,44px)] leading-none",
+                light ? "bg-amber-100" : "bg-amber-700",
+                highlighted.includes(square) && (light ? "bg-yellow-200" : "bg-yellow-500"),
+                selected === square && "ring-4 ring-inset ring-blue-500",
+                disabled ? "cursor-default" : "cursor-pointer"
+              )}
+            >
+              {piece && <span className="text-black drop-shadow-sm">{PIECE_GLYPHS[piece]}</span>}
+              {file === files[0] && (
+                <span className="absolute left-0.5 top-0.5 text-[10px] text-black/60">{8 - rank}</span>
+              )}
+              {rank === ranks[7] && (
+                <span className="absolute right-0.5 bottom-0 text-[10px] text-black/60">{square[0]}</span>
+              )}
+            </button>
+          );
+        })
+      )}
+    </div>
+  );
+}
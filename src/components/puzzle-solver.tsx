@@ -0,0 +1,369 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { PuzzleBoard } from "@/components/puzzle-board";
+import { parseFen } from "@/lib/chess/fen";
+import type { Position } from "@/lib/chess/types";
+import {
+  pieceColor,
+  playUciMove,
+  sideToMove,
+  squareToCoords,
+  toBoard,
+  type PieceColor,
+} from "@/lib/puzzles/board";
+
+// GET /api/puzzles/next
+type SolverPuzzle = {
+  id: string;
+  fen: string;
+  sideToMove: string;
+  themes: string[];
+  rating: number | null;
+  mode: string;
+  studentMoves: number;
+};
+
+// GET /api/puzzles/sessions/[id]
+type SessionSummary = {
+  id: string;
+  attempts: number;
+  solved: number;
+  failed: number;
+  timeSpentSeconds: number;
+};
+
+// Student puzzle rating, when an attempt was recorded
+type RatingUpdate = { rating: number; rd: number; provisional: boolean } | null;
+
+// POST /api/puzzles/[id]/moves
+type MovesResponse =
+  | { status: "continue"; reply: string }
+  | { status: "solved"; solution: string[]; rating: RatingUpdate }
+  | { status: "failed"; brokenOnMove: number; expected: string; solution: string[]; rating: RatingUpdate };
+
+// GET /api/puzzles/reviews
+type ReviewSummary = {
+  due: number;
+  overdue: number;
+  queued: number;
+  nextDueAt: string | null;
+};
+
+type SolverState = "loading" | "playing" | "checking" | "solved" | "failed" | "empty";
+
+// "tactics" serves new puzzles near the student's rating, "review" the puzzles due for another try
+type SolverMode = "tactics" | "review";
+
+/**
+ * Puzzle trainer: one session per visit and mode, moves checked by the server after every move
+ */
+export function PuzzleSolver() {
+  const [mode, setMode] = useState<SolverMode>("tactics");
+  const [reviews, setReviews] = useState<ReviewSummary | null>(null);
+  const [session, setSession] = useState<SessionSummary | null>(null);
+  const [rating, setRating] = useState<number | null>(null);
+  const [ratingChange, setRatingChange] = useState<number | null>(null);
+  const [puzzle, setPuzzle] = useState<SolverPuzzle | null>(null);
+  const [position, setPosition] = useState<Position | null>(null);
+  const [orientation, setOrientation] = useState<PieceColor>("white");
+  const [moves, setMoves] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [lastMove, setLastMove] = useState<string | null>(null);
+  const [startedAt, setStartedAt] = useState(0);
+  const [state, setState] = useState<SolverState>("loading");
+  const [message, setMessage] = useState<string | null>(null);
+  const board = position ? toBoard(position) : null;
+
+  async function loadSession(sessionId: string) {
+    const response = await fetch(`/api/puzzles/sessions/${sessionId}`);
+    if (response.ok) {
+      setSession(await response.json());
+    }
+  }
+
+  async function loadReviews() {
+    const response = await fetch("/api/puzzles/reviews");
+    if (response.ok) {
+      setReviews(await response.json());
+    }
+  }
+
+  async function startSession(sessionMode: SolverMode) {
+    setSession(null);
+    try {
+      const response = await fetch("/api/puzzles/sessions", {
+        method: "POST",
+        body: JSON.stringify({ mode: sessionMode }),
+      });
+      if (response.ok) {
+        setSession(await response.json());
+      }
+    } catch (error) {
+      // Attempts are still recorded without a session
+      console.error("Error starting puzzle session:", error);
+    }
+  }
+
+  async function loadNextPuzzle(puzzleMode: SolverMode) {
+    setState("loading");
+    setMessage(null);
+    setSelected(null);
+    setLastMove(null);
+    setRatingChange(null);
+    try {
+      const response = await fetch(`/api/puzzles/next?mode=${puzzleMode}`);
+      if (response.status === 404) {
+        setPuzzle(null);
+        setPosition(null);
+        setState("empty");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      // Review puzzles come without a target rating
+      const data: { puzzle: SolverPuzzle; targetRating?: number } = await response.json();
+      setPuzzle(data.puzzle);
+      if (data.targetRating !== undefined) {
+        setRating(data.targetRating);
+      }
+      const start = parseFen(data.puzzle.fen);
+      setPosition(start);
+      setOrientation(sideToMove(start));
+      setMoves([]);
+      setStartedAt(Date.now());
+      setState("playing");
+    } catch (error) {
+      console.error("Error loading puzzle:", error);
+      setMessage("Could not load a puzzle. Please try again.");
+      setState("empty");
+    }
+  }
+
+  useEffect(() => {
+    async function start() {
+      await startSession("tactics");
+      await Promise.all([loadNextPuzzle("tactics"), loadReviews()]);
+    }
+    start();
+  }, []);
+
+  async function switchMode(nextMode: SolverMode) {
+    if (nextMode === mode) return;
+    setMode(nextMode);
+    await startSession(nextMode);
+    await loadNextPuzzle(nextMode);
+  }
+
+  async function submitMove(move: string) {
+    if (!puzzle || !position) return;
+
+    // Illegal moves never reach the server
+    const afterMove = playUciMove(position, move);
+    if (!afterMove) {
+      setMessage("That move isn't legal here.");
+      return;
+    }
+
+    const played = [...moves, move];
+    setMessage(null);
+    setPosition(afterMove);
+    setLastMove(move);
+    setMoves(played);
+    setState("checking");
+
+    try {
+      const response = await fetch(`/api/puzzles/${puzzle.id}/moves`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          moves: played,
+          sessionId: session?.id ?? null,
+          timeSpentSeconds: (Date.now() - startedAt) / 1000,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error ?? `HTTP ${response.status}`);
+      }
+
+      const result: MovesResponse = await response.json();
+      if (result.status === "continue") {
+        setPosition(playUciMove(afterMove, result.reply) ?? afterMove);
+        setLastMove(result.reply);
+        setState("playing");
+        return;
+      }
+
+      if (result.status === "solved") {
+        setState("solved");
+        setMessage("Solved!");
+      } else {
+        setState("failed");
+        setMessage(`Not quite: the move was ${result.expected}.`);
+      }
+      if (result.rating) {
+        const updated = Math.round(result.rating.rating);
+        if (rating !== null) {
+          setRatingChange(updated - rating);
+        }
+        setRating(updated);
+      }
+      await Promise.all([session ? loadSession(session.id) : null, loadReviews()]);
+    } catch (error) {
+      console.error("Error checking puzzle move:", error);
+      // Take the move back so the student can try again
+      setPosition(position);
+      setMoves(moves);
+      setLastMove(null);
+      setState("playing");
+      setMessage("Could not check the move. Please try again.");
+    }
+  }
+
+  function handleSquareClick(square: string) {
+    if (state !== "playing" || !board) return;
+
+    const [rank, file] = squareToCoords(square);
+    const piece = board[rank][file];
+    const ownPiece = piece !== null && pieceColor(piece) === orientation;
+
+    if (!selected || ownPiece) {
+      setSelected(ownPiece ? square : null);
+      return;
+    }
+
+    const [fromRank, fromFile] = squareToCoords(selected);
+    const moving = board[fromRank][fromFile];
+    setSelected(null);
+    if (square === selected) return;
+
+    // Pawns reaching the last rank promote to a queen
+    const promotes = (moving === "P" && rank === 0) || (moving === "p" && rank === 7);
+    submitMove(`${selected}${square}${promotes ? "q" : ""}`);
+  }
+
+  const finished = state === "solved" || state === "failed";
+  const switching = state === "loading" || state === "checking";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button
+          variant={mode === "tactics" ? "default" : "outline"}
+          onClick={() => switchMode("tactics")}
+          disabled={switching}
+        >
+          Training
+        </Button>
+        <Button
+          variant={mode === "review" ? "default" : "outline"}
+          onClick={() => switchMode("review")}
+          disabled={switching}
+        >
+          Review
+          {reviews && reviews.due > 0 && (
+            <Badge variant={reviews.overdue > 0 ? "warning" : "success"} className="ml-2">
+              {reviews.due}
+            </Badge>
+          )}
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,480px)_1fr]">
+        <div className="space-y-3">
+          {board ? (
+            <PuzzleBoard
+              board={board}
+              orientation={orientation}
+              selected={selected}
+              lastMove={lastMove}
+              disabled={state !== "playing"}
+              onSquareClick={handleSquareClick}
+            />
+          ) : (
+            <div className="w-full max-w-[480px] aspect-square rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--muted))]" />
+          )}
+          {state === "playing" && (
+            <p className="text-sm text-[hsl(var(--muted-foreground))]">
+              {orientation === "white" ? "White" : "Black"} to move
+              {puzzle && ` · find ${puzzle.studentMoves} move${puzzle.studentMoves === 1 ? "" : "s"}`}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CardTitle>{puzzle?.rating ? `Puzzle · ${puzzle.rating}` : "Puzzle"}</CardTitle>
+                {state === "solved" && <Badge variant="success">Solved</Badge>}
+                {state === "failed" && <Badge variant="warning">Failed</Badge>}
+              </div>
+              {puzzle && puzzle.themes.length > 0 && finished && (
+                <CardDescription>{puzzle.themes.join(", ")}</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {state === "empty" && !message && mode === "tactics" && (
+                <p className="text-sm text-[hsl(var(--muted-foreground))]">You have solved every puzzle available. Check back later!</p>
+              )}
+              {state === "empty" && !message && mode === "review" && (
+                <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                  {reviews?.nextDueAt
+                    ? `No reviews due. The next one is due ${new Date(reviews.nextDueAt).toLocaleString()}.`
+                    : "No puzzles to review yet. Puzzles you miss or solve slowly come back here."}
+                </p>
+              )}
+              {message && <p className="text-sm text-[hsl(var(--foreground))]">{message}</p>}
+              <Button onClick={() => loadNextPuzzle(mode)} disabled={!finished && state !== "empty"}>
+                Next puzzle
+              </Button>
+            </CardContent>
+          </Card>
+
+          {session && (
+            <Card>
+              <CardHeader>
+                <CardTitle>This session</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-4 gap-3 text-sm">
+                <div>
+                  <div className="text-2xl font-semibold text-[hsl(var(--foreground))]">
+                    {rating ?? "—"}
+                    {ratingChange !== null && ratingChange !== 0 && (
+                      <span
+                        className={`ml-1 text-sm ${ratingChange > 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+                      >
+                        {ratingChange > 0 ? `+${ratingChange}` : ratingChange}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-[hsl(var(--muted-foreground))]">Rating</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold text-green-600 dark:text-green-400">{session.solved}</div>
+                  <div className="text-[hsl(var(--muted-foreground))]">Solved</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold text-red-600 dark:text-red-400">{session.failed}</div>
+                  <div className="text-[hsl(var(--muted-foreground))]">Failed</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold text-[hsl(var(--foreground))]">
+                    {Math.round(session.timeSpentSeconds / 60)}m
+                  </div>
+                  <div className="text-[hsl(var(--muted-foreground))]">Time</div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
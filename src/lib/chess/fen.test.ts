@@ -0,0 +1,50 @@
+/**
+ * Tests for FEN parsing and serialisation
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFen, STARTING_FEN, toFen } from './fen';
+import { parseSquare } from './types';
+
+describe('fen', () => {
+  it('round-trips positions', () => {
+    for (const fen of [
+      STARTING_FEN,
+      'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+      'rnbqkbnr/ppp1pppp/8/3pP3/8/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 3',
+      '8/8/8/8/8/8/8/k6K b - - 42 80',
+    ]) {
+      expect(toFen(parseFen(fen))).toBe(fen);
+    }
+  });
+
+  it('reads every field', () => {
+    const position = parseFen('rnbqkbnr/ppp1pppp/8/3pP3/8/8/PPPP1PPP/RNBQKBNR w Kq d6 0 3');
+    expect(position.board[parseSquare('e1')!]).toBe('K');
+    expect(position.board[parseSquare('d5')!]).toBe('p');
+    expect(position.turn).toBe('w');
+    expect(position.castling).toEqual({
+      whiteKingside: true,
+      whiteQueenside: false,
+      blackKingside: false,
+      blackQueenside: true,
+    });
+    expect(position.enPassant).toBe(parseSquare('d6'));
+    expect(position.fullmoveNumber).toBe(3);
+  });
+
+  it('defaults the move counters when they are missing', () => {
+    expect(toFen(parseFen('8/8/8/8/8/8/8/k6K w - -'))).toBe('8/8/8/8/8/8/8/k6K w - - 0 1');
+  });
+
+  it('rejects malformed FENs', () => {
+    expect(() => parseFen('8/8/8/8/8/8/8 w - - 0 1')).toThrow('8 ranks');
+    expect(() => parseFen('9/8/8/8/8/8/8/k6K w - - 0 1')).toThrow();
+    expect(() => parseFen('8/8/8/8/8/8/8/k6KP w - - 0 1')).toThrow('more than 8 squares');
+    expect(() => parseFen('8/8/8/8/8/8/8/8 w - - 0 1')).toThrow('one king');
+    expect(() => parseFen('8/8/8/8/8/8/8/k6K x - - 0 1')).toThrow('side to move');
+    expect(() => parseFen('8/8/8/8/8/8/8/k6K w KX - 0 1')).toThrow('castling');
+    expect(() => parseFen('8/8/8/8/8/8/8/k6K w - e4 0 1')).toThrow('en passant');
+  });
+});
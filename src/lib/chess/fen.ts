@@ -0,0 +1,121 @@
+/**
+ * FEN parsing and serialisation
+ */
+
+import { parseSquare, squareName } from '@/lib/chess/types';
+import type { Piece, Position } from '@/lib/chess/types';
+
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const PIECES = 'PNBRQKpnbrqk';
+
+/**
+ * Parse a FEN; the move counters may be omitted (as in EPD and many puzzle sets)
+ * Throws on anything malformed, including positions without exactly one king per side
+ */
+export function parseFen(fen: string): Position {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) {
+    throw new Error(`Invalid FEN: expected 4 to 6 fields, got ${fields.length}`);
+  }
+  const [placement, turn, castling, enPassant, halfmove = '0', fullmove = '1'] = fields;
+
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw new Error(`Invalid FEN: expected 8 ranks, got ${ranks.length}`);
+  }
+  const board: (Piece | null)[] = new Array(64).fill(null);
+  ranks.forEach((rank, i) => {
+    const rankIndex = 7 - i;
+    let file = 0;
+    for (const char of rank) {
+      if (char >= '1' && char <= '8') {
+        file += Number(char);
+      } else if (PIECES.includes(char)) {
+        if (file > 7) {
+          throw new Error(`Invalid FEN: rank ${rankIndex + 1} has more than 8 squares`);
+        }
+        board[rankIndex * 8 + file] = char as Piece;
+        file++;
+      } else {
+        throw new Error(`Invalid FEN: unexpected "${char}" in placement`);
+      }
+    }
+    if (file !== 8) {
+      throw new Error(`Invalid FEN: rank ${rankIndex + 1} has ${file} squares`);
+    }
+  });
+
+  if (board.filter((piece) => piece === 'K').length !== 1 || board.filter((piece) => piece === 'k').length !== 1) {
+    throw new Error('Invalid FEN: each side needs exactly one king');
+  }
+
+  if (turn !== 'w' && turn !== 'b') {
+    throw new Error(`Invalid FEN: side to move must be w or b, got ${turn}`);
+  }
+  if (!/^(-|K?Q?k?q?)$/.test(castling) || castling === '') {
+    throw new Error(`Invalid FEN: bad castling field ${castling}`);
+  }
+
+  let enPassantSquare: number | null = null;
+  if (enPassant !== '-') {
+    enPassantSquare = parseSquare(enPassant);
+    if (enPassantSquare === null || (enPassant[1] !== '3' && enPassant[1] !== '6')) {
+      throw new Error(`Invalid FEN: bad en passant square ${enPassant}`);
+    }
+  }
+
+  const halfmoveClock = Number(halfmove);
+  const fullmoveNumber = Number(fullmove);
+  if (!Number.isInteger(halfmoveClock) || halfmoveClock < 0 || !Number.isInteger(fullmoveNumber) || fullmoveNumber < 1) {
+    throw new Error('Invalid FEN: bad move counters');
+  }
+
+  return {
+    board,
+    turn,
+    castling: {
+      whiteKingside: castling.includes('K'),
+      whiteQueenside: castling.includes('Q'),
+      blackKingside: castling.includes('k'),
+      blackQueenside: castling.includes('q'),
+    },
+    enPassant: enPassantSquare,
+    halfmoveClock,
+    fullmoveNumber,
+  };
+}
+
+export function toFen(position: Position): string {
+  const ranks: string[] = [];
+  for (let rank = 7; rank >= 0; rank--) {
+    let row = '';
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const piece = position.board[rank * 8 + file];
+      if (piece) {
+        row += (empty > 0 ? String(empty) : '') + piece;
+        empty = 0;
+      } else {
+        empty++;
+      }
+    }
+    ranks.push(row + (empty > 0 ? String(empty) : ''));
+  }
+
+  const { castling } = position;
+  const castlingField =
+    (castling.whiteKingside ? 'K' : '') +
+      (castling.whiteQueenside ? 'Q' : '') +
+      (castling.blackKingside ? 'k' : '') +
+      (castling.blackQueenside ? 'q' : '') || '-';
+
+  return [
+    ranks.join('/'),
+    position.turn,
+    castlingField,
+    position.enPassant === null ? '-' : squareName(position.enPassant),
+    position.halfmoveClock,
+    position.fullmoveNumber,
+  ].join(' ');
+}
@@ -0,0 +1,70 @@
+/**
+ * Perft and game status tests for the move generator
+ * Node counts are the standard published perft results (chessprogramming.org "Perft Results")
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFen, STARTING_FEN } from './fen';
+import { generateLegalMoves, getGameStatus, isInCheck, perft } from './moves';
+
+const PERFT_CASES: Array<{ name: string; fen: string; counts: number[] }> = [
+  { name: 'starting position', fen: STARTING_FEN, counts: [20, 400, 8902, 197281] },
+  {
+    // Castling, en passant, promotion and pins all in one
+    name: 'kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    counts: [48, 2039, 97862],
+  },
+  { name: 'position 3 (en passant pins)', fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1', counts: [14, 191, 2812, 43238] },
+  {
+    name: 'position 4 (promotions, checks)',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    counts: [6, 264, 9467],
+  },
+  { name: 'position 5', fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8', counts: [44, 1486, 62379] },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    counts: [46, 2079, 89890],
+  },
+];
+
+describe('perft', () => {
+  for (const { name, fen, counts } of PERFT_CASES) {
+    it(name, () => {
+      const position = parseFen(fen);
+      counts.forEach((count, i) => {
+        expect(perft(position, i + 1)).toBe(count);
+      });
+    });
+  }
+});
+
+describe('game status', () => {
+  it('detects checkmate', () => {
+    // Fool's mate
+    const position = parseFen('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3');
+    expect(isInCheck(position)).toBe(true);
+    expect(generateLegalMoves(position)).toHaveLength(0);
+    expect(getGameStatus(position)).toBe('checkmate');
+  });
+
+  it('detects stalemate', () => {
+    expect(getGameStatus(parseFen('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1'))).toBe('stalemate');
+  });
+
+  it('tells check from a quiet position', () => {
+    expect(getGameStatus(parseFen('4k3/8/8/8/8/8/8/4K2R b K - 0 1'))).toBe('ongoing');
+    expect(getGameStatus(parseFen('4k3/8/8/8/8/8/8/4R1K1 b - - 0 1'))).toBe('check');
+  });
+
+  it('does not castle through or out of check', () => {
+    // The black rook on f8 covers f1
+    const through = generateLegalMoves(parseFen('5r1k/8/8/8/8/8/8/4K2R w K - 0 1'));
+    expect(through.some((move) => move.castle)).toBe(false);
+
+    const outOf = generateLegalMoves(parseFen('4r2k/8/8/8/8/8/8/4K2R w K - 0 1'));
+    expect(outOf.some((move) => move.castle)).toBe(false);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Legal move generation, making moves and check / mate / stalemate detection
+ * Moves are generated pseudo-legally and dropped when they leave the mover's king attacked
+ */
+
+import { fileOf, makePiece, opponent, pieceColor, pieceType, rankOf } from '@/lib/chess/types';
+import type { Color, Move, Piece, PieceType, Position, Square } from '@/lib/chess/types';
+
+export type GameStatus = 'ongoing' | 'check' | 'checkmate' | 'stalemate';
+
+// [file, rank] steps
+const KNIGHT_STEPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_STEPS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+const ROOK_DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+const PROMOTION_TYPES: PieceType[] = ['q', 'r', 'b', 'n'];
+
+/** Rook corners and the castling right each one carries */
+const ROOK_CORNERS: Record<number, keyof Position['castling']> = {
+  0: 'whiteQueenside',
+  7: 'whiteKingside',
+  56: 'blackQueenside',
+  63: 'blackKingside',
+};
+
+function step(square: Square, fileStep: number, rankStep: number): Square | null {
+  const file = fileOf(square) + fileStep;
+  const rank = rankOf(square) + rankStep;
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) {
+    return null;
+  }
+  return rank * 8 + file;
+}
+
+/**
+ * True if any piece of color `by` attacks the square (pins don't matter for attacks)
+ */
+export function isSquareAttacked(board: (Piece | null)[], square: Square, by: Color): boolean {
+  // A pawn attacks diagonally forward, so an attacking pawn stands one rank behind the square
+  const pawn = makePiece(by, 'p');
+  const pawnRankStep = by === 'w' ? -1 : 1;
+  for (const fileStep of [-1, 1]) {
+    const from = step(square, fileStep, pawnRankStep);
+    if (from !== null && board[from] === pawn) {
+      return true;
+    }
+  }
+
+  const knight = makePiece(by, 'n');
+  for (const [fileStep, rankStep] of KNIGHT_STEPS) {
+    const from = step(square, fileStep, rankStep);
+    if (from !== null && board[from] === knight) {
+      return true;
+    }
+  }
+
+  const king = makePiece(by, 'k');
+  for (const [fileStep, rankStep] of KING_STEPS) {
+    const from = step(square, fileStep, rankStep);
+    if (from !== null && board[from] === king) {
+      return true;
+    }
+  }
+
+  const queen = makePiece(by, 'q');
+  const sliders: Array<[number[][], Piece]> = [
+    [BISHOP_DIRECTIONS, makePiece(by, 'b')],
+    [ROOK_DIRECTIONS, makePiece(by, 'r')],
+  ];
+  for (const [directions, slider] of sliders) {
+    for (const [fileStep, rankStep] of directions) {
+      let from = step(square, fileStep, rankStep);
+      while (from !== null) {
+        const piece = board[from];
+        if (piece) {
+          if (piece === slider || piece === queen) {
+            return true;
+          }
+          break;
+        }
+        from = step(from, fileStep, rankStep);
+      }
+    }
+  }
+
+  return false;
+}
+
+export function findKing(board: (Piece | null)[], color: Color): Square {
+  const king = makePiece(color, 'k');
+  const square = board.indexOf(king);
+  if (square === -1) {
+    throw new Error(`No ${color === 'w' ? 'white' : 'black'} king on the board`);
+  }
+  return square;
+}
+
+/**
+ * True if the side to move is in check
+ */
+export function isInCheck(position: Position): boolean {
+  return isSquareAttacked(position.board, findKing(position.board, position.turn), opponent(position.turn));
+}
+
+function createMove(position: Position, from: Square, to: Square, extra: Partial<Move> = {}): Move {
+  return {
+    from,
+    to,
+    piece: position.board[from]!,
+    captured: position.board[to],
+    promotion: null,
+    castle: null,
+    enPassant: false,
+    ...extra,
+  };
+}
+
+function generatePawnMoves(position: Position, from: Square, moves: Move[]): void {
+  const { board, turn } = position;
+  const forward = turn === 'w' ? 1 : -1;
+  const startRank = turn === 'w' ? 1 : 6;
+  const lastRank = turn === 'w' ? 7 : 0;
+
+  const addPawnMove = (to: Square, extra: Partial<Move> = {}) => {
+    if (rankOf(to) === lastRank) {
+      for (const promotion of PROMOTION_TYPES) {
+        moves.push(createMove(position, from, to, { ...extra, promotion }));
+      }
+    } else {
+      moves.push(createMove(position, from, to, extra));
+    }
+  };
+
+  const single = step(from, 0, forward);
+  if (single !== null && board[single] === null) {
+    addPawnMove(single);
+    const double = step(from, 0, 2 * forward);
+    if (rankOf(from) === startRank && double !== null && board[double] === null) {
+      moves.push(createMove(position, from, double));
+    }
+  }
+
+  for (const fileStep of [-1, 1]) {
+    const to = step(from, fileStep, forward);
+    if (to === null) {
+      continue;
+    }
+    const target = board[to];
+    if (target && pieceColor(target) !== turn) {
+      addPawnMove(to);
+    } else if (!target && to === position.enPassant) {
+      moves.push(createMove(position, from, to, { captured: makePiece(opponent(turn), 'p'), enPassant: true }));
+    }
+  }
+}
+
+function generateStepMoves(position: Position, from: Square, steps: number[][], moves: Move[]): void {
+  for (const [fileStep, rankStep] of steps) {
+    const to = step(from, fileStep, rankStep);
+    if (to === null) {
+      continue;
+    }
+    const target = position.board[to];
+    if (!target || pieceColor(target) !== position.turn) {
+      moves.push(createMove(position, from, to));
+    }
+  }
+}
+
+function generateSlidingMoves(position: Position, from: Square, directions: number[][], moves: Move[]): void {
+  for (const [fileStep, rankStep] of directions) {
+    let to = step(from, fileStep, rankStep);
+    while (to !== null) {
+      const target = position.board[to];
+      if (target) {
+        if (pieceColor(target) !== position.turn) {
+          moves.push(createMove(position, from, to));
+        }
+        break;
+      }
+      moves.push(createMove(position, from, to));
+      to = step(to, fileStep, rankStep);
+    }
+  }
+}
+
+function generateCastlingMoves(position: Position, moves: Move[]): void {
+  const { board, turn, castling } = position;
+  const home = turn === 'w' ? 0 : 56;
+  const king = makePiece(turn, 'k');
+  const rook = makePiece(turn, 'r');
+  const enemy = opponent(turn);
+  if (board[home + 4] !== king || isSquareAttacked(board, home + 4, enemy)) {
+    return;
+  }
+
+  const kingside = turn === 'w' ? castling.whiteKingside : castling.blackKingside;
+  if (
+    kingside &&
+    board[home + 7] === rook &&
+    board[home + 5] === null &&
+    board[home + 6] === null &&
+    !isSquareAttacked(board, home + 5, enemy) &&
+    !isSquareAttacked(board, home + 6, enemy)
+  ) {
+    moves.push(createMove(position, home + 4, home + 6, { castle: 'kingside' }));
+  }
+
+  const queenside = turn === 'w' ? castling.whiteQueenside : castling.blackQueenside;
+  if (
+    queenside &&
+    board[home] === rook &&
+    board[home + 1] === null &&
+    board[home + 2] === null &&
+    board[home + 3] === null &&
+    !isSquareAttacked(board, home + 3, enemy) &&
+    !isSquareAttacked(board, home + 2, enemy)
+  ) {
+    moves.push(createMove(position, home + 4, home + 2, { castle: 'queenside' }));
+  }
+}
+
+function generatePseudoLegalMoves(position: Position): Move[] {
+  const moves: Move[] = [];
+  for (let from = 0; from < 64; from++) {
+    const piece = position.board[from];
+    if (!piece || pieceColor(piece) !== position.turn) {
+      continue;
+    }
+    switch (pieceType(piece)) {
+      case 'p':
+        generatePawnMoves(position, from, moves);
+        break;
+      case 'n':
+        generateStepMoves(position, from, KNIGHT_STEPS, moves);
+        break;
+      case 'b':
+        generateSlidingMoves(position, from, BISHOP_DIRECTIONS, moves);
+        break;
+      case 'r':
+        generateSlidingMoves(position, from, ROOK_DIRECTIONS, moves);
+        break;
+      case 'q':
+        generateSlidingMoves(position, from, BISHOP_DIRECTIONS, moves);
+        generateSlidingMoves(position, from, ROOK_DIRECTIONS, moves);
+        break;
+      case 'k':
+        generateStepMoves(position, from, KING_STEPS, moves);
+        break;
+    }
+  }
+  generateCastlingMoves(position, moves);
+  return moves;
+}
+
+/**
+ * Play a move (assumed legal) and return the new position; the input is not modified
+ */
+export function makeMove(position: Position, move: Move): Position {
+  const board = position.board.slice();
+  const color = pieceColor(move.piece);
+
+  board[move.from] = null;
+  board[move.to] = move.promotion ? makePiece(color, move.promotion) : move.piece;
+
+  if (move.enPassant) {
+    // The captured pawn stands beside the mover, behind the en passant square
+    board[move.to + (color === 'w' ? -8 : 8)] = null;
+  }
+  if (move.castle) {
+    const home = color === 'w' ? 0 : 56;
+    const [rookFrom, rookTo] = move.castle === 'kingside' ? [home + 7, home + 5] : [home, home + 3];
+    board[rookTo] = board[rookFrom];
+    board[rookFrom] = null;
+  }
+
+  const castling = { ...position.castling };
+  if (pieceType(move.piece) === 'k') {
+    if (color === 'w') {
+      castling.whiteKingside = false;
+      castling.whiteQueenside = false;
+    } else {
+      castling.blackKingside = false;
+      castling.blackQueenside = false;
+    }
+  }
+  // Moving a rook off its corner or capturing on one ends that castling right
+  for (const square of [move.from, move.to]) {
+    const right = ROOK_CORNERS[square];
+    if (right) {
+      castling[right] = false;
+    }
+  }
+
+  const isPawn = pieceType(move.piece) === 'p';
+  const enPassant = isPawn && Math.abs(move.to - move.from) === 16 ? (move.from + move.to) / 2 : null;
+
+  return {
+    board,
+    turn: opponent(position.turn),
+    castling,
+    enPassant,
+    halfmoveClock: isPawn || move.captured ? 0 : position.halfmoveClock + 1,
+    fullmoveNumber: position.turn === 'b' ? position.fullmoveNumber + 1 : position.fullmoveNumber,
+  };
+}
+
+export function generateLegalMoves(position: Position): Move[] {
+  return generatePseudoLegalMoves(position).filter((move) => {
+    const next = makeMove(position, move);
+    return !isSquareAttacked(next.board, findKing(next.board, position.turn), next.turn);
+  });
+}
+
+export function getGameStatus(position: Position): GameStatus {
+  const check = isInCheck(position);
+  if (generateLegalMoves(position).length > 0) {
+    return check ? 'check' : 'ongoing';
+  }
+  return check ? 'checkmate' : 'stalemate';
+}
+
+export function isCheckmate(position: Position): boolean {
+  return getGameStatus(position) === 'checkmate';
+}
+
+export function isStalemate(position: Position): boolean {
+  return getGameStatus(position) === 'stalemate';
+}
+
+/**
+ * Number of leaf positions after `depth` plies; the standard move generator test
+ */
+export function perft(position: Position, depth: number): number {
+  if (depth === 0) {
+    return 1;
+  }
+  const moves = generateLegalMoves(position);
+  if (depth === 1) {
+    return moves.length;
+  }
+  let nodes = 0;
+  for (const move of moves) {
+    nodes += perft(makeMove(position, move), depth - 1);
+  }
+  return nodes;
+}
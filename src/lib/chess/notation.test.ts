@@ -0,0 +1,75 @@
+/**
+ * Tests for UCI and SAN conversion
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFen, STARTING_FEN } from './fen';
+import { generateLegalMoves } from './moves';
+import { moveToSan, moveToUci, parseSan, parseUci } from './notation';
+
+const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+describe('notation', () => {
+  it('converts between UCI and SAN', () => {
+    const start = parseFen(STARTING_FEN);
+    const move = parseUci(start, 'g1f3')!;
+    expect(moveToSan(start, move)).toBe('Nf3');
+    expect(moveToUci(parseSan(start, 'Nf3')!)).toBe('g1f3');
+    expect(parseUci(start, 'e2e5')).toBeNull();
+  });
+
+  it('writes castling, captures and promotions', () => {
+    const position = parseFen(KIWIPETE);
+    expect(moveToSan(position, parseUci(position, 'e1g1')!)).toBe('O-O');
+    expect(moveToSan(position, parseUci(position, 'e1c1')!)).toBe('O-O-O');
+    expect(moveToSan(position, parseUci(position, 'e5f7')!)).toBe('Nxf7');
+    expect(moveToSan(position, parseUci(position, 'd5e6')!)).toBe('dxe6');
+
+    const promotion = parseFen('8/P6k/8/8/8/8/8/K7 w - - 0 1');
+    expect(moveToSan(promotion, parseUci(promotion, 'a7a8q')!)).toBe('a8=Q');
+    expect(moveToSan(promotion, parseUci(promotion, 'a7a8r')!)).toBe('a8=R');
+  });
+
+  it('disambiguates by file, rank or both', () => {
+    const knights = parseFen('k7/8/8/8/8/8/8/1N3N1K w - - 0 1');
+    expect(moveToSan(knights, parseUci(knights, 'b1d2')!)).toBe('Nbd2');
+
+    const rooks = parseFen('7k/8/8/R7/8/8/8/R6K w - - 0 1');
+    expect(moveToSan(rooks, parseUci(rooks, 'a1a3')!)).toBe('R1a3');
+
+    const queens = parseFen('8/8/8/7k/8/Q1Q5/8/Q6K w - - 0 1');
+    expect(moveToSan(queens, parseUci(queens, 'a3b2')!)).toBe('Qa3b2');
+  });
+
+  it('marks check and mate', () => {
+    const position = parseFen('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+    expect(moveToSan(position, parseUci(position, 'a1a8')!)).toBe('Ra8#');
+    expect(moveToSan(position, parseUci(position, 'a1a7')!)).toBe('Ra7');
+
+    const check = parseFen('4k3/8/8/8/8/8/8/R3K3 w - - 0 1');
+    expect(moveToSan(check, parseUci(check, 'a1a8')!)).toBe('Ra8+');
+  });
+
+  it('parses SAN leniently', () => {
+    const position = parseFen(KIWIPETE);
+    expect(moveToUci(parseSan(position, '0-0')!)).toBe('e1g1');
+    expect(moveToUci(parseSan(position, 'Nxf7!?')!)).toBe('e5f7');
+    expect(moveToUci(parseSan(position, 'Nf7')!)).toBe('e5f7');
+    expect(moveToUci(parseSan(position, 'Ne5f7')!)).toBe('e5f7');
+    expect(moveToUci(parseSan(parseFen('8/P6k/8/8/8/8/8/K7 w - - 0 1'), 'a8Q+')!)).toBe('a7a8q');
+    // Two knights reach d5
+    expect(parseSan(position, 'Nd5')).toBeNull();
+    expect(parseSan(position, 'Qh8')).toBeNull();
+  });
+
+  it('round-trips every legal move through SAN and UCI', () => {
+    for (const fen of [STARTING_FEN, KIWIPETE, 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1']) {
+      const position = parseFen(fen);
+      for (const move of generateLegalMoves(position)) {
+        expect(parseSan(position, moveToSan(position, move))).toEqual(move);
+        expect(parseUci(position, moveToUci(move))).toEqual(move);
+      }
+    }
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * UCI ("e2e4", "e7e8q") and SAN ("Nf3", "exd5", "O-O", "e8=Q+") conversion
+ * Parsing always resolves to one of the position's legal moves, or null
+ */
+
+import { generateLegalMoves, getGameStatus, makeMove } from '@/lib/chess/moves';
+import { fileOf, pieceType, rankOf, squareName } from '@/lib/chess/types';
+import type { Move, Position } from '@/lib/chess/types';
+
+export function moveToUci(move: Move): string {
+  return `${squareName(move.from)}${squareName(move.to)}${move.promotion ?? ''}`;
+}
+
+export function parseUci(position: Position, uci: string): Move | null {
+  const normalized = uci.trim().toLowerCase();
+  return generateLegalMoves(position).find((move) => moveToUci(move) === normalized) ?? null;
+}
+
+/**
+ * SAN without the check suffix; legalMoves are the position's legal moves, for disambiguation
+ */
+function sanBody(move: Move, legalMoves: Move[]): string {
+  let san: string;
+
+  if (move.castle) {
+    san = move.castle === 'kingside' ? 'O-O' : 'O-O-O';
+  } else if (pieceType(move.piece) === 'p') {
+    san = move.captured ? `${squareName(move.from)[0]}x${squareName(move.to)}` : squareName(move.to);
+    if (move.promotion) {
+      san += `=${move.promotion.toUpperCase()}`;
+    }
+  } else {
+    // Disambiguate from other pieces of the same kind that can reach the square
+    const rivals = legalMoves.filter(
+      (other) => other.piece === move.piece && other.to === move.to && other.from !== move.from
+    );
+    let disambiguation = '';
+    if (rivals.length > 0) {
+      const sameFile = rivals.some((other) => fileOf(other.from) === fileOf(move.from));
+      const sameRank = rivals.some((other) => rankOf(other.from) === rankOf(move.from));
+      if (!sameFile) {
+        disambiguation = squareName(move.from)[0];
+      } else if (!sameRank) {
+        disambiguation = squareName(move.from)[1];
+      } else {
+        disambiguation = squareName(move.from);
+      }
+    }
+    san = `${move.piece.toUpperCase()}${disambiguation}${move.captured ? 'x' : ''}${squareName(move.to)}`;
+  }
+  return san;
+}
+
+/**
+ * SAN of a legal move in the position, with the check (+) or mate (#) suffix
+ */
+export function moveToSan(position: Position, move: Move): string {
+  const san = sanBody(move, generateLegalMoves(position));
+  const status = getGameStatus(makeMove(position, move));
+  if (status === 'checkmate') {
+    return `${san}#`;
+  }
+  return status === 'check' ? `${san}+` : san;
+}
+
+const SAN_PATTERN = /^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]))?$/;
+
+/**
+ * Parse SAN leniently: check/annotation suffixes are ignored, "=" before the promotion piece and
+ * the capture "x" are optional, 0-0 works for castling, and extra disambiguation (Ngf3) is fine
+ */
+export function parseSan(position: Position, san: string): Move | null {
+  const token = san.trim().replace(/[+#!?]+$/, '');
+  const legalMoves = generateLegalMoves(position);
+
+  const castle = token.replace(/0/g, 'O');
+  if (castle === 'O-O' || castle === 'O-O-O') {
+    const side = castle === 'O-O' ? 'kingside' : 'queenside';
+    return legalMoves.find((move) => move.castle === side) ?? null;
+  }
+
+  const match = SAN_PATTERN.exec(token);
+  if (!match) {
+    return null;
+  }
+  const [, pieceLetter, fromFile, fromRank, to, promotion] = match;
+  const type = pieceLetter ? pieceLetter.toLowerCase() : 'p';
+
+  const candidates = legalMoves.filter(
+    (move) =>
+      !move.castle &&
+      pieceType(move.piece) === type &&
+      squareName(move.to) === to &&
+      (!fromFile || squareName(move.from)[0] === fromFile) &&
+      (!fromRank || squareName(move.from)[1] === fromRank) &&
+      move.promotion === (promotion ? promotion.toLowerCase() : null)
+  );
+  // Ambiguous SAN doesn't name a move
+  return candidates.length === 1 ? candidates[0] : null;
+}
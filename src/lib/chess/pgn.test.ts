@@ -0,0 +1,105 @@
+/**
+ * Tests for the PGN reader and writer
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePgn, writePgn } from './pgn';
+
+const OPERA_GAME = `[Event "Paris"]
+[Site "Paris FRA"]
+[Date "1858.??.??"]
+[Round "?"]
+[White "Paul Morphy"]
+[Black "Duke Karl / Count Isouard"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 d6 3. d4 Bg4 {This is a weak move already.} 4. dxe5 Bxf3 5. Qxf3
+dxe5 6. Bc4 Nf6 7. Qb3 qe7 8. Nc3 c6 9. Bg5 b5 $2 10. Nxb5 cxb5 11. Bxb5+ Nbd7
+12. O-O-O Rd8 13. Rxd7 Rxd7 14. Rd1 Qe6 (14... Nxd7 15. Bxd7+) 15. Bxd7+ Nxd7
+16. Qb8+ Nxb8 17. Rd8# 1-0
+`;
+
+describe('parsePgn', () => {
+  it('reads headers, skips comments, NAGs and variations, and replays the mainline', () => {
+    const pgn = OPERA_GAME.replace('qe7', 'Qe7');
+    const [game] = parsePgn(pgn);
+
+    expect(game.headers.White).toBe('Paul Morphy');
+    expect(game.result).toBe('1-0');
+    expect(game.moves).toHaveLength(33);
+    expect(game.moves[0]).toEqual({
+      san: 'e4',
+      uci: 'e2e4',
+      fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1',
+    });
+    expect(game.moves[22].san).toBe('O-O-O');
+    expect(game.moves[32]).toMatchObject({ san: 'Rd8#', uci: 'd1d8' });
+    expect(game.finalFen).toBe('1n1Rkb1r/p4ppp/4q3/4p1B1/4P3/8/PPP2PPP/2K5 b k - 1 17');
+  });
+
+  it('reports the ply of an illegal move', () => {
+    expect(() => parsePgn(OPERA_GAME)).toThrow('"qe7" at ply 14');
+  });
+
+  it('reads several games and custom start positions', () => {
+    const games = parsePgn(`[Event "A"]
+
+1. e4 e5 *
+
+[Event "B"]
+[SetUp "1"]
+[FEN "4k3/8/8/8/8/8/8/R3K3 w Q - 0 1"]
+
+1. O-O-O Kf7 2. Rd7+ 1/2-1/2
+`);
+
+    expect(games.map((game) => game.headers.Event)).toEqual(['A', 'B']);
+    expect(games[0].result).toBe('*');
+    expect(games[1].moves.map((move) => move.san)).toEqual(['O-O-O', 'Kf7', 'Rd7+']);
+    expect(games[1].result).toBe('1/2-1/2');
+  });
+});
+
+describe('writePgn', () => {
+  it('writes the roster tags first and SAN movetext', () => {
+    const pgn = writePgn({
+      headers: { White: 'Robo', Black: 'Chucky', Opening: 'Scholar\'s "mate"' },
+      moves: ['e2e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'Qxf7'],
+      result: '1-0',
+    });
+
+    expect(pgn).toBe(`[Event "?"]
+[Site "?"]
+[Date "?"]
+[Round "?"]
+[White "Robo"]
+[Black "Chucky"]
+[Result "1-0"]
+[Opening "Scholar's \\"mate\\""]
+
+1. e4 e5 2. Bc4 Nc6 3. Qh5 Nf6 4. Qxf7# 1-0
+`);
+  });
+
+  it('round-trips through the reader, including black to move first', () => {
+    const startFen = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 3 3';
+    const pgn = writePgn({ startFen, moves: ['g8f6', 'd2d4', 'e5d4'] });
+
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain('3... Nf6 4. d4 exd4 *');
+
+    const [game] = parsePgn(pgn);
+    expect(game.startFen).toBe(startFen);
+    expect(game.moves.map((move) => move.uci)).toEqual(['g8f6', 'd2d4', 'e5d4']);
+    expect(writePgn({ headers: game.headers, startFen: game.startFen, moves: game.moves.map((move) => move.san) })).toBe(pgn);
+  });
+
+  it('wraps long movetext at 80 characters', () => {
+    const moves = Array.from({ length: 40 }, (_, i) => (i % 4 < 2 ? ['g1f3', 'g8f6'] : ['f3g1', 'f6g8'])[i % 2]);
+    const lines = writePgn({ moves }).split('\n\n')[1].trim().split('\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every((line) => line.length <= 80)).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * PGN reader and writer
+ * The reader keeps the mainline only: comments, NAGs and variations are skipped. Every move is
+ * replayed, so an illegal or ambiguous move fails the game with its ply number
+ */
+
+import { parseFen, STARTING_FEN, toFen } from '@/lib/chess/fen';
+import { makeMove } from '@/lib/chess/moves';
+import { moveToSan, moveToUci, parseSan, parseUci } from '@/lib/chess/notation';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export type PgnMove = {
+  san: string;
+  uci: string;
+  /** Position after the move */
+  fen: string;
+};
+
+export type PgnGame = {
+  headers: Record<string, string>;
+  startFen: string;
+  moves: PgnMove[];
+  result: PgnResult;
+  finalFen: string;
+};
+
+export type PgnWriteInput = {
+  headers?: Record<string, string>;
+  startFen?: string;
+  /** SAN or UCI */
+  moves: string[];
+  result?: PgnResult;
+};
+
+/** Tags written first, in this order (the PGN "seven tag roster") */
+const ROSTER_TAGS = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const MAX_LINE_LENGTH = 80;
+
+const TOKEN_PATTERN =
+  /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]|\{[^}]*\}|;[^\n]*|\$\d+|\(|\)|1-0|0-1|1\/2-1\/2|\*|\d+\.+|[^\s()[\]{};$]+/g;
+
+const UCI_PATTERN = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+type PendingGame = {
+  headers: Record<string, string>;
+  sans: string[];
+};
+
+function replayGame(pending: PendingGame, result: PgnResult): PgnGame {
+  const startFen = pending.headers.FEN ?? STARTING_FEN;
+  let position = parseFen(startFen);
+  const moves: PgnMove[] = [];
+
+  pending.sans.forEach((san, i) => {
+    const move = parseSan(position, san);
+    if (!move) {
+      throw new Error(`Illegal or ambiguous move "${san}" at ply ${i + 1}`);
+    }
+    const normalizedSan = moveToSan(position, move);
+    position = makeMove(position, move);
+    moves.push({ san: normalizedSan, uci: moveToUci(move), fen: toFen(position) });
+  });
+
+  return { headers: pending.headers, startFen, moves, result, finalFen: toFen(position) };
+}
+
+/**
+ * Read every game in a PGN text
+ */
+export function parsePgn(text: string): PgnGame[] {
+  const games: PgnGame[] = [];
+  let pending: PendingGame = { headers: {}, sans: [] };
+  let hasContent = false;
+  let variationDepth = 0;
+
+  const finish = (result: PgnResult) => {
+    games.push(replayGame(pending, result));
+    pending = { headers: {}, sans: [] };
+    hasContent = false;
+    variationDepth = 0;
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+
+    if (match[1] !== undefined) {
+      // A header after movetext without a result starts the next game
+      if (pending.sans.length > 0) {
+        finish((pending.headers.Result as PgnResult | undefined) ?? '*');
+      }
+      pending.headers[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+      hasContent = true;
+    } else if (token === '(') {
+      variationDepth++;
+    } else if (token === ')') {
+      variationDepth = Math.max(0, variationDepth - 1);
+    } else if (token.startsWith('{') || token.startsWith(';') || token.startsWith('$') || /^\d+\.+$/.test(token)) {
+      continue;
+    } else if (token === '1-0' || token === '0-1' || token === '1/2-1/2' || token === '*') {
+      if (variationDepth === 0) {
+        finish(token);
+      }
+    } else if (variationDepth === 0) {
+      pending.sans.push(token);
+      hasContent = true;
+    }
+  }
+
+  if (hasContent) {
+    finish((pending.headers.Result as PgnResult | undefined) ?? '*');
+  }
+  return games;
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Write one game; moves may be SAN or UCI and are written as SAN with check marks
+ */
+export function writePgn(game: PgnWriteInput): string {
+  const startFen = game.startFen ?? STARTING_FEN;
+  const result = game.result ?? '*';
+  let position = parseFen(startFen);
+
+  const headers: Record<string, string> = { ...game.headers, Result: result };
+  if (startFen !== STARTING_FEN) {
+    headers.SetUp = '1';
+    headers.FEN = startFen;
+  }
+
+  const tags = [
+    ...ROSTER_TAGS.map((tag) => [tag, headers[tag] ?? '?']),
+    ...Object.entries(headers).filter(([tag]) => !ROSTER_TAGS.includes(tag)),
+  ];
+  const headerLines = tags.map(([tag, value]) => `[${tag} "${escapeTagValue(value)}"]`);
+
+  const tokens: string[] = [];
+  game.moves.forEach((text, i) => {
+    const move = UCI_PATTERN.test(text) ? parseUci(position, text) : parseSan(position, text);
+    if (!move) {
+      throw new Error(`Illegal move "${text}" at ply ${i + 1}`);
+    }
+    if (position.turn === 'w') {
+      tokens.push(`${position.fullmoveNumber}.`);
+    } else if (i === 0) {
+      tokens.push(`${position.fullmoveNumber}...`);
+    }
+    tokens.push(moveToSan(position, move));
+    position = makeMove(position, move);
+  });
+  tokens.push(result);
+
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return `${headerLines.join('\n')}\n\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,78 @@
+/**
+ * Core chess types shared by the chess module
+ * Squares are indices 0..63: a1 = 0, b1 = 1, ..., h8 = 63 (index = rank * 8 + file)
+ */
+
+export type Color = 'w' | 'b';
+
+export type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+
+/** FEN letters: upper case is White, lower case Black */
+export type Piece = 'P' | 'N' | 'B' | 'R' | 'Q' | 'K' | 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+
+export type Square = number;
+
+export type CastlingRights = {
+  whiteKingside: boolean;
+  whiteQueenside: boolean;
+  blackKingside: boolean;
+  blackQueenside: boolean;
+};
+
+export type Position = {
+  board: (Piece | null)[];
+  turn: Color;
+  castling: CastlingRights;
+  /** Square a pawn can be captured on en passant, as in the FEN */
+  enPassant: Square | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+};
+
+export type Move = {
+  from: Square;
+  to: Square;
+  piece: Piece;
+  captured: Piece | null;
+  promotion: PieceType | null;
+  castle: 'kingside' | 'queenside' | null;
+  enPassant: boolean;
+};
+
+export function pieceColor(piece: Piece): Color {
+  return piece === piece.toUpperCase() ? 'w' : 'b';
+}
+
+export function pieceType(piece: Piece): PieceType {
+  return piece.toLowerCase() as PieceType;
+}
+
+export function makePiece(color: Color, type: PieceType): Piece {
+  return (color === 'w' ? type.toUpperCase() : type) as Piece;
+}
+
+export function opponent(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
+
+export function fileOf(square: Square): number {
+  return square & 7;
+}
+
+export function rankOf(square: Square): number {
+  return square >> 3;
+}
+
+export function squareName(square: Square): string {
+  return `${String.fromCharCode(97 + fileOf(square))}${rankOf(square) + 1}`;
+}
+
+/**
+ * "e4" to a square index; null for anything else
+ */
+export function parseSquare(name: string): Square | null {
+  if (!/^[a-h][1-8]$/.test(name)) {
+    return null;
+  }
+  return (Number(name[1]) - 1) * 8 + (name.charCodeAt(0) - 97);
+}
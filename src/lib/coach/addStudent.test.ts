@@ -0,0 +1,133 @@
+/**
+ * Tests for adding coach-managed students
+ * Uses Vitest with mocked platform adapters, Prisma and sync queue
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  validateProfile: {
+    lichess: vi.fn(),
+    chesscom: vi.fn(),
+  },
+  findFirst: vi.fn(),
+  findMany: vi.fn(),
+  createMany: vi.fn(),
+  createProfile: vi.fn(),
+  enqueueSyncJobs: vi.fn(),
+  getStudentAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/stats/platformRegistry', () => ({
+  getPlatformAdapter: (platform: 'lichess' | 'chesscom') => ({
+    validateProfile: mocks.validateProfile[platform],
+  }),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    platform_connections: {
+      findFirst: mocks.findFirst,
+      findMany: mocks.findMany,
+      createMany: mocks.createMany,
+    },
+    profiles: { create: mocks.createProfile },
+  },
+}));
+
+vi.mock('@/lib/cron/syncQueue', () => ({ enqueueSyncJobs: mocks.enqueueSyncJobs }));
+
+vi.mock('@/lib/coach/roster', () => ({ getStudentAccess: mocks.getStudentAccess }));
+
+import { addCoachStudent } from './addStudent';
+
+const coach = { userId: 'coach-a', role: 'coach' as const };
+
+describe('addCoachStudent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.validateProfile.lichess.mockResolvedValue({ exists: true, username: 'Robo4040', platformUserId: 'robo4040' });
+    mocks.validateProfile.chesscom.mockResolvedValue({ exists: false });
+    mocks.findFirst.mockResolvedValue(null);
+    mocks.findMany.mockResolvedValue([{ id: 'conn-1' }]);
+    mocks.enqueueSyncJobs.mockResolvedValue(1);
+  });
+
+  it('creates an owned student with the accounts that exist and queues a sync', async () => {
+    const result = await addCoachStudent(coach, { lichess: ' robo4040 ', chesscom: 'robo4040' });
+
+    expect(result).toMatchObject({
+      ok: true,
+      created: true,
+      connections: [{ platform: 'lichess', username: 'Robo4040' }],
+      notFound: ['chesscom'],
+      queued: 1,
+    });
+    const { data } = mocks.createProfile.mock.calls[0][0];
+    expect(data).toMatchObject({
+      full_name: 'Robo4040',
+      role: 'student',
+      added_by_coach_id: 'coach-a',
+      platform_connections: { create: [{ platform: 'lichess', platform_username: 'Robo4040', platform_user_id: 'robo4040' }] },
+      coaches: { create: { coach_id: 'coach-a', access: 'owner' } },
+    });
+    expect(mocks.enqueueSyncJobs).toHaveBeenCalledWith(['conn-1'], expect.any(Date));
+  });
+
+  it('answers 404 when no platform knows the handle', async () => {
+    mocks.validateProfile.lichess.mockResolvedValue({ exists: false });
+
+    const result = await addCoachStudent(coach, { lichess: 'nobody', chesscom: 'nobody' });
+
+    expect(result).toMatchObject({ ok: false, status: 404 });
+    expect(mocks.createProfile).not.toHaveBeenCalled();
+  });
+
+  it('answers 502 when the platforms could not be reached', async () => {
+    mocks.validateProfile.lichess.mockResolvedValue({ exists: false, error: 'Lichess API returned 503' });
+
+    const result = await addCoachStudent(coach, { lichess: 'robo4040' });
+
+    expect(result).toMatchObject({ ok: false, status: 502 });
+  });
+
+  it('adds a missing platform to a student already on the roster', async () => {
+    mocks.validateProfile.chesscom.mockResolvedValue({ exists: true, username: 'robo4040', platformUserId: '99' });
+    mocks.findFirst.mockImplementation(async ({ where }) => (where.platform === 'lichess' ? { user_id: 's1' } : null));
+    mocks.getStudentAccess.mockResolvedValue('owner');
+    mocks.findMany.mockResolvedValueOnce([{ platform: 'lichess' }]).mockResolvedValueOnce([{ id: 'conn-2' }]);
+
+    const result = await addCoachStudent(coach, { lichess: 'robo4040', chesscom: 'robo4040' });
+
+    expect(result).toMatchObject({
+      ok: true,
+      created: false,
+      studentId: 's1',
+      connections: [{ platform: 'chesscom', username: 'robo4040' }],
+    });
+    expect(mocks.createMany).toHaveBeenCalledWith({
+      data: [{ user_id: 's1', platform: 'chesscom', platform_username: 'robo4040', platform_user_id: '99' }],
+    });
+    expect(mocks.createProfile).not.toHaveBeenCalled();
+  });
+
+  it("refuses a player on another coach's roster", async () => {
+    mocks.findFirst.mockResolvedValue({ user_id: 's2' });
+    mocks.getStudentAccess.mockResolvedValue(null);
+
+    const result = await addCoachStudent(coach, { lichess: 'robo4040' });
+
+    expect(result).toMatchObject({ ok: false, status: 409 });
+    expect(mocks.createMany).not.toHaveBeenCalled();
+  });
+
+  it('reports an account that is already on the roster', async () => {
+    mocks.findFirst.mockResolvedValue({ user_id: 's1' });
+    mocks.getStudentAccess.mockResolvedValue('owner');
+    mocks.findMany.mockResolvedValueOnce([{ platform: 'lichess' }]);
+
+    const result = await addCoachStudent(coach, { lichess: 'robo4040' });
+
+    expect(result).toEqual({ ok: false, status: 409, error: 'Already on your roster' });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Add a student to a coach's roster from platform handles
+ * Each handle is checked against its platform first; accounts already linked to a student are
+ * reused instead of duplicated. New connections get a sync job right away.
+ * Server-only module
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { enqueueSyncJobs } from '@/lib/cron/syncQueue';
+import { getStudentAccess } from '@/lib/coach/roster';
+import { getPlatformAdapter } from '@/lib/stats/platformRegistry';
+import type { AuthContext } from '@/lib/security/authorize';
+import type { Platform } from '@/lib/stats_v2/types';
+
+const ADD_PLATFORMS: Platform[] = ['lichess', 'chesscom'];
+
+export type AddStudentInput = {
+  nickname?: string | null;
+  lichess?: string | null;
+  chesscom?: string | null;
+};
+
+export type AddStudentResult =
+  | {
+      ok: true;
+      created: boolean; // false: the accounts were added to a student already on the roster
+      studentId: string;
+      connections: Array<{ platform: Platform; username: string }>;
+      notFound: Platform[];
+      queued: number;
+    }
+  | {
+      ok: false;
+      status: 400 | 404 | 409 | 502;
+      error: string;
+      notFound?: Platform[];
+    };
+
+type FoundAccount = {
+  platform: Platform;
+  username: string;
+  platformUserId: string | null;
+};
+
+export async function addCoachStudent(
+  auth: AuthContext,
+  input: AddStudentInput,
+  now: Date = new Date()
+): Promise<AddStudentResult> {
+  const handles = ADD_PLATFORMS.flatMap((platform) => {
+    const handle = input[platform]?.trim();
+    return handle ? [{ platform, handle }] : [];
+  });
+  if (handles.length === 0) {
+    return { ok: false, status: 400, error: 'Provide a Lichess or Chess.com username' };
+  }
+
+  // 1. Check every handle against its platform
+  const validations = await Promise.all(
+    handles.map(async ({ platform, handle }) => ({
+      platform,
+      result: await getPlatformAdapter(platform)!.validateProfile(handle),
+    }))
+  );
+
+  const found: FoundAccount[] = [];
+  const notFound: Platform[] = [];
+  const errors: string[] = [];
+  for (const { platform, result } of validations) {
+    if (result.exists) {
+      found.push({ platform, username: result.username, platformUserId: result.platformUserId });
+    } else if (result.error) {
+      errors.push(result.error);
+    } else {
+      notFound.push(platform);
+    }
+  }
+
+  if (found.length === 0) {
+    return errors.length > 0
+      ? { ok: false, status: 502, error: `Could not verify the username: ${errors.join('; ')}`, notFound }
+      : { ok: false, status: 404, error: 'Player not found on Lichess or Chess.com', notFound };
+  }
+
+  // 2. Deduplicate by platform + handle
+  const existing = await Promise.all(
+    found.map((account) =>
+      prisma.platform_connections.findFirst({
+        where: {
+          platform: account.platform,
+          platform_username: { equals: account.username, mode: 'insensitive' },
+        },
+        select: { user_id: true },
+      })
+    )
+  );
+  const existingStudentIds = [...new Set(existing.flatMap((connection) => (connection ? [connection.user_id] : [])))];
+
+  if (existingStudentIds.length > 1) {
+    return { ok: false, status: 409, error: 'These accounts belong to different students' };
+  }
+
+  let studentId: string;
+  let created: boolean;
+  let added: FoundAccount[];
+
+  if (existingStudentIds.length === 1) {
+    studentId = existingStudentIds[0];
+    if (!(await getStudentAccess(auth, studentId))) {
+      return { ok: false, status: 409, error: "This player is on another coach's roster; ask them to share the student" };
+    }
+
+    // One connection per platform: skip a platform the student is already linked on under another handle
+    const linkedPlatforms = await prisma.platform_connections.findMany({
+      where: { user_id: studentId },
+      select: { platform: true },
+    });
+    added = found.filter(
+      (account, i) => !existing[i] && !linkedPlatforms.some((link) => link.platform === account.platform)
+    );
+    if (added.length === 0) {
+      return { ok: false, status: 409, error: 'Already on your roster' };
+    }
+
+    await prisma.platform_connections.createMany({
+      data: added.map((account) => ({
+        user_id: studentId,
+        platform: account.platform,
+        platform_username: account.username,
+        platform_user_id: account.platformUserId,
+      })),
+    });
+    created = false;
+  } else {
+    // Coach-managed students have no login, so the profile id is generated here
+    studentId = randomUUID();
+    added = found;
+    await prisma.profiles.create({
+      data: {
+        id: studentId,
+        full_name: input.nickname?.trim() || found[0].username,
+        role: 'student',
+        added_by_coach_id: auth.userId,
+        platform_connections: {
+          create: added.map((account) => ({
+            platform: account.platform,
+            platform_username: account.username,
+            platform_user_id: account.platformUserId,
+          })),
+        },
+        coaches: {
+          create: { coach_id: auth.userId, access: 'owner' },
+        },
+      },
+    });
+    created = true;
+  }
+
+  // 3. First sync right away instead of waiting for the next scheduled enqueue
+  const connections = await prisma.platform_connections.findMany({
+    where: { user_id: studentId, platform: { in: added.map((account) => account.platform) } },
+    select: { id: true },
+  });
+  const queued = await enqueueSyncJobs(
+    connections.map((connection) => connection.id),
+    now
+  );
+
+  return {
+    ok: true,
+    created,
+    studentId,
+    connections: added.map(({ platform, username }) => ({ platform, username })),
+    notFound,
+    queued,
+  };
+}
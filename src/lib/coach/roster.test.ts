@@ -0,0 +1,118 @@
+/**
+ * Tests for coach rosters: ownership, sharing and transfers
+ * Uses Vitest with an in-memory coach_students table
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+type Link = { coach_id: string; student_id: string; access: string };
+
+const db = vi.hoisted(() => ({
+  links: [] as Link[],
+  addedBy: new Map<string, string | null>(),
+}));
+
+vi.mock('@/lib/prisma', () => {
+  type Where = Partial<Link> & { coach_id_student_id?: { coach_id: string; student_id: string } };
+  const matches = (link: Link, where: Where) => {
+    const key = where.coach_id_student_id;
+    if (key) return link.coach_id === key.coach_id && link.student_id === key.student_id;
+    return (Object.keys(where) as Array<keyof Link>).every((field) => link[field] === where[field]);
+  };
+
+  const coach_students = {
+    findMany: async ({ where }: { where: Where }) => db.links.filter((link) => matches(link, where)),
+    findFirst: async ({ where }: { where: Where }) => db.links.find((link) => matches(link, where)) ?? null,
+    findUnique: async ({ where }: { where: Where }) => db.links.find((link) => matches(link, where)) ?? null,
+    create: async ({ data }: { data: Link }) => {
+      db.links.push({ ...data });
+    },
+    update: async ({ where, data }: { where: Where; data: Partial<Link> }) => {
+      Object.assign(db.links.find((link) => matches(link, where))!, data);
+    },
+    upsert: async ({ where, update, create }: { where: Where; update: Partial<Link>; create: Link }) => {
+      const existing = db.links.find((link) => matches(link, where));
+      if (existing) Object.assign(existing, update);
+      else db.links.push({ ...create });
+    },
+    delete: async ({ where }: { where: Where }) => {
+      db.links = db.links.filter((link) => !matches(link, where));
+    },
+    deleteMany: async ({ where }: { where: Where }) => {
+      const before = db.links.length;
+      db.links = db.links.filter((link) => !matches(link, where));
+      return { count: before - db.links.length };
+    },
+  };
+  const profiles = {
+    update: async ({ where, data }: { where: { id: string }; data: { added_by_coach_id: string } }) => {
+      db.addedBy.set(where.id, data.added_by_coach_id);
+    },
+  };
+  const tx = { coach_students, profiles };
+
+  return {
+    prisma: { ...tx, $transaction: async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx) },
+  };
+});
+
+import {
+  assignStudentOwner,
+  getRosterStudentIds,
+  getStudentAccess,
+  shareStudent,
+  transferStudent,
+  unshareStudent,
+} from './roster';
+
+const coachA = { userId: 'coach-a', role: 'coach' as const };
+const coachB = { userId: 'coach-b', role: 'coach' as const };
+const admin = { userId: 'admin-1', role: 'admin' as const };
+
+describe('roster', () => {
+  beforeEach(async () => {
+    db.links = [];
+    db.addedBy = new Map();
+    await assignStudentOwner('s1', 'coach-a');
+  });
+
+  it('scopes the roster to the coach and leaves admins unrestricted', async () => {
+    await expect(getRosterStudentIds(coachA)).resolves.toEqual(['s1']);
+    await expect(getRosterStudentIds(coachB)).resolves.toEqual([]);
+    await expect(getRosterStudentIds(admin)).resolves.toBeNull();
+    expect(db.addedBy.get('s1')).toBe('coach-a');
+  });
+
+  it('refuses to assign a second owner', async () => {
+    await expect(assignStudentOwner('s1', 'coach-b')).rejects.toThrow('STUDENT_ALREADY_OWNED');
+    await expect(assignStudentOwner('s1', 'coach-a')).resolves.toBeUndefined();
+  });
+
+  it('shares and unshares without touching the owner', async () => {
+    await shareStudent('s1', 'coach-b');
+
+    await expect(getStudentAccess(coachB, 's1')).resolves.toBe('shared');
+    await expect(shareStudent('s1', 'coach-a')).rejects.toThrow('ALREADY_OWNER');
+
+    await expect(unshareStudent('s1', 'coach-a')).resolves.toBe(false); // owner can't be unshared
+    await expect(unshareStudent('s1', 'coach-b')).resolves.toBe(true);
+    await expect(getStudentAccess(coachB, 's1')).resolves.toBeNull();
+  });
+
+  it('transfers ownership and drops the previous owner', async () => {
+    await transferStudent('s1', 'coach-b');
+
+    await expect(getStudentAccess(coachB, 's1')).resolves.toBe('owner');
+    await expect(getStudentAccess(coachA, 's1')).resolves.toBeNull();
+    expect(db.addedBy.get('s1')).toBe('coach-b');
+  });
+
+  it('keeps the previous owner as a shared coach on request', async () => {
+    await shareStudent('s1', 'coach-b');
+    await transferStudent('s1', 'coach-b', { keepPreviousOwner: true });
+
+    await expect(getStudentAccess(coachB, 's1')).resolves.toBe('owner');
+    await expect(getStudentAccess(coachA, 's1')).resolves.toBe('shared');
+    expect(db.links).toHaveLength(2);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Coach rosters: which coaches may see and manage which students
+ * Each student has one owning coach and any number of coaches it is shared with;
+ * admins see every student. Ownership only changes through an explicit share or transfer.
+ * Server-only module
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { AuthContext } from '@/lib/security/authorize';
+
+export type StudentAccess = 'owner' | 'shared';
+
+/** What a caller may do with one student; admins manage every student like an owner */
+export type RosterAccess = StudentAccess | 'admin';
+
+/**
+ * Ids of the students on the caller's roster, or null for admins (no restriction)
+ */
+export async function getRosterStudentIds(auth: AuthContext): Promise<string[] | null> {
+  if (auth.role === 'admin') {
+    return null;
+  }
+
+  const links = await prisma.coach_students.findMany({
+    where: { coach_id: auth.userId },
+    select: { student_id: true },
+  });
+  return links.map((link) => link.student_id);
+}
+
+/**
+ * The caller's access per student on their roster (admins: only the students they coach themselves)
+ */
+export async function getRosterAccessMap(coachId: string): Promise<Map<string, StudentAccess>> {
+  const links = await prisma.coach_students.findMany({
+    where: { coach_id: coachId },
+    select: { student_id: true, access: true },
+  });
+  return new Map(links.map((link) => [link.student_id, link.access === 'shared' ? 'shared' : 'owner']));
+}
+
+/**
+ * The caller's access to one student, or null if the student is not on their roster
+ */
+export async function getStudentAccess(auth: AuthContext, studentId: string): Promise<RosterAccess | null> {
+  if (auth.role === 'admin') {
+    return 'admin';
+  }
+
+  const link = await prisma.coach_students.findUnique({
+    where: { coach_id_student_id: { coach_id: auth.userId, student_id: studentId } },
+    select: { access: true },
+  });
+  if (!link) {
+    return null;
+  }
+  return link.access === 'shared' ? 'shared' : 'owner';
+}
+
+/**
+ * Resolve a coach by id or email; only coach and admin profiles qualify
+ */
+export async function findCoach({
+  coachId,
+  coachEmail,
+}: {
+  coachId?: string | null;
+  coachEmail?: string | null;
+}): Promise<{ id: string } | null> {
+  if (!coachId && !coachEmail) {
+    return null;
+  }
+
+  return prisma.profiles.findFirst({
+    where: {
+      ...(coachId ? { id: coachId } : { email: { equals: coachEmail!.trim(), mode: 'insensitive' } }),
+      role: { in: ['coach', 'admin'] },
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Make a coach the owner of a student that has no owner yet (a newly added student)
+ * @throws Error('STUDENT_ALREADY_OWNED') if another coach owns the student
+ */
+export async function assignStudentOwner(studentId: string, coachId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const owner = await tx.coach_students.findFirst({
+      where: { student_id: studentId, access: 'owner' },
+      select: { coach_id: true },
+    });
+    if (owner) {
+      if (owner.coach_id === coachId) return;
+      throw new Error('STUDENT_ALREADY_OWNED');
+    }
+
+    await tx.coach_students.upsert({
+      where: { coach_id_student_id: { coach_id: coachId, student_id: studentId } },
+      update: { access: 'owner' },
+      create: { coach_id: coachId, student_id: studentId, access: 'owner' },
+    });
+    await tx.profiles.update({
+      where: { id: studentId },
+      data: { added_by_coach_id: coachId },
+    });
+  });
+}
+
+/**
+ * Give another coach read access to a student
+ * @throws Error('ALREADY_OWNER') if that coach owns the student
+ */
+export async function shareStudent(studentId: string, coachId: string): Promise<void> {
+  const existing = await prisma.coach_students.findUnique({
+    where: { coach_id_student_id: { coach_id: coachId, student_id: studentId } },
+    select: { access: true },
+  });
+  if (existing?.access === 'owner') {
+    throw new Error('ALREADY_OWNER');
+  }
+  if (existing) {
+    return;
+  }
+
+  await prisma.coach_students.create({
+    data: { coach_id: coachId, student_id: studentId, access: 'shared' },
+  });
+}
+
+/**
+ * Remove a coach's shared access; the owner can't be removed this way (use a transfer)
+ * @returns false if the coach had no shared access
+ */
+export async function unshareStudent(studentId: string, coachId: string): Promise<boolean> {
+  const result = await prisma.coach_students.deleteMany({
+    where: { coach_id: coachId, student_id: studentId, access: 'shared' },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Hand a student to a new owning coach
+ * The previous owner loses access unless keepPreviousOwner, in which case they stay as a shared coach
+ */
+export async function transferStudent(
+  studentId: string,
+  toCoachId: string,
+  { keepPreviousOwner = false }: { keepPreviousOwner?: boolean } = {}
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const previousOwner = await tx.coach_students.findFirst({
+      where: { student_id: studentId, access: 'owner' },
+      select: { coach_id: true },
+    });
+    if (previousOwner?.coach_id === toCoachId) {
+      return;
+    }
+
+    if (previousOwner) {
+      if (keepPreviousOwner) {
+        await tx.coach_students.update({
+          where: { coach_id_student_id: { coach_id: previousOwner.coach_id, student_id: studentId } },
+          data: { access: 'shared' },
+        });
+      } else {
+        await tx.coach_students.delete({
+          where: { coach_id_student_id: { coach_id: previousOwner.coach_id, student_id: studentId } },
+        });
+      }
+    }
+
+    await tx.coach_students.upsert({
+      where: { coach_id_student_id: { coach_id: toCoachId, student_id: studentId } },
+      update: { access: 'owner' },
+      create: { coach_id: toCoachId, student_id: studentId, access: 'owner' },
+    });
+    await tx.profiles.update({
+      where: { id: studentId },
+      data: { added_by_coach_id: toCoachId },
+    });
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for the coach student detail view
+ * Uses Vitest with mocked Prisma
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  profile: null as Record<string, unknown> | null,
+  stats: [] as Record<string, unknown>[],
+  perfStats: [] as Record<string, unknown>[],
+  snapshots: [] as Record<string, unknown>[],
+  games: [] as Record<string, unknown>[],
+  notes: [] as Record<string, unknown>[],
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    profiles: { findUnique: async () => db.profile },
+    player_stats_v2: { findMany: async () => db.stats },
+    player_perf_stats: { findMany: async () => db.perfStats },
+    stats_snapshots: { findMany: async () => db.snapshots },
+    games: { findMany: async () => db.games },
+    student_notes: { findMany: async () => db.notes },
+  },
+}));
+
+import { getStudentDetail, toRatingPoint } from './studentDetail';
+
+const now = new Date('2024-03-08T12:00:00Z');
+
+describe('toRatingPoint', () => {
+  it('reads perf_ratings and treats 0 as no rating', () => {
+    const point = toRatingPoint({
+      captured_at: now,
+      source: 'lichess',
+      rapid_rating: 1600,
+      blitz_rating: 0,
+      puzzle_rating: 0,
+      perf_ratings: { bullet: 1400, rapid: 1650 },
+    });
+
+    expect(point).toEqual({
+      capturedAt: now.toISOString(),
+      source: 'lichess',
+      puzzle: null,
+      perfs: { bullet: 1400, rapid: 1650 },
+    });
+  });
+
+  it('falls back to the rapid/blitz columns for older snapshots', () => {
+    const point = toRatingPoint({
+      captured_at: now,
+      source: 'chesscom',
+      rapid_rating: 1500,
+      blitz_rating: 1450,
+      puzzle_rating: 1800,
+      perf_ratings: null,
+    });
+
+    expect(point.perfs).toEqual({ rapid: 1500, blitz: 1450 });
+    expect(point.puzzle).toBe(1800);
+  });
+});
+
+describe('getStudentDetail', () => {
+  beforeEach(() => {
+    db.profile = {
+      id: 's1',
+      username: null,
+      full_name: 'Robo',
+      avatar_url: null,
+      role: 'student',
+      platform_connections: [
+        {
+          platform: 'lichess',
+          platform_username: 'robo4040',
+          last_synced_at: now,
+          lichess_oauth_token_encrypted: 'v1:0:abc',
+          needs_reauth: false,
+        },
+      ],
+    };
+    db.stats = [
+      {
+        platform: 'lichess',
+        computed_at: now,
+        last_update_ok: false,
+        last_update_error_code: 'RATE_LIMIT',
+        last_update_error_message: 'Lichess API returned 429',
+        last_update_attempt_at: now,
+        games_truncated: false,
+        last_active_at: null,
+        puzzle_total: 900,
+        puzzle_24h: 12,
+        puzzle_7d: 40,
+        puzzle_24h_method: 'activity',
+        puzzle_7d_method: 'snapshot',
+        storm_best_score_24h: null,
+        storm_best_score_7d: null,
+        rush_attempts_24h: null,
+        rush_attempts_7d: null,
+        rush_best_score: null,
+      },
+    ];
+    db.perfStats = [
+      { platform: 'lichess', perf: 'rapid', games_24h: 1, games_7d: 5, rating: 1650, rating_delta_24h: 8, rating_delta_7d: null },
+      { platform: 'lichess', perf: 'bullet', games_24h: 3, games_7d: 20, rating: 1400, rating_delta_24h: -4, rating_delta_7d: 12 },
+    ];
+    db.snapshots = [];
+    db.games = [];
+    db.notes = [
+      {
+        id: 'n1',
+        body: 'Work on endgames',
+        created_at: now,
+        author: { id: 'coach-a', full_name: null, username: 'coachA', email: null },
+      },
+    ];
+  });
+
+  it('returns null for missing students and non-students', async () => {
+    db.profile = null;
+    await expect(getStudentDetail('s1', 'owner', now)).resolves.toBeNull();
+
+    db.profile = { id: 'c1', role: 'coach', platform_connections: [] };
+    await expect(getStudentDetail('c1', 'admin', now)).resolves.toBeNull();
+  });
+
+  it('groups sync status, per time control stats and puzzles by platform', async () => {
+    const detail = await getStudentDetail('s1', 'shared', now);
+
+    expect(detail).toMatchObject({ id: 's1', nickname: 'Robo', access: 'shared' });
+    const [lichess] = detail!.platforms;
+    expect(lichess).toMatchObject({
+      platform: 'lichess',
+      username: 'robo4040',
+      lichessTokenConnected: true,
+      sync: { lastUpdateOk: false, lastUpdateErrorCode: 'RATE_LIMIT' },
+      puzzles: { total: 900, solved24h: 12, solved7d: 40, method7d: 'snapshot' },
+    });
+    // Display order, not storage order
+    expect(lichess.perfs.map((perf) => perf.perf)).toEqual(['bullet', 'rapid']);
+    expect(detail!.notes).toEqual([
+      { id: 'n1', body: 'Work on endgames', createdAt: now.toISOString(), authorId: 'coach-a', authorName: 'coachA' },
+    ]);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Everything the coach student detail page shows for one student, read from stored sync data
+ * (platform connections, player_stats_v2, player_perf_stats, stats_snapshots, games, notes)
+ * Server-only module
+ */
+
+import { prisma } from '@/lib/prisma';
+import { PERFS } from '@/lib/stats_v2/types';
+import type { Perf } from '@/lib/stats_v2/types';
+import type { RosterAccess } from '@/lib/coach/roster';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far back the rating history charts go */
+export const RATING_HISTORY_DAYS = 90;
+
+const RECENT_GAMES_LIMIT = 20;
+const NOTES_LIMIT = 50;
+
+export type PerfDetail = {
+  perf: Perf;
+  games24h: number;
+  games7d: number;
+  rating: number | null;
+  ratingDelta24h: number | null;
+  ratingDelta7d: number | null;
+};
+
+export type PlatformDetail = {
+  platform: string;
+  username: string | null;
+  lastSyncedAt: string | null;
+  lichessTokenConnected: boolean;
+  needsReauth: boolean;
+  sync: {
+    computedAt: string | null;
+    lastUpdateOk: boolean | null;
+    lastUpdateErrorCode: string | null;
+    lastUpdateErrorMessage: string | null;
+    lastUpdateAttemptAt: string | null;
+    gamesTruncated: boolean;
+    lastActiveAt: string | null;
+  } | null;
+  perfs: PerfDetail[];
+  puzzles: {
+    total: number | null;
+    solved24h: number | null;
+    solved7d: number | null;
+    method24h: string | null;
+    method7d: string | null;
+    stormBestScore24h: number | null;
+    stormBestScore7d: number | null;
+    rushAttempts24h: number | null;
+    rushAttempts7d: number | null;
+    rushBestScore: number | null;
+  } | null;
+};
+
+export type RatingPoint = {
+  capturedAt: string;
+  source: string | null;
+  puzzle: number | null;
+  perfs: Partial<Record<Perf, number>>;
+};
+
+export type RecentGame = {
+  platform: string;
+  gameId: string;
+  timeClass: string;
+  rated: boolean | null;
+  result: string | null;
+  color: string | null;
+  opponentRating: number | null;
+  openingName: string | null;
+  endedAt: string;
+};
+
+export type StudentNote = {
+  id: string;
+  body: string;
+  createdAt: string;
+  authorId: string;
+  authorName: string;
+};
+
+export type StudentDetail = {
+  id: string;
+  nickname: string;
+  avatarUrl: string | null;
+  access: RosterAccess;
+  platforms: PlatformDetail[];
+  ratingHistory: RatingPoint[];
+  recentGames: RecentGame[];
+  notes: StudentNote[];
+};
+
+/**
+ * Snapshot ratings default to 0 in the database; 0 means "no rating"
+ */
+function rating(value: number | null | undefined): number | null {
+  return typeof value === 'number' && value > 0 ? value : null;
+}
+
+/**
+ * Read one snapshot's per time control ratings, falling back to the rapid/blitz columns
+ * for snapshots taken before perf_ratings existed
+ */
+export function toRatingPoint(snapshot: {
+  captured_at: Date;
+  source: string | null;
+  rapid_rating: number | null;
+  blitz_rating: number | null;
+  puzzle_rating: number | null;
+  perf_ratings: unknown;
+}): RatingPoint {
+  const stored = (snapshot.perf_ratings ?? {}) as Record<string, unknown>;
+  const legacy: Partial<Record<Perf, number | null>> = {
+    rapid: snapshot.rapid_rating,
+    blitz: snapshot.blitz_rating,
+  };
+  const perfs: Partial<Record<Perf, number>> = {};
+  for (const perf of PERFS) {
+    const value = rating(typeof stored[perf] === 'number' ? stored[perf] : legacy[perf]);
+    if (value !== null) {
+      perfs[perf] = value;
+    }
+  }
+
+  return {
+    capturedAt: snapshot.captured_at.toISOString(),
+    source: snapshot.source,
+    puzzle: rating(snapshot.puzzle_rating),
+    perfs,
+  };
+}
+
+function iso(date: Date | null | undefined): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/**
+ * Load the detail view for one student; null if the student does not exist
+ * Access is checked by the caller
+ */
+export async function getStudentDetail(
+  studentId: string,
+  access: RosterAccess,
+  now: Date = new Date()
+): Promise<StudentDetail | null> {
+  const student = await prisma.profiles.findUnique({
+    where: { id: studentId },
+    select: {
+      id: true,
+      username: true,
+      full_name: true,
+      avatar_url: true,
+      role: true,
+      platform_connections: true,
+    },
+  });
+  if (!student || student.role !== 'student') {
+    return null;
+  }
+
+  const [stats, perfStats, snapshots, games, notes] = await Promise.all([
+    prisma.player_stats_v2.findMany({ where: { student_id: studentId } }),
+    prisma.player_perf_stats.findMany({ where: { student_id: studentId } }),
+    prisma.stats_snapshots.findMany({
+      where: { user_id: studentId, captured_at: { gte: new Date(now.getTime() - RATING_HISTORY_DAYS * DAY_MS) } },
+      orderBy: { captured_at: 'asc' },
+      select: {
+        captured_at: true,
+        source: true,
+        rapid_rating: true,
+        blitz_rating: true,
+        puzzle_rating: true,
+        perf_ratings: true,
+      },
+    }),
+    prisma.games.findMany({
+      where: { student_id: studentId },
+      orderBy: { ended_at: 'desc' },
+      take: RECENT_GAMES_LIMIT,
+      select: {
+        platform: true,
+        game_id: true,
+        time_class: true,
+        rated: true,
+        result: true,
+        color: true,
+        opponent_rating: true,
+        opening_name: true,
+        ended_at: true,
+      },
+    }),
+    prisma.student_notes.findMany({
+      where: { student_id: studentId },
+      orderBy: { created_at: 'desc' },
+      take: NOTES_LIMIT,
+      select: {
+        id: true,
+        body: true,
+        created_at: true,
+        author: { select: { id: true, full_name: true, username: true, email: true } },
+      },
+    }),
+  ]);
+
+  const platforms: PlatformDetail[] = student.platform_connections.map((connection) => {
+    const stat = stats.find((row) => row.platform === connection.platform);
+    const perfRows = perfStats.filter((row) => row.platform === connection.platform);
+
+    return {
+      platform: connection.platform,
+      username: connection.platform_username,
+      lastSyncedAt: iso(connection.last_synced_at),
+      lichessTokenConnected: connection.lichess_oauth_token_encrypted !== null,
+      needsReauth: connection.needs_reauth,
+      sync: stat
+        ? {
+            computedAt: iso(stat.computed_at),
+            lastUpdateOk: stat.last_update_ok,
+            lastUpdateErrorCode: stat.last_update_error_code,
+            lastUpdateErrorMessage: stat.last_update_error_message,
+            lastUpdateAttemptAt: iso(stat.last_update_attempt_at),
+            gamesTruncated: stat.games_truncated,
+            lastActiveAt: iso(stat.last_active_at),
+          }
+        : null,
+      perfs: PERFS.flatMap((perf) => {
+        const row = perfRows.find((candidate) => candidate.perf === perf);
+        return row
+          ? [{
+              perf,
+              games24h: row.games_24h,
+              games7d: row.games_7d,
+              rating: row.rating,
+              ratingDelta24h: row.rating_delta_24h,
+              ratingDelta7d: row.rating_delta_7d,
+            }]
+          : [];
+      }),
+      puzzles: stat
+        ? {
+            total: stat.puzzle_total,
+            solved24h: stat.puzzle_24h,
+            solved7d: stat.puzzle_7d,
+            method24h: stat.puzzle_24h_method,
+            method7d: stat.puzzle_7d_method,
+            stormBestScore24h: stat.storm_best_score_24h,
+            stormBestScore7d: stat.storm_best_score_7d,
+            rushAttempts24h: stat.rush_attempts_24h,
+            rushAttempts7d: stat.rush_attempts_7d,
+            rushBestScore: stat.rush_best_score,
+          }
+        : null,
+    };
+  });
+
+  return {
+    id: student.id,
+    nickname: student.username || student.full_name || 'Unnamed',
+    avatarUrl: student.avatar_url,
+    access,
+    platforms,
+    ratingHistory: snapshots.map(toRatingPoint),
+    recentGames: games.map((game) => ({
+      platform: game.platform,
+      gameId: game.game_id,
+      timeClass: game.time_class,
+      rated: game.rated,
+      result: game.result,
+      color: game.color,
+      opponentRating: game.opponent_rating,
+      openingName: game.opening_name,
+      endedAt: game.ended_at.toISOString(),
+    })),
+    notes: notes.map((note) => ({
+      id: note.id,
+      body: note.body,
+      createdAt: note.created_at.toISOString(),
+      authorId: note.author.id,
+      authorName: note.author.full_name || note.author.username || note.author.email || 'Unnamed',
+    })),
+  };
+}
@@ -1,13 +1,28 @@
 /**
  * Internal scheduler for periodic stats v2 updates
+ * Enqueues sync jobs every 6 hours and drains the queue with an in-process worker
+ * Compacts stats_snapshots once a day
  * Server-only module - should not run in browser
  */
 
+import { randomUUID } from 'crypto';
+import { runSyncWorker } from '@/lib/cron/syncWorker';
+import { compactSnapshots } from '@/lib/stats/snapshotRetention';
+import { cronAuthHeaders } from '@/lib/security/authorize';
+
 const SCHEDULE_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
 const INITIAL_DELAY_MS = 5000; // 5 seconds after start
+const WORKER_INTERVAL_MS = 30 * 1000; // 30 seconds
+const COMPACTION_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day
+const PAGE_SIZE = 100; // update-stats-v2 caps limit at 100
+const MAX_PAGES = 1000; // safety stop for the roster walk
 
 let schedulerStarted = false;
 let schedulerIntervalId: NodeJS.Timeout | null = null;
+let workerIntervalId: NodeJS.Timeout | null = null;
+let compactionIntervalId: NodeJS.Timeout | null = null;
+let workerRunning = false;
+const workerId = `scheduler-${randomUUID()}`;
 
 /**
  * Get the base URL for internal API calls
@@ -34,60 +49,148 @@ function getBaseUrl(): string {
   return window.location.origin;
 }
 
+type EnqueuePageResult = {
+  processed: number;
+  queued: number;
+  total: number;
+  /** Cursor for the next page; null after the last page */
+  nextCursor: string | null;
+};
+
 /**
- * Run the stats v2 update job
+ * Enqueue one page of eligible connections via the update-stats-v2 route
+ * after: cursor returned with the previous page (keyset on last_synced_at, id)
  */
-async function runStatsUpdateJob(): Promise<void> {
-  const startTime = Date.now();
-  console.log('[SCHEDULER] Starting stats v2 update job...');
+async function enqueuePage(after: string | null): Promise<EnqueuePageResult> {
+  const cursorParam = after ? `&after=${encodeURIComponent(after)}` : '';
+  const url = `${getBaseUrl()}/api/cron/update-stats-v2?limit=${PAGE_SIZE}${cursorParam}`;
+
+  // Add a timeout to prevent hanging (enqueueing does no platform calls, 1 minute is plenty)
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 60 * 1000);
 
-  let timeoutId: NodeJS.Timeout | null = null;
   try {
-    const baseUrl = getBaseUrl();
-    const url = `${baseUrl}/api/cron/update-stats-v2?limit=100&offset=0`;
-    
-    // Add a timeout to prevent hanging (10 minutes)
-    const controller = new AbortController();
-    timeoutId = setTimeout(() => controller.abort(), 10 * 60 * 1000);
-    
     const response = await fetch(url, {
       method: 'GET',
+      headers: cronAuthHeaders(),
       signal: controller.signal,
     });
-    
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-      timeoutId = null;
+
+    const result = await response.json().catch(() => null);
+
+    // The route answers "No eligible connections found" with ok=false for an empty roster;
+    // treat that as an empty page rather than an error
+    if (response.ok && result && !result.ok && result.processed === 0) {
+      return { processed: 0, queued: 0, total: result.total || 0, nextCursor: null };
     }
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
+    if (!response.ok || !result?.ok) {
+      throw new Error(`HTTP ${response.status}: ${result?.error || 'Unknown error'}`);
     }
 
-    const result = await response.json();
-    const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-    
-    if (result.ok) {
-      const processed = result.processed || 0;
-      const total = result.total || 0;
-      const errors = result.errors?.length || 0;
+    return {
+      processed: result.processed || 0,
+      queued: result.queued || 0,
+      total: result.total || 0,
+      nextCursor: result.nextCursor ?? null,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Run the stats v2 update job
+ * Walks the whole roster page by page (stalest connections first) and enqueues one
+ * sync job per eligible connection
+ * Pages follow a keyset cursor, so connections synced meanwhile (here or by another
+ * worker) move behind it without shifting the pages still to come
+ */
+async function runStatsUpdateJob(): Promise<void> {
+  const startTime = Date.now();
+  console.log('[SCHEDULER] Enqueueing stats v2 sync jobs...');
+
+  let pages = 0;
+  let processed = 0;
+  let queued = 0;
+  let total = 0;
+  let error: unknown = null;
+
+  try {
+    let after: string | null = null;
+    while (pages < MAX_PAGES) {
+      const page = await enqueuePage(after);
+      pages++;
+      processed += page.processed;
+      queued += page.queued;
+      total = page.total;
+
+      if (!page.nextCursor) {
+        break;
+      }
+      after = page.nextCursor;
+    }
+  } catch (pageError) {
+    // Don't throw - keep what was enqueued and continue with next cycle
+    error = pageError;
+  }
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  const summary = `pages ${pages}, processed ${processed}/${total}, queued ${queued}`;
+
+  if (error) {
+    console.error(
+      `[SCHEDULER] Error in stats v2 update job (${duration}s, ${summary}):`,
+      error instanceof Error ? error.message : String(error)
+    );
+  } else {
+    console.log(`[SCHEDULER] Stats v2 jobs enqueued in ${duration}s: ${summary}`);
+  }
+}
+
+/**
+ * Drain due sync jobs; skipped while the previous pass is still running
+ */
+async function runWorkerPass(): Promise<void> {
+  if (workerRunning) {
+    return;
+  }
+  workerRunning = true;
+
+  try {
+    const summary = await runSyncWorker({ workerId });
+    if (summary.processed > 0) {
       console.log(
-        `[SCHEDULER] Stats v2 update completed in ${duration}s: processed ${processed}/${total}, errors ${errors}`
+        `[SCHEDULER] Sync worker processed ${summary.processed} job(s): succeeded ${summary.succeeded}, retried ${summary.retried}, failed ${summary.failed}`
       );
-    } else {
-      console.error(`[SCHEDULER] Stats v2 update failed: ${result.error || 'Unknown error'}`);
     }
   } catch (error) {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
+    console.error(
+      '[SCHEDULER] Error in sync worker:',
+      error instanceof Error ? error.message : String(error)
+    );
+  } finally {
+    workerRunning = false;
+  }
+}
+
+/**
+ * Apply the stats_snapshots retention policy
+ */
+async function runCompactionJob(): Promise<void> {
+  const startTime = Date.now();
+
+  try {
+    const report = await compactSnapshots({ now: new Date(), dryRun: false });
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log(
+      `[SCHEDULER] Snapshots compacted in ${duration}s: series ${report.series}, removed daily ${report.removed.daily}, weekly ${report.removed.weekly}`
+    );
+  } catch (error) {
     console.error(
-      `[SCHEDULER] Error in stats v2 update job (${duration}s):`,
+      '[SCHEDULER] Error in snapshot compaction:',
       error instanceof Error ? error.message : String(error)
     );
-    // Don't throw - continue with next cycle
   }
 }
 
@@ -119,6 +222,9 @@ export function startScheduler(): void {
   (globalThis as any)[globalKey] = true;
 
   console.log('[SCHEDULER] Starting internal stats v2 scheduler (every 6 hours)');
+  if (!process.env.CRON_SECRET) {
+    console.warn('[SCHEDULER] CRON_SECRET is not set - update-stats-v2 will reject the scheduled enqueue');
+  }
 
   // Run immediately after initial delay
   setTimeout(() => {
@@ -134,6 +240,16 @@ export function startScheduler(): void {
     });
   }, SCHEDULE_INTERVAL_MS);
 
+  // Pick up queued jobs (including retries waiting on backoff) every 30 seconds
+  workerIntervalId = setInterval(() => {
+    void runWorkerPass();
+  }, WORKER_INTERVAL_MS);
+
+  // Compaction only touches snapshots older than 14 days, so a daily pass is plenty
+  compactionIntervalId = setInterval(() => {
+    void runCompactionJob();
+  }, COMPACTION_INTERVAL_MS);
+
   console.log(`[SCHEDULER] Scheduler started - will run every ${SCHEDULE_INTERVAL_MS / 1000 / 60 / 60} hours`);
 }
 
@@ -144,6 +260,14 @@ export function stopScheduler(): void {
   if (schedulerIntervalId) {
     clearInterval(schedulerIntervalId);
     schedulerIntervalId = null;
+    if (workerIntervalId) {
+      clearInterval(workerIntervalId);
+      workerIntervalId = null;
+    }
+    if (compactionIntervalId) {
+      clearInterval(compactionIntervalId);
+      compactionIntervalId = null;
+    }
     schedulerStarted = false;
     delete (globalThis as any).__robochess_scheduler_started__;
     console.log('[SCHEDULER] Scheduler stopped');
@@ -0,0 +1,31 @@
+/**
+ * Tests for the stats sync queue retry policy
+ * Uses Vitest
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { computeRetryDelayMs } from './syncQueue';
+
+// The queue functions talk to Postgres; only the pure retry policy is tested here
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const MINUTE_MS = 60 * 1000;
+
+describe('computeRetryDelayMs', () => {
+  it('backs off exponentially on RATE_LIMIT', () => {
+    expect(computeRetryDelayMs(1, 'RATE_LIMIT')).toBe(1 * MINUTE_MS);
+    expect(computeRetryDelayMs(2, 'RATE_LIMIT')).toBe(2 * MINUTE_MS);
+    expect(computeRetryDelayMs(3, 'RATE_LIMIT')).toBe(4 * MINUTE_MS);
+    expect(computeRetryDelayMs(4, 'RATE_LIMIT')).toBe(8 * MINUTE_MS);
+  });
+
+  it('caps the RATE_LIMIT backoff at one hour', () => {
+    expect(computeRetryDelayMs(10, 'RATE_LIMIT')).toBe(60 * MINUTE_MS);
+  });
+
+  it('uses a fixed delay for other errors', () => {
+    expect(computeRetryDelayMs(1, undefined)).toBe(15 * MINUTE_MS);
+    expect(computeRetryDelayMs(4, null)).toBe(15 * MINUTE_MS);
+    expect(computeRetryDelayMs(2, 'NOT_FOUND')).toBe(15 * MINUTE_MS);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Postgres-backed stats sync queue
+ * One sync_jobs row per platform connection; workers claim due jobs with a lease
+ * (FOR UPDATE SKIP LOCKED) and keep it alive with heartbeats while they run.
+ * A job whose lease expires is picked up again by the next worker, until it is out of attempts.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+/** Attempts before a job is parked as 'failed' until the next enqueue */
+export const MAX_SYNC_ATTEMPTS = 5;
+
+const RATE_LIMIT_BASE_DELAY_MS = 60 * 1000;
+const RATE_LIMIT_MAX_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+export type SyncJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type ClaimedSyncJob = {
+  id: string;
+  connectionId: string;
+  attempts: number;
+};
+
+/**
+ * Delay before retrying a failed job
+ * RATE_LIMIT backs off exponentially (1m, 2m, 4m, ... capped at 1h), anything else waits 15m
+ * @param attempts Attempts made so far, including the one that just failed
+ */
+export function computeRetryDelayMs(attempts: number, errorCode: string | null | undefined): number {
+  if (errorCode === 'RATE_LIMIT') {
+    const exponent = Math.max(attempts - 1, 0);
+    return Math.min(RATE_LIMIT_BASE_DELAY_MS * 2 ** exponent, RATE_LIMIT_MAX_DELAY_MS);
+  }
+  return DEFAULT_RETRY_DELAY_MS;
+}
+
+/**
+ * Queue a sync for each connection
+ * Jobs that are already queued or running are left alone, so enqueueing twice never
+ * produces two runs; finished and failed jobs are reset with a fresh attempt budget.
+ * @returns Number of jobs created or re-queued
+ */
+export async function enqueueSyncJobs(connectionIds: string[], runAt: Date = new Date()): Promise<number> {
+  if (connectionIds.length === 0) {
+    return 0;
+  }
+
+  return prisma.$executeRaw`
+    INSERT INTO "public"."sync_jobs" (connection_id, status, attempts, next_run_at, created_at, updated_at)
+    SELECT id, 'queued', 0, ${runAt}, now(), now()
+    FROM unnest(${connectionIds}::uuid[]) AS id
+    ON CONFLICT (connection_id) DO UPDATE SET
+      status = 'queued',
+      attempts = 0,
+      next_run_at = EXCLUDED.next_run_at,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      last_error_code = NULL,
+      last_error = NULL,
+      updated_at = now()
+    WHERE "sync_jobs".status IN ('done', 'failed')
+  `;
+}
+
+/**
+ * Lease the next due job for a worker
+ * Due means queued with next_run_at in the past, or running with an expired lease
+ * (the previous worker died or stopped heartbeating). Claiming counts as an attempt.
+ * An expired lease on the last attempt parks the job as 'failed' instead, so a job that
+ * keeps killing its worker (OOM, timeout) isn't retried forever
+ */
+export async function claimSyncJob(workerId: string, leaseMs: number): Promise<ClaimedSyncJob | null> {
+  const rows = await prisma.$queryRaw<Array<{ id: string; connection_id: string; attempts: number }>>`
+    WITH parked AS (
+      UPDATE "public"."sync_jobs"
+      SET status = 'failed',
+          locked_by = NULL,
+          lease_expires_at = NULL,
+          last_error_code = 'LEASE_EXPIRED',
+          last_error = 'Worker lease expired on the last attempt',
+          updated_at = now()
+      WHERE status = 'running' AND lease_expires_at < now() AND attempts >= ${MAX_SYNC_ATTEMPTS}
+    )
+    UPDATE "public"."sync_jobs"
+    SET status = 'running',
+        locked_by = ${workerId},
+        lease_expires_at = now() + make_interval(secs => ${leaseMs / 1000}),
+        attempts = attempts + 1,
+        last_run_at = now(),
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM "public"."sync_jobs"
+      WHERE (status = 'queued' AND next_run_at <= now())
+         OR (status = 'running' AND lease_expires_at < now() AND attempts < ${MAX_SYNC_ATTEMPTS})
+      ORDER BY next_run_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, connection_id, attempts
+  `;
+
+  const row = rows[0];
+  return row ? { id: row.id, connectionId: row.connection_id, attempts: row.attempts } : null;
+}
+
+/**
+ * Extend the lease of a running job
+ * @returns false if the job was taken over by another worker
+ */
+export async function heartbeatSyncJob(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+  const result = await prisma.sync_jobs.updateMany({
+    where: { id: jobId, locked_by: workerId, status: 'running' },
+    data: {
+      lease_expires_at: new Date(Date.now() + leaseMs),
+      updated_at: new Date(),
+    },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Mark a job done and release its lease
+ */
+export async function completeSyncJob(jobId: string, workerId: string): Promise<void> {
+  await prisma.sync_jobs.updateMany({
+    where: { id: jobId, locked_by: workerId },
+    data: {
+      status: 'done',
+      locked_by: null,
+      lease_expires_at: null,
+      last_error_code: null,
+      last_error: null,
+      updated_at: new Date(),
+    },
+  });
+}
+
+/**
+ * Record a failed attempt: re-queue with backoff, or park the job once it is out of attempts
+ */
+export async function failSyncJob(
+  job: ClaimedSyncJob,
+  workerId: string,
+  errorCode: string | null | undefined,
+  errorMessage: string
+): Promise<SyncJobStatus> {
+  const status: SyncJobStatus = job.attempts >= MAX_SYNC_ATTEMPTS ? 'failed' : 'queued';
+
+  await prisma.sync_jobs.updateMany({
+    where: { id: job.id, locked_by: workerId },
+    data: {
+      status,
+      next_run_at: new Date(Date.now() + computeRetryDelayMs(job.attempts, errorCode)),
+      locked_by: null,
+      lease_expires_at: null,
+      last_error_code: errorCode ?? null,
+      last_error: errorMessage.substring(0, 500),
+      updated_at: new Date(),
+    },
+  });
+
+  return status;
+}
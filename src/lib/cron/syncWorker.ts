@@ -0,0 +1,110 @@
+/**
+ * Stats sync worker: drains due jobs from the sync queue
+ * Server-only module; several workers may run at once, the queue leases keep them apart
+ */
+
+import { prisma } from '@/lib/prisma';
+import { syncConnection } from '@/lib/stats/syncConnection';
+import {
+  claimSyncJob,
+  completeSyncJob,
+  failSyncJob,
+  heartbeatSyncJob,
+} from '@/lib/cron/syncQueue';
+
+const LEASE_MS = 2 * 60 * 1000; // 2 minutes
+const HEARTBEAT_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+export type SyncWorkerSummary = {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  retried: number;
+  failed: number;
+};
+
+/**
+ * Claim and run jobs until the queue has nothing due, or a limit is hit
+ */
+export async function runSyncWorker({
+  workerId,
+  maxJobs = 50,
+  maxDurationMs = 5 * 60 * 1000,
+}: {
+  workerId: string;
+  maxJobs?: number;
+  maxDurationMs?: number;
+}): Promise<SyncWorkerSummary> {
+  const startTime = Date.now();
+  const summary: SyncWorkerSummary = { workerId, processed: 0, succeeded: 0, retried: 0, failed: 0 };
+
+  while (summary.processed < maxJobs && Date.now() - startTime < maxDurationMs) {
+    const job = await claimSyncJob(workerId, LEASE_MS);
+    if (!job) {
+      break;
+    }
+    summary.processed++;
+
+    // Keep the lease alive while the sync runs; a lost lease means another worker took over
+    const heartbeat = setInterval(() => {
+      heartbeatSyncJob(job.id, workerId, LEASE_MS)
+        .then((held) => {
+          if (!held) {
+            console.warn(`[sync-worker] ${workerId} lost lease on job ${job.id}`);
+          }
+        })
+        .catch((error) => {
+          console.warn(`[sync-worker] Heartbeat failed for job ${job.id}:`, error instanceof Error ? error.message : String(error));
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const connection = await prisma.platform_connections.findUnique({
+        where: { id: job.connectionId },
+        select: {
+          id: true,
+          user_id: true,
+          platform: true,
+          platform_username: true,
+          games_cursor_at: true,
+          lichess_oauth_token_encrypted: true,
+          needs_reauth: true,
+        },
+      });
+
+      if (!connection || !connection.platform_username || connection.platform_username.trim() === '') {
+        // Connection was removed or unlinked since it was queued; nothing to retry
+        await completeSyncJob(job.id, workerId);
+        summary.succeeded++;
+        continue;
+      }
+
+      const result = await syncConnection(connection, new Date());
+
+      if (result.ok) {
+        await completeSyncJob(job.id, workerId);
+        summary.succeeded++;
+      } else {
+        const status = await failSyncJob(job, workerId, result.errorCode, result.errorMessage);
+        if (status === 'failed') {
+          summary.failed++;
+        } else {
+          summary.retried++;
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[sync-worker] Job ${job.id} crashed:`, errorMessage);
+      const status = await failSyncJob(job, workerId, null, errorMessage).catch(() => null);
+      if (status === 'failed') {
+        summary.failed++;
+      } else {
+        summary.retried++;
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  return summary;
+}
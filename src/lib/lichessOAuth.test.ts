@@ -0,0 +1,229 @@
+/**
+ * Tests for the Lichess OAuth (PKCE) helpers
+ * Uses Vitest with mocked fetch
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  buildLichessAuthorizeUrl,
+  codeChallengeFromVerifier,
+  createPkceSession,
+  exchangeLichessCode,
+  fetchLichessAccount,
+  getLichessRedirectUri,
+  revokeLichessToken,
+  saveLichessConnection,
+} from './lichessOAuth';
+import { resetPlatformHttp } from '@/lib/platformHttp';
+
+const db = vi.hoisted(() => ({
+  connection: null as { platform_username: string; platform_user_id: string | null } | null,
+  calls: [] as string[],
+  upserts: [] as Array<{ update: Record<string, unknown> }>,
+}));
+
+// Queries record themselves when run, as Prisma's lazy promises do
+vi.mock('@/lib/prisma', () => {
+  const query = (name: string, result: () => unknown = () => ({ count: 0 })) => ({
+    then: (resolve: (value: unknown) => void) => {
+      db.calls.push(name);
+      resolve(result());
+    },
+  });
+  const deleteMany = (model: string) => ({ deleteMany: () => query(`${model}.deleteMany`) });
+
+  return {
+    prisma: {
+      platform_connections: {
+        findUnique: async () => db.connection,
+        upsert: (args: { update: Record<string, unknown> }) =>
+          query('platform_connections.upsert', () => db.upserts.push(args)),
+      },
+      games: deleteMany('games'),
+      player_perf_stats: deleteMany('player_perf_stats'),
+      player_stats_v2: deleteMany('player_stats_v2'),
+      stats_snapshots: deleteMany('stats_snapshots'),
+      $transaction: async (queries: Promise<unknown>[]) => Promise.all(queries),
+    },
+  };
+});
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+function mockJsonResponse(status: number, body: unknown) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(),
+    json: async () => body,
+  };
+}
+
+describe('lichessOAuth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetPlatformHttp();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('PKCE', () => {
+    it('derives an unpadded base64url S256 challenge', () => {
+      const verifier = 'dBjftJeZ4CVP-mJ92K9T5gTnsSQpqgdemodKY_I3gs';
+      const challenge = codeChallengeFromVerifier(verifier);
+
+      expect(challenge).toBe(crypto.createHash('sha256').update(verifier).digest('base64url'));
+      expect(challenge).not.toMatch(/[+/=]/);
+    });
+
+    it('creates a fresh verifier and state each time', () => {
+      const first = createPkceSession();
+      const second = createPkceSession();
+
+      expect(first.codeVerifier).toHaveLength(43);
+      expect(first.codeChallenge).toBe(codeChallengeFromVerifier(first.codeVerifier));
+      expect(first.state).not.toBe(second.state);
+      expect(first.codeVerifier).not.toBe(second.codeVerifier);
+    });
+  });
+
+  describe('buildLichessAuthorizeUrl', () => {
+    it('asks for puzzle:read with an S256 challenge', () => {
+      const url = new URL(
+        buildLichessAuthorizeUrl({
+          clientId: 'robochess',
+          redirectUri: 'https://app.example/api/platform-connections/lichess/callback',
+          codeChallenge: 'challenge',
+          state: 'state123',
+        })
+      );
+
+      expect(url.origin + url.pathname).toBe('https://lichess.org/oauth');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: 'robochess',
+        redirect_uri: 'https://app.example/api/platform-connections/lichess/callback',
+        code_challenge_method: 'S256',
+        code_challenge: 'challenge',
+        scope: 'puzzle:read',
+        state: 'state123',
+      });
+    });
+  });
+
+  describe('getLichessRedirectUri', () => {
+    it('prefers NEXT_PUBLIC_APP_URL over the request origin', () => {
+      vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://robochess.example/');
+      expect(getLichessRedirectUri('http://localhost:3000')).toBe(
+        'https://robochess.example/api/platform-connections/lichess/callback'
+      );
+    });
+
+    it('falls back to the request origin', () => {
+      vi.stubEnv('NEXT_PUBLIC_APP_URL', '');
+      expect(getLichessRedirectUri('http://localhost:3000')).toBe(
+        'http://localhost:3000/api/platform-connections/lichess/callback'
+      );
+    });
+  });
+
+  describe('exchangeLichessCode', () => {
+    it('posts the code and verifier and returns the access token', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        mockJsonResponse(200, { token_type: 'Bearer', access_token: 'lio_abc', expires_in: 31536000 })
+      );
+
+      const token = await exchangeLichessCode({
+        code: 'code1',
+        codeVerifier: 'verifier1',
+        redirectUri: 'http://localhost:3000/api/platform-connections/lichess/callback',
+        clientId: 'robochess',
+      });
+
+      expect(token).toBe('lio_abc');
+      const [url, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+      expect(url).toBe('https://lichess.org/api/token');
+      expect(init.method).toBe('POST');
+      expect(Object.fromEntries(new URLSearchParams(init.body as string))).toEqual({
+        grant_type: 'authorization_code',
+        code: 'code1',
+        code_verifier: 'verifier1',
+        redirect_uri: 'http://localhost:3000/api/platform-connections/lichess/callback',
+        client_id: 'robochess',
+      });
+    });
+
+    it('throws when Lichess rejects the code', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(mockJsonResponse(400, { error: 'invalid_grant' }));
+
+      await expect(
+        exchangeLichessCode({ code: 'bad', codeVerifier: 'v', redirectUri: 'http://x/cb', clientId: 'robochess' })
+      ).rejects.toThrow('LICHESS_TOKEN_EXCHANGE_FAILED');
+    });
+  });
+
+  describe('fetchLichessAccount', () => {
+    it('returns the verified id and username', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        mockJsonResponse(200, { id: 'robo4040', username: 'Robo4040', perfs: {} })
+      );
+
+      await expect(fetchLichessAccount('lio_abc')).resolves.toEqual({ id: 'robo4040', username: 'Robo4040' });
+    });
+
+    it('reports a rejected token', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(mockJsonResponse(401, {}));
+
+      await expect(fetchLichessAccount('revoked')).rejects.toThrow('LICHESS_TOKEN_INVALID');
+    });
+  });
+
+  describe('revokeLichessToken', () => {
+    it('treats an already invalid token as revoked', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(mockJsonResponse(401, {}));
+
+      await expect(revokeLichessToken('revoked')).resolves.toBeUndefined();
+      expect((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].method).toBe('DELETE');
+    });
+  });
+
+  describe('saveLichessConnection', () => {
+    beforeEach(() => {
+      vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `a:${crypto.randomBytes(32).toString('base64')}`);
+      db.calls = [];
+      db.upserts = [];
+    });
+
+    it('keeps synced data when the same account reconnects', async () => {
+      db.connection = { platform_username: 'Robo4040', platform_user_id: null };
+
+      await saveLichessConnection('s1', { id: 'robo4040', username: 'Robo4040' }, 'lio_abc');
+
+      expect(db.calls).toEqual(['platform_connections.upsert']);
+      expect(db.upserts[0].update).not.toHaveProperty('games_cursor_at');
+    });
+
+    it('drops the old account\'s games and stats when a different account connects', async () => {
+      db.connection = { platform_username: 'Robo4040', platform_user_id: 'robo4040' };
+
+      await saveLichessConnection('s1', { id: 'other', username: 'Other' }, 'lio_abc');
+
+      expect(db.calls).toEqual([
+        'games.deleteMany',
+        'player_perf_stats.deleteMany',
+        'player_stats_v2.deleteMany',
+        'stats_snapshots.deleteMany',
+        'platform_connections.upsert',
+      ]);
+      expect(db.upserts[0].update).toMatchObject({
+        platform_user_id: 'other',
+        games_cursor_at: null,
+        last_synced_at: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Lichess OAuth2 (authorization code + PKCE) for connecting a student's Lichess account
+ * Lichess needs no client registration: any client id works, the redirect URI is checked per request
+ * Server-only module
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { platformFetch } from '@/lib/platformHttp';
+import { encryptToken } from '@/lib/security/tokenEncryption';
+
+const LICHESS_BASE_URL = 'https://lichess.org';
+
+/** Only the puzzle activity log needs a token; everything else is public */
+export const LICHESS_OAUTH_SCOPE = 'puzzle:read';
+
+/** How long a started authorisation may take before its state is rejected */
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export const LICHESS_CALLBACK_PATH = '/api/platform-connections/lichess/callback';
+
+export type LichessAccount = {
+  id: string;
+  username: string;
+};
+
+export function getLichessClientId(): string {
+  return process.env.LICHESS_OAUTH_CLIENT_ID?.trim() || 'robochess';
+}
+
+/**
+ * Redirect URI for the callback; NEXT_PUBLIC_APP_URL wins over the request origin behind proxies
+ */
+export function getLichessRedirectUri(requestOrigin: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL?.trim() || requestOrigin;
+  return `${baseUrl.replace(/\/+$/, '')}${LICHESS_CALLBACK_PATH}`;
+}
+
+function base64Url(bytes: Buffer): string {
+  return bytes.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * S256 code challenge for a PKCE verifier (RFC 7636)
+ */
+export function codeChallengeFromVerifier(verifier: string): string {
+  return base64Url(crypto.createHash('sha256').update(verifier).digest());
+}
+
+/**
+ * Random state and PKCE verifier for one authorisation
+ */
+export function createPkceSession(): { state: string; codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = base64Url(crypto.randomBytes(32)); // 43 chars, within the 43..128 allowed
+  return {
+    state: base64Url(crypto.randomBytes(16)),
+    codeVerifier,
+    codeChallenge: codeChallengeFromVerifier(codeVerifier),
+  };
+}
+
+export function buildLichessAuthorizeUrl({
+  clientId,
+  redirectUri,
+  codeChallenge,
+  state,
+}: {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  state: string;
+}): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    code_challenge_method: 'S256',
+    code_challenge: codeChallenge,
+    scope: LICHESS_OAUTH_SCOPE,
+    state,
+  });
+  return `${LICHESS_BASE_URL}/oauth?${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code for an access token
+ * @throws Error('LICHESS_TOKEN_EXCHANGE_FAILED') if Lichess rejects the code or verifier
+ */
+export async function exchangeLichessCode({
+  code,
+  codeVerifier,
+  redirectUri,
+  clientId,
+}: {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  clientId: string;
+}): Promise<string> {
+  const response = await platformFetch(`${LICHESS_BASE_URL}/api/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error('LICHESS_TOKEN_EXCHANGE_FAILED');
+  }
+
+  const data = await response.json();
+  if (typeof data?.access_token !== 'string' || data.access_token.length === 0) {
+    throw new Error('LICHESS_TOKEN_EXCHANGE_FAILED');
+  }
+  return data.access_token;
+}
+
+/**
+ * Account the token belongs to
+ * @throws Error('LICHESS_TOKEN_INVALID') on 401/403, Error('LICHESS_ACCOUNT_FETCH_FAILED') otherwise
+ */
+export async function fetchLichessAccount(token: string): Promise<LichessAccount> {
+  const response = await platformFetch(`${LICHESS_BASE_URL}/api/account`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error('LICHESS_TOKEN_INVALID');
+  }
+  if (!response.ok) {
+    throw new Error('LICHESS_ACCOUNT_FETCH_FAILED');
+  }
+
+  const data = await response.json();
+  if (typeof data?.id !== 'string' || typeof data?.username !== 'string') {
+    throw new Error('LICHESS_ACCOUNT_FETCH_FAILED');
+  }
+  return { id: data.id, username: data.username };
+}
+
+/**
+ * Revoke a token at Lichess; an already invalid token counts as revoked
+ */
+export async function revokeLichessToken(token: string): Promise<void> {
+  const response = await platformFetch(`${LICHESS_BASE_URL}/api/token`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok && response.status !== 401) {
+    throw new Error('LICHESS_TOKEN_REVOKE_FAILED');
+  }
+}
+
+/**
+ * Store a verified token on the student's Lichess connection, creating the connection if needed
+ * The verified account replaces the username; a different account drops everything synced from
+ * the old one (games, per-control and window stats, snapshots) and restarts the games sync
+ */
+export async function saveLichessConnection(userId: string, account: LichessAccount, token: string): Promise<void> {
+  const encryptedToken = encryptToken(token);
+
+  const existing = await prisma.platform_connections.findUnique({
+    where: { user_id_platform: { user_id: userId, platform: 'lichess' } },
+    select: { platform_username: true, platform_user_id: true },
+  });
+  // Connections added by username may not have the account id yet; Lichess ids are lower-cased usernames
+  const previousAccountId = existing ? (existing.platform_user_id ?? existing.platform_username.toLowerCase()) : null;
+  const accountChanged = previousAccountId !== null && previousAccountId !== account.id;
+
+  const saveConnection = prisma.platform_connections.upsert({
+    where: { user_id_platform: { user_id: userId, platform: 'lichess' } },
+    update: {
+      platform_username: account.username,
+      platform_user_id: account.id,
+      lichess_oauth_token_encrypted: encryptedToken,
+      needs_reauth: false,
+      ...(accountChanged ? { games_cursor_at: null, last_synced_at: null } : {}),
+    },
+    create: {
+      user_id: userId,
+      platform: 'lichess',
+      platform_username: account.username,
+      platform_user_id: account.id,
+      lichess_oauth_token_encrypted: encryptedToken,
+    },
+  });
+
+  if (!accountChanged) {
+    await saveConnection;
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.games.deleteMany({ where: { student_id: userId, platform: 'lichess' } }),
+    prisma.player_perf_stats.deleteMany({ where: { student_id: userId, platform: 'lichess' } }),
+    prisma.player_stats_v2.deleteMany({ where: { student_id: userId, platform: 'lichess' } }),
+    prisma.stats_snapshots.deleteMany({ where: { user_id: userId, source: 'lichess' } }),
+    saveConnection,
+  ]);
+}
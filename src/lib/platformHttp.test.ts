@@ -0,0 +1,123 @@
+/**
+ * Tests for the shared platform HTTP client
+ * Uses Vitest with mocked fetch
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseRetryAfterMs, platformFetch, resetPlatformHttp, USER_AGENT } from './platformHttp';
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+function mockResponse(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+  };
+}
+
+describe('platformHttp', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetPlatformHttp();
+  });
+
+  describe('parseRetryAfterMs', () => {
+    it('parses delay seconds', () => {
+      expect(parseRetryAfterMs('30')).toBe(30000);
+      expect(parseRetryAfterMs(' 0 ')).toBe(0);
+    });
+
+    it('parses an HTTP date relative to now', () => {
+      const nowMs = Date.parse('2024-03-01T12:00:00Z');
+      expect(parseRetryAfterMs('Fri, 01 Mar 2024 12:00:45 GMT', nowMs)).toBe(45000);
+      expect(parseRetryAfterMs('Fri, 01 Mar 2024 11:00:00 GMT', nowMs)).toBe(0);
+    });
+
+    it('returns null for missing or malformed values', () => {
+      expect(parseRetryAfterMs(null)).toBeNull();
+      expect(parseRetryAfterMs('')).toBeNull();
+      expect(parseRetryAfterMs('soon')).toBeNull();
+    });
+  });
+
+  describe('platformFetch', () => {
+    it('adds the User-Agent and keeps caller headers', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(mockResponse(200));
+
+      await platformFetch('https://api.chess.com/pub/player/robo4040', {
+        headers: { Accept: 'application/json' },
+      });
+
+      const init = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1] as RequestInit;
+      expect(init.headers).toEqual({ 'User-Agent': USER_AGENT, Accept: 'application/json' });
+      expect(init.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('retries a 429 once when Retry-After is short', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(mockResponse(429, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(mockResponse(200));
+
+      const response = await platformFetch('https://api.chess.com/pub/player/robo4040/stats');
+
+      expect(response.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns the 429 when the host asks for a long pause', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(mockResponse(429, { 'Retry-After': '120' }));
+
+      const response = await platformFetch('https://lichess.org/api/user/robo4040');
+
+      expect(response.status).toBe(429);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('starts the timeout when the request is sent, not while it waits in the host queue', async () => {
+      const abortedAtSend: boolean[] = [];
+      const send = async (_url: string, init: RequestInit) => {
+        abortedAtSend.push(init.signal!.aborted);
+        return mockResponse(200);
+      };
+      (global.fetch as ReturnType<typeof vi.fn>).mockImplementationOnce(send).mockImplementationOnce(send);
+
+      // Lichess sends one request per 1.2s, so the second waits far longer than its timeout
+      const responses = await Promise.all([
+        platformFetch('https://lichess.org/api/user/a', { timeoutMs: 100 }),
+        platformFetch('https://lichess.org/api/user/b', { timeoutMs: 100 }),
+      ]);
+
+      expect(responses.map((response) => response.status)).toEqual([200, 200]);
+      expect(abortedAtSend).toEqual([false, false]);
+    });
+
+    it('gives the retry after a 429 a fresh timeout', async () => {
+      const abortedAtSend: boolean[] = [];
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockImplementationOnce(async (_url: string, init: RequestInit) => {
+          abortedAtSend.push(init.signal!.aborted);
+          return mockResponse(429, { 'Retry-After': '1' });
+        })
+        .mockImplementationOnce(async (_url: string, init: RequestInit) => {
+          abortedAtSend.push(init.signal!.aborted);
+          return mockResponse(200);
+        });
+
+      const response = await platformFetch('https://api.chess.com/pub/player/robo4040/stats', { timeoutMs: 100 });
+
+      expect(response.status).toBe(200);
+      expect(abortedAtSend).toEqual([false, false]);
+    });
+
+    it('passes other hosts straight through', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(mockResponse(200));
+
+      const response = await platformFetch('https://example.com/');
+
+      expect(response.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledWith('https://example.com/', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import Bottleneck from "bottleneck";
+
+/**
+ * Shared HTTP client for chess platform APIs (lichess.org, api.chess.com)
+ * Every outbound platform call goes through platformFetch so that:
+ * - requests to one host are throttled by a single limiter per host
+ * - a 429 pauses that host for Retry-After (or the host default) before anything else is sent
+ * - timeouts and the User-Agent are set in one place
+ */
+
+export const USER_AGENT = "RoboChess/1.0";
+
+const DEFAULT_TIMEOUT_MS = 15000; // 15 seconds
+
+// Retry a 429 in place only when the server asks for a short wait; longer waits are
+// returned to the caller as a rate limit (the sync queue backs off on RATE_LIMIT)
+const MAX_INLINE_RETRY_WAIT_MS = 10000;
+
+type HostConfig = {
+  limiter: Bottleneck.ConstructorOptions;
+  /** Pause after a 429 without a Retry-After header */
+  defaultRetryAfterMs: number;
+};
+
+const HOSTS: Record<string, HostConfig> = {
+  // Lichess: one request at a time; after a 429 wait a full minute
+  "lichess.org": {
+    limiter: { minTime: 1200, maxConcurrent: 1 },
+    defaultRetryAfterMs: 60 * 1000,
+  },
+  // Chess.com: serial requests are unthrottled, parallel ones may be rejected with 429
+  "api.chess.com": {
+    limiter: { minTime: 100, maxConcurrent: 1 },
+    defaultRetryAfterMs: 5 * 1000,
+  },
+};
+
+type HostState = {
+  limiter: Bottleneck;
+  blockedUntil: number;
+};
+
+let hostStates = new Map<string, HostState>();
+
+function getHostState(host: string): HostState | null {
+  const config = HOSTS[host];
+  if (!config) {
+    return null;
+  }
+
+  let state = hostStates.get(host);
+  if (!state) {
+    state = { limiter: new Bottleneck(config.limiter), blockedUntil: 0 };
+    hostStates.set(host, state);
+  }
+  return state;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if the header is missing or malformed
+ */
+export function parseRetryAfterMs(value: string | null | undefined, nowMs: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const dateMs = Date.parse(trimmed);
+  if (isNaN(dateMs)) {
+    return null;
+  }
+  return Math.max(dateMs - nowMs, 0);
+}
+
+export type PlatformFetchInit = RequestInit & {
+  /** Abort after this long from when the request is sent, including reading the body (default 15s) */
+  timeoutMs?: number;
+};
+
+function withUserAgent(headers: HeadersInit | undefined): HeadersInit {
+  // Browsers don't allow overriding the User-Agent
+  if (typeof window !== "undefined") {
+    return headers ?? {};
+  }
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    const merged = new Headers(headers);
+    if (!merged.has("User-Agent")) {
+      merged.set("User-Agent", USER_AGENT);
+    }
+    return merged;
+  }
+  return { "User-Agent": USER_AGENT, ...headers };
+}
+
+/**
+ * fetch() for platform APIs: throttled per host, with timeout, User-Agent and 429 handling
+ * Resolves with the response (including a final 429) and rejects on network errors and
+ * timeouts, like fetch
+ */
+export async function platformFetch(url: string, init: PlatformFetchInit = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, ...requestInit } = init;
+  const headers = withUserAgent(requestInit.headers);
+
+  // The timeout starts when the request is actually sent, once per attempt: time spent
+  // queued behind the host limiter or a 429 pause doesn't count against it
+  const attempt = () => {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    return fetch(url, {
+      ...requestInit,
+      headers,
+      signal: requestInit.signal ? AbortSignal.any([requestInit.signal, timeoutSignal]) : timeoutSignal,
+    });
+  };
+
+  const host = new URL(url).hostname;
+  const state = getHostState(host);
+  if (!state) {
+    return attempt();
+  }
+
+  const send = () =>
+    state.limiter.schedule(async () => {
+      // Hold the whole host queue while a 429 pause is in effect
+      const waitMs = state.blockedUntil - Date.now();
+      if (waitMs > 0) {
+        await sleep(waitMs);
+      }
+
+      const response = await attempt();
+      if (response.status === 429) {
+        const retryAfterMs =
+          parseRetryAfterMs(response.headers?.get("Retry-After")) ?? HOSTS[host].defaultRetryAfterMs;
+        state.blockedUntil = Math.max(state.blockedUntil, Date.now() + retryAfterMs);
+        console.warn(`[platformHttp] 429 from ${host}, pausing requests for ${Math.round(retryAfterMs / 1000)}s`);
+      }
+      return response;
+    });
+
+  const response = await send();
+  if (response.status === 429 && state.blockedUntil - Date.now() <= MAX_INLINE_RETRY_WAIT_MS) {
+    return send();
+  }
+  return response;
+}
+
+/**
+ * Drop limiter queues and 429 pauses (useful for cleanup in tests)
+ */
+export function resetPlatformHttp(): void {
+  hostStates = new Map();
+}
@@ -0,0 +1,59 @@
+/**
+ * Tests for the puzzle board helpers
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFen, STARTING_FEN } from '@/lib/chess/fen';
+import type { Position } from '@/lib/chess/types';
+import { coordsToSquare, playUciMove, sideToMove, squareToCoords, toBoard } from './board';
+
+function pieceAt(position: Position, square: string) {
+  const [rank, file] = squareToCoords(square);
+  return toBoard(position)[rank][file];
+}
+
+describe('puzzle board', () => {
+  it('lays out the position and side to move', () => {
+    const start = parseFen(STARTING_FEN);
+    expect(pieceAt(start, 'e1')).toBe('K');
+    expect(pieceAt(start, 'd8')).toBe('q');
+    expect(pieceAt(start, 'e4')).toBeNull();
+    expect(toBoard(start)[0][0]).toBe('r');
+    expect(sideToMove(start)).toBe('white');
+    expect(sideToMove(parseFen('8/8/8/8/8/8/8/k6K b - - 0 1'))).toBe('black');
+  });
+
+  it('maps squares to coordinates and back', () => {
+    expect(squareToCoords('a8')).toEqual([0, 0]);
+    expect(squareToCoords('h1')).toEqual([7, 7]);
+    expect(coordsToSquare(4, 4)).toBe('e4');
+  });
+
+  it('moves the rook when castling', () => {
+    const castled = playUciMove(parseFen('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1'), 'e1g1')!;
+    expect(pieceAt(castled, 'g1')).toBe('K');
+    expect(pieceAt(castled, 'f1')).toBe('R');
+    expect(pieceAt(castled, 'h1')).toBeNull();
+
+    const long = playUciMove(castled, 'e8c8')!;
+    expect(pieceAt(long, 'c8')).toBe('k');
+    expect(pieceAt(long, 'd8')).toBe('r');
+    expect(pieceAt(long, 'a8')).toBeNull();
+  });
+
+  it('captures en passant and promotes', () => {
+    const enPassant = playUciMove(parseFen('8/8/8/3pP3/8/8/8/k6K w - d6 0 1'), 'e5d6')!;
+    expect(pieceAt(enPassant, 'd6')).toBe('P');
+    expect(pieceAt(enPassant, 'd5')).toBeNull();
+
+    const promoted = playUciMove(parseFen('8/8/8/8/8/8/4p3/k6K b - - 0 1'), 'e2e1n')!;
+    expect(pieceAt(promoted, 'e1')).toBe('n');
+  });
+
+  it('refuses illegal moves', () => {
+    const start = parseFen(STARTING_FEN);
+    expect(playUciMove(start, 'e2e5')).toBeNull();
+    expect(playUciMove(start, 'e7e5')).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Board display for puzzles, on top of the chess rules module (src/lib/chess)
+ * The board only plays legal moves; the server still decides whether a move is right (see solver)
+ */
+
+import { makeMove } from '@/lib/chess/moves';
+import { parseUci } from '@/lib/chess/notation';
+import type { Piece, Position } from '@/lib/chess/types';
+
+export type PieceCode = Piece;
+
+/** board[rank][file]: rank 0 is the 8th rank, file 0 the a-file; null is an empty square */
+export type Board = (PieceCode | null)[][];
+
+export type PieceColor = 'white' | 'black';
+
+/**
+ * The position's pieces laid out rank by rank from the 8th, as the board draws them
+ */
+export function toBoard(position: Position): Board {
+  return Array.from({ length: 8 }, (_, rank) =>
+    Array.from({ length: 8 }, (_, file) => position.board[(7 - rank) * 8 + file])
+  );
+}
+
+export function sideToMove(position: Position): PieceColor {
+  return position.turn === 'w' ? 'white' : 'black';
+}
+
+export function pieceColor(piece: PieceCode): PieceColor {
+  return piece === piece.toUpperCase() ? 'white' : 'black';
+}
+
+/**
+ * Square name ("e4") to [rank index, file index] on the Board
+ */
+export function squareToCoords(square: string): [number, number] {
+  const file = square.charCodeAt(0) - 'a'.charCodeAt(0);
+  const rank = 8 - Number(square[1]);
+  return [rank, file];
+}
+
+export function coordsToSquare(rank: number, file: number): string {
+  return `${String.fromCharCode('a'.charCodeAt(0) + file)}${8 - rank}`;
+}
+
+/**
+ * Play a UCI move; null when it isn't legal in the position
+ */
+export function playUciMove(position: Position, move: string): Position | null {
+  const legal = parseUci(position, move);
+  return legal ? makeMove(position, legal) : null;
+}
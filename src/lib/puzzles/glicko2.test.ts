@@ -0,0 +1,50 @@
+/**
+ * Tests for the Glicko-2 rating update
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_GLICKO2_RATING, MAX_RD, MIN_RD, updateGlicko2 } from './glicko2';
+
+describe('updateGlicko2', () => {
+  it('matches the worked example from Glickman\'s paper', () => {
+    const updated = updateGlicko2({ rating: 1500, rd: 200, volatility: 0.06 }, [
+      { rating: 1400, rd: 30, score: 1 },
+      { rating: 1550, rd: 100, score: 0 },
+      { rating: 1700, rd: 300, score: 0 },
+    ]);
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.rd).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('moves a new player a long way and an established one a little', () => {
+    const win = [{ rating: 1500, rd: 80, score: 1 }];
+
+    const newcomer = updateGlicko2(DEFAULT_GLICKO2_RATING, win);
+    const established = updateGlicko2({ rating: 1500, rd: 60, volatility: 0.06 }, win);
+
+    expect(newcomer.rating - 1500).toBeGreaterThan(150);
+    expect(established.rating - 1500).toBeLessThan(20);
+    expect(established.rating).toBeGreaterThan(1500);
+  });
+
+  it('rewards beating a stronger puzzle more than a weaker one', () => {
+    const player = { rating: 1500, rd: 100, volatility: 0.06 };
+
+    const hard = updateGlicko2(player, [{ rating: 1800, rd: 80, score: 1 }]);
+    const easy = updateGlicko2(player, [{ rating: 1200, rd: 80, score: 1 }]);
+
+    expect(hard.rating - 1500).toBeGreaterThan(easy.rating - 1500);
+    expect(updateGlicko2(player, [{ rating: 1200, rd: 80, score: 0 }]).rating).toBeLessThan(1500);
+  });
+
+  it('keeps the RD within bounds', () => {
+    const settled = { rating: 1500, rd: MIN_RD, volatility: 0.0001 };
+    expect(updateGlicko2(settled, [{ rating: 1500, rd: 30, score: 1 }]).rd).toBe(MIN_RD);
+
+    expect(updateGlicko2(DEFAULT_GLICKO2_RATING, []).rd).toBe(MAX_RD);
+    expect(updateGlicko2({ rating: 1500, rd: 100, volatility: 0.06 }, []).rd).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Glicko-2 rating update (Glickman, "Example of the Glicko-2 system")
+ * Pure functions; ratings and RDs are on the familiar Glicko scale (1500 / 350)
+ */
+
+export type Glicko2Rating = {
+  rating: number;
+  rd: number;
+  volatility: number;
+};
+
+export type Glicko2Result = {
+  /** Opponent (for puzzles, the puzzle) */
+  rating: number;
+  rd: number;
+  /** 1 win, 0.5 draw, 0 loss */
+  score: number;
+};
+
+export const DEFAULT_GLICKO2_RATING: Glicko2Rating = { rating: 1500, rd: 350, volatility: 0.06 };
+
+/** Constrains volatility changes; Glickman suggests 0.3 to 1.2 */
+const TAU = 0.5;
+
+/** RD bounds: new players start at the top, and a floor keeps the rating responsive */
+export const MIN_RD = 45;
+export const MAX_RD = 350;
+
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+/** New volatility by the Illinois algorithm (step 5 of the paper) */
+function nextVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * (phi * phi + v + ex) ** 2) - (x - a) / (TAU * TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + v) {
+    upper = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) {
+      k++;
+    }
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+  return Math.exp(lower / 2);
+}
+
+/**
+ * Rating after one rating period with the given results
+ * An empty period only widens the RD. The RD is clamped to [MIN_RD, MAX_RD]
+ */
+export function updateGlicko2(player: Glicko2Rating, results: Glicko2Result[]): Glicko2Rating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.rd / SCALE;
+  const clampRd = (rd: number) => Math.min(MAX_RD, Math.max(MIN_RD, rd));
+
+  if (results.length === 0) {
+    const widened = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+    return { ...player, rd: clampRd(widened) };
+  }
+
+  let inverseV = 0;
+  let scoreSum = 0;
+  for (const result of results) {
+    const opponentMu = (result.rating - 1500) / SCALE;
+    const opponentPhi = result.rd / SCALE;
+    const expected = expectedScore(mu, opponentMu, opponentPhi);
+    inverseV += g(opponentPhi) ** 2 * expected * (1 - expected);
+    scoreSum += g(opponentPhi) * (result.score - expected);
+  }
+  const v = 1 / inverseV;
+  const delta = v * scoreSum;
+
+  const volatility = nextVolatility(phi, player.volatility, v, delta);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * scoreSum;
+
+  return {
+    rating: newMu * SCALE + 1500,
+    rd: clampRd(newPhi * SCALE),
+    volatility,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Tests for Lichess puzzle CSV parsing and normalisation
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  lichessGameId,
+  matchesImportFilter,
+  parseLichessPuzzleLine,
+  readColumns,
+  splitCsvLine,
+  toChessPuzzle,
+} from './lichessCsv';
+
+const HEADER = 'PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags';
+const MATE_IN_TWO =
+  '00sHx,q3k1nr/1pp1nQpp/3p4/1P2p3/4P3/B1PP1b2/B5PP/5K2 b k - 0 17,e8d7 a2e6 d7d8 f7f8,1760,80,83,72,mate mateIn2 middlegame short,https://lichess.org/yyznGmXs/black#34,Italian_Game Italian_Game_Classical_Variation';
+
+describe('parseLichessPuzzleLine', () => {
+  it('reads a row by the header columns', () => {
+    const row = parseLichessPuzzleLine(MATE_IN_TWO, readColumns(HEADER));
+
+    expect(row).toEqual({
+      id: '00sHx',
+      fen: 'q3k1nr/1pp1nQpp/3p4/1P2p3/4P3/B1PP1b2/B5PP/5K2 b k - 0 17',
+      moves: ['e8d7', 'a2e6', 'd7d8', 'f7f8'],
+      rating: 1760,
+      ratingDeviation: 80,
+      popularity: 83,
+      plays: 72,
+      themes: ['mate', 'mateIn2', 'middlegame', 'short'],
+      gameUrl: 'https://lichess.org/yyznGmXs/black#34',
+    });
+    expect(parseLichessPuzzleLine(MATE_IN_TWO, readColumns(null)).id).toBe('00sHx');
+  });
+
+  it('rejects malformed rows and headers', () => {
+    const columns = readColumns(HEADER);
+    expect(() => parseLichessPuzzleLine('abc,8/8/8/8/8/8/8/8 w - - 0 1,e2e4,1500', columns)).toThrow('Malformed');
+    expect(() => parseLichessPuzzleLine('abc,fen,e2e4 e7e5,high', columns)).toThrow('Malformed');
+    expect(() => readColumns('Id,Position')).toThrow('PuzzleId');
+  });
+
+  it('splits quoted CSV fields', () => {
+    expect(splitCsvLine('a,"b,c","say ""hi""",')).toEqual(['a', 'b,c', 'say "hi"', '']);
+  });
+});
+
+describe('matchesImportFilter', () => {
+  const row = parseLichessPuzzleLine(MATE_IN_TWO, readColumns(HEADER));
+
+  it('filters by rating, popularity, plays and any of the themes', () => {
+    expect(matchesImportFilter(row, {})).toBe(true);
+    expect(matchesImportFilter(row, { minRating: 1700, maxRating: 1800, minPopularity: 80, minPlays: 50 })).toBe(true);
+    expect(matchesImportFilter(row, { minRating: 1800 })).toBe(false);
+    expect(matchesImportFilter(row, { maxRating: 1700 })).toBe(false);
+    expect(matchesImportFilter(row, { minPopularity: 90 })).toBe(false);
+    expect(matchesImportFilter(row, { minPlays: 100 })).toBe(false);
+    expect(matchesImportFilter(row, { themes: ['fork', 'mateIn2'] })).toBe(true);
+    expect(matchesImportFilter(row, { themes: ['fork'] })).toBe(false);
+  });
+});
+
+describe('toChessPuzzle', () => {
+  it('plays the opponent move so the puzzle starts with the student to move', () => {
+    const puzzle = toChessPuzzle(parseLichessPuzzleLine(MATE_IN_TWO, readColumns(HEADER)));
+
+    expect(puzzle).toEqual({
+      fen: 'q5nr/1ppknQpp/3p4/1P2p3/4P3/B1PP1b2/B5PP/5K2 w - - 1 18',
+      side_to_move: 'white',
+      solution_moves: ['a2e6', 'd7d8', 'f7f8'],
+      moves_to_mate: 2,
+      puzzle_mode: 'tactics',
+      theme_primary: 'mateIn2',
+      themes: ['mate', 'mateIn2', 'middlegame', 'short'],
+      phase: 'middlegame',
+      elo_rating: 1760,
+      source: 'lichess',
+      source_puzzle_id: '00sHx',
+      source_game_id: 'yyznGmXs',
+      source_move_number: 18,
+    });
+  });
+
+  it('rejects puzzles with an illegal move', () => {
+    const row = parseLichessPuzzleLine(MATE_IN_TWO.replace('d7d8 f7f8', 'd7d8 f7f1'), readColumns(HEADER));
+    expect(() => toChessPuzzle(row)).toThrow('illegal move f7f1 at ply 4');
+  });
+
+  it('extracts game ids from game URLs', () => {
+    expect(lichessGameId('https://lichess.org/787zsVup/black#48')).toBe('787zsVup');
+    expect(lichessGameId('https://example.com/x')).toBeNull();
+    expect(lichessGameId(null)).toBeNull();
+  });
+});
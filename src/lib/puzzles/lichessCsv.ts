@@ -0,0 +1,239 @@
+/**
+ * Lichess open puzzle database CSV (https://database.lichess.org/#puzzles)
+ * Columns: PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+ * The FEN is the position before the opponent's move; Moves starts with that move, then the solution
+ * Pure module
+ */
+
+import { parseFen, toFen } from '@/lib/chess/fen';
+import { makeMove } from '@/lib/chess/moves';
+import { parseUci } from '@/lib/chess/notation';
+import { countStudentMoves } from '@/lib/puzzles/solver';
+
+export const LICHESS_CSV_COLUMNS = [
+  'PuzzleId',
+  'FEN',
+  'Moves',
+  'Rating',
+  'RatingDeviation',
+  'Popularity',
+  'NbPlays',
+  'Themes',
+  'GameUrl',
+  'OpeningTags',
+] as const;
+
+export const LICHESS_SOURCE = 'lichess';
+
+/** Mates are served with the other tactics; moves_to_mate and the themes tell them apart */
+const LICHESS_PUZZLE_MODE = 'tactics';
+
+/** Themes that describe length, evaluation, phase or players rather than the tactic */
+const META_THEMES = new Set([
+  'short',
+  'long',
+  'veryLong',
+  'oneMove',
+  'crushing',
+  'advantage',
+  'equality',
+  'mate',
+  'master',
+  'masterVsMaster',
+  'superGM',
+  'opening',
+  'middlegame',
+  'endgame',
+]);
+
+const PHASES = ['opening', 'middlegame', 'endgame'];
+
+export type LichessPuzzleRow = {
+  id: string;
+  fen: string;
+  moves: string[];
+  rating: number;
+  ratingDeviation: number | null;
+  popularity: number | null;
+  plays: number | null;
+  themes: string[];
+  gameUrl: string | null;
+};
+
+export type LichessImportFilter = {
+  minRating?: number;
+  maxRating?: number;
+  /** Keep puzzles with any of these themes */
+  themes?: string[];
+  minPopularity?: number;
+  minPlays?: number;
+};
+
+/** chess_puzzles row built from a Lichess puzzle */
+export type NormalizedChessPuzzle = {
+  fen: string;
+  side_to_move: 'white' | 'black';
+  solution_moves: string[];
+  moves_to_mate: number | null;
+  puzzle_mode: string;
+  theme_primary: string | null;
+  themes: string[];
+  phase: string | null;
+  elo_rating: number;
+  source: string;
+  source_puzzle_id: string;
+  source_game_id: string | null;
+  source_move_number: number;
+};
+
+/**
+ * Split one CSV line; handles quoted fields even though the Lichess export doesn't use them
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+export function isLichessHeader(line: string): boolean {
+  return line.startsWith('PuzzleId,');
+}
+
+/**
+ * Column positions from a header line; older exports have no header and use LICHESS_CSV_COLUMNS order
+ */
+export function readColumns(header: string | null): Map<string, number> {
+  const names = header ? splitCsvLine(header.trim()) : [...LICHESS_CSV_COLUMNS];
+  const columns = new Map(names.map((name, i) => [name, i]));
+  for (const required of ['PuzzleId', 'FEN', 'Moves', 'Rating']) {
+    if (!columns.has(required)) {
+      throw new Error(`Lichess CSV header is missing the ${required} column`);
+    }
+  }
+  return columns;
+}
+
+function optionalInt(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+/**
+ * Parse one data line; throws on rows without an id, FEN, moves or rating
+ */
+export function parseLichessPuzzleLine(line: string, columns: Map<string, number>): LichessPuzzleRow {
+  const fields = splitCsvLine(line.trim());
+  const get = (name: string) => {
+    const index = columns.get(name);
+    return index === undefined ? undefined : fields[index];
+  };
+
+  const id = get('PuzzleId')?.trim();
+  const fen = get('FEN')?.trim();
+  const moves = (get('Moves') ?? '').trim().split(/\s+/).filter(Boolean);
+  const rating = optionalInt(get('Rating'));
+  if (!id || !fen || moves.length < 2 || rating === null) {
+    throw new Error(`Malformed Lichess puzzle row: ${line.slice(0, 80)}`);
+  }
+
+  return {
+    id,
+    fen,
+    moves,
+    rating,
+    ratingDeviation: optionalInt(get('RatingDeviation')),
+    popularity: optionalInt(get('Popularity')),
+    plays: optionalInt(get('NbPlays')),
+    themes: (get('Themes') ?? '').trim().split(/\s+/).filter(Boolean),
+    gameUrl: get('GameUrl')?.trim() || null,
+  };
+}
+
+export function matchesImportFilter(row: LichessPuzzleRow, filter: LichessImportFilter): boolean {
+  if (filter.minRating !== undefined && row.rating < filter.minRating) return false;
+  if (filter.maxRating !== undefined && row.rating > filter.maxRating) return false;
+  if (filter.minPopularity !== undefined && (row.popularity ?? -Infinity) < filter.minPopularity) return false;
+  if (filter.minPlays !== undefined && (row.plays ?? 0) < filter.minPlays) return false;
+  if (filter.themes && filter.themes.length > 0 && !row.themes.some((theme) => filter.themes!.includes(theme))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Game id from a GameUrl like https://lichess.org/787zsVup/black#48
+ */
+export function lichessGameId(gameUrl: string | null): string | null {
+  if (!gameUrl) {
+    return null;
+  }
+  const match = /lichess\.org\/([A-Za-z0-9]{8})/.exec(gameUrl);
+  return match ? match[1] : null;
+}
+
+/**
+ * chess_puzzles row: plays the opponent's first move so the FEN is the student's position and the
+ * solution starts with the student's move. Every move is replayed; throws if one is illegal
+ */
+export function toChessPuzzle(row: LichessPuzzleRow): NormalizedChessPuzzle {
+  let position = parseFen(row.fen);
+  const played: string[] = [];
+  let puzzleFen = '';
+  let puzzlePosition = position;
+
+  row.moves.forEach((uci, i) => {
+    const move = parseUci(position, uci);
+    if (!move) {
+      throw new Error(`Puzzle ${row.id}: illegal move ${uci} at ply ${i + 1}`);
+    }
+    position = makeMove(position, move);
+    if (i === 0) {
+      puzzlePosition = position;
+      puzzleFen = toFen(position);
+    } else {
+      played.push(uci.toLowerCase());
+    }
+  });
+
+  const mate = row.themes.includes('mate');
+  return {
+    fen: puzzleFen,
+    side_to_move: puzzlePosition.turn === 'w' ? 'white' : 'black',
+    solution_moves: played,
+    moves_to_mate: mate ? countStudentMoves(played) : null,
+    puzzle_mode: LICHESS_PUZZLE_MODE,
+    theme_primary: row.themes.find((theme) => !META_THEMES.has(theme)) ?? row.themes[0] ?? null,
+    themes: row.themes,
+    phase: row.themes.find((theme) => PHASES.includes(theme)) ?? null,
+    elo_rating: row.rating,
+    source: LICHESS_SOURCE,
+    source_puzzle_id: row.id,
+    source_game_id: lichessGameId(row.gameUrl),
+    source_move_number: puzzlePosition.fullmoveNumber,
+  };
+}
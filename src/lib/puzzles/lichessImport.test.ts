@@ -0,0 +1,113 @@
+/**
+ * Tests for the batched Lichess puzzle import
+ * Uses Vitest with mocked Prisma
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  puzzles: [] as { id: string }[][],
+  chessPuzzles: [] as { source_puzzle_id: string }[][],
+  existing: new Set<string>(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    puzzles: {
+      createMany: async ({ data }: { data: { id: string }[] }) => {
+        db.puzzles.push(data);
+        return { count: data.filter((row) => !db.existing.has(row.id)).length };
+      },
+    },
+    chess_puzzles: {
+      createMany: async ({ data }: { data: { source_puzzle_id: string }[] }) => {
+        db.chessPuzzles.push(data);
+        return { count: data.length };
+      },
+    },
+  },
+}));
+
+import { importLichessPuzzles } from './lichessImport';
+import type { LichessImportProgress } from './lichessImport';
+
+const HEADER = 'PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags';
+
+function row(id: string, rating: number, themes = 'fork middlegame short') {
+  return `${id},r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3,f1c4 g8f6 f3g5,${rating},75,90,100,${themes},https://lichess.org/abcdEFGH#5,`;
+}
+
+async function* lines(...values: string[]) {
+  yield* values;
+}
+
+describe('importLichessPuzzles', () => {
+  beforeEach(() => {
+    db.puzzles = [];
+    db.chessPuzzles = [];
+    db.existing = new Set();
+  });
+
+  it('stores filtered rows in batches and reports progress after each one', async () => {
+    db.existing.add('p1');
+    const batches: LichessImportProgress[] = [];
+
+    const progress = await importLichessPuzzles(
+      lines(HEADER, row('p1', 1500), row('p2', 2500), row('p3', 1600), '', row('p4', 1700)),
+      {
+        into: 'puzzles',
+        filter: { maxRating: 2000 },
+        batchSize: 2,
+        onBatch: (batch) => {
+          batches.push({ ...batch, inserted: { ...batch.inserted } });
+        },
+      }
+    );
+
+    expect(db.puzzles.map((batch) => batch.map((puzzle) => puzzle.id))).toEqual([['p1', 'p3'], ['p4']]);
+    expect(db.puzzles[0][0]).toEqual({
+      id: 'p1',
+      fen: 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3',
+      moves: 'f1c4 g8f6 f3g5',
+      rating: 1500,
+      themes: ['fork', 'middlegame', 'short'],
+      popularity: 90,
+    });
+    expect(db.chessPuzzles).toEqual([]);
+    expect(batches.map((batch) => batch.line)).toEqual([3, 4]);
+    expect(progress).toMatchObject({ line: 4, matched: 3, filtered: 1, invalid: 0, inserted: { puzzles: 2, chessPuzzles: 0 } });
+  });
+
+  it('resumes after skipLines and stops at the limit', async () => {
+    const progress = await importLichessPuzzles(
+      lines(HEADER, row('p1', 1500), row('p2', 1500), row('p3', 1500), row('p4', 1500)),
+      { into: 'both', filter: {}, skipLines: 1, limit: 2 }
+    );
+
+    expect(db.puzzles.map((batch) => batch.map((puzzle) => puzzle.id))).toEqual([['p2', 'p3']]);
+    expect(db.chessPuzzles[0].map((puzzle) => puzzle.source_puzzle_id)).toEqual(['p2', 'p3']);
+    expect(progress).toMatchObject({ line: 3, matched: 2, inserted: { puzzles: 2, chessPuzzles: 2 } });
+  });
+
+  it('skips invalid rows, and only normalised rows count for chess_puzzles', async () => {
+    const progress = await importLichessPuzzles(
+      lines(row('p1', 1500), 'broken,row', row('p2', 1500).replace('f3g5', 'f3g6')),
+      { into: 'chess_puzzles', filter: {} }
+    );
+
+    expect(db.puzzles).toEqual([]);
+    expect(db.chessPuzzles[0]).toHaveLength(1);
+    expect(db.chessPuzzles[0][0]).toMatchObject({ source_puzzle_id: 'p1', side_to_move: 'black', solution_moves: ['g8f6', 'f3g5'] });
+    expect(progress.invalid).toBe(2);
+    expect(progress.errors[0]).toContain('line 2: Malformed');
+    expect(progress.errors[1]).toContain('line 3: Puzzle p2: illegal move f3g6');
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const progress = await importLichessPuzzles(lines(HEADER, row('p1', 1500)), { into: 'both', filter: {}, dryRun: true });
+
+    expect(db.puzzles).toEqual([]);
+    expect(db.chessPuzzles).toEqual([]);
+    expect(progress).toMatchObject({ matched: 1, inserted: { puzzles: 0, chessPuzzles: 0 } });
+  });
+});
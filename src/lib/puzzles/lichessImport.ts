@@ -0,0 +1,169 @@
+/**
+ * Batched import of the Lichess puzzle CSV into puzzles (the raw mirror) and/or chess_puzzles
+ * Rows already stored are skipped, so an interrupted import can be rerun or resumed from a line
+ * Server-only module
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  isLichessHeader,
+  matchesImportFilter,
+  parseLichessPuzzleLine,
+  readColumns,
+  toChessPuzzle,
+} from '@/lib/puzzles/lichessCsv';
+import type { LichessImportFilter, LichessPuzzleRow, NormalizedChessPuzzle } from '@/lib/puzzles/lichessCsv';
+
+export type LichessImportTarget = 'puzzles' | 'chess_puzzles' | 'both';
+
+export const DEFAULT_IMPORT_BATCH_SIZE = 1000;
+
+/** Invalid rows are counted; only the first few messages are kept */
+const MAX_ERROR_SAMPLES = 20;
+
+export type LichessImportOptions = {
+  into: LichessImportTarget;
+  filter: LichessImportFilter;
+  batchSize?: number;
+  /** Data lines (not counting the header) handled by an earlier run */
+  skipLines?: number;
+  /** Stop after this many rows pass the filter */
+  limit?: number;
+  dryRun?: boolean;
+  /** Called after every stored batch, e.g. to save a checkpoint */
+  onBatch?: (progress: LichessImportProgress) => Promise<void> | void;
+};
+
+export type LichessImportProgress = {
+  /** Data lines handled so far, including skipped ones; resume with skipLines = line */
+  line: number;
+  matched: number;
+  filtered: number;
+  invalid: number;
+  inserted: { puzzles: number; chessPuzzles: number };
+  errors: string[];
+};
+
+async function storeBatch(
+  into: LichessImportTarget,
+  rows: LichessPuzzleRow[],
+  normalized: NormalizedChessPuzzle[]
+): Promise<{ puzzles: number; chessPuzzles: number }> {
+  let puzzles = 0;
+  let chessPuzzles = 0;
+
+  if (into !== 'chess_puzzles' && rows.length > 0) {
+    const result = await prisma.puzzles.createMany({
+      data: rows.map((row) => ({
+        id: row.id,
+        fen: row.fen,
+        moves: row.moves.join(' '),
+        rating: row.rating,
+        themes: row.themes,
+        popularity: row.popularity,
+      })),
+      skipDuplicates: true,
+    });
+    puzzles = result.count;
+  }
+  if (into !== 'puzzles' && normalized.length > 0) {
+    const result = await prisma.chess_puzzles.createMany({ data: normalized, skipDuplicates: true });
+    chessPuzzles = result.count;
+  }
+
+  return { puzzles, chessPuzzles };
+}
+
+/**
+ * Import CSV lines (with or without the header line); rows are validated, filtered and stored in batches
+ */
+export async function importLichessPuzzles(
+  lines: AsyncIterable<string>,
+  options: LichessImportOptions
+): Promise<LichessImportProgress> {
+  const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+  const skipLines = options.skipLines ?? 0;
+  const progress: LichessImportProgress = {
+    line: 0,
+    matched: 0,
+    filtered: 0,
+    invalid: 0,
+    inserted: { puzzles: 0, chessPuzzles: 0 },
+    errors: [],
+  };
+
+  let columns: Map<string, number> | null = null;
+  let rows: LichessPuzzleRow[] = [];
+  let normalized: NormalizedChessPuzzle[] = [];
+
+  const recordError = (message: string) => {
+    progress.invalid++;
+    if (progress.errors.length < MAX_ERROR_SAMPLES) {
+      progress.errors.push(message);
+    }
+  };
+
+  const flush = async () => {
+    if (!options.dryRun) {
+      const inserted = await storeBatch(options.into, rows, normalized);
+      progress.inserted.puzzles += inserted.puzzles;
+      progress.inserted.chessPuzzles += inserted.chessPuzzles;
+    }
+    rows = [];
+    normalized = [];
+    await options.onBatch?.(progress);
+  };
+
+  for await (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+    if (columns === null) {
+      columns = readColumns(isLichessHeader(line) ? line : null);
+      if (isLichessHeader(line)) {
+        continue;
+      }
+    }
+
+    progress.line++;
+    if (progress.line <= skipLines) {
+      continue;
+    }
+
+    let row: LichessPuzzleRow;
+    try {
+      row = parseLichessPuzzleLine(line, columns);
+    } catch (error) {
+      recordError(`line ${progress.line}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    if (!matchesImportFilter(row, options.filter)) {
+      progress.filtered++;
+      continue;
+    }
+
+    if (options.into !== 'puzzles') {
+      try {
+        normalized.push(toChessPuzzle(row));
+      } catch (error) {
+        recordError(`line ${progress.line}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+    }
+    rows.push(row);
+    progress.matched++;
+
+    if (rows.length >= batchSize) {
+      await flush();
+    }
+    if (options.limit !== undefined && progress.matched >= options.limit) {
+      break;
+    }
+  }
+
+  if (rows.length > 0) {
+    await flush();
+  }
+  return progress;
+}
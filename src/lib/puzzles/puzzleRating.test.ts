@@ -0,0 +1,116 @@
+/**
+ * Tests for the per-student puzzle rating
+ * Uses Vitest with mocked Prisma
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  stored: null as Record<string, unknown> | null,
+  pending: [] as Record<string, unknown>[],
+  pendingQuery: null as Record<string, unknown> | null,
+  history: [] as Record<string, unknown>[],
+  upserts: [] as Record<string, unknown>[],
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    student_puzzle_ratings: {
+      findUnique: async () => db.stored,
+      upsert: async (args: Record<string, unknown>) => {
+        db.upserts.push(args);
+        return args;
+      },
+    },
+    student_puzzle_attempts: {
+      findMany: async (args: Record<string, unknown>) => {
+        db.pendingQuery = args;
+        return db.pending;
+      },
+    },
+    puzzle_rating_history: {
+      createMany: async ({ data }: { data: Record<string, unknown>[] }) => {
+        db.history.push(...data);
+        return { count: data.length };
+      },
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  },
+}));
+
+import { applyPuzzleAttempts, syncPuzzleRating } from './puzzleRating';
+import { DEFAULT_GLICKO2_RATING } from './glicko2';
+
+function attempt(id: string, result: string, puzzleRating: number, day: number) {
+  return {
+    id,
+    puzzle_id: `p-${id}`,
+    result,
+    attempt_date: new Date(Date.UTC(2026, 0, day)),
+    chess_puzzles: { elo_rating: puzzleRating },
+  };
+}
+
+describe('applyPuzzleAttempts', () => {
+  it('chains each attempt from the previous rating', () => {
+    const { rating, changes } = applyPuzzleAttempts(DEFAULT_GLICKO2_RATING, [
+      { id: 'a1', puzzle_id: 'p1', result: 'correct', attempt_date: new Date('2026-01-01'), puzzle_rating: 1600 },
+      { id: 'a2', puzzle_id: 'p2', result: 'incorrect', attempt_date: null, puzzle_rating: 1400 },
+    ], new Date('2026-01-02'));
+
+    expect(changes).toHaveLength(2);
+    expect(changes[0]).toMatchObject({ attempt_id: 'a1', is_correct: true, rating_before: 1500, puzzle_rating: 1600 });
+    expect(changes[0].rating_after).toBeGreaterThan(1500);
+    expect(changes[1].rating_before).toBe(changes[0].rating_after);
+    expect(changes[1].rating_after).toBeLessThan(changes[1].rating_before);
+    expect(changes[1].attempted_at).toEqual(new Date('2026-01-02'));
+    expect(rating.rating).toBe(changes[1].rating_after);
+    expect(rating.rd).toBeLessThan(DEFAULT_GLICKO2_RATING.rd);
+  });
+});
+
+describe('syncPuzzleRating', () => {
+  beforeEach(() => {
+    db.stored = null;
+    db.pending = [];
+    db.pendingQuery = null;
+    db.history = [];
+    db.upserts = [];
+  });
+
+  it('starts new students at the default rating without writing anything', async () => {
+    const rating = await syncPuzzleRating('u1');
+
+    expect(rating).toEqual({ ...DEFAULT_GLICKO2_RATING, attempts: 0, provisional: true });
+    expect(db.upserts).toEqual([]);
+    expect(db.pendingQuery).toMatchObject({
+      where: {
+        user_id: 'u1',
+        puzzle_rating_history: { is: null },
+        chess_puzzles: { elo_rating: { not: null } },
+        NOT: { puzzle_sessions: { is: { puzzle_mode: 'review' } } },
+      },
+      orderBy: { attempt_date: 'asc' },
+    });
+  });
+
+  it('applies pending attempts on top of the stored rating and records history', async () => {
+    db.stored = { rating: 1700, rd: 90, volatility: 0.06, attempts: 40 };
+    db.pending = [attempt('a1', 'correct', 1750, 1), attempt('a2', 'correct', 1800, 2)];
+
+    const rating = await syncPuzzleRating('u1');
+
+    expect(rating.attempts).toBe(42);
+    expect(rating.rating).toBeGreaterThan(1700);
+    expect(rating.provisional).toBe(false);
+    expect(db.history.map((row) => [row.user_id, row.attempt_id, row.rating_before])).toEqual([
+      ['u1', 'a1', 1700],
+      ['u1', 'a2', db.history[0].rating_after],
+    ]);
+    expect(db.upserts[0]).toMatchObject({
+      where: { user_id: 'u1' },
+      update: { rating: rating.rating, rd: rating.rd, attempts: 42 },
+      create: { user_id: 'u1', rating: rating.rating, attempts: 42 },
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Per-student Glicko-2 puzzle rating, folded from student_puzzle_attempts
+ * Each attempt on a rated puzzle is its own rating period and leaves a puzzle_rating_history row;
+ * attempts without a history row are the ones still to apply, so syncing is safe to repeat
+ * Server-only module
+ */
+
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_GLICKO2_RATING, updateGlicko2 } from '@/lib/puzzles/glicko2';
+import type { Glicko2Rating } from '@/lib/puzzles/glicko2';
+import { REVIEW_PUZZLE_MODE } from '@/lib/puzzles/reviewScheduler';
+
+/** chess_puzzles only stores a rating; puzzles are treated as well-established opponents */
+export const PUZZLE_RD = 80;
+
+/** Ratings with a wider RD are shown as provisional */
+const PROVISIONAL_RD = 110;
+
+/** Attempts applied per sync; a backlog larger than this catches up over later syncs */
+const SYNC_BATCH_SIZE = 500;
+
+export type PuzzleRating = Glicko2Rating & {
+  attempts: number;
+  provisional: boolean;
+};
+
+export type PendingAttempt = {
+  id: string;
+  puzzle_id: string;
+  result: string;
+  attempt_date: Date | null;
+  puzzle_rating: number;
+};
+
+export type PuzzleRatingChange = {
+  attempt_id: string;
+  puzzle_id: string;
+  puzzle_rating: number;
+  is_correct: boolean;
+  rating_before: number;
+  rating_after: number;
+  rd_after: number;
+  volatility_after: number;
+  attempted_at: Date;
+};
+
+function toPuzzleRating(rating: Glicko2Rating, attempts: number): PuzzleRating {
+  return { ...rating, attempts, provisional: rating.rd > PROVISIONAL_RD };
+}
+
+/**
+ * Apply attempts in order; returns the final rating and one history entry per attempt
+ */
+export function applyPuzzleAttempts(
+  start: Glicko2Rating,
+  attempts: PendingAttempt[],
+  now: Date = new Date()
+): { rating: Glicko2Rating; changes: PuzzleRatingChange[] } {
+  let rating = start;
+  const changes: PuzzleRatingChange[] = [];
+
+  for (const attempt of attempts) {
+    const isCorrect = attempt.result === 'correct';
+    const next = updateGlicko2(rating, [{ rating: attempt.puzzle_rating, rd: PUZZLE_RD, score: isCorrect ? 1 : 0 }]);
+    changes.push({
+      attempt_id: attempt.id,
+      puzzle_id: attempt.puzzle_id,
+      puzzle_rating: attempt.puzzle_rating,
+      is_correct: isCorrect,
+      rating_before: rating.rating,
+      rating_after: next.rating,
+      rd_after: next.rd,
+      volatility_after: next.volatility,
+      attempted_at: attempt.attempt_date ?? now,
+    });
+    rating = next;
+  }
+
+  return { rating, changes };
+}
+
+/**
+ * Apply the student's attempts that haven't moved the rating yet and return the current rating
+ * Attempts on unrated puzzles and in review sessions (puzzles the student has seen before) are ignored
+ */
+export async function syncPuzzleRating(userId: string): Promise<PuzzleRating> {
+  const [stored, pending] = await Promise.all([
+    prisma.student_puzzle_ratings.findUnique({
+      where: { user_id: userId },
+      select: { rating: true, rd: true, volatility: true, attempts: true },
+    }),
+    prisma.student_puzzle_attempts.findMany({
+      where: {
+        user_id: userId,
+        puzzle_rating_history: { is: null },
+        chess_puzzles: { elo_rating: { not: null } },
+        NOT: { puzzle_sessions: { is: { puzzle_mode: REVIEW_PUZZLE_MODE } } },
+      },
+      orderBy: { attempt_date: 'asc' },
+      take: SYNC_BATCH_SIZE,
+      select: {
+        id: true,
+        puzzle_id: true,
+        result: true,
+        attempt_date: true,
+        chess_puzzles: { select: { elo_rating: true } },
+      },
+    }),
+  ]);
+
+  const start: Glicko2Rating = stored
+    ? { rating: stored.rating, rd: stored.rd, volatility: stored.volatility }
+    : DEFAULT_GLICKO2_RATING;
+  const attemptsBefore = stored?.attempts ?? 0;
+  if (pending.length === 0) {
+    return toPuzzleRating(start, attemptsBefore);
+  }
+
+  const now = new Date();
+  const { rating, changes } = applyPuzzleAttempts(
+    start,
+    pending.map((attempt) => ({
+      id: attempt.id,
+      puzzle_id: attempt.puzzle_id,
+      result: attempt.result,
+      attempt_date: attempt.attempt_date,
+      puzzle_rating: attempt.chess_puzzles.elo_rating!,
+    })),
+    now
+  );
+  const attempts = attemptsBefore + changes.length;
+
+  // attempt_id is unique, so a concurrent sync of the same attempts fails here instead of counting them twice
+  await prisma.$transaction([
+    prisma.puzzle_rating_history.createMany({
+      data: changes.map((change) => ({ user_id: userId, ...change })),
+    }),
+    prisma.student_puzzle_ratings.upsert({
+      where: { user_id: userId },
+      update: { ...rating, attempts, updated_at: now },
+      create: { user_id: userId, ...rating, attempts, updated_at: now },
+    }),
+  ]);
+
+  return toPuzzleRating(rating, attempts);
+}
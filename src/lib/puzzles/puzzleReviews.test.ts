@@ -0,0 +1,155 @@
+/**
+ * Tests for the puzzle review queue
+ * Uses Vitest with mocked Prisma
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+type Review = { user_id: string; puzzle_id: string; due_at: Date } & Record<string, unknown>;
+
+const db = vi.hoisted(() => ({
+  reviews: [] as Review[],
+}));
+
+vi.mock('@/lib/prisma', () => {
+  type Where = { user_id?: string | { in: string[] }; due_at?: { lte: Date } };
+  const matches = (review: Review, where: Where) => {
+    if (typeof where.user_id === 'string' && review.user_id !== where.user_id) return false;
+    if (typeof where.user_id === 'object' && !where.user_id.in.includes(review.user_id)) return false;
+    if (where.due_at && review.due_at > where.due_at.lte) return false;
+    return true;
+  };
+  const sortedByDue = (reviews: Review[]) => [...reviews].sort((a, b) => a.due_at.getTime() - b.due_at.getTime());
+
+  return {
+    prisma: {
+      puzzle_reviews: {
+        findUnique: async ({ where }: { where: { user_id_puzzle_id: { user_id: string; puzzle_id: string } } }) =>
+          db.reviews.find(
+            (review) =>
+              review.user_id === where.user_id_puzzle_id.user_id && review.puzzle_id === where.user_id_puzzle_id.puzzle_id
+          ) ?? null,
+        upsert: async ({
+          where,
+          update,
+          create,
+        }: {
+          where: { user_id_puzzle_id: { user_id: string; puzzle_id: string } };
+          update: Record<string, unknown>;
+          create: Review;
+        }) => {
+          const existing = db.reviews.find(
+            (review) =>
+              review.user_id === where.user_id_puzzle_id.user_id && review.puzzle_id === where.user_id_puzzle_id.puzzle_id
+          );
+          if (existing) Object.assign(existing, update);
+          else db.reviews.push({ ...create });
+        },
+        findFirst: async ({ where }: { where: Where }) => {
+          const review = sortedByDue(db.reviews.filter((row) => matches(row, where)))[0];
+          return review
+            ? {
+                due_at: review.due_at,
+                chess_puzzles: {
+                  id: review.puzzle_id,
+                  fen: 'fen',
+                  side_to_move: 'white',
+                  themes: ['fork'],
+                  elo_rating: 1500,
+                  puzzle_mode: 'tactics',
+                  solution_moves: ['a1a2'],
+                },
+              }
+            : null;
+        },
+        groupBy: async ({ where }: { where: Where }) => {
+          const counts = new Map<string, number>();
+          for (const review of db.reviews.filter((row) => matches(row, where))) {
+            counts.set(review.user_id, (counts.get(review.user_id) ?? 0) + 1);
+          }
+          return [...counts].map(([user_id, count]) => ({ user_id, _count: { _all: count } }));
+        },
+      },
+    },
+  };
+});
+
+import { getReviewCounts, getReviewSummary, pickDueReviewPuzzle, recordPuzzleReview } from './puzzleReviews';
+
+const NOW = new Date('2026-05-10T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function review(userId: string, puzzleId: string, dueInDays: number): Review {
+  return { user_id: userId, puzzle_id: puzzleId, due_at: new Date(NOW.getTime() + dueInDays * DAY_MS) };
+}
+
+describe('recordPuzzleReview', () => {
+  beforeEach(() => {
+    db.reviews = [];
+  });
+
+  it('queues failed and slow solves but not clean solves of new puzzles', async () => {
+    await recordPuzzleReview('u1', 'p1', { correct: false, timeSpentSeconds: 20, studentMoves: 1 }, NOW);
+    await recordPuzzleReview('u1', 'p2', { correct: true, timeSpentSeconds: 200, studentMoves: 2 }, NOW);
+    const clean = await recordPuzzleReview('u1', 'p3', { correct: true, timeSpentSeconds: 30, studentMoves: 2 }, NOW);
+
+    expect(clean).toBeNull();
+    expect(db.reviews.map((row) => [row.puzzle_id, row.last_grade, row.interval_days])).toEqual([
+      ['p1', 0, 1],
+      ['p2', 3, 1],
+    ]);
+    expect(db.reviews[0]).toMatchObject({ user_id: 'u1', due_at: new Date(NOW.getTime() + DAY_MS), last_reviewed_at: NOW });
+  });
+
+  it('reschedules a queued puzzle from its stored state', async () => {
+    db.reviews = [
+      {
+        ...review('u1', 'p1', 0),
+        ease_factor: 2.5,
+        interval_days: 6,
+        repetitions: 2,
+        lapses: 1,
+      },
+    ];
+
+    const next = await recordPuzzleReview('u1', 'p1', { correct: true, timeSpentSeconds: 30, studentMoves: 2 }, NOW);
+
+    expect(next).toMatchObject({ repetitions: 3, intervalDays: 15, lapses: 1 });
+    expect(db.reviews[0]).toMatchObject({ interval_days: 15, repetitions: 3, last_grade: 4 });
+  });
+});
+
+describe('due reviews', () => {
+  beforeEach(() => {
+    db.reviews = [
+      review('u1', 'p-due', -0.5),
+      review('u1', 'p-overdue', -3),
+      review('u1', 'p-later', 4),
+      review('u2', 'p-later', 2),
+    ];
+  });
+
+  it('serves the longest-waiting due review', async () => {
+    await expect(pickDueReviewPuzzle('u1', NOW)).resolves.toMatchObject({ id: 'p-overdue', studentMoves: 1 });
+    await expect(pickDueReviewPuzzle('u2', NOW)).resolves.toBeNull();
+  });
+
+  it('counts due, overdue and queued reviews per student', async () => {
+    const counts = await getReviewCounts(['u1', 'u2', 'u3'], NOW);
+
+    expect(Object.fromEntries(counts)).toEqual({
+      u1: { due: 2, overdue: 1, queued: 3 },
+      u2: { due: 0, overdue: 0, queued: 1 },
+      u3: { due: 0, overdue: 0, queued: 0 },
+    });
+  });
+
+  it('summarises a student\'s own queue', async () => {
+    await expect(getReviewSummary('u2', NOW)).resolves.toEqual({
+      due: 0,
+      overdue: 0,
+      queued: 1,
+      nextDueAt: new Date(NOW.getTime() + 2 * DAY_MS).toISOString(),
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Per-student puzzle review queue (puzzle_reviews), scheduled with SM-2
+ * Failed and slowly solved puzzles are queued; any later attempt on a queued puzzle reschedules it
+ * Server-only module
+ */
+
+import { prisma } from '@/lib/prisma';
+import { gradeAttempt, needsReview, OVERDUE_AFTER_DAYS, scheduleReview } from '@/lib/puzzles/reviewScheduler';
+import type { GradedAttempt, ReviewState } from '@/lib/puzzles/reviewScheduler';
+import { SOLVER_PUZZLE_SELECT, toSolverPuzzle } from '@/lib/puzzles/puzzleSelection';
+import type { SolverPuzzle } from '@/lib/puzzles/puzzleSelection';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewCounts = {
+  /** Due now, overdue ones included */
+  due: number;
+  /** Due for at least OVERDUE_AFTER_DAYS */
+  overdue: number;
+  /** Everything in the queue */
+  queued: number;
+};
+
+export type ReviewSummary = ReviewCounts & {
+  nextDueAt: string | null;
+};
+
+/**
+ * Schedule a recorded attempt; returns the new review state, or null when the puzzle doesn't need reviewing
+ */
+export async function recordPuzzleReview(
+  userId: string,
+  puzzleId: string,
+  attempt: GradedAttempt,
+  now: Date = new Date()
+): Promise<ReviewState | null> {
+  const grade = gradeAttempt(attempt);
+  const existing = await prisma.puzzle_reviews.findUnique({
+    where: { user_id_puzzle_id: { user_id: userId, puzzle_id: puzzleId } },
+    select: { ease_factor: true, interval_days: true, repetitions: true, lapses: true, due_at: true },
+  });
+  if (!existing && !needsReview(grade)) {
+    return null;
+  }
+
+  const next = scheduleReview(
+    existing
+      ? {
+          easeFactor: existing.ease_factor,
+          intervalDays: existing.interval_days,
+          repetitions: existing.repetitions,
+          lapses: existing.lapses,
+          dueAt: existing.due_at,
+        }
+      : null,
+    grade,
+    now
+  );
+  const data = {
+    ease_factor: next.easeFactor,
+    interval_days: next.intervalDays,
+    repetitions: next.repetitions,
+    lapses: next.lapses,
+    due_at: next.dueAt,
+    last_grade: grade,
+    last_reviewed_at: now,
+  };
+  await prisma.puzzle_reviews.upsert({
+    where: { user_id_puzzle_id: { user_id: userId, puzzle_id: puzzleId } },
+    update: data,
+    create: { user_id: userId, puzzle_id: puzzleId, ...data },
+  });
+  return next;
+}
+
+/**
+ * The student's longest-waiting due review
+ */
+export async function pickDueReviewPuzzle(userId: string, now: Date = new Date()): Promise<SolverPuzzle | null> {
+  const review = await prisma.puzzle_reviews.findFirst({
+    where: { user_id: userId, due_at: { lte: now } },
+    orderBy: { due_at: 'asc' },
+    select: { chess_puzzles: { select: SOLVER_PUZZLE_SELECT } },
+  });
+  return review ? toSolverPuzzle(review.chess_puzzles) : null;
+}
+
+/**
+ * Due / overdue / queued counts per student; userIds null counts every student with a queue
+ */
+export async function getReviewCounts(
+  userIds: string[] | null,
+  now: Date = new Date()
+): Promise<Map<string, ReviewCounts>> {
+  const students = userIds !== null ? { user_id: { in: userIds } } : {};
+  const overdueBefore = new Date(now.getTime() - OVERDUE_AFTER_DAYS * DAY_MS);
+
+  const [queued, due, overdue] = await Promise.all([
+    prisma.puzzle_reviews.groupBy({ by: ['user_id'], where: students, _count: { _all: true } }),
+    prisma.puzzle_reviews.groupBy({
+      by: ['user_id'],
+      where: { ...students, due_at: { lte: now } },
+      _count: { _all: true },
+    }),
+    prisma.puzzle_reviews.groupBy({
+      by: ['user_id'],
+      where: { ...students, due_at: { lte: overdueBefore } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const counts = new Map<string, ReviewCounts>();
+  for (const userId of userIds ?? []) {
+    counts.set(userId, { due: 0, overdue: 0, queued: 0 });
+  }
+  const entry = (userId: string) => {
+    let value = counts.get(userId);
+    if (!value) {
+      value = { due: 0, overdue: 0, queued: 0 };
+      counts.set(userId, value);
+    }
+    return value;
+  };
+  for (const row of queued) entry(row.user_id).queued = row._count._all;
+  for (const row of due) entry(row.user_id).due = row._count._all;
+  for (const row of overdue) entry(row.user_id).overdue = row._count._all;
+  return counts;
+}
+
+/**
+ * The student's own queue: counts and when the next review falls due
+ */
+export async function getReviewSummary(userId: string, now: Date = new Date()): Promise<ReviewSummary> {
+  const counts = await getReviewCounts([userId], now);
+  const next = await prisma.puzzle_reviews.findFirst({
+    where: { user_id: userId },
+    orderBy: { due_at: 'asc' },
+    select: { due_at: true },
+  });
+  return {
+    ...(counts.get(userId) ?? { due: 0, overdue: 0, queued: 0 }),
+    nextDueAt: next?.due_at.toISOString() ?? null,
+  };
+}
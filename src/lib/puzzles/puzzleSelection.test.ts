@@ -0,0 +1,176 @@
+/**
+ * Tests for adaptive puzzle selection
+ * Uses Vitest with mocked Prisma
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+type PuzzleRow = {
+  id: string;
+  elo_rating: number | null;
+  theme_primary: string | null;
+  student_puzzle_attempts: { id: string }[];
+};
+
+const db = vi.hoisted(() => ({
+  attempts: [] as { result: string; chess_puzzles: { theme_primary: string | null } }[],
+  puzzles: [] as PuzzleRow[],
+  queries: [] as Record<string, unknown>[],
+  rating: 1500,
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    student_puzzle_attempts: { findMany: async () => db.attempts },
+    chess_puzzles: {
+      // Filters on elo_rating and theme_primary only; the cooldown is checked through the captured query
+      findMany: async (args: { where: Record<string, unknown> & { elo_rating: unknown; theme_primary?: string } }) => {
+        db.queries.push(args);
+        const elo = args.where.elo_rating as { gte?: number; lt?: number } | null;
+        return db.puzzles.filter((puzzle) => {
+          if (args.where.theme_primary && puzzle.theme_primary !== args.where.theme_primary) return false;
+          if (elo === null) return puzzle.elo_rating === null;
+          if (puzzle.elo_rating === null) return false;
+          return (elo.gte === undefined || puzzle.elo_rating >= elo.gte) && (elo.lt === undefined || puzzle.elo_rating < elo.lt);
+        });
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const puzzle = db.puzzles.find((row) => row.id === where.id);
+        return puzzle
+          ? {
+              id: puzzle.id,
+              fen: '8/8/8/8/8/8/8/8 w - - 0 1',
+              side_to_move: 'white',
+              themes: puzzle.theme_primary ? [puzzle.theme_primary] : [],
+              elo_rating: puzzle.elo_rating,
+              puzzle_mode: 'tactics',
+              solution_moves: ['a1a2', 'a7a6', 'a2a3'],
+            }
+          : null;
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/puzzles/puzzleRating', () => ({
+  syncPuzzleRating: async () => ({ rating: db.rating, rd: 100, volatility: 0.06, attempts: 10, provisional: false }),
+}));
+
+import {
+  computeThemeWeakness,
+  findWeakestTheme,
+  pickWeighted,
+  puzzleWeight,
+  REPEAT_COOLDOWN_DAYS,
+  selectNextPuzzle,
+} from './puzzleSelection';
+
+function puzzle(id: string, rating: number | null, theme: string | null, seen = false): PuzzleRow {
+  return { id, elo_rating: rating, theme_primary: theme, student_puzzle_attempts: seen ? [{ id: `a-${id}` }] : [] };
+}
+
+function attempts(theme: string, correct: number, failed: number) {
+  return [
+    ...Array.from({ length: correct }, () => ({ result: 'correct', chess_puzzles: { theme_primary: theme } })),
+    ...Array.from({ length: failed }, () => ({ result: 'incorrect', chess_puzzles: { theme_primary: theme } })),
+  ];
+}
+
+describe('theme weakness', () => {
+  it('smooths failure rates and needs enough attempts to single out a theme', () => {
+    const weakness = computeThemeWeakness([
+      ...attempts('fork', 8, 2).map((row) => ({ theme: row.chess_puzzles.theme_primary, correct: row.result === 'correct' })),
+      { theme: 'pin', correct: false },
+      { theme: null, correct: false },
+    ]);
+
+    expect(weakness.get('fork')).toEqual({ weakness: 3 / 12, attempts: 10 });
+    expect(weakness.get('pin')).toEqual({ weakness: 2 / 3, attempts: 1 });
+    expect(findWeakestTheme(weakness)).toBe('fork');
+  });
+});
+
+describe('puzzleWeight', () => {
+  const weakness = new Map([
+    ['fork', { weakness: 0.8, attempts: 20 }],
+    ['pin', { weakness: 0.1, attempts: 20 }],
+  ]);
+  const candidate = { id: 'p', elo_rating: 1500, theme_primary: 'fork', seen: false };
+
+  it('prefers close ratings, weak themes and unseen puzzles', () => {
+    const base = puzzleWeight(candidate, 1500, weakness);
+
+    expect(puzzleWeight({ ...candidate, elo_rating: 1800 }, 1500, weakness)).toBeLessThan(base / 10);
+    expect(puzzleWeight({ ...candidate, theme_primary: 'pin' }, 1500, weakness)).toBeLessThan(base / 2);
+    expect(puzzleWeight({ ...candidate, seen: true }, 1500, weakness)).toBeCloseTo(base / 4);
+    expect(puzzleWeight({ ...candidate, theme_primary: 'skewer' }, 1500, weakness)).toBeCloseTo(base * (0.75 / 1.05));
+  });
+});
+
+describe('pickWeighted', () => {
+  it('walks the cumulative weights', () => {
+    expect(pickWeighted(['a', 'b', 'c'], [1, 2, 1], 0)).toBe('a');
+    expect(pickWeighted(['a', 'b', 'c'], [1, 2, 1], 0.5)).toBe('b');
+    expect(pickWeighted(['a', 'b', 'c'], [1, 2, 1], 0.99)).toBe('c');
+    expect(pickWeighted([], [], 0.5)).toBeNull();
+  });
+});
+
+describe('selectNextPuzzle', () => {
+  beforeEach(() => {
+    db.attempts = [];
+    db.puzzles = [];
+    db.queries = [];
+    db.rating = 1500;
+  });
+
+  it('serves near the student rating and skips puzzles from the cooldown', async () => {
+    db.rating = 1712.4;
+    db.puzzles = [puzzle('far', 2400, 'fork'), puzzle('near', 1720, 'fork')];
+    const now = new Date('2026-03-01T00:00:00Z');
+
+    const result = await selectNextPuzzle('u1', { mode: 'tactics', now, random: () => 0.5 });
+
+    expect(result?.targetRating).toBe(1712);
+    expect(result?.puzzle).toMatchObject({ id: 'near', rating: 1720, studentMoves: 2 });
+    expect(db.queries[0]).toMatchObject({
+      where: {
+        puzzle_mode: 'tactics',
+        student_puzzle_attempts: {
+          none: {
+            user_id: 'u1',
+            attempt_date: { gte: new Date(now.getTime() - REPEAT_COOLDOWN_DAYS * 24 * 60 * 60 * 1000) },
+          },
+        },
+      },
+    });
+  });
+
+  it('leans towards the weakest theme', async () => {
+    db.attempts = [...attempts('fork', 9, 1), ...attempts('mate', 2, 8)];
+    db.puzzles = [puzzle('fork1', 1500, 'fork'), puzzle('mate1', 1500, 'mate')];
+
+    const picks = { fork1: 0, mate1: 0 } as Record<string, number>;
+    for (let i = 0; i < 20; i++) {
+      const result = await selectNextPuzzle('u1', { mode: 'tactics', random: () => i / 20 });
+      picks[result!.puzzle.id]++;
+    }
+
+    expect(picks.mate1).toBeGreaterThan(picks.fork1 * 2);
+    expect(picks.fork1).toBeGreaterThan(0);
+    expect(db.queries.some((query) => (query.where as { theme_primary?: string }).theme_primary === 'mate')).toBe(true);
+  });
+
+  it('honours an explicit target rating and falls back to unrated puzzles', async () => {
+    db.rating = 900;
+    db.puzzles = [puzzle('unrated', null, null)];
+
+    const result = await selectNextPuzzle('u1', { mode: 'tactics', targetRating: 2000 });
+
+    expect(result).toMatchObject({ targetRating: 2000, puzzle: { id: 'unrated', rating: null } });
+  });
+
+  it('returns null when nothing is left', async () => {
+    await expect(selectNextPuzzle('u1', { mode: 'tactics' })).resolves.toBeNull();
+  });
+});
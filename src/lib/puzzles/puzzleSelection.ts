@@ -0,0 +1,259 @@
+/**
+ * Adaptive puzzle selection: puzzles near the student's puzzle rating, no recent repeats,
+ * and more of the themes the student fails most
+ * Server-only module
+ */
+
+import { prisma } from '@/lib/prisma';
+import { syncPuzzleRating } from '@/lib/puzzles/puzzleRating';
+import { countStudentMoves } from '@/lib/puzzles/solver';
+
+/** A puzzle attempted within this many days isn't served again */
+export const REPEAT_COOLDOWN_DAYS = 30;
+
+/** Recent attempts used to measure theme success rates */
+const THEME_HISTORY_SIZE = 300;
+
+/** A theme needs this many attempts before it can be singled out as the weakest */
+const MIN_THEME_ATTEMPTS = 5;
+
+/** Closest candidates fetched on each side of the target rating */
+const CANDIDATES_PER_SIDE = 30;
+
+/** Closest candidates fetched from the weakest theme */
+const WEAK_THEME_CANDIDATES = 20;
+
+/** Rating distance at which a candidate's weight drops to about a third */
+const RATING_SPREAD = 150;
+
+/** Keeps strong themes in rotation: weight multiplier = floor + failure rate */
+const THEME_WEIGHT_FLOOR = 0.25;
+
+/** Weight multiplier for a puzzle the student has seen before (outside the cooldown) */
+const SEEN_PUZZLE_WEIGHT = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SolverPuzzle = {
+  id: string;
+  fen: string;
+  sideToMove: string;
+  themes: string[];
+  rating: number | null;
+  mode: string;
+  /** Moves the student has to find */
+  studentMoves: number;
+};
+
+/** chess_puzzles columns toSolverPuzzle needs */
+export const SOLVER_PUZZLE_SELECT = {
+  id: true,
+  fen: true,
+  side_to_move: true,
+  themes: true,
+  elo_rating: true,
+  puzzle_mode: true,
+  solution_moves: true,
+} as const;
+
+export type PuzzleCandidate = {
+  id: string;
+  elo_rating: number | null;
+  theme_primary: string | null;
+  /** Attempted before, outside the cooldown */
+  seen: boolean;
+};
+
+export type ThemeAttempt = {
+  theme: string | null;
+  correct: boolean;
+};
+
+/**
+ * What the solver is shown: the starting position only, never the solution
+ */
+export function toSolverPuzzle(puzzle: {
+  id: string;
+  fen: string;
+  side_to_move: string;
+  themes: string[];
+  elo_rating: number | null;
+  puzzle_mode: string;
+  solution_moves: string[];
+}): SolverPuzzle {
+  return {
+    id: puzzle.id,
+    fen: puzzle.fen,
+    sideToMove: puzzle.side_to_move,
+    themes: puzzle.themes,
+    rating: puzzle.elo_rating,
+    mode: puzzle.puzzle_mode,
+    studentMoves: countStudentMoves(puzzle.solution_moves),
+  };
+}
+
+/**
+ * Smoothed failure rate per theme, (failures + 1) / (attempts + 2), so one miss doesn't make a theme 100% weak
+ */
+export function computeThemeWeakness(attempts: ThemeAttempt[]): Map<string, { weakness: number; attempts: number }> {
+  const totals = new Map<string, { failures: number; attempts: number }>();
+  for (const attempt of attempts) {
+    if (!attempt.theme) continue;
+    const total = totals.get(attempt.theme) ?? { failures: 0, attempts: 0 };
+    total.attempts++;
+    if (!attempt.correct) total.failures++;
+    totals.set(attempt.theme, total);
+  }
+
+  const weakness = new Map<string, { weakness: number; attempts: number }>();
+  for (const [theme, total] of totals) {
+    weakness.set(theme, { weakness: (total.failures + 1) / (total.attempts + 2), attempts: total.attempts });
+  }
+  return weakness;
+}
+
+/**
+ * Theme with the highest failure rate among themes with enough attempts
+ */
+export function findWeakestTheme(weakness: Map<string, { weakness: number; attempts: number }>): string | null {
+  let weakest: string | null = null;
+  let highest = 0;
+  for (const [theme, stat] of weakness) {
+    if (stat.attempts >= MIN_THEME_ATTEMPTS && stat.weakness > highest) {
+      weakest = theme;
+      highest = stat.weakness;
+    }
+  }
+  return weakest;
+}
+
+/**
+ * Selection weight: rating closeness times theme weakness, lowered for puzzles seen before
+ * Unseen themes count as 50% weak
+ */
+export function puzzleWeight(
+  candidate: PuzzleCandidate,
+  targetRating: number,
+  weakness: Map<string, { weakness: number; attempts: number }>
+): number {
+  const distance = candidate.elo_rating === null ? RATING_SPREAD : Math.abs(candidate.elo_rating - targetRating);
+  const closeness = Math.exp(-((distance / RATING_SPREAD) ** 2));
+  const themeWeakness = (candidate.theme_primary ? weakness.get(candidate.theme_primary)?.weakness : null) ?? 0.5;
+  return closeness * (THEME_WEIGHT_FLOOR + themeWeakness) * (candidate.seen ? SEEN_PUZZLE_WEIGHT : 1);
+}
+
+/**
+ * Weighted random pick; random is a number in [0, 1)
+ */
+export function pickWeighted<T>(items: T[], weights: number[], random: number): T | null {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (items.length === 0 || total <= 0) {
+    return items[0] ?? null;
+  }
+  let remaining = random * total;
+  for (let i = 0; i < items.length; i++) {
+    remaining -= weights[i];
+    if (remaining < 0) {
+      return items[i];
+    }
+  }
+  return items[items.length - 1];
+}
+
+/**
+ * Next puzzle of a mode for the student; targetRating defaults to their Glicko-2 puzzle rating
+ * Returns null when every puzzle of the mode was attempted within the cooldown
+ */
+export async function selectNextPuzzle(
+  userId: string,
+  options: { mode: string; targetRating?: number; now?: Date; random?: () => number }
+): Promise<{ puzzle: SolverPuzzle; targetRating: number } | null> {
+  const now = options.now ?? new Date();
+  const random = options.random ?? Math.random;
+  const targetRating = options.targetRating ?? Math.round((await syncPuzzleRating(userId)).rating);
+
+  const recentAttempts = await prisma.student_puzzle_attempts.findMany({
+    where: { user_id: userId },
+    orderBy: { attempt_date: 'desc' },
+    take: THEME_HISTORY_SIZE,
+    select: { result: true, chess_puzzles: { select: { theme_primary: true } } },
+  });
+  const weakness = computeThemeWeakness(
+    recentAttempts.map((attempt) => ({
+      theme: attempt.chess_puzzles.theme_primary,
+      correct: attempt.result === 'correct',
+    }))
+  );
+  const weakestTheme = findWeakestTheme(weakness);
+
+  const where = {
+    puzzle_mode: options.mode,
+    student_puzzle_attempts: {
+      none: { user_id: userId, attempt_date: { gte: new Date(now.getTime() - REPEAT_COOLDOWN_DAYS * DAY_MS) } },
+    },
+  };
+  const select = {
+    id: true,
+    elo_rating: true,
+    theme_primary: true,
+    student_puzzle_attempts: { where: { user_id: userId }, select: { id: true }, take: 1 },
+  };
+
+  const [above, below, weakThemed] = await Promise.all([
+    prisma.chess_puzzles.findMany({
+      where: { ...where, elo_rating: { gte: targetRating } },
+      orderBy: { elo_rating: 'asc' },
+      take: CANDIDATES_PER_SIDE,
+      select,
+    }),
+    prisma.chess_puzzles.findMany({
+      where: { ...where, elo_rating: { lt: targetRating } },
+      orderBy: { elo_rating: 'desc' },
+      take: CANDIDATES_PER_SIDE,
+      select,
+    }),
+    weakestTheme
+      ? prisma.chess_puzzles.findMany({
+          where: { ...where, theme_primary: weakestTheme, elo_rating: { gte: targetRating - 2 * RATING_SPREAD } },
+          orderBy: { elo_rating: 'asc' },
+          take: WEAK_THEME_CANDIDATES,
+          select,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  let rows = [...above, ...below, ...weakThemed];
+  // Unrated puzzles only once the rated ones run out
+  if (rows.length === 0) {
+    rows = await prisma.chess_puzzles.findMany({
+      where: { ...where, elo_rating: null },
+      take: CANDIDATES_PER_SIDE,
+      select,
+    });
+  }
+
+  const candidates = new Map<string, PuzzleCandidate>();
+  for (const row of rows) {
+    candidates.set(row.id, {
+      id: row.id,
+      elo_rating: row.elo_rating,
+      theme_primary: row.theme_primary,
+      seen: row.student_puzzle_attempts.length > 0,
+    });
+  }
+  const pool = [...candidates.values()];
+  const chosen = pickWeighted(
+    pool,
+    pool.map((candidate) => puzzleWeight(candidate, targetRating, weakness)),
+    random()
+  );
+  if (!chosen) {
+    return null;
+  }
+
+  const puzzle = await prisma.chess_puzzles.findUnique({
+    where: { id: chosen.id },
+    select: SOLVER_PUZZLE_SELECT,
+  });
+  return puzzle ? { puzzle: toSolverPuzzle(puzzle), targetRating } : null;
+}
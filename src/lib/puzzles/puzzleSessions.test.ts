@@ -0,0 +1,143 @@
+/**
+ * Tests for puzzle attempts
+ * Uses Vitest with mocked Prisma
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  puzzle: null as Record<string, unknown> | null,
+  session: null as Record<string, unknown> | null,
+  existingAttempt: null as Record<string, unknown> | null,
+  created: [] as Record<string, unknown>[],
+  ratingSyncs: 0,
+  ratingError: null as Error | null,
+  reviews: [] as unknown[][],
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    chess_puzzles: { findUnique: async () => db.puzzle },
+    puzzle_sessions: { findFirst: async () => db.session },
+    student_puzzle_attempts: {
+      findFirst: async () => db.existingAttempt,
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        db.created.push(data);
+        return data;
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/puzzles/puzzleRating', () => ({
+  syncPuzzleRating: async () => {
+    db.ratingSyncs++;
+    if (db.ratingError) throw db.ratingError;
+    return { rating: 1523, rd: 180, volatility: 0.06, attempts: 3, provisional: true };
+  },
+}));
+
+vi.mock('@/lib/puzzles/puzzleReviews', () => ({
+  recordPuzzleReview: async (...args: unknown[]) => {
+    db.reviews.push(args);
+    return null;
+  },
+}));
+
+import { submitPuzzleMoves } from './puzzleSessions';
+
+describe('submitPuzzleMoves', () => {
+  beforeEach(() => {
+    db.puzzle = { fen: '4k3/2pp1p2/8/7Q/2B5/8/8/R5K1 w - - 0 1', solution_moves: ['h5f7', 'e8d8', 'f7f8'] };
+    db.session = { id: 'ps1' };
+    db.existingAttempt = null;
+    db.created = [];
+    db.ratingSyncs = 0;
+    db.ratingError = null;
+    db.reviews = [];
+  });
+
+  it('records nothing while the puzzle is in progress', async () => {
+    const result = await submitPuzzleMoves('u1', 'p1', { sessionId: 'ps1', moves: ['h5f7'], timeSpentSeconds: 4 });
+
+    expect(result).toEqual({
+      ok: true,
+      check: { status: 'continue', reply: 'e8d8' },
+      solution: null,
+      recorded: false,
+      rating: null,
+    });
+    expect(db.created).toEqual([]);
+    expect(db.ratingSyncs).toBe(0);
+    expect(db.reviews).toEqual([]);
+  });
+
+  it('records a failed attempt with the move that broke the solution', async () => {
+    const result = await submitPuzzleMoves('u1', 'p1', {
+      sessionId: 'ps1',
+      moves: ['h5f7', 'f7e7'],
+      timeSpentSeconds: 12.4,
+    });
+
+    expect(result).toMatchObject({
+      ok: true,
+      check: { status: 'failed', brokenOnMove: 2 },
+      recorded: true,
+      rating: { rating: 1523, provisional: true },
+    });
+    expect(db.created).toEqual([
+      {
+        user_id: 'u1',
+        puzzle_id: 'p1',
+        session_id: 'ps1',
+        result: 'incorrect',
+        broken_on_move: 2,
+        time_spent_seconds: 12,
+      },
+    ]);
+    expect(db.reviews).toEqual([['u1', 'p1', { correct: false, timeSpentSeconds: 12, studentMoves: 2 }]]);
+  });
+
+  it('keeps only the first attempt of a puzzle in a session', async () => {
+    db.existingAttempt = { id: 'a1' };
+
+    const result = await submitPuzzleMoves('u1', 'p1', {
+      sessionId: 'ps1',
+      moves: ['h5f7', 'f7f8'],
+      timeSpentSeconds: 99999,
+    });
+
+    expect(result).toMatchObject({ ok: true, check: { status: 'solved' }, recorded: false, rating: null });
+    expect(db.created).toEqual([]);
+    expect(db.ratingSyncs).toBe(0);
+  });
+
+  it('still answers when the rating update fails', async () => {
+    db.ratingError = new Error('db down');
+
+    const result = await submitPuzzleMoves('u1', 'p1', { sessionId: null, moves: ['h5f7', 'f7f8'], timeSpentSeconds: 9 });
+
+    expect(result).toMatchObject({ ok: true, check: { status: 'solved' }, recorded: true, rating: null });
+    expect(db.created).toHaveLength(1);
+  });
+
+  it('rejects missing puzzles, foreign sessions, malformed and illegal moves', async () => {
+    db.session = null;
+    await expect(
+      submitPuzzleMoves('u1', 'p1', { sessionId: 'other', moves: ['h5f7'], timeSpentSeconds: null })
+    ).resolves.toMatchObject({ ok: false, status: 404, error: 'Session not found' });
+
+    await expect(
+      submitPuzzleMoves('u1', 'p1', { sessionId: null, moves: ['Qxf7'], timeSpentSeconds: null })
+    ).resolves.toMatchObject({ ok: false, status: 400 });
+    await expect(
+      submitPuzzleMoves('u1', 'p1', { sessionId: null, moves: ['g1g3'], timeSpentSeconds: null })
+    ).resolves.toMatchObject({ ok: false, status: 400, error: 'Illegal move: g1g3' });
+    expect(db.created).toEqual([]);
+
+    db.puzzle = null;
+    await expect(
+      submitPuzzleMoves('u1', 'p1', { sessionId: null, moves: ['h5f7'], timeSpentSeconds: null })
+    ).resolves.toMatchObject({ ok: false, status: 404, error: 'Puzzle not found' });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * In-app puzzle solver: sessions and recording attempts (puzzleSelection picks the next puzzle)
+ * A recorded attempt also updates the puzzle rating and the review queue
+ * The solution never leaves the server until the puzzle is finished
+ * Server-only module
+ */
+
+import { prisma } from '@/lib/prisma';
+import { syncPuzzleRating } from '@/lib/puzzles/puzzleRating';
+import type { PuzzleRating } from '@/lib/puzzles/puzzleRating';
+import { recordPuzzleReview } from '@/lib/puzzles/puzzleReviews';
+import { checkSolution, countStudentMoves } from '@/lib/puzzles/solver';
+import type { SolutionCheck } from '@/lib/puzzles/solver';
+
+export const DEFAULT_PUZZLE_MODE = 'tactics';
+
+/** Client-reported solving time is capped; a tab left open shouldn't count as an hour of work */
+const MAX_TIME_SPENT_SECONDS = 30 * 60;
+
+const PUZZLE_MODE_PATTERN = /^[a-z_]{1,32}$/;
+
+export type PuzzleSessionSummary = {
+  id: string;
+  mode: string;
+  startedAt: string;
+  attempts: number;
+  solved: number;
+  failed: number;
+  timeSpentSeconds: number;
+};
+
+export type SubmitMovesResult =
+  | {
+      ok: true;
+      check: Exclude<SolutionCheck, { status: 'invalid' }>;
+      /** Full solution, once the puzzle is solved or failed */
+      solution: string[] | null;
+      /** False when this puzzle already has an attempt in the session; only the first one counts */
+      recorded: boolean;
+      /** Puzzle rating after a recorded attempt; null otherwise or if the rating couldn't be updated */
+      rating: PuzzleRating | null;
+    }
+  | { ok: false; status: 400 | 404; error: string };
+
+export function isPuzzleMode(value: string): boolean {
+  return PUZZLE_MODE_PATTERN.test(value);
+}
+
+export async function createPuzzleSession(userId: string, mode: string): Promise<PuzzleSessionSummary> {
+  const session = await prisma.puzzle_sessions.create({
+    data: { user_id: userId, puzzle_mode: mode },
+    select: { id: true, puzzle_mode: true, started_at: true },
+  });
+  return {
+    id: session.id,
+    mode: session.puzzle_mode,
+    startedAt: session.started_at.toISOString(),
+    attempts: 0,
+    solved: 0,
+    failed: 0,
+    timeSpentSeconds: 0,
+  };
+}
+
+/**
+ * Session with its attempt totals; null when missing or someone else's
+ */
+export async function getPuzzleSessionSummary(
+  userId: string,
+  sessionId: string
+): Promise<PuzzleSessionSummary | null> {
+  const session = await prisma.puzzle_sessions.findFirst({
+    where: { id: sessionId, user_id: userId },
+    select: {
+      id: true,
+      puzzle_mode: true,
+      started_at: true,
+      student_puzzle_attempts: { select: { result: true, time_spent_seconds: true } },
+    },
+  });
+  if (!session) {
+    return null;
+  }
+
+  const attempts = session.student_puzzle_attempts;
+  const solved = attempts.filter((attempt) => attempt.result === 'correct').length;
+  return {
+    id: session.id,
+    mode: session.puzzle_mode,
+    startedAt: session.started_at.toISOString(),
+    attempts: attempts.length,
+    solved,
+    failed: attempts.length - solved,
+    timeSpentSeconds: attempts.reduce((sum, attempt) => sum + (attempt.time_spent_seconds ?? 0), 0),
+  };
+}
+
+/**
+ * Check the student's moves so far; a solved or failed puzzle records the attempt
+ */
+export async function submitPuzzleMoves(
+  userId: string,
+  puzzleId: string,
+  input: { sessionId: string | null; moves: string[]; timeSpentSeconds: number | null }
+): Promise<SubmitMovesResult> {
+  const puzzle = await prisma.chess_puzzles.findUnique({
+    where: { id: puzzleId },
+    select: { fen: true, solution_moves: true },
+  });
+  if (!puzzle) {
+    return { ok: false, status: 404, error: 'Puzzle not found' };
+  }
+
+  if (input.sessionId) {
+    const session = await prisma.puzzle_sessions.findFirst({
+      where: { id: input.sessionId, user_id: userId },
+      select: { id: true },
+    });
+    if (!session) {
+      return { ok: false, status: 404, error: 'Session not found' };
+    }
+  }
+
+  const check = checkSolution(puzzle.fen, puzzle.solution_moves, input.moves);
+  if (check.status === 'invalid') {
+    return { ok: false, status: 400, error: check.error };
+  }
+  if (check.status === 'continue') {
+    return { ok: true, check, solution: null, recorded: false, rating: null };
+  }
+
+  const existing = await prisma.student_puzzle_attempts.findFirst({
+    where: { user_id: userId, puzzle_id: puzzleId, session_id: input.sessionId },
+    select: { id: true },
+  });
+  let rating: PuzzleRating | null = null;
+  if (!existing) {
+    const timeSpent =
+      input.timeSpentSeconds === null
+        ? null
+        : Math.min(MAX_TIME_SPENT_SECONDS, Math.max(0, Math.round(input.timeSpentSeconds)));
+    await prisma.student_puzzle_attempts.create({
+      data: {
+        user_id: userId,
+        puzzle_id: puzzleId,
+        session_id: input.sessionId,
+        result: check.status === 'solved' ? 'correct' : 'incorrect',
+        broken_on_move: check.status === 'failed' ? check.brokenOnMove : null,
+        time_spent_seconds: timeSpent,
+      },
+    });
+
+    // Neither follow-up fails the answer; a rating sync that fails here is caught up by the next one
+    try {
+      await recordPuzzleReview(userId, puzzleId, {
+        correct: check.status === 'solved',
+        timeSpentSeconds: timeSpent,
+        studentMoves: countStudentMoves(puzzle.solution_moves),
+      });
+    } catch (error) {
+      console.error('Error scheduling puzzle review:', error);
+    }
+    try {
+      rating = await syncPuzzleRating(userId);
+    } catch (error) {
+      console.error('Error updating puzzle rating:', error);
+    }
+  }
+
+  return { ok: true, check, solution: puzzle.solution_moves, recorded: !existing, rating };
+}
@@ -0,0 +1,60 @@
+/**
+ * Tests for SM-2 puzzle review scheduling
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gradeAttempt, needsReview, scheduleReview } from './reviewScheduler';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('gradeAttempt', () => {
+  it('grades by result and time per student move', () => {
+    expect(gradeAttempt({ correct: false, timeSpentSeconds: 5, studentMoves: 1 })).toBe(0);
+    expect(gradeAttempt({ correct: true, timeSpentSeconds: 100, studentMoves: 2 })).toBe(3);
+    expect(gradeAttempt({ correct: true, timeSpentSeconds: 60, studentMoves: 2 })).toBe(4);
+    expect(gradeAttempt({ correct: true, timeSpentSeconds: 15, studentMoves: 2 })).toBe(5);
+    expect(gradeAttempt({ correct: true, timeSpentSeconds: null, studentMoves: 2 })).toBe(4);
+  });
+
+  it('queues failed and slow solves only', () => {
+    expect(needsReview(0)).toBe(true);
+    expect(needsReview(3)).toBe(true);
+    expect(needsReview(4)).toBe(false);
+    expect(needsReview(5)).toBe(false);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('brings a new failure back the next day', () => {
+    const state = scheduleReview(null, 0, NOW);
+
+    expect(state).toMatchObject({ intervalDays: 1, repetitions: 0, lapses: 0 });
+    expect(state.easeFactor).toBeCloseTo(1.7);
+    expect(state.dueAt).toEqual(new Date(NOW.getTime() + DAY_MS));
+  });
+
+  it('grows the interval 1, 6, then by the ease factor', () => {
+    let state = scheduleReview(null, 4, NOW);
+    expect(state.intervalDays).toBe(1);
+
+    state = scheduleReview(state, 4, NOW);
+    expect(state.intervalDays).toBe(6);
+
+    state = scheduleReview(state, 5, NOW);
+    expect(state.easeFactor).toBeCloseTo(2.6);
+    expect(state.intervalDays).toBe(16);
+    expect(state.repetitions).toBe(3);
+  });
+
+  it('restarts a card on a lapse and never drops the ease below 1.3', () => {
+    let state = scheduleReview(null, 4, NOW);
+    state = scheduleReview(state, 4, NOW);
+    for (let i = 0; i < 5; i++) {
+      state = scheduleReview(state, 0, NOW);
+    }
+
+    expect(state).toMatchObject({ repetitions: 0, intervalDays: 1, lapses: 5, easeFactor: 1.3 });
+  });
+});
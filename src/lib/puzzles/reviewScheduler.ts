@@ -0,0 +1,104 @@
+/**
+ * SM-2 spaced-repetition scheduling for puzzle reviews
+ * An attempt is graded 0-5 from its result and solving time; grades below 3 restart the card
+ * Pure module
+ */
+
+/** Puzzle mode of review sessions: they serve due reviews instead of new puzzles */
+export const REVIEW_PUZZLE_MODE = 'review';
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type ReviewState = {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+};
+
+export type GradedAttempt = {
+  correct: boolean;
+  timeSpentSeconds: number | null;
+  /** Moves the student had to find */
+  studentMoves: number;
+};
+
+/** Solved slower than this per student move counts as a hard recall */
+export const SLOW_SECONDS_PER_MOVE = 45;
+
+/** Solved faster than this per student move counts as an easy recall */
+const FAST_SECONDS_PER_MOVE = 10;
+
+/** Lowest grade that counts as remembered */
+const PASSING_GRADE = 3;
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+/** A due card is overdue once it has waited this long */
+export const OVERDUE_AFTER_DAYS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 0 failed, 3 solved slowly, 4 solved, 5 solved quickly; unknown time counts as a normal solve
+ */
+export function gradeAttempt(attempt: GradedAttempt): ReviewGrade {
+  if (!attempt.correct) {
+    return 0;
+  }
+  if (attempt.timeSpentSeconds === null) {
+    return 4;
+  }
+  const perMove = attempt.timeSpentSeconds / Math.max(1, attempt.studentMoves);
+  if (perMove > SLOW_SECONDS_PER_MOVE) {
+    return 3;
+  }
+  return perMove < FAST_SECONDS_PER_MOVE ? 5 : 4;
+}
+
+/**
+ * Failed and slow solves go into the review queue; quick and normal solves of new puzzles don't
+ */
+export function needsReview(grade: ReviewGrade): boolean {
+  return grade <= PASSING_GRADE;
+}
+
+/**
+ * Next state of a card after a review; state is null for a card that isn't queued yet
+ */
+export function scheduleReview(state: ReviewState | null, grade: ReviewGrade, now: Date): ReviewState {
+  const easeFactor = state?.easeFactor ?? INITIAL_EASE_FACTOR;
+  const lapses = state?.lapses ?? 0;
+
+  // SM-2 ease update: 5 raises it by 0.1, 3 lowers it by 0.14, failures by up to 0.8
+  const nextEase = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (grade < PASSING_GRADE) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = (state?.repetitions ?? 0) + 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round((state?.intervalDays ?? 1) * nextEase);
+    }
+  }
+
+  return {
+    easeFactor: nextEase,
+    intervalDays,
+    repetitions,
+    lapses: grade < PASSING_GRADE && state ? lapses + 1 : lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
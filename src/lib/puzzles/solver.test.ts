@@ -0,0 +1,56 @@
+/**
+ * Tests for puzzle solution checking
+ * Uses Vitest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkSolution, countStudentMoves } from './solver';
+
+// Student plays Qxf7+, opponent Kd8, student Qf8# (Ra8# mates too)
+const FEN = '4k3/2pp1p2/8/7Q/2B5/8/8/R5K1 w - - 0 1';
+const SOLUTION = ['h5f7', 'e8d8', 'f7f8'];
+
+// White promotes on e8; not mate, so under-promotion fails
+const PROMOTION_FEN = '7k/4P3/8/8/8/8/8/K7 w - - 0 1';
+
+describe('checkSolution', () => {
+  it('answers the reply while the moves follow the solution', () => {
+    expect(checkSolution(FEN, SOLUTION, ['h5f7'])).toEqual({ status: 'continue', reply: 'e8d8' });
+    expect(checkSolution(FEN, SOLUTION, ['H5F7 '])).toEqual({ status: 'continue', reply: 'e8d8' });
+  });
+
+  it('is solved after the last student move', () => {
+    expect(checkSolution(FEN, SOLUTION, ['h5f7', 'f7f8'])).toEqual({ status: 'solved' });
+    expect(checkSolution(PROMOTION_FEN, ['e7e8q'], ['e7e8q'])).toEqual({ status: 'solved' });
+  });
+
+  it('reports the student move that left the solution', () => {
+    expect(checkSolution(FEN, SOLUTION, ['h5e5'])).toEqual({ status: 'failed', brokenOnMove: 1, expected: 'h5f7' });
+    expect(checkSolution(FEN, SOLUTION, ['h5f7', 'f7e7'])).toEqual({ status: 'failed', brokenOnMove: 2, expected: 'f7f8' });
+    // Promotion piece matters
+    expect(checkSolution(PROMOTION_FEN, ['e7e8q'], ['e7e8n'])).toMatchObject({ status: 'failed', brokenOnMove: 1 });
+  });
+
+  it('accepts another mate as a solution', () => {
+    expect(checkSolution(FEN, SOLUTION, ['h5f7', 'a1a8'])).toEqual({ status: 'solved' });
+  });
+
+  it('rejects illegal moves instead of failing the puzzle', () => {
+    expect(checkSolution(FEN, SOLUTION, ['g1g3'])).toEqual({ status: 'invalid', error: 'Illegal move: g1g3' });
+    expect(checkSolution(FEN, SOLUTION, ['h5f7', 'd7d5'])).toMatchObject({ status: 'invalid' });
+    expect(checkSolution(FEN, ['h5f7', 'e8e7', 'f7f8'], ['h5f7'])).toMatchObject({ status: 'invalid' });
+  });
+
+  it('rejects malformed input', () => {
+    expect(checkSolution(FEN, SOLUTION, [])).toMatchObject({ status: 'invalid' });
+    expect(checkSolution(FEN, SOLUTION, ['Qxf7'])).toMatchObject({ status: 'invalid' });
+    expect(checkSolution(FEN, SOLUTION, ['h5f7', 'f7f8', 'a2a3'])).toMatchObject({ status: 'invalid' });
+    expect(checkSolution('not a fen', SOLUTION, ['h5f7'])).toMatchObject({ status: 'invalid' });
+    expect(checkSolution(FEN, [], ['h5f7'])).toMatchObject({ status: 'invalid' });
+  });
+
+  it('counts the moves the student has to find', () => {
+    expect(countStudentMoves(SOLUTION)).toBe(2);
+    expect(countStudentMoves(['e7e8q'])).toBe(1);
+  });
+});
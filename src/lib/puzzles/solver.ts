@@ -0,0 +1,92 @@
+/**
+ * Puzzle solution checking against chess_puzzles.solution_moves
+ * Puzzles start in the position the student solves from (side_to_move is the student's colour);
+ * solution_moves alternate student move, opponent reply, ... and end with a student move, in UCI
+ * Moves are replayed with the chess rules module, so illegal moves are rejected rather than
+ * failing the puzzle, and any checkmate solves it even when it isn't the stored move
+ * Pure module: runs on the server, the board only shows what it answers
+ */
+
+import { parseFen } from '@/lib/chess/fen';
+import { isCheckmate, makeMove } from '@/lib/chess/moves';
+import { parseUci } from '@/lib/chess/notation';
+import type { Position } from '@/lib/chess/types';
+
+export type SolutionCheck =
+  /** Correct so far; the board plays the opponent's reply */
+  | { status: 'continue'; reply: string }
+  | { status: 'solved' }
+  /** brokenOnMove is the student's move number (1-based) that left the solution */
+  | { status: 'failed'; brokenOnMove: number; expected: string }
+  | { status: 'invalid'; error: string };
+
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+export function normalizeUciMove(move: string): string {
+  return move.trim().toLowerCase();
+}
+
+export function isUciMove(move: string): boolean {
+  return UCI_MOVE.test(normalizeUciMove(move));
+}
+
+/**
+ * Number of moves the student has to find
+ */
+export function countStudentMoves(solution: string[]): number {
+  return Math.ceil(solution.length / 2);
+}
+
+/**
+ * Check the student's moves so far (their moves only, without the replies) against the solution,
+ * played from the puzzle's FEN
+ */
+export function checkSolution(fen: string, solution: string[], moves: string[]): SolutionCheck {
+  if (solution.length === 0) {
+    return { status: 'invalid', error: 'Puzzle has no solution' };
+  }
+  if (moves.length === 0) {
+    return { status: 'invalid', error: 'No moves given' };
+  }
+  if (moves.length > countStudentMoves(solution)) {
+    return { status: 'invalid', error: 'More moves than the solution has' };
+  }
+  if (!moves.every(isUciMove)) {
+    return { status: 'invalid', error: 'Moves must be in UCI notation (e2e4, e7e8q)' };
+  }
+
+  let position: Position;
+  try {
+    position = parseFen(fen);
+  } catch {
+    return { status: 'invalid', error: 'Puzzle has an invalid position' };
+  }
+
+  for (let i = 0; i < moves.length; i++) {
+    const move = parseUci(position, moves[i]);
+    if (!move) {
+      return { status: 'invalid', error: `Illegal move: ${normalizeUciMove(moves[i])}` };
+    }
+    position = makeMove(position, move);
+    if (isCheckmate(position)) {
+      return { status: 'solved' };
+    }
+
+    const expected = normalizeUciMove(solution[i * 2]);
+    if (normalizeUciMove(moves[i]) !== expected) {
+      return { status: 'failed', brokenOnMove: i + 1, expected };
+    }
+
+    const reply = solution[i * 2 + 1];
+    if (reply === undefined) {
+      return { status: 'solved' };
+    }
+    const replyMove = parseUci(position, reply);
+    if (!replyMove) {
+      return { status: 'invalid', error: 'Puzzle solution is not legal in its position' };
+    }
+    position = makeMove(position, replyMove);
+  }
+
+  return { status: 'continue', reply: normalizeUciMove(solution[moves.length * 2 - 1]) };
+}
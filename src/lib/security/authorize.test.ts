@@ -0,0 +1,121 @@
+/**
+ * Tests for the shared API authorization helpers
+ * Uses Vitest with a mocked Supabase session and profiles lookup
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const session = vi.hoisted(() => ({
+  user: null as { id: string } | null,
+  profile: null as { role: string | null } | null,
+}));
+
+vi.mock('@/utils/supabase/server', () => ({
+  createClient: async () => ({
+    auth: { getUser: async () => ({ data: { user: session.user }, error: null }) },
+  }),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { profiles: { findUnique: async () => session.profile } },
+}));
+
+import {
+  ADMIN_ROLES,
+  cronAuthHeaders,
+  getAuthContext,
+  hasCronSecret,
+  requireCronOrRole,
+  requireRole,
+  STAFF_ROLES,
+} from './authorize';
+
+function cronRequest(headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/cron/update-stats-v2', { headers });
+}
+
+describe('authorize', () => {
+  beforeEach(() => {
+    session.user = null;
+    session.profile = null;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('getAuthContext', () => {
+    it('returns the user id and profile role', async () => {
+      session.user = { id: 'u1' };
+      session.profile = { role: 'coach' };
+
+      await expect(getAuthContext()).resolves.toEqual({ userId: 'u1', role: 'coach' });
+    });
+
+    it('treats unknown or missing roles as student', async () => {
+      session.user = { id: 'u1' };
+      session.profile = { role: 'superuser' };
+      await expect(getAuthContext()).resolves.toEqual({ userId: 'u1', role: 'student' });
+
+      session.profile = { role: null };
+      await expect(getAuthContext()).resolves.toEqual({ userId: 'u1', role: 'student' });
+    });
+
+    it('returns null for users without a profile', async () => {
+      session.user = { id: 'u1' };
+
+      await expect(getAuthContext()).resolves.toBeNull();
+    });
+  });
+
+  describe('requireRole', () => {
+    it('answers 401 without a session', async () => {
+      const result = await requireRole(STAFF_ROLES);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.response.status).toBe(401);
+    });
+
+    it('answers 403 for a role that is not allowed', async () => {
+      session.user = { id: 'u1' };
+      session.profile = { role: 'coach' };
+
+      const result = await requireRole(ADMIN_ROLES);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.response.status).toBe(403);
+    });
+  });
+
+  describe('cron secret', () => {
+    it('accepts the secret as a bearer token or x-cron-secret header', () => {
+      vi.stubEnv('CRON_SECRET', 's3cret');
+
+      expect(hasCronSecret(cronRequest({ Authorization: 'Bearer s3cret' }))).toBe(true);
+      expect(hasCronSecret(cronRequest({ 'x-cron-secret': 's3cret' }))).toBe(true);
+      expect(hasCronSecret(cronRequest({ Authorization: 'Bearer wrong!' }))).toBe(false);
+      expect(hasCronSecret(cronRequest())).toBe(false);
+    });
+
+    it('rejects everything while CRON_SECRET is unset', () => {
+      vi.stubEnv('CRON_SECRET', '');
+
+      expect(hasCronSecret(cronRequest({ Authorization: 'Bearer ' }))).toBe(false);
+      expect(cronAuthHeaders()).toEqual({});
+    });
+
+    it('requireCronOrRole falls back to the session', async () => {
+      vi.stubEnv('CRON_SECRET', 's3cret');
+
+      const cron = await requireCronOrRole(cronRequest(cronAuthHeaders()), STAFF_ROLES);
+      expect(cron).toEqual({ ok: true, auth: null });
+
+      session.user = { id: 'u1' };
+      session.profile = { role: 'student' };
+      const student = await requireCronOrRole(cronRequest(), STAFF_ROLES);
+      expect(student.ok).toBe(false);
+      if (!student.ok) expect(student.response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Shared authorization for API routes
+ * Users come from the Supabase session cookie, roles from profiles.role; cron callers
+ * authenticate with the CRON_SECRET shared secret instead of a session
+ */
+
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+import { createClient } from '@/utils/supabase/server';
+
+import { prisma } from '@/lib/prisma';
+
+export const ROLES = ['student', 'coach', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** Any signed-in user with a profile */
+export const ANY_ROLE: readonly Role[] = ROLES;
+
+/** Coaches and admins: the coach dashboard and everything behind it */
+export const STAFF_ROLES: readonly Role[] = ['coach', 'admin'];
+
+export const ADMIN_ROLES: readonly Role[] = ['admin'];
+
+export type AuthContext = {
+  userId: string;
+  role: Role;
+};
+
+export type AuthResult<T = AuthContext> = { ok: true; auth: T } | { ok: false; response: NextResponse };
+
+function deny(status: 401 | 403 | 500, error: string): { ok: false; response: NextResponse } {
+  return { ok: false, response: NextResponse.json({ ok: false, error }, { status }) };
+}
+
+function parseRole(value: string | null): Role {
+  // profiles.role defaults to 'student'; anything unexpected gets the least privilege
+  return ROLES.find((role) => role === value) ?? 'student';
+}
+
+/**
+ * Signed-in user and role, or null when there is no valid session or no profile
+ */
+export async function getAuthContext(): Promise<AuthContext | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return null;
+  }
+
+  const profile = await prisma.profiles.findUnique({
+    where: { id: user.id },
+    select: { role: true },
+  });
+  if (!profile) {
+    return null;
+  }
+
+  return { userId: user.id, role: parseRole(profile.role) };
+}
+
+/**
+ * Require a signed-in user with one of the given roles
+ * 401 without a session, 403 for other roles
+ */
+export async function requireRole(allowed: readonly Role[]): Promise<AuthResult> {
+  let auth: AuthContext | null;
+  try {
+    auth = await getAuthContext();
+  } catch (error) {
+    console.error('[auth] Could not resolve session:', error instanceof Error ? error.message : String(error));
+    return deny(500, 'Internal server error');
+  }
+
+  if (!auth) {
+    return deny(401, 'Unauthorized');
+  }
+  if (!allowed.includes(auth.role)) {
+    return deny(403, 'Forbidden');
+  }
+  return { ok: true, auth };
+}
+
+/**
+ * True if the request carries CRON_SECRET as "Authorization: Bearer <secret>" (what Vercel Cron
+ * sends) or in the x-cron-secret header; always false while CRON_SECRET is unset
+ */
+export function hasCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || secret.trim().length === 0) {
+    return false;
+  }
+
+  const authorization = request.headers.get('authorization');
+  const provided = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : request.headers.get('x-cron-secret');
+  if (!provided) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret.trim());
+  const actual = Buffer.from(provided.trim());
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Cron endpoints: the shared secret, or a signed-in user with one of the given roles
+ * (the coach dashboard triggers syncs by hand); auth is null for cron callers
+ */
+export async function requireCronOrRole(
+  request: NextRequest,
+  allowed: readonly Role[]
+): Promise<AuthResult<AuthContext | null>> {
+  if (hasCronSecret(request)) {
+    return { ok: true, auth: null };
+  }
+  return requireRole(allowed);
+}
+
+/**
+ * Headers for server-side calls to our own cron endpoints
+ */
+export function cronAuthHeaders(): Record<string, string> {
+  const secret = process.env.CRON_SECRET?.trim();
+  return secret ? { Authorization: `Bearer ${secret}` } : {};
+}
@@ -0,0 +1,74 @@
+/**
+ * Re-encrypt stored Lichess tokens with the current encryption key
+ * Run after adding a new key at the front of LICHESS_ENCRYPTION_KEYS; once it reports no
+ * remaining or failed rows, the old keys can be removed
+ */
+
+import { prisma } from '@/lib/prisma';
+import { decryptToken, encryptToken, needsReencryption } from '@/lib/security/tokenEncryption';
+
+export type ReencryptSummary = {
+  scanned: number;
+  reencrypted: number;
+  current: number;
+  failed: number;
+};
+
+/**
+ * Walk every connection with a stored token and rewrite the ones not on the current key
+ * Rows that can't be decrypted are counted as failed and left untouched
+ */
+export async function reencryptStoredTokens({
+  batchSize = 100,
+  dryRun = false,
+}: {
+  batchSize?: number;
+  dryRun?: boolean;
+} = {}): Promise<ReencryptSummary> {
+  const summary: ReencryptSummary = { scanned: 0, reencrypted: 0, current: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  while (true) {
+    const rows = await prisma.platform_connections.findMany({
+      where: { lichess_oauth_token_encrypted: { not: null } },
+      select: { id: true, lichess_oauth_token_encrypted: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) {
+      break;
+    }
+    cursor = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      const encrypted = row.lichess_oauth_token_encrypted!;
+      summary.scanned++;
+
+      if (!needsReencryption(encrypted)) {
+        summary.current++;
+        continue;
+      }
+
+      try {
+        const reencrypted = encryptToken(decryptToken(encrypted));
+        if (!dryRun) {
+          // Only replace the value we read, in case the token was changed meanwhile
+          await prisma.platform_connections.updateMany({
+            where: { id: row.id, lichess_oauth_token_encrypted: encrypted },
+            data: { lichess_oauth_token_encrypted: reencrypted },
+          });
+        }
+        summary.reencrypted++;
+      } catch (error) {
+        summary.failed++;
+        console.warn(
+          `[reencrypt] Connection ${row.id} could not be re-encrypted:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+
+  return summary;
+}
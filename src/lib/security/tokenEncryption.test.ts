@@ -0,0 +1,95 @@
+/**
+ * Tests for token encryption: versioned payloads, key rotation and legacy payloads
+ * Uses Vitest
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  decryptToken,
+  encryptToken,
+  getCurrentKeyId,
+  getPayloadKeyId,
+  needsReencryption,
+} from './tokenEncryption';
+
+const KEY_A = crypto.randomBytes(32).toString('base64');
+const KEY_B = crypto.randomBytes(32).toString('hex');
+
+/**
+ * Payload in the original unversioned format
+ */
+function legacyEncrypt(plain: string, keyBase64: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(keyBase64, 'base64'), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+describe('tokenEncryption', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips with a key id in the payload', () => {
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `a:${KEY_A}`);
+
+    const encrypted = encryptToken('lio_secret');
+
+    expect(encrypted.startsWith('v1:a:')).toBe(true);
+    expect(getPayloadKeyId(encrypted)).toBe('a');
+    expect(decryptToken(encrypted)).toBe('lio_secret');
+  });
+
+  it('encrypts with the first key and still decrypts with older ones', () => {
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `a:${KEY_A}`);
+    const old = encryptToken('lio_secret');
+
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `b:${KEY_B},a:${KEY_A}`);
+
+    expect(getCurrentKeyId()).toBe('b');
+    expect(decryptToken(old)).toBe('lio_secret');
+    expect(needsReencryption(old)).toBe(true);
+    expect(needsReencryption(encryptToken('lio_secret'))).toBe(false);
+  });
+
+  it('fails for payloads whose key was removed', () => {
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `a:${KEY_A}`);
+    const old = encryptToken('lio_secret');
+
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `b:${KEY_B}`);
+
+    expect(() => decryptToken(old)).toThrow('unknown key id "a"');
+  });
+
+  it('rejects a payload relabelled with another key id', () => {
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `a:${KEY_A},b:${KEY_A}`);
+    const encrypted = encryptToken('lio_secret');
+
+    expect(() => decryptToken(encrypted.replace('v1:a:', 'v1:b:'))).toThrow('authentication failed');
+  });
+
+  it('reads legacy unversioned payloads with the single legacy key', () => {
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', '');
+    vi.stubEnv('LICHESS_ENCRYPTION_KEY', KEY_A);
+    const legacy = legacyEncrypt('lio_legacy', KEY_A);
+
+    expect(decryptToken(legacy)).toBe('lio_legacy');
+    expect(getCurrentKeyId()).toBe('0');
+    expect(needsReencryption(legacy)).toBe(true);
+  });
+
+  it('reads legacy payloads after moving to a key list', () => {
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', `b:${KEY_B},old:${KEY_A}`);
+    vi.stubEnv('LICHESS_ENCRYPTION_KEY', '');
+
+    expect(decryptToken(legacyEncrypt('lio_legacy', KEY_A))).toBe('lio_legacy');
+  });
+
+  it('throws a configuration error without any key', () => {
+    vi.stubEnv('LICHESS_ENCRYPTION_KEYS', '');
+    vi.stubEnv('LICHESS_ENCRYPTION_KEY', '');
+
+    expect(() => encryptToken('lio_secret')).toThrow('LICHESS_ENCRYPTION_KEY');
+  });
+});
@@ -1,12 +1,26 @@
 import crypto from 'crypto';
 
-function getKeyBytes(): Buffer {
-  const raw = process.env.LICHESS_ENCRYPTION_KEY;
+/**
+ * AES-256-GCM encryption for stored OAuth tokens, with key rotation
+ *
+ * Keys come from LICHESS_ENCRYPTION_KEYS, a comma-separated list of "keyId:key" entries
+ * (key = base64 or 64-char hex, 32 bytes). The first entry encrypts; all entries decrypt.
+ * A single LICHESS_ENCRYPTION_KEY (no id) is still accepted as key id "0".
+ *
+ * Payload formats:
+ * - v1: "v1:<keyId>:" + base64([iv(12) | authTag(16) | ciphertext(N)]), "v1:<keyId>" is bound as AAD
+ * - legacy: base64([iv(12) | authTag(16) | ciphertext(N)]), tried against every configured key
+ */
 
-  if (!raw || raw.trim().length === 0) {
-    throw new Error('LICHESS_ENCRYPTION_KEY is not set');
-  }
+const PAYLOAD_VERSION = 'v1';
+const LEGACY_KEY_ID = '0';
+
+type EncryptionKey = {
+  id: string;
+  key: Buffer;
+};
 
+function parseKeyBytes(raw: string, name: string): Buffer {
   const keyStr = raw.trim();
 
   // Accept base64 OR 64-char hex
@@ -18,53 +32,61 @@ function getKeyBytes(): Buffer {
     try {
       key = Buffer.from(keyStr, 'base64');
     } catch {
-      throw new Error('LICHESS_ENCRYPTION_KEY must be 32 bytes (base64) or 64-char hex');
+      throw new Error(`${name} must be 32 bytes (base64) or 64-char hex`);
     }
   }
 
   if (key.length !== 32) {
-    throw new Error('LICHESS_ENCRYPTION_KEY must decode to exactly 32 bytes');
+    throw new Error(`${name} must decode to exactly 32 bytes`);
   }
 
   return key;
 }
 
 /**
- * Encrypt token using AES-256-GCM.
- * Output format: base64([iv(12) | authTag(16) | ciphertext(N)])
+ * Configured keys, newest (encrypting) key first
  */
-export function encryptToken(plain: string): string {
-  if (typeof plain !== 'string' || plain.length === 0) {
-    throw new Error('encryptToken: plain token must be a non-empty string');
+function getKeys(): EncryptionKey[] {
+  const keys: EncryptionKey[] = [];
+
+  const list = process.env.LICHESS_ENCRYPTION_KEYS;
+  if (list && list.trim().length > 0) {
+    for (const entry of list.split(',')) {
+      const trimmed = entry.trim();
+      if (trimmed.length === 0) continue;
+
+      const separator = trimmed.indexOf(':');
+      const id = separator > 0 ? trimmed.slice(0, separator).trim() : '';
+      if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+        throw new Error('LICHESS_ENCRYPTION_KEYS entries must look like "<keyId>:<key>"');
+      }
+      if (keys.some((key) => key.id === id)) {
+        throw new Error(`LICHESS_ENCRYPTION_KEYS has duplicate key id "${id}"`);
+      }
+      keys.push({ id, key: parseKeyBytes(trimmed.slice(separator + 1), `LICHESS_ENCRYPTION_KEYS key "${id}"`) });
+    }
   }
 
-  const key = getKeyBytes();
-  const iv = crypto.randomBytes(12);
+  const legacy = process.env.LICHESS_ENCRYPTION_KEY;
+  if (legacy && legacy.trim().length > 0 && !keys.some((key) => key.id === LEGACY_KEY_ID)) {
+    keys.push({ id: LEGACY_KEY_ID, key: parseKeyBytes(legacy, 'LICHESS_ENCRYPTION_KEY') });
+  }
 
-  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
-  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
-  const authTag = cipher.getAuthTag();
+  if (keys.length === 0) {
+    throw new Error('LICHESS_ENCRYPTION_KEY is not set');
+  }
 
-  const out = Buffer.concat([iv, authTag, ciphertext]);
-  return out.toString('base64');
+  return keys;
 }
 
 /**
- * Decrypt token using AES-256-GCM.
- * Input format: base64([iv(12) | authTag(16) | ciphertext(N)])
+ * Id of the key new payloads are encrypted with
  */
-export function decryptToken(encrypted: string): string {
-  if (typeof encrypted !== 'string' || encrypted.length === 0) {
-    throw new Error('decryptToken: encrypted token must be a non-empty string');
-  }
-
-  let buf: Buffer;
-  try {
-    buf = Buffer.from(encrypted, 'base64');
-  } catch {
-    throw new Error('decryptToken: encrypted token must be base64');
-  }
+export function getCurrentKeyId(): string {
+  return getKeys()[0].id;
+}
 
+function decryptWithKey(buf: Buffer, key: Buffer, aad: string | null): string {
   if (buf.length < 12 + 16 + 1) {
     throw new Error('decryptToken: invalid payload length');
   }
@@ -73,9 +95,11 @@ export function decryptToken(encrypted: string): string {
   const authTag = buf.subarray(12, 28);
   const ciphertext = buf.subarray(28);
 
-  const key = getKeyBytes();
   const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
   decipher.setAuthTag(authTag);
+  if (aad !== null) {
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+  }
 
   try {
     const plain = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
@@ -85,3 +109,76 @@ export function decryptToken(encrypted: string): string {
   }
 }
 
+/**
+ * Key id of a v1 payload, or null for a legacy payload
+ */
+export function getPayloadKeyId(encrypted: string): string | null {
+  const parts = encrypted.split(':');
+  return parts.length === 3 && parts[0] === PAYLOAD_VERSION ? parts[1] : null;
+}
+
+/**
+ * Encrypt token using AES-256-GCM with the current key.
+ * Output format: "v1:<keyId>:" + base64([iv(12) | authTag(16) | ciphertext(N)])
+ */
+export function encryptToken(plain: string): string {
+  if (typeof plain !== 'string' || plain.length === 0) {
+    throw new Error('encryptToken: plain token must be a non-empty string');
+  }
+
+  const { id, key } = getKeys()[0];
+  const header = `${PAYLOAD_VERSION}:${id}`;
+  const iv = crypto.randomBytes(12);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(header, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  const out = Buffer.concat([iv, authTag, ciphertext]);
+  return `${header}:${out.toString('base64')}`;
+}
+
+/**
+ * Decrypt a v1 or legacy payload with any configured key.
+ */
+export function decryptToken(encrypted: string): string {
+  if (typeof encrypted !== 'string' || encrypted.length === 0) {
+    throw new Error('decryptToken: encrypted token must be a non-empty string');
+  }
+
+  const keys = getKeys();
+
+  if (encrypted.includes(':')) {
+    const keyId = getPayloadKeyId(encrypted);
+    if (keyId === null) {
+      throw new Error('decryptToken: unsupported payload version');
+    }
+    const entry = keys.find((key) => key.id === keyId);
+    if (!entry) {
+      throw new Error(`decryptToken: unknown key id "${keyId}"`);
+    }
+    const body = Buffer.from(encrypted.slice(encrypted.lastIndexOf(':') + 1), 'base64');
+    return decryptWithKey(body, entry.key, `${PAYLOAD_VERSION}:${keyId}`);
+  }
+
+  // Legacy payloads carry no key id: whichever key authenticates wins
+  const buf = Buffer.from(encrypted, 'base64');
+  for (const { key } of keys) {
+    try {
+      return decryptWithKey(buf, key, null);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'decryptToken: invalid payload length') {
+        throw error;
+      }
+    }
+  }
+  throw new Error('decryptToken: authentication failed');
+}
+
+/**
+ * True if the payload is legacy or encrypted with a key other than the current one
+ */
+export function needsReencryption(encrypted: string): boolean {
+  return getPayloadKeyId(encrypted) !== getCurrentKeyId();
+}
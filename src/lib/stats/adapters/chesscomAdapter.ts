@@ -0,0 +1,117 @@
+import { platformFetch } from '@/lib/platformHttp';
+import { fetchChessComGames } from '@/lib/stats/gamesActivityV2';
+import { computeChesscomRatingsForUser } from '@/lib/stats/computeChesscomRatingsForUser';
+import { prismaArchiveCache, saveArchiveCacheEntries } from '@/lib/stats/chesscomArchiveCache';
+import { EMPTY_TIMED_PUZZLES, parseChessComPuzzleRush } from '@/lib/stats/timedPuzzles';
+import type { TimedPuzzleSnapshot } from '@/lib/stats/timedPuzzles';
+import type {
+  PlatformAccount,
+  PlatformAdapter,
+  ProfileValidationResult,
+  PuzzleTotalResult,
+} from '@/lib/stats/platformAdapter';
+
+interface ChessComPlayer {
+  player_id?: number;
+  username?: string;
+  status?: string;
+}
+
+export const chesscomAdapter: PlatformAdapter = {
+  platform: 'chesscom',
+
+  async fetchGames(account: PlatformAccount, sinceMs: number, now: Date) {
+    const { games, archiveEntries, truncated } = await fetchChessComGames({
+      username: account.username,
+      sinceMs,
+      now,
+      cache: prismaArchiveCache,
+    });
+
+    // Monthly archives are never paged, and the stored games already act as the cursor.
+    // Cache entries are only saved after the games are stored, so a failed run refetches them.
+    return {
+      games,
+      cursorMs: null,
+      truncated,
+      commit: () => saveArchiveCacheEntries(archiveEntries),
+    };
+  },
+
+  fetchRatings(account: PlatformAccount) {
+    return computeChesscomRatingsForUser(account.username);
+  },
+
+  async fetchPuzzleTotal(): Promise<PuzzleTotalResult> {
+    // Chess.com does not expose a solved-puzzles counter on the public API
+    return {
+      status: 'UNSUPPORTED',
+      puzzleTotal: null,
+    };
+  },
+
+  async fetchTimedPuzzles(account: PlatformAccount): Promise<TimedPuzzleSnapshot> {
+    const response = await platformFetch(
+      `https://api.chess.com/pub/player/${account.username}/stats`,
+      {
+        timeoutMs: 10000, // 10s timeout
+        headers: {
+          'Accept': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Chess.com stats API returned ${response.status} ${response.statusText} for ${account.username}`);
+    }
+
+    return {
+      ...EMPTY_TIMED_PUZZLES,
+      ...parseChessComPuzzleRush(await response.json()),
+    };
+  },
+
+  async validateProfile(username: string): Promise<ProfileValidationResult> {
+    const normalizedUsername = username.trim();
+
+    try {
+      const response = await platformFetch(
+        `https://api.chess.com/pub/player/${normalizedUsername.toLowerCase()}`,
+        {
+          timeoutMs: 10000, // 10s timeout
+          headers: {
+            'Accept': 'application/json',
+          },
+        }
+      );
+
+      if (response.status === 404 || response.status === 410) {
+        return { exists: false };
+      }
+
+      if (!response.ok) {
+        return {
+          exists: false,
+          error: `Chess.com API returned ${response.status} ${response.statusText} for ${normalizedUsername}`,
+        };
+      }
+
+      const player = (await response.json()) as ChessComPlayer;
+
+      if (player.status === 'closed' || player.status === 'closed:fair_play_violations') {
+        return { exists: false };
+      }
+
+      return {
+        exists: true,
+        username: player.username ?? normalizedUsername,
+        platformUserId: player.player_id !== undefined ? String(player.player_id) : null,
+      };
+    } catch (error) {
+      return {
+        exists: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
@@ -0,0 +1,148 @@
+import { platformFetch } from '@/lib/platformHttp';
+import { fetchLichessGames } from '@/lib/stats/gamesActivityV2';
+import { computeLichessPuzzleCountsForUser } from '@/lib/stats/computeLichessPuzzleCountsForUser';
+import { fetchLichessPuzzleCounts } from '@/lib/stats/lichessPuzzleActivity';
+import { EMPTY_TIMED_PUZZLES, parseStormDashboard } from '@/lib/stats/timedPuzzles';
+import type { TimedPuzzleSnapshot } from '@/lib/stats/timedPuzzles';
+import type { Perf } from '@/lib/stats_v2/types';
+import type {
+  PerfRatings,
+  PlatformAccount,
+  PlatformAdapter,
+  PlatformRatings,
+  PuzzleActivityCounts,
+  ProfileValidationResult,
+  PuzzleTotalResult,
+} from '@/lib/stats/platformAdapter';
+
+interface LichessUser {
+  id?: string;
+  username?: string;
+  disabled?: boolean;
+  seenAt?: number;
+  perfs?: Record<string, { rating?: number; games?: number } | undefined>;
+}
+
+/**
+ * Lichess perf key for each tracked time control
+ */
+const LICHESS_PERF_KEYS: Record<Perf, string> = {
+  bullet: 'bullet',
+  blitz: 'blitz',
+  rapid: 'rapid',
+  classical: 'classical',
+  daily: 'correspondence',
+  chess960: 'chess960',
+};
+
+/**
+ * Fetch the public Lichess user document
+ * Returns null on 404, throws on other failures
+ */
+async function fetchLichessUser(username: string): Promise<LichessUser | null> {
+  const response = await platformFetch(`https://lichess.org/api/user/${username}`, {
+    timeoutMs: 10000, // 10s timeout
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Lichess API returned ${response.status} ${response.statusText} for ${username}`);
+  }
+
+  return (await response.json()) as LichessUser;
+}
+
+export const lichessAdapter: PlatformAdapter = {
+  platform: 'lichess',
+
+  fetchGames(account: PlatformAccount, sinceMs: number, now: Date) {
+    // The export is public; the student's token is kept out of it so a revoked one can't break the games sync
+    return fetchLichessGames({
+      username: account.username,
+      sinceMs,
+      token: process.env.LICHESS_TOKEN ?? undefined,
+      now,
+    });
+  },
+
+  async fetchRatings(account: PlatformAccount): Promise<PlatformRatings> {
+    const userData = await fetchLichessUser(account.username);
+
+    const perfRatings: PerfRatings = {};
+    for (const [perf, key] of Object.entries(LICHESS_PERF_KEYS) as Array<[Perf, string]>) {
+      const entry = userData?.perfs?.[key];
+      // Skip controls the student has never played (placeholder 1500 rating)
+      if (typeof entry?.rating === 'number' && entry.games !== 0) {
+        perfRatings[perf] = entry.rating;
+      }
+    }
+
+    return {
+      rapidRating: userData?.perfs?.rapid?.rating ?? null,
+      blitzRating: userData?.perfs?.blitz?.rating ?? null,
+      puzzleRating: userData?.perfs?.puzzle?.rating ?? null,
+      perfRatings,
+      lastSeenMs: userData?.seenAt ?? null,
+    };
+  },
+
+  fetchPuzzleTotal(account: PlatformAccount): Promise<PuzzleTotalResult> {
+    return computeLichessPuzzleCountsForUser(account.studentId);
+  },
+
+  fetchPuzzleActivity(account: PlatformAccount, now: Date): Promise<PuzzleActivityCounts> {
+    if (!account.accessToken) {
+      throw new Error('LICHESS_TOKEN_MISSING');
+    }
+    return fetchLichessPuzzleCounts(account.accessToken, now);
+  },
+
+  async fetchTimedPuzzles(account: PlatformAccount): Promise<TimedPuzzleSnapshot> {
+    // Public Storm dashboard; 30 days keeps the 7d baseline's day in range
+    const response = await platformFetch(
+      `https://lichess.org/api/storm/dashboard/${account.username}?days=30`,
+      {
+        timeoutMs: 10000, // 10s timeout
+        headers: {
+          'Accept': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Lichess storm dashboard returned ${response.status} ${response.statusText} for ${account.username}`);
+    }
+
+    return {
+      ...EMPTY_TIMED_PUZZLES,
+      stormDays: parseStormDashboard(await response.json()),
+    };
+  },
+
+  async validateProfile(username: string): Promise<ProfileValidationResult> {
+    try {
+      const userData = await fetchLichessUser(username.trim().toLowerCase());
+
+      if (!userData || userData.disabled) {
+        return { exists: false };
+      }
+
+      return {
+        exists: true,
+        username: userData.username ?? username.trim(),
+        platformUserId: userData.id ?? null,
+      };
+    } catch (error) {
+      return {
+        exists: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
@@ -0,0 +1,50 @@
+import { prisma } from '@/lib/prisma';
+import type { ChessComArchiveCache, ChessComArchiveCacheEntry } from '@/lib/stats/gamesActivityV2';
+
+/**
+ * Archive cache backed by the chesscom_archive_cache table
+ */
+export const prismaArchiveCache: ChessComArchiveCache = {
+  async get(urls: string[]) {
+    const entries = new Map<string, ChessComArchiveCacheEntry>();
+    if (urls.length === 0) {
+      return entries;
+    }
+
+    const rows = await prisma.chesscom_archive_cache.findMany({
+      where: { url: { in: urls } },
+    });
+
+    for (const row of rows) {
+      entries.set(row.url, {
+        url: row.url,
+        bodyHash: row.body_hash,
+        etag: row.etag,
+        lastModified: row.last_modified,
+        fetchedAt: row.fetched_at,
+      });
+    }
+
+    return entries;
+  },
+};
+
+/**
+ * Upsert archive cache entries after their games have been stored
+ */
+export async function saveArchiveCacheEntries(entries: ChessComArchiveCacheEntry[]): Promise<void> {
+  for (const entry of entries) {
+    const data = {
+      body_hash: entry.bodyHash,
+      etag: entry.etag,
+      last_modified: entry.lastModified,
+      fetched_at: entry.fetchedAt,
+    };
+
+    await prisma.chesscom_archive_cache.upsert({
+      where: { url: entry.url },
+      update: data,
+      create: { url: entry.url, ...data },
+    });
+  }
+}
@@ -1,72 +1,78 @@
+import { platformFetch } from '@/lib/platformHttp';
+import type { Perf } from '@/lib/stats_v2/types';
+import type { PerfRatings, PlatformRatings } from '@/lib/stats/platformAdapter';
+
+/**
+ * Chess.com stats key for each tracked time control
+ * (the public API only reports Chess960 ratings for daily games)
+ */
+const CHESSCOM_STATS_KEYS: Record<Perf, string | null> = {
+  bullet: 'chess_bullet',
+  blitz: 'chess_blitz',
+  rapid: 'chess_rapid',
+  classical: null,
+  daily: 'chess_daily',
+  chess960: 'chess960_daily',
+};
+
+function emptyRatings(): PlatformRatings {
+  return {
+    rapidRating: null,
+    blitzRating: null,
+    puzzleRating: null,
+    perfRatings: {},
+  };
+}
+
 /**
  * Compute Chess.com ratings for a user (public API, no OAuth required)
  * @param username - Chess.com username
- * @returns Ratings object with rapid, blitz, and puzzle ratings
+ * @returns Ratings object with rapid, blitz, puzzle and per time control ratings
  */
 export async function computeChesscomRatingsForUser(
   username: string
-): Promise<{
-  rapidRating: number | null;
-  blitzRating: number | null;
-  puzzleRating: number | null;
-}> {
+): Promise<PlatformRatings> {
   if (!username || username.trim().length === 0) {
-    return {
-      rapidRating: null,
-      blitzRating: null,
-      puzzleRating: null,
-    };
+    return emptyRatings();
   }
 
   const normalizedUsername = username.trim();
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
-
-    const response = await fetch(
+    const response = await platformFetch(
       `https://api.chess.com/pub/player/${normalizedUsername}/stats`,
       {
-        signal: controller.signal,
+        timeoutMs: 10000, // 10s timeout
         headers: {
           'Accept': 'application/json',
-          'User-Agent': 'RoboChess/1.0',
         },
       }
     );
 
-    clearTimeout(timeoutId);
-
     if (!response.ok) {
-      if (response.status === 404) {
-        return {
-          rapidRating: null,
-          blitzRating: null,
-          puzzleRating: null,
-        };
-      }
-      // For other errors, return nulls without throwing
-      return {
-        rapidRating: null,
-        blitzRating: null,
-        puzzleRating: null,
-      };
+      // 404 and other errors: return nulls without throwing
+      return emptyRatings();
     }
 
     const statsData = await response.json();
 
+    const perfRatings: PerfRatings = {};
+    for (const [perf, key] of Object.entries(CHESSCOM_STATS_KEYS) as Array<[Perf, string | null]>) {
+      const rating = key ? statsData?.[key]?.last?.rating : undefined;
+      if (typeof rating === 'number') {
+        perfRatings[perf] = rating;
+      }
+    }
+
     return {
       rapidRating: statsData?.chess_rapid?.last?.rating ?? null,
       blitzRating: statsData?.chess_blitz?.last?.rating ?? null,
       puzzleRating: statsData?.tactics?.highest?.rating ?? null, // Note: Chess.com uses 'highest' not 'last' for tactics
+      perfRatings,
     };
-  } catch (error) {
+  } catch {
     // On any error (timeout, network, parse), return nulls without throwing
-    return {
-      rapidRating: null,
-      blitzRating: null,
-      puzzleRating: null,
-    };
+    return emptyRatings();
   }
 }
 
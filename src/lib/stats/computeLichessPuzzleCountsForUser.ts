@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma';
+import { platformFetch } from '@/lib/platformHttp';
 
 export type LichessPuzzleSyncStatus =
   | 'OK'
@@ -62,18 +63,12 @@ export async function computeLichessPuzzleCountsForUser(
 
   // Fetch public user JSON from Lichess
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
-
-    const response = await fetch(`https://lichess.org/api/user/${username}`, {
-      signal: controller.signal,
+    const response = await platformFetch(`https://lichess.org/api/user/${username}`, {
       headers: {
         'Accept': 'application/json',
       },
     });
 
-    clearTimeout(timeoutId);
-
     if (!response.ok) {
       if (response.status === 404) {
         return {
@@ -105,7 +100,7 @@ export async function computeLichessPuzzleCountsForUser(
       fetchError instanceof Error ? fetchError.message : String(fetchError);
 
     // Handle abort (timeout)
-    if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+    if (fetchError instanceof Error && (fetchError.name === 'AbortError' || fetchError.name === 'TimeoutError')) {
       return {
         status: 'ERROR',
         puzzleTotal: null,
@@ -0,0 +1,60 @@
+/**
+ * Delta windows: 24h, 3d, 7d, 30d, 90d and since the season start
+ * (STATS_SEASON_START, e.g. "2024-09-01"; the window is skipped while unset)
+ * Deltas are measured against a baseline stats snapshot taken at, or shortly before, the window start
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type DeltaWindowKey = '24h' | '3d' | '7d' | '30d' | '90d' | 'season';
+
+export const DELTA_WINDOW_KEYS: DeltaWindowKey[] = ['24h', '3d', '7d', '30d', '90d', 'season'];
+
+const FIXED_WINDOW_MS: Record<Exclude<DeltaWindowKey, 'season'>, number> = {
+  '24h': DAY_MS,
+  '3d': 3 * DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+};
+
+/**
+ * How much older than the window start a baseline snapshot may be
+ * Scales with the window: 12h for 24h, 24h for 7d, ~4 days for 30d, ~13 days for 90d
+ */
+export function baselineToleranceMs(windowMs: number): number {
+  return Math.max(12 * HOUR_MS, windowMs / 7);
+}
+
+/**
+ * Season start from STATS_SEASON_START; null when unset, malformed or in the future
+ */
+export function getSeasonStart(now: Date): Date | null {
+  const raw = process.env.STATS_SEASON_START?.trim();
+  if (!raw) {
+    return null;
+  }
+  const start = new Date(raw);
+  if (Number.isNaN(start.getTime()) || start.getTime() > now.getTime()) {
+    return null;
+  }
+  return start;
+}
+
+/**
+ * Start of a window, or null for the season window while no season is configured
+ */
+export function getWindowStart(key: DeltaWindowKey, now: Date): Date | null {
+  if (key === 'season') {
+    return getSeasonStart(now);
+  }
+  return new Date(now.getTime() - FIXED_WINDOW_MS[key]);
+}
+
+/**
+ * True if a baseline snapshot (taken at or before the window start) is recent enough to measure the window
+ */
+export function isBaselineFresh(capturedAt: Date, windowStart: Date, windowMs: number): boolean {
+  return capturedAt.getTime() >= windowStart.getTime() - baselineToleranceMs(windowMs);
+}
@@ -5,13 +5,20 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
-  computeFromLichess,
   computeFromChessCom,
+  fetchLichessGames,
+  LICHESS_EXPORT_MAX,
+  LICHESS_CORRESPONDENCE_LOOKBACK_MS,
+  fetchChessComGames,
+  normalizeLichessGame,
+  normalizeChessComGame,
   msSince,
   isWithin,
   safeJson,
   safeNdjsonLineParse,
 } from './gamesActivityV2';
+import type { ChessComArchiveCache, ChessComArchiveCacheEntry } from './gamesActivityV2';
+import { resetPlatformHttp } from '@/lib/platformHttp';
 
 // Mock global fetch
 global.fetch = vi.fn();
@@ -19,7 +26,8 @@ global.fetch = vi.fn();
 describe('gamesActivityV2', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    // Reset Date if needed
+    // Fresh per-host limiters, no 429 pause carried over from earlier tests
+    resetPlatformHttp();
   });
 
   describe('Helper utilities', () => {
@@ -57,141 +65,6 @@ describe('gamesActivityV2', () => {
     });
   });
 
-  describe('computeFromLichess', () => {
-    it('counts rapid and blitz games correctly from NDJSON', async () => {
-      const now = new Date('2024-01-15T12:00:00Z');
-      const since24h = now.getTime() - 24 * 60 * 60 * 1000;
-      const since7d = now.getTime() - 7 * 24 * 60 * 60 * 1000;
-
-      // Rapid games: 2 in last 24h, 1 between 24h and 7d
-      const rapidGame1 = { lastMoveAt: now.getTime() - 12 * 60 * 60 * 1000 }; // 12h ago (in 24h)
-      const rapidGame2 = { lastMoveAt: now.getTime() - 6 * 60 * 60 * 1000 }; // 6h ago (in 24h)
-      const rapidGame3 = { lastMoveAt: now.getTime() - 3 * 24 * 60 * 60 * 1000 }; // 3d ago (in 7d, not 24h)
-
-      // Blitz games: 1 in last 24h, 2 between 24h and 7d
-      const blitzGame1 = { lastMoveAt: now.getTime() - 8 * 60 * 60 * 1000 }; // 8h ago (in 24h)
-      const blitzGame2 = { lastMoveAt: now.getTime() - 2 * 24 * 60 * 60 * 1000 }; // 2d ago (in 7d, not 24h)
-      const blitzGame3 = { lastMoveAt: now.getTime() - 5 * 24 * 60 * 60 * 1000 }; // 5d ago (in 7d, not 24h)
-
-      const rapidNdjson = [
-        JSON.stringify(rapidGame1),
-        JSON.stringify(rapidGame2),
-        JSON.stringify(rapidGame3),
-      ].join('\n');
-
-      const blitzNdjson = [
-        JSON.stringify(blitzGame1),
-        JSON.stringify(blitzGame2),
-        JSON.stringify(blitzGame3),
-      ].join('\n');
-
-      // Mock fetch for rapid
-      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        text: async () => rapidNdjson,
-      });
-
-      // Mock fetch for blitz
-      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        text: async () => blitzNdjson,
-      });
-
-      // Note: sleep happens between fetch calls, but since we're mocking fetch,
-      // the actual delay doesn't affect test results. We can just await normally.
-      const result = await computeFromLichess({ username: 'testuser', now });
-
-      expect(result.rapid24h).toBe(2);
-      expect(result.rapid7d).toBe(3);
-      expect(result.blitz24h).toBe(1);
-      expect(result.blitz7d).toBe(3);
-      expect(result.computedAt).toBe(now.toISOString());
-    });
-
-    it('handles malformed lines gracefully', async () => {
-      const now = new Date('2024-01-15T12:00:00Z');
-
-      const ndjsonWithInvalidLines = [
-        JSON.stringify({ lastMoveAt: now.getTime() - 12 * 60 * 60 * 1000 }),
-        'invalid json line',
-        JSON.stringify({ lastMoveAt: now.getTime() - 6 * 60 * 60 * 1000 }),
-        '{ broken json',
-      ].join('\n');
-
-      // Mock fetch for rapid (return same for both calls)
-      (global.fetch as ReturnType<typeof vi.fn>)
-        .mockResolvedValueOnce({
-          ok: true,
-          text: async () => ndjsonWithInvalidLines,
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          text: async () => ndjsonWithInvalidLines,
-        });
-
-      const result = await computeFromLichess({ username: 'testuser', now });
-
-      // Should count only valid games (2 per perf type)
-      expect(result.rapid24h).toBe(2);
-      expect(result.blitz24h).toBe(2);
-    });
-
-    it('includes Authorization header when token is provided', async () => {
-      const now = new Date('2024-01-15T12:00:00Z');
-      const token = 'test-token-123';
-
-      (global.fetch as ReturnType<typeof vi.fn>)
-        .mockResolvedValueOnce({
-          ok: true,
-          text: async () => '',
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          text: async () => '',
-        });
-
-      await computeFromLichess({ username: 'testuser', now, token });
-
-      expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('lichess.org'),
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            Authorization: `Bearer ${token}`,
-          }),
-        })
-      );
-    });
-
-    it('handles fetch errors gracefully', async () => {
-      const now = new Date('2024-01-15T12:00:00Z');
-
-      (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('Network error'));
-
-      const result = await computeFromLichess({ username: 'testuser', now });
-
-      // Should return zeros on error
-      expect(result.rapid24h).toBe(0);
-      expect(result.rapid7d).toBe(0);
-      expect(result.blitz24h).toBe(0);
-      expect(result.blitz7d).toBe(0);
-    });
-
-    it('handles non-ok response gracefully', async () => {
-      const now = new Date('2024-01-15T12:00:00Z');
-
-      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-        text: async () => 'Not Found',
-      });
-
-      const result = await computeFromLichess({ username: 'testuser', now });
-
-      expect(result.rapid24h).toBe(0);
-      expect(result.rapid7d).toBe(0);
-    });
-  });
-
   describe('computeFromChessCom', () => {
     it('counts rapid and blitz games correctly from archives', async () => {
       const now = new Date('2024-01-15T12:00:00Z');
@@ -400,5 +273,411 @@ describe('gamesActivityV2', () => {
       expect(result.rapid7d).toBe(1);
     });
   });
-});
 
+  describe('normalizeLichessGame', () => {
+    const baseGame = {
+      id: 'abcd1234',
+      rated: true,
+      speed: 'blitz',
+      status: 'mate',
+      winner: 'black',
+      lastMoveAt: 1705300000000,
+      players: {
+        white: { user: { id: 'opponent', name: 'Opponent' }, rating: 1720 },
+        black: { user: { id: 'testuser', name: 'TestUser' }, rating: 1650 },
+      },
+      opening: { eco: 'B01', name: 'Scandinavian Defense' },
+      pgn: '1. e4 d5 *',
+    };
+
+    it('maps the game from the student side', () => {
+      expect(normalizeLichessGame(baseGame, 'TestUser')).toEqual({
+        platform: 'lichess',
+        gameId: 'abcd1234',
+        timeClass: 'blitz',
+        rated: true,
+        result: 'win',
+        color: 'black',
+        opponentRating: 1720,
+        eco: 'B01',
+        openingName: 'Scandinavian Defense',
+        endTimeMs: 1705300000000,
+        pgn: '1. e4 d5 *',
+      });
+    });
+
+    it('treats finished games without a winner as draws', () => {
+      const game = { ...baseGame, winner: undefined, status: 'stalemate' };
+      expect(normalizeLichessGame(game, 'testuser')?.result).toBe('draw');
+    });
+
+    it('maps speeds and Chess960 to tracked time controls', () => {
+      expect(normalizeLichessGame({ ...baseGame, speed: 'ultraBullet' }, 'testuser')?.timeClass).toBe('bullet');
+      expect(normalizeLichessGame({ ...baseGame, speed: 'correspondence' }, 'testuser')?.timeClass).toBe('daily');
+      expect(normalizeLichessGame({ ...baseGame, variant: 'chess960' }, 'testuser')?.timeClass).toBe('chess960');
+    });
+
+    it('skips untracked variants', () => {
+      expect(normalizeLichessGame({ ...baseGame, variant: 'atomic' }, 'testuser')).toBeNull();
+    });
+  });
+
+  describe('normalizeChessComGame', () => {
+    const baseGame = {
+      url: 'https://www.chess.com/game/live/98765',
+      rated: true,
+      rules: 'chess',
+      time_class: 'rapid',
+      end_time: 1705300000,
+      eco: 'https://www.chess.com/openings/Scandinavian-Defense',
+      pgn: '[Event "Live Chess"]\n[ECO "B01"]\n\n1. e4 d5 1-0',
+      white: { username: 'TestUser', rating: 1500, result: 'win' },
+      black: { username: 'opponent', rating: 1480, result: 'resigned' },
+    };
+
+    it('maps the game from the student side', () => {
+      expect(normalizeChessComGame(baseGame, 'testuser')).toEqual({
+        platform: 'chesscom',
+        gameId: '98765',
+        timeClass: 'rapid',
+        rated: true,
+        result: 'win',
+        color: 'white',
+        opponentRating: 1480,
+        eco: 'B01',
+        openingName: 'Scandinavian Defense',
+        endTimeMs: 1705300000000,
+        pgn: baseGame.pgn,
+      });
+    });
+
+    it('maps draw result codes', () => {
+      const game = {
+        ...baseGame,
+        white: { ...baseGame.white, result: 'repetition' },
+        black: { ...baseGame.black, result: 'repetition' },
+      };
+      expect(normalizeChessComGame(game, 'testuser')?.result).toBe('draw');
+    });
+
+    it('prefers uuid over the URL id', () => {
+      expect(normalizeChessComGame({ ...baseGame, uuid: 'u-1' }, 'testuser')?.gameId).toBe('u-1');
+    });
+
+    it('maps time classes and Chess960, skipping other variants', () => {
+      expect(normalizeChessComGame({ ...baseGame, time_class: 'daily' }, 'testuser')?.timeClass).toBe('daily');
+      expect(normalizeChessComGame({ ...baseGame, rules: 'chess960' }, 'testuser')?.timeClass).toBe('chess960');
+      expect(normalizeChessComGame({ ...baseGame, rules: 'crazyhouse' }, 'testuser')).toBeNull();
+    });
+  });
+
+  describe('fetchLichessGames', () => {
+    // Lichess streams NDJSON; split the body into several chunks to exercise line buffering
+    function ndjsonResponse(lines: string[]) {
+      const body = lines.join('\n') + '\n';
+      const encoder = new TextEncoder();
+      const chunks = [body.slice(0, 7), body.slice(7, 40), body.slice(40)];
+      return {
+        ok: true,
+        status: 200,
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+          },
+        }),
+      };
+    }
+
+    const sinceMs = 1705200000000;
+    const now = new Date(sinceMs + 24 * 60 * 60 * 1000);
+    const game = (id: string, speed: string, lastMoveAt: number, variant = 'standard', createdAt = lastMoveAt - 600000) =>
+      JSON.stringify({
+        id,
+        variant,
+        speed,
+        status: 'resign',
+        winner: 'white',
+        createdAt,
+        lastMoveAt,
+        players: { white: { user: { id: 'testuser' } }, black: { user: { id: 'x' }, rating: 1600 } },
+      });
+
+    function mockExports(main: string[], correspondence: string[] = []) {
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(ndjsonResponse(main))
+        .mockResolvedValueOnce(ndjsonResponse(correspondence));
+    }
+
+    it('makes one oldest-first call across all perf types and returns the cursor', async () => {
+      mockExports([
+        game('g1', 'rapid', sinceMs + 1000, 'standard', sinceMs),
+        'not json',
+        game('g3', 'blitz', sinceMs + 3000, 'standard', sinceMs + 2000),
+        game('g2', 'blitz', sinceMs + 5000, 'atomic', sinceMs + 4000),
+      ]);
+
+      const result = await fetchLichessGames({ username: 'testuser', sinceMs, now });
+
+      const url = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+      expect(url).toContain(`since=${sinceMs}`);
+      expect(url).toContain('sort=dateAsc');
+      expect(url).not.toContain('perfType=');
+
+      expect(result.games.map((g) => g.gameId)).toEqual(['g1', 'g3']);
+      expect(result.games[0]).toMatchObject({ result: 'win', color: 'white', opponentRating: 1600 });
+      expect(result.cursorMs).toBe(sinceMs + 4000); // creation time of the last game; untracked variants count too
+      expect(result.truncated).toBe(false);
+    });
+
+    it('adds correspondence games that finished since the cursor, whenever they started', async () => {
+      const longAgo = sinceMs - 20 * 24 * 60 * 60 * 1000;
+      mockExports(
+        [game('c1', 'correspondence', sinceMs + 2000, 'standard', sinceMs + 1000)],
+        [
+          game('c1', 'correspondence', sinceMs + 2000, 'standard', sinceMs + 1000),
+          game('c2', 'correspondence', sinceMs + 60000, 'standard', longAgo),
+          game('c3', 'correspondence', sinceMs - 1000, 'standard', longAgo),
+        ]
+      );
+
+      const result = await fetchLichessGames({ username: 'testuser', sinceMs, now });
+
+      const url = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[1][0] as string;
+      expect(url).toContain('perfType=correspondence');
+      expect(url).toContain(`since=${now.getTime() - LICHESS_CORRESPONDENCE_LOOKBACK_MS}`);
+      expect(result.games.map((g) => [g.gameId, g.timeClass])).toEqual([
+        ['c1', 'daily'],
+        ['c2', 'daily'],
+      ]);
+      expect(result.cursorMs).toBe(sinceMs + 1000);
+    });
+
+    it('flags truncation and resumes from the last returned game when the export hits the cap', async () => {
+      const lines = Array.from({ length: LICHESS_EXPORT_MAX }, (_, i) =>
+        game(`g${i}`, 'blitz', sinceMs + 1000000, 'standard', sinceMs + i)
+      );
+      mockExports(lines);
+
+      const result = await fetchLichessGames({ username: 'testuser', sinceMs, now });
+
+      expect(result.truncated).toBe(true);
+      // Not the latest finish: games created after the last one returned are still to come
+      expect(result.cursorMs).toBe(sinceMs + LICHESS_EXPORT_MAX - 1);
+    });
+
+    it('returns a null cursor when there are no new games', async () => {
+      mockExports([]);
+
+      const result = await fetchLichessGames({ username: 'testuser', sinceMs, now });
+
+      expect(result).toEqual({ games: [], cursorMs: null, truncated: false });
+    });
+
+    it('includes Authorization header when token is provided', async () => {
+      mockExports([]);
+
+      await fetchLichessGames({ username: 'testuser', sinceMs, token: 'test-token', now });
+
+      for (const [, init] of (global.fetch as ReturnType<typeof vi.fn>).mock.calls) {
+        expect(((init as RequestInit).headers as Record<string, string>)['Authorization']).toBe('Bearer test-token');
+      }
+    });
+
+    it('throws on non-ok response', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+      });
+
+      await expect(fetchLichessGames({ username: 'testuser', sinceMs: 0 })).rejects.toThrow('429');
+    });
+
+    it('throws on fetch errors', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(fetchLichessGames({ username: 'testuser', sinceMs: 0 })).rejects.toThrow('Network error');
+    });
+  });
+
+  describe('fetchChessComGames', () => {
+    it('fetches every month since the cursor and drops older games', async () => {
+      const now = new Date('2024-03-10T12:00:00Z');
+      const sinceMs = new Date('2024-01-20T00:00:00Z').getTime();
+
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            archives: [
+              'https://api.chess.com/pub/player/testuser/games/2023/12',
+              'https://api.chess.com/pub/player/testuser/games/2024/01',
+              'https://api.chess.com/pub/player/testuser/games/2024/02',
+              'https://api.chess.com/pub/player/testuser/games/2024/03',
+            ],
+          }),
+      });
+
+      const game = (id: string, endIso: string) => ({
+        uuid: id,
+        time_class: 'blitz',
+        end_time: Math.floor(new Date(endIso).getTime() / 1000),
+        white: { username: 'testuser', result: 'win' },
+        black: { username: 'other', result: 'checkmated' },
+      });
+
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () => JSON.stringify({ games: [game('old', '2024-01-05T00:00:00Z'), game('jan', '2024-01-25T00:00:00Z')] }),
+        })
+        .mockResolvedValueOnce({ ok: true, text: async () => JSON.stringify({ games: [] }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () => JSON.stringify({ games: [game('mar', '2024-03-09T00:00:00Z')] }),
+        });
+
+      const { games, truncated } = await fetchChessComGames({ username: 'testuser', sinceMs, now });
+
+      expect(games.map((g) => g.gameId)).toEqual(['jan', 'mar']);
+      expect(truncated).toBe(false);
+      expect(global.fetch).toHaveBeenCalledTimes(4); // archives list + Jan, Feb, Mar
+    });
+
+    it('stops at a failed month so the next run starts from it again', async () => {
+      const now = new Date('2024-03-10T12:00:00Z');
+      const sinceMs = new Date('2024-01-20T00:00:00Z').getTime();
+
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({
+          ok: true,
+          text: async () =>
+            JSON.stringify({
+              archives: [
+                'https://api.chess.com/pub/player/testuser/games/2024/01',
+                'https://api.chess.com/pub/player/testuser/games/2024/02',
+                'https://api.chess.com/pub/player/testuser/games/2024/03',
+              ],
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () =>
+            JSON.stringify({
+              games: [
+                {
+                  uuid: 'jan',
+                  time_class: 'blitz',
+                  end_time: Math.floor(new Date('2024-01-25T00:00:00Z').getTime() / 1000),
+                  white: { username: 'testuser', result: 'win' },
+                  black: { username: 'other', result: 'checkmated' },
+                },
+              ],
+            }),
+        })
+        .mockResolvedValueOnce({ ok: false, status: 500 });
+
+      const result = await fetchChessComGames({ username: 'testuser', sinceMs, now });
+
+      expect(result.games.map((g) => g.gameId)).toEqual(['jan']);
+      expect(result.truncated).toBe(true);
+      expect(result.archiveEntries.map((e) => e.url)).toEqual(['https://api.chess.com/pub/player/testuser/games/2024/01']);
+      expect(global.fetch).toHaveBeenCalledTimes(3); // archives list + Jan, Feb; March is left for the next run
+    });
+
+    describe('with an archive cache', () => {
+      const now = new Date('2024-03-03T12:00:00Z');
+      const sinceMs = new Date('2024-02-25T00:00:00Z').getTime();
+      const febUrl = 'https://api.chess.com/pub/player/testuser/games/2024/02';
+      const marUrl = 'https://api.chess.com/pub/player/testuser/games/2024/03';
+      const marGame = {
+        uuid: 'mar',
+        time_class: 'rapid',
+        end_time: Math.floor(new Date('2024-03-02T00:00:00Z').getTime() / 1000),
+        white: { username: 'testuser', result: 'win' },
+        black: { username: 'other', result: 'resigned' },
+      };
+      const marBody = JSON.stringify({ games: [marGame] });
+
+      function mockArchivesList() {
+        (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+          ok: true,
+          text: async () => JSON.stringify({ archives: [febUrl, marUrl] }),
+        });
+      }
+
+      function cacheOf(entries: ChessComArchiveCacheEntry[]): ChessComArchiveCache {
+        return { get: async () => new Map(entries.map((e) => [e.url, e])) };
+      }
+
+      it('never refetches a month cached after it closed', async () => {
+        mockArchivesList();
+        (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ etag: '"m1"', 'last-modified': 'Sat, 02 Mar 2024 00:00:00 GMT' }),
+          text: async () => marBody,
+        });
+
+        const cache = cacheOf([
+          { url: febUrl, bodyHash: 'x', etag: null, lastModified: null, fetchedAt: new Date('2024-03-01T06:00:00Z') },
+        ]);
+        const result = await fetchChessComGames({ username: 'testuser', sinceMs, now, cache });
+
+        expect(global.fetch).toHaveBeenCalledTimes(2); // archives list + March only
+        expect(result.games.map((g) => g.gameId)).toEqual(['mar']);
+        expect(result.archiveEntries).toEqual([
+          { url: marUrl, bodyHash: expect.any(String), etag: '"m1"', lastModified: 'Sat, 02 Mar 2024 00:00:00 GMT', fetchedAt: now },
+        ]);
+      });
+
+      it('revalidates the current month and skips it on 304', async () => {
+        mockArchivesList();
+        (global.fetch as ReturnType<typeof vi.fn>)
+          .mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ games: [] }) })
+          .mockResolvedValueOnce({ ok: false, status: 304 });
+
+        const marEntry = {
+          url: marUrl,
+          bodyHash: 'h',
+          etag: '"m1"',
+          lastModified: 'Sat, 02 Mar 2024 00:00:00 GMT',
+          fetchedAt: new Date('2024-03-02T12:00:00Z'),
+        };
+        const result = await fetchChessComGames({ username: 'testuser', sinceMs, now, cache: cacheOf([marEntry]) });
+
+        const marInit = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[2][1] as RequestInit;
+        expect(marInit.headers).toMatchObject({
+          'If-None-Match': '"m1"',
+          'If-Modified-Since': 'Sat, 02 Mar 2024 00:00:00 GMT',
+        });
+        expect(result.games).toEqual([]);
+        expect(result.archiveEntries.find((e) => e.url === marUrl)).toEqual({ ...marEntry, fetchedAt: now });
+      });
+
+      it('treats a 200 with an unchanged body hash as unchanged', async () => {
+        const marchOk = () =>
+          (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ ok: true, status: 200, text: async () => marBody });
+
+        mockArchivesList();
+        (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () => JSON.stringify({ games: [] }),
+        });
+        marchOk();
+        const first = await fetchChessComGames({ username: 'testuser', sinceMs, now });
+        expect(first.games).toHaveLength(1);
+
+        // February was cached after it closed, so only March is fetched again
+        mockArchivesList();
+        marchOk();
+        const second = await fetchChessComGames({ username: 'testuser', sinceMs, now, cache: cacheOf(first.archiveEntries) });
+        expect(second.games).toEqual([]);
+        expect(global.fetch).toHaveBeenCalledTimes(5);
+      });
+    });
+  });
+});
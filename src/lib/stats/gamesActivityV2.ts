@@ -1,8 +1,12 @@
 /**
- * Games Activity V2 - Pure computation module for game counts
+ * Games Activity V2 - Pure computation module for game counts and game exports
  * No database writes, no Next.js dependencies
  */
 
+import { createHash } from 'crypto';
+import { platformFetch } from '@/lib/platformHttp';
+import type { Perf, Platform } from '@/lib/stats_v2/types';
+
 export type GamesCounts = {
   rapid24h: number;
   rapid7d: number;
@@ -11,14 +15,76 @@ export type GamesCounts = {
   computedAt: string; // ISO string
 };
 
+export type GameResult = 'win' | 'loss' | 'draw';
+export type GameColor = 'white' | 'black';
+
+/**
+ * A single finished game, normalised across platforms and seen from the student's side
+ */
+export type NormalizedGame = {
+  platform: Platform;
+  gameId: string;
+  timeClass: Perf;
+  rated: boolean | null;
+  result: GameResult | null;
+  color: GameColor | null;
+  opponentRating: number | null;
+  eco: string | null;
+  openingName: string | null;
+  endTimeMs: number;
+  pgn: string | null;
+};
+
+/**
+ * Result of an incremental game fetch
+ */
+export type GamesFetchResult = {
+  games: NormalizedGame[];
+  /** Where the next fetch resumes (Lichess: creation time of the last game returned), or null if the platform keeps no cursor */
+  cursorMs: number | null;
+  /** True when the fetch stopped early (page cap, failed archive month), so newer games are left for the next run */
+  truncated: boolean;
+  /** Saves fetch bookkeeping (e.g. archive cache entries); call only after the games are stored */
+  commit?: () => Promise<void>;
+};
+
+interface LichessGamePlayer {
+  user?: { id?: string; name?: string };
+  rating?: number;
+}
+
 interface LichessGame {
+  id?: string;
+  rated?: boolean;
+  variant?: string;
+  speed?: string;
+  status?: string;
+  winner?: string;
+  createdAt?: number;
   lastMoveAt?: number;
+  players?: { white?: LichessGamePlayer; black?: LichessGamePlayer };
+  opening?: { eco?: string; name?: string };
+  pgn?: string;
   [key: string]: unknown;
 }
 
+interface ChessComGamePlayer {
+  username?: string;
+  rating?: number;
+  result?: string;
+}
+
 interface ChessComGame {
+  url?: string;
+  uuid?: string;
+  rated?: boolean;
+  rules?: string;
   time_class?: string;
   end_time?: number;
+  eco?: string;
+  pgn?: string;
+  white?: ChessComGamePlayer;
+  black?: ChessComGamePlayer;
   [key: string]: unknown;
 }
 
@@ -72,13 +138,6 @@ export function safeNdjsonLineParse<T = unknown>(line: string): T | null {
   return safeJson<T>(trimmed);
 }
 
-/**
- * Sleep for a given number of milliseconds
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 /**
  * Get UTC time windows based on now
  */
@@ -125,6 +184,29 @@ function getArchiveMonthsToFetch(now: Date): string[] {
   return months;
 }
 
+/**
+ * Get every archive month (YYYY/MM) between sinceMs and now, inclusive
+ */
+function getArchiveMonthsBetween(sinceMs: number, now: Date): string[] {
+  const since = new Date(sinceMs);
+  let year = since.getUTCFullYear();
+  let month = since.getUTCMonth() + 1;
+  const endYear = now.getUTCFullYear();
+  const endMonth = now.getUTCMonth() + 1;
+
+  const months: string[] = [];
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    months.push(`${year}/${String(month).padStart(2, '0')}`);
+    month++;
+    if (month === 13) {
+      month = 1;
+      year++;
+    }
+  }
+
+  return months;
+}
+
 /**
  * Filter archive URLs to only include the months we need
  */
@@ -144,115 +226,247 @@ function filterArchiveUrls(archives: string[], monthsToFetch: string[]): string[
 // ============================================================================
 
 /**
- * Compute game counts from Lichess
+ * Build request headers for the Lichess game export
  */
-export async function computeFromLichess(params: {
-  username: string;
-  now?: Date;
-  token?: string; // optional, for higher rate limits; default from env if present
-}): Promise<GamesCounts> {
-  const { username, now = new Date(), token } = params;
-  const { since24hMs, since7dMs } = getTimeWindows(now);
-
+function buildLichessHeaders(token?: string): Record<string, string> {
   // Use token from params, or fallback to env variable if available
   const authToken = token || (typeof process !== 'undefined' && process.env?.LICHESS_TOKEN) || undefined;
 
   const headers: Record<string, string> = {
     Accept: 'application/x-ndjson',
-    'User-Agent': 'RoboChess/1.0',
   };
 
   if (authToken) {
     headers['Authorization'] = `Bearer ${authToken}`;
   }
 
-  let rapid24h = 0;
-  let rapid7d = 0;
-  let blitz24h = 0;
-  let blitz7d = 0;
+  return headers;
+}
+
+/**
+ * Maximum games per Lichess export call; a full page means older games may be missing
+ */
+export const LICHESS_EXPORT_MAX = 400;
+
+/**
+ * Read an NDJSON response body line by line as it streams in
+ */
+async function* readNdjsonLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line.trim().length > 0) {
+          yield line;
+        }
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim().length > 0) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Lichess statuses for games that never finished (no result to record)
+ */
+const LICHESS_UNFINISHED_STATUSES = new Set(['created', 'started', 'aborted', 'noStart', 'unknownFinish']);
+
+/**
+ * Lichess speed -> tracked time control (standard chess only)
+ */
+const LICHESS_SPEED_PERFS: Record<string, Perf> = {
+  ultraBullet: 'bullet',
+  bullet: 'bullet',
+  blitz: 'blitz',
+  rapid: 'rapid',
+  classical: 'classical',
+  correspondence: 'daily',
+};
 
-  // Fetch rapid stats
-  const rapidCounts = await fetchLichessPerfType(username, 'rapid', since24hMs, since7dMs, headers);
-  rapid24h = rapidCounts.games24h;
-  rapid7d = rapidCounts.games7d;
+/**
+ * Time control a Lichess game counts towards
+ * Chess960 is tracked as its own control at any speed; other variants are not tracked
+ */
+function lichessPerfOf(game: LichessGame): Perf | null {
+  if (game.variant === 'chess960') {
+    return 'chess960';
+  }
+  if (game.variant && game.variant !== 'standard' && game.variant !== 'fromPosition') {
+    return null;
+  }
+  return (game.speed && LICHESS_SPEED_PERFS[game.speed]) || null;
+}
+
+/**
+ * Normalise a Lichess export game from the student's side
+ * Returns null for games without an id, end time or tracked time control
+ */
+export function normalizeLichessGame(game: LichessGame, username: string): NormalizedGame | null {
+  if (!game.id || typeof game.lastMoveAt !== 'number') {
+    return null;
+  }
+  const timeClass = lichessPerfOf(game);
+  if (!timeClass) {
+    return null;
+  }
+
+  const userId = username.toLowerCase();
+  let color: GameColor | null = null;
+  if (game.players?.white?.user?.id === userId) {
+    color = 'white';
+  } else if (game.players?.black?.user?.id === userId) {
+    color = 'black';
+  }
 
-  // Small sleep between calls (200-400ms for rate limiting)
-  await sleep(300);
+  let result: GameResult | null = null;
+  if (game.winner === 'white' || game.winner === 'black') {
+    result = color === null ? null : game.winner === color ? 'win' : 'loss';
+  } else if (game.status && !LICHESS_UNFINISHED_STATUSES.has(game.status)) {
+    result = 'draw';
+  }
 
-  // Fetch blitz stats
-  const blitzCounts = await fetchLichessPerfType(username, 'blitz', since24hMs, since7dMs, headers);
-  blitz24h = blitzCounts.games24h;
-  blitz7d = blitzCounts.games7d;
+  const opponent = color === 'white' ? game.players?.black : color === 'black' ? game.players?.white : undefined;
 
   return {
-    rapid24h,
-    rapid7d,
-    blitz24h,
-    blitz7d,
-    computedAt: now.toISOString(),
+    platform: 'lichess',
+    gameId: game.id,
+    timeClass,
+    rated: typeof game.rated === 'boolean' ? game.rated : null,
+    result,
+    color,
+    opponentRating: opponent?.rating ?? null,
+    eco: game.opening?.eco ?? null,
+    openingName: game.opening?.name ?? null,
+    endTimeMs: game.lastMoveAt,
+    pgn: typeof game.pgn === 'string' ? game.pgn : null,
   };
 }
 
 /**
- * Fetch and count games for a specific perf type from Lichess
+ * How far back the correspondence export looks for games that finished since the last sync
+ * The main export filters by creation time, so a game started before the cursor is never in it;
+ * correspondence games run for days or weeks, long past any cursor
+ */
+export const LICHESS_CORRESPONDENCE_LOOKBACK_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stream one Lichess games export
+ * lastCreatedMs is the creation time of the last game in the stream (the newest with sort=dateAsc)
  * Throws on fetch failure or non-ok response
  */
-async function fetchLichessPerfType(
+async function streamLichessExport(
+  url: string,
   username: string,
-  perfType: 'rapid' | 'blitz',
-  since24hMs: number,
-  since7dMs: number,
   headers: Record<string, string>
-): Promise<{ games24h: number; games7d: number }> {
-  let games24h = 0;
-  let games7d = 0;
-
-  const url = `https://lichess.org/api/games/user/${username}?since=${since7dMs}&max=400&perfType=${perfType}&moves=false&clocks=false&evals=false&opening=false&pgnInJson=false`;
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
+): Promise<{ games: NormalizedGame[]; lastCreatedMs: number | null; lineCount: number }> {
+  const games: NormalizedGame[] = [];
+  let lastCreatedMs: number | null = null;
+  let lineCount = 0;
 
   let response: Response;
   try {
-    response = await fetch(url, {
+    response = await platformFetch(url, {
       headers,
-      signal: controller.signal,
+      timeoutMs: 30000, // 30s timeout, covers the whole stream
     });
-    clearTimeout(timeoutId);
   } catch (fetchError) {
-    clearTimeout(timeoutId);
     // Throw on fetch failure (timeout/network error)
     throw new Error(
-      `Lichess ${perfType} fetch failed for ${username}: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`
+      `Lichess games fetch failed for ${username}: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`
     );
   }
 
   // Throw on non-ok response
   if (!response.ok) {
     throw new Error(
-      `Lichess ${perfType} API returned ${response.status} ${response.statusText} for ${username}`
+      `Lichess games API returned ${response.status} ${response.statusText} for ${username}`
     );
   }
 
-  // Parse response body
-  const text = await response.text();
-  const lines = text.split('\n').filter((line) => line.trim().length > 0);
+  if (!response.body) {
+    throw new Error(`Lichess games API returned an empty body for ${username}`);
+  }
 
   // Parse each line defensively (skip malformed lines, but don't throw)
-  for (const line of lines) {
+  for await (const line of readNdjsonLines(response.body)) {
+    lineCount++;
     const game = safeNdjsonLineParse<LichessGame>(line);
-    if (game?.lastMoveAt && typeof game.lastMoveAt === 'number') {
-      const gameEndMs = game.lastMoveAt;
-      if (isWithin(gameEndMs, since24hMs)) {
-        games24h++;
-        games7d++;
-      } else if (isWithin(gameEndMs, since7dMs)) {
-        games7d++;
-      }
+    if (!game) continue;
+
+    if (typeof game.createdAt === 'number') {
+      lastCreatedMs = game.createdAt;
+    }
+
+    const normalized = normalizeLichessGame(game, username);
+    if (normalized) {
+      games.push(normalized);
     }
   }
 
-  return { games24h, games7d };
+  return { games, lastCreatedMs, lineCount };
+}
+
+/**
+ * Fetch finished games from Lichess created at or after sinceMs, plus correspondence games
+ * that finished since then whatever their start
+ * The main export covers all perf types oldest first, so the cursor is the creation time of the
+ * last game returned and a truncated run resumes where it stopped. Variants other than Chess960 are dropped.
+ * Throws on fetch failure or non-ok response
+ */
+export async function fetchLichessGames(params: {
+  username: string;
+  sinceMs: number;
+  token?: string;
+  now?: Date;
+}): Promise<GamesFetchResult> {
+  const { username, sinceMs, token, now = new Date() } = params;
+  const headers = buildLichessHeaders(token);
+  const exportOptions = `max=${LICHESS_EXPORT_MAX}&moves=true&clocks=false&evals=false&opening=true&pgnInJson=true`;
+
+  const main = await streamLichessExport(
+    `https://lichess.org/api/games/user/${username}?since=${sinceMs}&sort=dateAsc&${exportOptions}`,
+    username,
+    headers
+  );
+
+  // Newest first, so a capped page drops the games least likely to have just finished
+  const correspondenceSinceMs = now.getTime() - LICHESS_CORRESPONDENCE_LOOKBACK_MS;
+  const correspondence = await streamLichessExport(
+    `https://lichess.org/api/games/user/${username}?since=${correspondenceSinceMs}&perfType=correspondence&sort=dateDesc&${exportOptions}`,
+    username,
+    headers
+  );
+
+  const seen = new Set(main.games.map((game) => game.gameId));
+  const games = [...main.games];
+  for (const game of correspondence.games) {
+    if (game.endTimeMs >= sinceMs && !seen.has(game.gameId)) {
+      seen.add(game.gameId);
+      games.push(game);
+    }
+  }
+
+  return {
+    games,
+    cursorMs: main.lastCreatedMs,
+    truncated: main.lineCount >= LICHESS_EXPORT_MAX || correspondence.lineCount >= LICHESS_EXPORT_MAX,
+  };
 }
 
 // ============================================================================
@@ -275,24 +489,72 @@ export async function computeFromChessCom(params: {
   let blitz24h = 0;
   let blitz7d = 0;
 
+  const allArchives = await fetchChessComArchiveList(username);
+
+  // Determine which months we need to fetch
+  const monthsToFetch = getArchiveMonthsToFetch(now);
+  const archivesToFetch = filterArchiveUrls(allArchives, monthsToFetch);
+
+  // Process each archive (skip failed archive fetches, but don't throw)
+  for (const archiveUrl of archivesToFetch) {
+    const archiveData = await fetchChessComArchive(archiveUrl);
+    const games = archiveData?.games || [];
+
+    // Count games by time_class and end_time
+    for (const game of games) {
+      if (
+        game.time_class &&
+        typeof game.time_class === 'string' &&
+        (game.time_class === 'rapid' || game.time_class === 'blitz') &&
+        game.end_time &&
+        typeof game.end_time === 'number'
+      ) {
+        const endMs = game.end_time * 1000; // Convert seconds to milliseconds
+
+        if (game.time_class === 'rapid') {
+          if (isWithin(endMs, since24hMs)) {
+            rapid24h++;
+            rapid7d++;
+          } else if (isWithin(endMs, since7dMs)) {
+            rapid7d++;
+          }
+        } else if (game.time_class === 'blitz') {
+          if (isWithin(endMs, since24hMs)) {
+            blitz24h++;
+            blitz7d++;
+          } else if (isWithin(endMs, since7dMs)) {
+            blitz7d++;
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    rapid24h,
+    rapid7d,
+    blitz24h,
+    blitz7d,
+    computedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Fetch the list of monthly archive URLs for a Chess.com player
+ * Throws on fetch failure or non-ok response
+ */
+async function fetchChessComArchiveList(username: string): Promise<string[]> {
   // Fetch archives list
   const archivesUrl = `https://api.chess.com/pub/player/${username}/games/archives`;
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
-
   let archivesResponse: Response;
   try {
-    archivesResponse = await fetch(archivesUrl, {
+    archivesResponse = await platformFetch(archivesUrl, {
       headers: {
         Accept: 'application/json',
-        'User-Agent': 'RoboChess/1.0',
       },
-      signal: controller.signal,
     });
-    clearTimeout(timeoutId);
   } catch (fetchError) {
-    clearTimeout(timeoutId);
     // Throw on fetch failure (timeout/network error)
     throw new Error(
       `Chess.com archives fetch failed for ${username}: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`
@@ -307,73 +569,275 @@ export async function computeFromChessCom(params: {
   }
 
   const archivesData = safeJson<ChessComArchivesResponse>(await archivesResponse.text());
-  const allArchives = archivesData?.archives || [];
+  return archivesData?.archives || [];
+}
 
-  // Determine which months we need to fetch
-  const monthsToFetch = getArchiveMonthsToFetch(now);
-  const archivesToFetch = filterArchiveUrls(allArchives, monthsToFetch);
+/**
+ * Fetch one monthly archive
+ * Returns null on any failure so callers can skip it and continue with others
+ */
+async function fetchChessComArchive(archiveUrl: string): Promise<ChessComArchive | null> {
+  try {
+    const archiveResponse = await platformFetch(archiveUrl, {
+      headers: {
+        Accept: 'application/json',
+      },
+    });
 
-  // Process each archive (skip failed archive fetches, but don't throw)
-  for (const archiveUrl of archivesToFetch) {
-    try {
-      const archiveController = new AbortController();
-      const archiveTimeout = setTimeout(() => archiveController.abort(), 15000);
-
-      const archiveResponse = await fetch(archiveUrl, {
-        headers: {
-          Accept: 'application/json',
-          'User-Agent': 'RoboChess/1.0',
-        },
-        signal: archiveController.signal,
-      });
-
-      clearTimeout(archiveTimeout);
-
-      if (archiveResponse.ok) {
-        const archiveData = safeJson<ChessComArchive>(await archiveResponse.text());
-        const games = archiveData?.games || [];
-
-        // Count games by time_class and end_time
-        for (const game of games) {
-          if (
-            game.time_class &&
-            typeof game.time_class === 'string' &&
-            (game.time_class === 'rapid' || game.time_class === 'blitz') &&
-            game.end_time &&
-            typeof game.end_time === 'number'
-          ) {
-            const endMs = game.end_time * 1000; // Convert seconds to milliseconds
-
-            if (game.time_class === 'rapid') {
-              if (isWithin(endMs, since24hMs)) {
-                rapid24h++;
-                rapid7d++;
-              } else if (isWithin(endMs, since7dMs)) {
-                rapid7d++;
-              }
-            } else if (game.time_class === 'blitz') {
-              if (isWithin(endMs, since24hMs)) {
-                blitz24h++;
-                blitz7d++;
-              } else if (isWithin(endMs, since7dMs)) {
-                blitz7d++;
-              }
-            }
-          }
-        }
-      }
-      // If individual archive fails, skip it but continue with others
-    } catch (archiveError) {
-      // Skip failed archive fetch, continue with others
+    if (!archiveResponse.ok) {
+      return null;
+    }
+
+    return safeJson<ChessComArchive>(await archiveResponse.text());
+  } catch {
+    // Skip failed archive fetch, continue with others
+    return null;
+  }
+}
+
+/**
+ * Cached fetch state for one Chess.com monthly archive
+ */
+export type ChessComArchiveCacheEntry = {
+  url: string;
+  bodyHash: string;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: Date;
+};
+
+/**
+ * Read side of the archive cache (the DB implementation lives in chesscomArchiveCache.ts)
+ */
+export interface ChessComArchiveCache {
+  get(urls: string[]): Promise<Map<string, ChessComArchiveCacheEntry>>;
+}
+
+/**
+ * Games fetched after a month ends can still be indexed for a short while
+ */
+const ARCHIVE_CLOSE_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * True when the cached copy was fetched after the archive's month had closed,
+ * i.e. the archive can no longer change and never needs to be fetched again
+ */
+export function isArchiveClosed(entry: ChessComArchiveCacheEntry): boolean {
+  const match = entry.url.match(/\/games\/(\d{4})\/(\d{2})$/);
+  if (!match) return false;
+
+  // Date.UTC month is 0-based, so the 1-based archive month is the first day of the next month
+  const monthEndMs = Date.UTC(Number(match[1]), Number(match[2]), 1);
+  return entry.fetchedAt.getTime() >= monthEndMs + ARCHIVE_CLOSE_GRACE_MS;
+}
+
+type ConditionalArchiveResult =
+  | { status: 'fresh'; archive: ChessComArchive | null; entry: ChessComArchiveCacheEntry }
+  | { status: 'unchanged'; entry: ChessComArchiveCacheEntry }
+  | { status: 'failed' };
+
+/**
+ * Fetch one monthly archive, revalidating against the cached ETag / Last-Modified
+ * A 200 whose body hashes the same as the cached copy is treated as unchanged
+ */
+async function fetchChessComArchiveConditional(
+  archiveUrl: string,
+  cached: ChessComArchiveCacheEntry | undefined,
+  now: Date
+): Promise<ConditionalArchiveResult> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+  };
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  try {
+    const archiveResponse = await platformFetch(archiveUrl, { headers });
+
+    if (archiveResponse.status === 304 && cached) {
+      return { status: 'unchanged', entry: { ...cached, fetchedAt: now } };
+    }
+
+    if (!archiveResponse.ok) {
+      return { status: 'failed' };
+    }
+
+    const body = await archiveResponse.text();
+    const entry: ChessComArchiveCacheEntry = {
+      url: archiveUrl,
+      bodyHash: createHash('sha256').update(body).digest('hex'),
+      etag: archiveResponse.headers?.get('etag') ?? null,
+      lastModified: archiveResponse.headers?.get('last-modified') ?? null,
+      fetchedAt: now,
+    };
+
+    if (cached && cached.bodyHash === entry.bodyHash) {
+      return { status: 'unchanged', entry };
     }
+
+    return { status: 'fresh', archive: safeJson<ChessComArchive>(body), entry };
+  } catch {
+    // Skip failed archive fetch, continue with others
+    return { status: 'failed' };
+  }
+}
+
+/**
+ * Chess.com result codes that count as a draw
+ */
+const CHESSCOM_DRAW_RESULTS = new Set([
+  'agreed',
+  'repetition',
+  'stalemate',
+  'insufficient',
+  '50move',
+  'timevsinsufficient',
+]);
+
+/**
+ * Read a tag value from PGN headers, e.g. [ECO "B01"]
+ */
+function readPgnTag(pgn: string | undefined, tag: string): string | null {
+  if (!pgn) return null;
+  const match = pgn.match(new RegExp(`\\[${tag} "([^"]*)"\\]`));
+  return match ? match[1] : null;
+}
+
+/**
+ * Time control a Chess.com game counts towards
+ * Chess960 is tracked as its own control at any time class; other variants are not tracked
+ */
+function chesscomPerfOf(game: ChessComGame): Perf | null {
+  if (game.rules === 'chess960') {
+    return 'chess960';
+  }
+  if (game.rules && game.rules !== 'chess') {
+    return null;
+  }
+  switch (game.time_class) {
+    case 'bullet':
+    case 'blitz':
+    case 'rapid':
+    case 'daily':
+      return game.time_class;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Normalise a Chess.com archive game from the student's side
+ * Returns null for games without an id, end time or tracked time control
+ */
+export function normalizeChessComGame(game: ChessComGame, username: string): NormalizedGame | null {
+  const gameId = game.uuid || game.url?.split('/').pop();
+  if (!gameId || typeof game.end_time !== 'number') {
+    return null;
+  }
+  const timeClass = chesscomPerfOf(game);
+  if (!timeClass) {
+    return null;
+  }
+
+  const handle = username.toLowerCase();
+  let color: GameColor | null = null;
+  if (game.white?.username?.toLowerCase() === handle) {
+    color = 'white';
+  } else if (game.black?.username?.toLowerCase() === handle) {
+    color = 'black';
   }
 
+  const own = color === 'white' ? game.white : color === 'black' ? game.black : undefined;
+  const opponent = color === 'white' ? game.black : color === 'black' ? game.white : undefined;
+
+  let result: GameResult | null = null;
+  if (own?.result === 'win') {
+    result = 'win';
+  } else if (own?.result && CHESSCOM_DRAW_RESULTS.has(own.result)) {
+    result = 'draw';
+  } else if (own?.result) {
+    result = 'loss';
+  }
+
+  // game.eco is an opening URL, e.g. https://www.chess.com/openings/Scandinavian-Defense
+  const openingSlug = game.eco?.split('/openings/')[1];
+
   return {
-    rapid24h,
-    rapid7d,
-    blitz24h,
-    blitz7d,
-    computedAt: now.toISOString(),
+    platform: 'chesscom',
+    gameId,
+    timeClass,
+    rated: typeof game.rated === 'boolean' ? game.rated : null,
+    result,
+    color,
+    opponentRating: opponent?.rating ?? null,
+    eco: readPgnTag(game.pgn, 'ECO'),
+    openingName: openingSlug ? openingSlug.replace(/-/g, ' ') : null,
+    endTimeMs: game.end_time * 1000,
+    pgn: typeof game.pgn === 'string' ? game.pgn : null,
   };
 }
 
+export type ChessComGamesFetchResult = {
+  games: NormalizedGame[];
+  /** Cache entries to save once the games are persisted */
+  archiveEntries: ChessComArchiveCacheEntry[];
+  /** A monthly archive failed; months from it on are left for the next run */
+  truncated: boolean;
+};
+
+/**
+ * Fetch finished games from Chess.com that ended at or after sinceMs
+ * With a cache, closed months already seen are skipped and the rest are revalidated;
+ * unchanged archives contribute no games because they were stored on an earlier run.
+ * Throws if the archives list cannot be fetched; stops at the first failed monthly archive
+ */
+export async function fetchChessComGames(params: {
+  username: string;
+  sinceMs: number;
+  now?: Date;
+  cache?: ChessComArchiveCache;
+}): Promise<ChessComGamesFetchResult> {
+  const { username, sinceMs, now = new Date(), cache } = params;
+
+  const allArchives = await fetchChessComArchiveList(username);
+  const archivesToFetch = filterArchiveUrls(allArchives, getArchiveMonthsBetween(sinceMs, now));
+  const cached = cache ? await cache.get(archivesToFetch) : new Map<string, ChessComArchiveCacheEntry>();
+
+  const games: NormalizedGame[] = [];
+  const archiveEntries: ChessComArchiveCacheEntry[] = [];
+  let truncated = false;
+
+  // The archives list is in month order
+  for (const archiveUrl of archivesToFetch) {
+    const cachedEntry = cached.get(archiveUrl);
+    if (cachedEntry && isArchiveClosed(cachedEntry)) {
+      continue;
+    }
+
+    const result = await fetchChessComArchiveConditional(archiveUrl, cachedEntry, now);
+    if (result.status === 'failed') {
+      // The newest stored game is the sync cursor: storing later months would move it past
+      // this one for good, so stop here and let the next run start from this month again
+      truncated = true;
+      break;
+    }
+
+    archiveEntries.push(result.entry);
+    if (result.status === 'unchanged') {
+      continue;
+    }
+
+    for (const game of result.archive?.games || []) {
+      const normalized = normalizeChessComGame(game, username);
+      if (normalized && isWithin(normalized.endTimeMs, sinceMs)) {
+        games.push(normalized);
+      }
+    }
+  }
+
+  return { games, archiveEntries, truncated };
+}
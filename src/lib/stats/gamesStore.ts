@@ -0,0 +1,125 @@
+import { prisma } from '@/lib/prisma';
+import { PERFS } from '@/lib/stats_v2/types';
+import type { Perf } from '@/lib/stats_v2/types';
+import type { NormalizedGame } from '@/lib/stats/gamesActivityV2';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Re-fetch a short overlap before the newest stored game (or the cursor) so games that finished
+ * out of order, were still being played or were still being indexed by the platform are not missed.
+ * Duplicates are dropped by the (student_id, platform, game_id) unique key.
+ */
+const SYNC_OVERLAP_MS = 60 * 60 * 1000;
+
+/**
+ * Start of the next incremental fetch for a student/platform
+ * Resumes shortly before the connection's cursor when the platform keeps one, otherwise
+ * before the last stored game; never further back than 7 days
+ */
+export async function getGamesSyncStart(
+  studentId: string,
+  platform: string,
+  now: Date,
+  cursorAt: Date | null = null
+): Promise<number> {
+  const since7dMs = now.getTime() - 7 * DAY_MS;
+  if (cursorAt) {
+    return Math.max(cursorAt.getTime() - SYNC_OVERLAP_MS, since7dMs);
+  }
+
+  const latestEndedAt = await getLatestStoredGameAt(studentId, platform);
+
+  if (!latestEndedAt) {
+    return since7dMs;
+  }
+
+  return Math.max(latestEndedAt.getTime() - SYNC_OVERLAP_MS, since7dMs);
+}
+
+/**
+ * End time of the newest stored game for a student/platform, or null if none is stored
+ */
+export async function getLatestStoredGameAt(studentId: string, platform: string): Promise<Date | null> {
+  const latest = await prisma.games.findFirst({
+    where: { student_id: studentId, platform },
+    orderBy: { ended_at: 'desc' },
+    select: { ended_at: true },
+  });
+
+  return latest?.ended_at ?? null;
+}
+
+/**
+ * Insert games for a student, ignoring ones already stored
+ * @returns Number of newly inserted games
+ */
+export async function storeGames(studentId: string, games: NormalizedGame[]): Promise<number> {
+  if (games.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.games.createMany({
+    data: games.map((game) => ({
+      student_id: studentId,
+      platform: game.platform,
+      game_id: game.gameId,
+      time_class: game.timeClass,
+      rated: game.rated,
+      result: game.result,
+      color: game.color,
+      opponent_rating: game.opponentRating,
+      eco: game.eco,
+      opening_name: game.openingName,
+      ended_at: new Date(game.endTimeMs),
+      pgn: game.pgn,
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+export type PerfGamesCounts = Record<Perf, { games24h: number; games7d: number }>;
+
+/**
+ * Count stored games per time control in the rolling 24h/7d windows
+ */
+export async function countStoredGamesByPerf(
+  studentId: string,
+  platform: string,
+  now: Date
+): Promise<PerfGamesCounts> {
+  const since24h = new Date(now.getTime() - DAY_MS);
+  const since7d = new Date(now.getTime() - 7 * DAY_MS);
+
+  const countByPerf = (since: Date) =>
+    prisma.games.groupBy({
+      by: ['time_class'],
+      where: {
+        student_id: studentId,
+        platform,
+        ended_at: { gte: since, lte: now },
+      },
+      _count: { _all: true },
+    });
+
+  const [rows24h, rows7d] = await Promise.all([countByPerf(since24h), countByPerf(since7d)]);
+
+  const counts = Object.fromEntries(
+    PERFS.map((perf) => [perf, { games24h: 0, games7d: 0 }])
+  ) as PerfGamesCounts;
+
+  for (const row of rows24h) {
+    if (row.time_class in counts) {
+      counts[row.time_class as Perf].games24h = row._count._all;
+    }
+  }
+  for (const row of rows7d) {
+    if (row.time_class in counts) {
+      counts[row.time_class as Perf].games7d = row._count._all;
+    }
+  }
+
+  return counts;
+}
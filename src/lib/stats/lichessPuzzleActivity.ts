@@ -1,3 +1,5 @@
+import { platformFetch } from '@/lib/platformHttp';
+
 export type LichessPuzzleCounts = {
   solved24h: number;
   solved7d: number;
@@ -24,7 +26,7 @@ export async function fetchLichessPuzzleCounts(
 
   // Fetch puzzle activity
   const url = 'https://lichess.org/api/user/puzzle-activity?max=1000';
-  const response = await fetch(url, {
+  const response = await platformFetch(url, {
     headers: {
       Authorization: `Bearer ${token}`,
       Accept: 'application/x-ndjson',
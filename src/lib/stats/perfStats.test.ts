@@ -0,0 +1,69 @@
+/**
+ * Tests for per time control stats helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildPerfStats, snapshotPerfRatings } from './perfStats';
+import type { PerfGamesCounts } from './gamesStore';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const zeroCounts = (): PerfGamesCounts => ({
+  bullet: { games24h: 0, games7d: 0 },
+  blitz: { games24h: 0, games7d: 0 },
+  rapid: { games24h: 0, games7d: 0 },
+  classical: { games24h: 0, games7d: 0 },
+  daily: { games24h: 0, games7d: 0 },
+  chess960: { games24h: 0, games7d: 0 },
+});
+
+describe('perfStats', () => {
+  describe('snapshotPerfRatings', () => {
+    it('reads perf_ratings and falls back to the rapid/blitz columns', () => {
+      expect(
+        snapshotPerfRatings({ perf_ratings: { bullet: 1400, rapid: 1610 }, rapid_rating: 1600, blitz_rating: 1550 })
+      ).toEqual({ bullet: 1400, rapid: 1610, blitz: 1550 });
+    });
+
+    it('ignores 0 placeholders and malformed JSON', () => {
+      expect(snapshotPerfRatings({ perf_ratings: ['x'], rapid_rating: 0, blitz_rating: null })).toEqual({});
+    });
+  });
+
+  describe('buildPerfStats', () => {
+    it('returns one row per control with counts, ratings and deltas', () => {
+      const counts = zeroCounts();
+      counts.bullet = { games24h: 5, games7d: 12 };
+
+      const stats = buildPerfStats(counts, { bullet: 1420, daily: 1700 }, {
+        latest: { bullet: 1410, classical: 1800 },
+        baseline24h: { bullet: 1400 },
+        baseline7d: null,
+      });
+
+      expect(stats).toHaveLength(6);
+      expect(stats.find((s) => s.perf === 'bullet')).toEqual({
+        perf: 'bullet',
+        games24h: 5,
+        games7d: 12,
+        rating: 1420,
+        ratingDelta24h: 20,
+        ratingDelta7d: null,
+      });
+    });
+
+    it('falls back to the last known rating without computing deltas', () => {
+      const stats = buildPerfStats(zeroCounts(), {}, {
+        latest: { classical: 1800 },
+        baseline24h: { classical: 1750 },
+        baseline7d: { classical: 1700 },
+      });
+
+      expect(stats.find((s) => s.perf === 'classical')).toMatchObject({
+        rating: 1800,
+        ratingDelta24h: null,
+        ratingDelta7d: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { prisma } from '@/lib/prisma';
+import { PERFS } from '@/lib/stats_v2/types';
+import type { Perf } from '@/lib/stats_v2/types';
+import type { PerfRatings } from '@/lib/stats/platformAdapter';
+import type { PerfGamesCounts } from '@/lib/stats/gamesStore';
+import { baselineToleranceMs } from '@/lib/stats/deltaWindows';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type PerfStat = {
+  perf: Perf;
+  games24h: number;
+  games7d: number;
+  rating: number | null;
+  ratingDelta24h: number | null;
+  ratingDelta7d: number | null;
+};
+
+/**
+ * Read per-control ratings from a snapshot
+ * Snapshots written before perf_ratings existed only have the rapid/blitz columns
+ */
+export function snapshotPerfRatings(snapshot: {
+  perf_ratings?: unknown;
+  rapid_rating?: number | null;
+  blitz_rating?: number | null;
+}): PerfRatings {
+  const ratings: PerfRatings = {};
+
+  if (snapshot.rapid_rating) ratings.rapid = snapshot.rapid_rating;
+  if (snapshot.blitz_rating) ratings.blitz = snapshot.blitz_rating;
+
+  const stored = snapshot.perf_ratings;
+  if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+    for (const perf of PERFS) {
+      const value = (stored as Record<string, unknown>)[perf];
+      if (typeof value === 'number') {
+        ratings[perf] = value;
+      }
+    }
+  }
+
+  return ratings;
+}
+
+export type PerfRatingSnapshots = {
+  latest: PerfRatings | null;
+  baseline24h: PerfRatings | null;
+  baseline7d: PerfRatings | null;
+};
+
+/**
+ * Combine window counts, freshly fetched ratings and snapshot ratings into one row per control
+ * The rating falls back to the last known value; deltas need a fresh rating and a baseline
+ */
+export function buildPerfStats(
+  counts: PerfGamesCounts,
+  ratings: PerfRatings,
+  snapshots: PerfRatingSnapshots
+): PerfStat[] {
+  const delta = (current: number | undefined, baseline: number | undefined) =>
+    current !== undefined && baseline !== undefined ? current - baseline : null;
+
+  return PERFS.map((perf) => ({
+    perf,
+    games24h: counts[perf].games24h,
+    games7d: counts[perf].games7d,
+    rating: ratings[perf] ?? snapshots.latest?.[perf] ?? null,
+    ratingDelta24h: delta(ratings[perf], snapshots.baseline24h?.[perf]),
+    ratingDelta7d: delta(ratings[perf], snapshots.baseline7d?.[perf]),
+  }));
+}
+
+/**
+ * Load the latest and the 24h/7d baseline ratings for a student on one platform
+ * Same freshness rules as the rapid/blitz deltas (baselineToleranceMs)
+ */
+export async function loadPerfRatingSnapshots(
+  studentId: string,
+  platform: string,
+  now: Date
+): Promise<PerfRatingSnapshots> {
+  const findSnapshot = async (windowStart: Date, maxAgeMs: number) => {
+    const snapshot = await prisma.stats_snapshots.findFirst({
+      where: {
+        user_id: studentId,
+        source: platform,
+        captured_at: { lte: windowStart },
+      },
+      orderBy: { captured_at: 'desc' },
+      select: { perf_ratings: true, rapid_rating: true, blitz_rating: true, captured_at: true },
+    });
+
+    if (!snapshot || snapshot.captured_at.getTime() < windowStart.getTime() - maxAgeMs) {
+      return null;
+    }
+    return snapshotPerfRatings(snapshot);
+  };
+
+  const [latest, baseline24h, baseline7d] = await Promise.all([
+    findSnapshot(now, Infinity),
+    findSnapshot(new Date(now.getTime() - 24 * HOUR_MS), baselineToleranceMs(24 * HOUR_MS)),
+    findSnapshot(new Date(now.getTime() - 7 * 24 * HOUR_MS), baselineToleranceMs(7 * 24 * HOUR_MS)),
+  ]);
+
+  return { latest, baseline24h, baseline7d };
+}
+
+/**
+ * Upsert one player_perf_stats row per control
+ */
+export async function upsertPerfStats(
+  studentId: string,
+  platform: string,
+  stats: PerfStat[],
+  now: Date
+): Promise<void> {
+  await prisma.$transaction(
+    stats.map((stat) => {
+      const data = {
+        games_24h: stat.games24h,
+        games_7d: stat.games7d,
+        rating: stat.rating,
+        rating_delta_24h: stat.ratingDelta24h,
+        rating_delta_7d: stat.ratingDelta7d,
+        computed_at: now,
+      };
+
+      return prisma.player_perf_stats.upsert({
+        where: {
+          student_platform_perf: {
+            student_id: studentId,
+            platform,
+            perf: stat.perf,
+          },
+        },
+        update: data,
+        create: {
+          student_id: studentId,
+          platform,
+          perf: stat.perf,
+          ...data,
+        },
+      });
+    })
+  );
+}
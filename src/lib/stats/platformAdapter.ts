@@ -0,0 +1,105 @@
+/**
+ * Platform Adapter - contract every external chess platform implements
+ * The stats sync only talks to platforms through this interface
+ */
+
+import type { Perf, Platform } from '@/lib/stats_v2/types';
+import type { GamesFetchResult } from './gamesActivityV2';
+import type { TimedPuzzleSnapshot } from './timedPuzzles';
+
+/**
+ * Current rating per time control; controls the student has no rating in are absent
+ */
+export type PerfRatings = Partial<Record<Perf, number>>;
+
+export type PlatformRatings = {
+  rapidRating: number | null;
+  blitzRating: number | null;
+  puzzleRating: number | null;
+  perfRatings: PerfRatings;
+  /** When the platform last saw the student online (epoch ms), for platforms that report it */
+  lastSeenMs?: number | null;
+};
+
+export type PuzzleTotalStatus =
+  | 'OK'
+  | 'NO_CONNECTION'
+  | 'UNSUPPORTED'
+  | 'ERROR';
+
+export type PuzzleTotalResult = {
+  status: PuzzleTotalStatus;
+  puzzleTotal: number | null;
+  error?: string;
+};
+
+export type ProfileValidationResult =
+  | {
+      exists: true;
+      username: string; // canonical casing as reported by the platform
+      platformUserId: string | null;
+    }
+  | {
+      exists: false;
+      error?: string;
+    };
+
+/**
+ * The student account on a platform that an adapter call refers to
+ */
+export type PlatformAccount = {
+  studentId: string;
+  username: string;
+  /** Decrypted OAuth token the student authorised for this connection, if any */
+  accessToken?: string | null;
+};
+
+/**
+ * Solved puzzles per window, counted from the student's own activity log
+ * truncated: the log was cut off before reaching the start of the 7d window
+ */
+export type PuzzleActivityCounts = {
+  solved24h: number;
+  solved7d: number;
+  truncated: boolean;
+};
+
+export interface PlatformAdapter {
+  readonly platform: Platform;
+
+  /**
+   * Fetch finished games newer than sinceMs
+   * Throws on API failure so the caller can record the error
+   */
+  fetchGames(account: PlatformAccount, sinceMs: number, now: Date): Promise<GamesFetchResult>;
+
+  /**
+   * Fetch current ratings
+   * May throw; callers treat ratings as non-fatal
+   */
+  fetchRatings(account: PlatformAccount): Promise<PlatformRatings>;
+
+  /**
+   * Fetch the all-time solved puzzle counter (used for snapshot deltas)
+   * Never throws; failures are reported through `status`
+   */
+  fetchPuzzleTotal(account: PlatformAccount): Promise<PuzzleTotalResult>;
+
+  /**
+   * Count solved puzzles per window with the student's OAuth token (optional, needs account.accessToken)
+   * Throws (e.g. LICHESS_TOKEN_INVALID) so the caller can fall back to puzzle total deltas
+   */
+  fetchPuzzleActivity?(account: PlatformAccount, now: Date): Promise<PuzzleActivityCounts>;
+
+  /**
+   * Fetch timed puzzle mode counters (Lichess Storm, Chess.com Puzzle Rush)
+   * May throw; callers treat them as non-fatal
+   */
+  fetchTimedPuzzles(account: PlatformAccount): Promise<TimedPuzzleSnapshot>;
+
+  /**
+   * Check that a username exists on the platform
+   * Never throws; network failures come back as `exists: false` with an error
+   */
+  validateProfile(username: string): Promise<ProfileValidationResult>;
+}
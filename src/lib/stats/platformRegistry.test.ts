@@ -0,0 +1,198 @@
+/**
+ * Tests for the platform adapter registry and the built-in adapters
+ * Uses Vitest with mocked fetch
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getPlatformAdapter,
+  listPlatforms,
+  registerPlatformAdapter,
+} from './platformRegistry';
+import type { PlatformAdapter } from './platformAdapter';
+import { resetPlatformHttp } from '@/lib/platformHttp';
+
+// Adapters import modules that touch the database; none of these tests need it
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+describe('platformRegistry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetPlatformHttp();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lists lichess and chesscom', () => {
+    expect(listPlatforms()).toEqual(['lichess', 'chesscom']);
+  });
+
+  it('looks up adapters case-insensitively', () => {
+    expect(getPlatformAdapter('Lichess')?.platform).toBe('lichess');
+    expect(getPlatformAdapter('chesscom')?.platform).toBe('chesscom');
+  });
+
+  it('returns null for unknown platforms', () => {
+    expect(getPlatformAdapter('fics')).toBeNull();
+  });
+
+  it('registerPlatformAdapter replaces an adapter and restores it', async () => {
+    const original = getPlatformAdapter('lichess');
+    const mockAdapter: PlatformAdapter = {
+      platform: 'lichess',
+      fetchGames: vi.fn(),
+      fetchRatings: vi.fn().mockResolvedValue({ rapidRating: 1500, blitzRating: null, puzzleRating: null, perfRatings: {} }),
+      fetchPuzzleTotal: vi.fn(),
+      fetchTimedPuzzles: vi.fn(),
+      validateProfile: vi.fn(),
+    };
+
+    const restore = registerPlatformAdapter(mockAdapter);
+    expect(getPlatformAdapter('lichess')).toBe(mockAdapter);
+
+    const ratings = await getPlatformAdapter('lichess')!.fetchRatings({ studentId: 's1', username: 'u' });
+    expect(ratings.rapidRating).toBe(1500);
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    restore();
+    expect(getPlatformAdapter('lichess')).toBe(original);
+  });
+
+  describe('lichess adapter', () => {
+    it('validateProfile returns canonical username and id', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'robo4040', username: 'Robo4040' }),
+      });
+
+      const result = await getPlatformAdapter('lichess')!.validateProfile(' Robo4040 ');
+
+      expect(result).toEqual({ exists: true, username: 'Robo4040', platformUserId: 'robo4040' });
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://lichess.org/api/user/robo4040',
+        expect.anything()
+      );
+    });
+
+    it('validateProfile reports missing users', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+      });
+
+      const result = await getPlatformAdapter('lichess')!.validateProfile('nobody');
+
+      expect(result).toEqual({ exists: false });
+    });
+
+    it('fetchRatings reads perfs from the user document', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          seenAt: 1709900000000,
+          perfs: {
+            rapid: { rating: 1650, games: 40 },
+            blitz: { rating: 1580, games: 120 },
+            classical: { rating: 1500, games: 0 },
+            correspondence: { rating: 1720, games: 3 },
+            puzzle: { rating: 1900, games: 800 },
+          },
+        }),
+      });
+
+      const ratings = await getPlatformAdapter('lichess')!.fetchRatings({ studentId: 's1', username: 'u' });
+
+      expect(ratings).toEqual({
+        rapidRating: 1650,
+        blitzRating: 1580,
+        puzzleRating: 1900,
+        perfRatings: { rapid: 1650, blitz: 1580, daily: 1720 }, // unplayed classical is skipped
+        lastSeenMs: 1709900000000,
+      });
+    });
+
+    it('fetchPuzzleActivity counts solved puzzles with the student token', async () => {
+      const now = new Date('2024-03-08T12:00:00Z');
+      const hoursAgo = (hours: number) => now.getTime() - hours * 60 * 60 * 1000;
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () =>
+          [
+            { date: hoursAgo(1), win: true },
+            { date: hoursAgo(2), win: false },
+            { date: hoursAgo(30), win: true },
+            { date: hoursAgo(200), win: true },
+          ]
+            .map((entry) => JSON.stringify(entry))
+            .join('\n'),
+      });
+
+      const counts = await getPlatformAdapter('lichess')!.fetchPuzzleActivity!(
+        { studentId: 's1', username: 'u', accessToken: 'lip_token' },
+        now
+      );
+
+      expect(counts).toEqual({ solved24h: 1, solved7d: 2, truncated: false });
+      const init = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1] as RequestInit;
+      expect((init.headers as Record<string, string>).Authorization).toBe('Bearer lip_token');
+    });
+
+    it('fetchGames uses the server token, not the student\'s OAuth token', async () => {
+      vi.stubEnv('LICHESS_TOKEN', 'server_token');
+      // Main export, then the correspondence export
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: true, status: 200, body: new Response('').body })
+        .mockResolvedValueOnce({ ok: true, status: 200, body: new Response('').body });
+
+      await getPlatformAdapter('lichess')!.fetchGames({ studentId: 's1', username: 'u', accessToken: 'lip_token' }, 0, new Date());
+
+      const init = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1] as RequestInit;
+      expect((init.headers as Record<string, string>).Authorization).toBe('Bearer server_token');
+    });
+
+    it('fetchPuzzleActivity reports a rejected token', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ ok: false, status: 401 });
+
+      await expect(
+        getPlatformAdapter('lichess')!.fetchPuzzleActivity!({ studentId: 's1', username: 'u', accessToken: 'revoked' }, new Date())
+      ).rejects.toThrow('LICHESS_TOKEN_INVALID');
+    });
+  });
+
+  describe('chesscom adapter', () => {
+    it('validateProfile returns player_id as platformUserId', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ player_id: 12345, username: 'robo4040', status: 'basic' }),
+      });
+
+      const result = await getPlatformAdapter('chesscom')!.validateProfile('Robo4040');
+
+      expect(result).toEqual({ exists: true, username: 'robo4040', platformUserId: '12345' });
+    });
+
+    it('validateProfile returns an error on network failure', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await getPlatformAdapter('chesscom')!.validateProfile('robo4040');
+
+      expect(result).toEqual({ exists: false, error: 'Network error' });
+    });
+
+    it('fetchPuzzleTotal is unsupported', async () => {
+      const result = await getPlatformAdapter('chesscom')!.fetchPuzzleTotal({ studentId: 's1', username: 'u' });
+
+      expect(result.status).toBe('UNSUPPORTED');
+      expect(result.puzzleTotal).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Registry of platform adapters used by the stats sync
+ * Register a new platform here; the cron route iterates over this list
+ */
+
+import type { Platform } from '@/lib/stats_v2/types';
+import type { PlatformAdapter } from './platformAdapter';
+import { lichessAdapter } from './adapters/lichessAdapter';
+import { chesscomAdapter } from './adapters/chesscomAdapter';
+
+const adapters = new Map<Platform, PlatformAdapter>([
+  [lichessAdapter.platform, lichessAdapter],
+  [chesscomAdapter.platform, chesscomAdapter],
+]);
+
+/**
+ * All registered platform adapters, in registration order
+ */
+export function listPlatformAdapters(): PlatformAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * Platform ids of all registered adapters
+ */
+export function listPlatforms(): Platform[] {
+  return Array.from(adapters.keys());
+}
+
+/**
+ * Look up the adapter for a platform id (case-insensitive)
+ * Returns null for unknown platforms
+ */
+export function getPlatformAdapter(platform: string): PlatformAdapter | null {
+  return adapters.get(platform.toLowerCase() as Platform) ?? null;
+}
+
+/**
+ * Replace or add an adapter (used by tests to mock a platform)
+ * Returns a function that restores the previous registration
+ */
+export function registerPlatformAdapter(adapter: PlatformAdapter): () => void {
+  const previous = adapters.get(adapter.platform);
+  adapters.set(adapter.platform, adapter);
+
+  return () => {
+    if (previous) {
+      adapters.set(adapter.platform, previous);
+    } else {
+      adapters.delete(adapter.platform);
+    }
+  };
+}
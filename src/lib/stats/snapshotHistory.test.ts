@@ -0,0 +1,92 @@
+/**
+ * Tests for the stats_snapshots history series
+ * Uses Vitest; the bucketing helpers are pure
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { bucketHistory, bucketStart, countBuckets, readMetric } from './snapshotHistory';
+
+const at = (iso: string) => new Date(iso);
+
+describe('snapshotHistory', () => {
+  it('aligns weeks to Monday 00:00 UTC', () => {
+    // 2024-03-07 is a Thursday
+    expect(new Date(bucketStart(at('2024-03-07T15:00:00Z').getTime(), 'week')).toISOString()).toBe(
+      '2024-03-04T00:00:00.000Z'
+    );
+    expect(new Date(bucketStart(at('2024-03-07T15:00:00Z').getTime(), 'day')).toISOString()).toBe(
+      '2024-03-07T00:00:00.000Z'
+    );
+  });
+
+  it('counts the buckets a range touches', () => {
+    expect(countBuckets(at('2024-03-01T12:00:00Z'), at('2024-03-03T01:00:00Z'), 'day')).toBe(3);
+    expect(countBuckets(at('2024-03-04T00:00:00Z'), at('2024-03-17T23:00:00Z'), 'week')).toBe(2);
+  });
+
+  it('summarises each bucket and leaves empty buckets null', () => {
+    const buckets = bucketHistory(
+      [
+        { at: at('2024-03-01T08:00:00Z'), value: 1500 },
+        { at: at('2024-03-01T12:00:00Z'), value: 1480 },
+        { at: at('2024-03-01T20:00:00Z'), value: 1510 },
+        { at: at('2024-03-03T09:00:00Z'), value: null }, // no rating in this snapshot
+        { at: at('2024-03-03T10:00:00Z'), value: 1520 },
+      ],
+      at('2024-03-01T00:00:00Z'),
+      at('2024-03-03T23:59:00Z'),
+      'day'
+    );
+
+    expect(buckets).toEqual([
+      {
+        start: '2024-03-01T00:00:00.000Z',
+        end: '2024-03-02T00:00:00.000Z',
+        count: 3,
+        first: 1500,
+        last: 1510,
+        min: 1480,
+        max: 1510,
+      },
+      {
+        start: '2024-03-02T00:00:00.000Z',
+        end: '2024-03-03T00:00:00.000Z',
+        count: 0,
+        first: null,
+        last: null,
+        min: null,
+        max: null,
+      },
+      {
+        start: '2024-03-03T00:00:00.000Z',
+        end: '2024-03-04T00:00:00.000Z',
+        count: 1,
+        first: 1520,
+        last: 1520,
+        min: 1520,
+        max: 1520,
+      },
+    ]);
+  });
+
+  it('reads ratings from perf_ratings, with the legacy columns as fallback', () => {
+    const row = {
+      captured_at: at('2024-03-01T00:00:00Z'),
+      rapid_rating: 1600,
+      blitz_rating: 0,
+      puzzle_rating: 0,
+      puzzle_total: 0,
+      perf_ratings: { bullet: 1400 },
+    };
+
+    expect(readMetric(row, 'bullet_rating')).toBe(1400);
+    expect(readMetric(row, 'rapid_rating')).toBe(1600);
+    expect(readMetric(row, 'blitz_rating')).toBeNull(); // 0 is the column default, not a rating
+    expect(readMetric(row, 'classical_rating')).toBeNull();
+    expect(readMetric(row, 'puzzle_rating')).toBeNull();
+    expect(readMetric(row, 'puzzle_total')).toBe(0); // a real counter value
+  });
+});
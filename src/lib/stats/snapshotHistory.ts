@@ -0,0 +1,184 @@
+/**
+ * Time series over stats_snapshots: one value per snapshot, downsampled into day or week buckets
+ * Buckets without a snapshot carry null values (a gap), never 0
+ */
+
+import { prisma } from '@/lib/prisma';
+import { PERFS } from '@/lib/stats_v2/types';
+import type { Perf } from '@/lib/stats_v2/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HistoryBucketSize = 'day' | 'week';
+
+export const HISTORY_BUCKET_SIZES: HistoryBucketSize[] = ['day', 'week'];
+
+/**
+ * Ratings per time control ("bullet_rating", ..., read from perf_ratings), the puzzle rating
+ * and the all-time solved puzzle counter
+ */
+export type HistoryMetric = `${Perf}_rating` | 'puzzle_rating' | 'puzzle_total';
+
+export const HISTORY_METRICS: HistoryMetric[] = [
+  ...PERFS.map((perf) => `${perf}_rating` as const),
+  'puzzle_rating',
+  'puzzle_total',
+];
+
+/** Upper bound on buckets per request, so a wide range can't pull the whole table */
+export const MAX_HISTORY_BUCKETS = 400;
+
+export type HistoryBucket = {
+  start: string;
+  end: string;
+  count: number; // snapshots with a value in the bucket
+  first: number | null;
+  last: number | null;
+  min: number | null;
+  max: number | null;
+};
+
+export type HistoryPoint = {
+  at: Date;
+  value: number | null;
+};
+
+export type SnapshotHistoryRow = {
+  captured_at: Date;
+  rapid_rating: number | null;
+  blitz_rating: number | null;
+  puzzle_rating: number | null;
+  puzzle_total: number | null;
+  perf_ratings: unknown;
+};
+
+export function isHistoryMetric(value: string): value is HistoryMetric {
+  return (HISTORY_METRICS as string[]).includes(value);
+}
+
+export function isHistoryBucketSize(value: string): value is HistoryBucketSize {
+  return (HISTORY_BUCKET_SIZES as string[]).includes(value);
+}
+
+/**
+ * Start of the UTC day or ISO week (Monday) containing ms
+ */
+export function bucketStart(ms: number, size: HistoryBucketSize): number {
+  const dayStart = Math.floor(ms / DAY_MS) * DAY_MS;
+  if (size === 'day') {
+    return dayStart;
+  }
+  const daysSinceMonday = (new Date(dayStart).getUTCDay() + 6) % 7;
+  return dayStart - daysSinceMonday * DAY_MS;
+}
+
+function bucketLengthMs(size: HistoryBucketSize): number {
+  return size === 'day' ? DAY_MS : 7 * DAY_MS;
+}
+
+/**
+ * Number of buckets covering [from, to]
+ */
+export function countBuckets(from: Date, to: Date, size: HistoryBucketSize): number {
+  const first = bucketStart(from.getTime(), size);
+  const last = bucketStart(to.getTime(), size);
+  return Math.max(0, Math.floor((last - first) / bucketLengthMs(size)) + 1);
+}
+
+/**
+ * Read one metric from a snapshot; ratings of 0 are the column default and mean "no rating"
+ * Snapshots written before perf_ratings existed fall back to the rapid/blitz columns
+ */
+export function readMetric(row: SnapshotHistoryRow, metric: HistoryMetric): number | null {
+  if (metric === 'puzzle_total') {
+    return row.puzzle_total;
+  }
+
+  let value: number | null;
+  if (metric === 'puzzle_rating') {
+    value = row.puzzle_rating;
+  } else {
+    const perf = metric.slice(0, -'_rating'.length) as Perf;
+    const stored = (row.perf_ratings ?? {}) as Record<string, unknown>;
+    const legacy = perf === 'rapid' ? row.rapid_rating : perf === 'blitz' ? row.blitz_rating : null;
+    value = typeof stored[perf] === 'number' ? (stored[perf] as number) : legacy;
+  }
+  return typeof value === 'number' && value > 0 ? value : null;
+}
+
+/**
+ * Downsample points into consecutive buckets covering [from, to]
+ * Points must be sorted by time; points outside the range and null values are ignored
+ */
+export function bucketHistory(
+  points: HistoryPoint[],
+  from: Date,
+  to: Date,
+  size: HistoryBucketSize
+): HistoryBucket[] {
+  const length = bucketLengthMs(size);
+  const firstStart = bucketStart(from.getTime(), size);
+  const buckets: HistoryBucket[] = [];
+  for (let i = 0; i < countBuckets(from, to, size); i++) {
+    const start = firstStart + i * length;
+    buckets.push({
+      start: new Date(start).toISOString(),
+      end: new Date(start + length).toISOString(),
+      count: 0,
+      first: null,
+      last: null,
+      min: null,
+      max: null,
+    });
+  }
+
+  for (const point of points) {
+    const ms = point.at.getTime();
+    if (point.value === null || ms < from.getTime() || ms > to.getTime()) {
+      continue;
+    }
+    const bucket = buckets[Math.floor((ms - firstStart) / length)];
+    if (!bucket) {
+      continue;
+    }
+    bucket.count++;
+    bucket.first ??= point.value;
+    bucket.last = point.value;
+    bucket.min = bucket.min === null ? point.value : Math.min(bucket.min, point.value);
+    bucket.max = bucket.max === null ? point.value : Math.max(bucket.max, point.value);
+  }
+
+  return buckets;
+}
+
+/**
+ * Bucketed history of one metric for a student, optionally limited to one platform's snapshots
+ */
+export async function getSnapshotHistory(params: {
+  studentId: string;
+  metric: HistoryMetric;
+  platform: string | null;
+  from: Date;
+  to: Date;
+  bucket: HistoryBucketSize;
+}): Promise<HistoryBucket[]> {
+  const rows = await prisma.stats_snapshots.findMany({
+    where: {
+      user_id: params.studentId,
+      ...(params.platform ? { source: params.platform } : {}),
+      captured_at: { gte: params.from, lte: params.to },
+    },
+    orderBy: { captured_at: 'asc' },
+    select: {
+      captured_at: true,
+      rapid_rating: true,
+      blitz_rating: true,
+      puzzle_rating: true,
+      puzzle_total: true,
+      perf_ratings: true,
+    },
+  });
+
+  const points = rows.map((row) => ({ at: row.captured_at, value: readMetric(row, params.metric) }));
+  return bucketHistory(points, params.from, params.to, params.bucket);
+}
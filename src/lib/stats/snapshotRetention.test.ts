@@ -0,0 +1,100 @@
+/**
+ * Tests for the stats_snapshots retention policy
+ * Uses Vitest; the compaction plan is pure
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { bucketStart } from './snapshotHistory';
+import { getRetentionTier, planSnapshotCompaction } from './snapshotRetention';
+import type { CompactionRow } from './snapshotRetention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2024-06-15T12:00:00Z');
+
+/** Four syncs a day (00, 06, 12, 18 UTC) for the given number of days before now */
+function syncHistory(days: number, puzzleTotal: (at: Date) => number | null = () => 100): CompactionRow[] {
+  const rows: CompactionRow[] = [];
+  const firstDay = Math.floor(now.getTime() / DAY_MS) * DAY_MS - days * DAY_MS;
+  for (let ms = firstDay; ms <= now.getTime(); ms += DAY_MS / 4) {
+    const at = new Date(ms);
+    rows.push({ id: at.toISOString(), captured_at: at, puzzle_total: puzzleTotal(at) });
+  }
+  return rows;
+}
+
+describe('getRetentionTier', () => {
+  it('keeps 14 days at full resolution, then days up to a year, then weeks', () => {
+    expect(getRetentionTier(new Date(now.getTime() - 13 * DAY_MS), now)).toBe('full');
+    expect(getRetentionTier(new Date(now.getTime() - 14 * DAY_MS), now)).toBe('daily');
+    expect(getRetentionTier(new Date(now.getTime() - 364 * DAY_MS), now)).toBe('daily');
+    expect(getRetentionTier(new Date(now.getTime() - 365 * DAY_MS), now)).toBe('weekly');
+  });
+});
+
+describe('planSnapshotCompaction', () => {
+  it('leaves one snapshot per day past the full resolution period', () => {
+    const rows = syncHistory(60);
+    const plan = planSnapshotCompaction(rows, now);
+    const deleted = new Set(plan.deleteIds);
+    const kept = rows.filter((row) => !deleted.has(row.id));
+
+    // Every recent snapshot survives
+    const recent = rows.filter((row) => row.captured_at.getTime() > now.getTime() - 14 * DAY_MS);
+    expect(recent.every((row) => !deleted.has(row.id))).toBe(true);
+
+    // Older days keep their last sync, plus the 30d window baseline (2024-05-16 12:00);
+    // on the boundary day the 18:00 sync is still in the full resolution period
+    const olderKept = kept.filter((row) => row.captured_at.getTime() <= now.getTime() - 14 * DAY_MS);
+    expect(olderKept.filter((row) => row.captured_at.getUTCHours() !== 18).map((row) => row.id)).toEqual([
+      '2024-05-16T12:00:00.000Z',
+      '2024-06-01T12:00:00.000Z',
+    ]);
+    expect(plan.protectedBaselines).toBe(1);
+    expect(plan.removed.full).toBe(0);
+    expect(plan.removed.weekly).toBe(0);
+    expect(plan.removed.daily).toBe(plan.deleteIds.length);
+  });
+
+  it('compacts snapshots older than a year to one per week', () => {
+    const rows = syncHistory(400);
+    const plan = planSnapshotCompaction(rows, now);
+    const deleted = new Set(plan.deleteIds);
+
+    const weeklyKept = rows.filter(
+      (row) => getRetentionTier(row.captured_at, now) === 'weekly' && !deleted.has(row.id)
+    );
+    const perWeek = new Map<number, number>();
+    for (const row of weeklyKept) {
+      const week = bucketStart(row.captured_at.getTime(), 'week');
+      perWeek.set(week, (perWeek.get(week) ?? 0) + 1);
+    }
+    expect([...perWeek.values()].every((count) => count === 1)).toBe(true);
+    // Sunday 18:00 closes a full week (2023-05-14 is a Sunday)
+    expect(weeklyKept.map((row) => row.id)).toContain('2023-05-14T18:00:00.000Z');
+    expect(plan.removed.weekly).toBe(rows.filter((row) => getRetentionTier(row.captured_at, now) === 'weekly').length - weeklyKept.length);
+  });
+
+  it('prefers the snapshot with a puzzle counter within a day', () => {
+    // The 18:00 sync of each day failed to fetch the puzzle counter
+    const rows = syncHistory(20, (at) => (at.getUTCHours() === 18 ? null : 100));
+    const deleted = new Set(planSnapshotCompaction(rows, now).deleteIds);
+
+    expect(deleted.has('2024-05-27T12:00:00.000Z')).toBe(false);
+    expect(deleted.has('2024-05-27T18:00:00.000Z')).toBe(true);
+  });
+
+  it('never removes the latest snapshot of a series', () => {
+    // The student stopped syncing 40 days ago
+    const rows = syncHistory(60).filter((row) => row.captured_at.getTime() < now.getTime() - 40 * DAY_MS);
+    const latest = rows[rows.length - 1];
+    // A later sync on the same day would normally win; make the latest lack the counter
+    latest.puzzle_total = null;
+
+    const deleted = new Set(planSnapshotCompaction(rows, now).deleteIds);
+
+    expect(deleted.has(latest.id)).toBe(false);
+  });
+});
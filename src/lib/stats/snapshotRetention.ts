@@ -0,0 +1,172 @@
+/**
+ * Retention for stats_snapshots: every sync writes a row per connection and nothing removed them
+ * - younger than 14 days: every snapshot is kept
+ * - 14 days to a year: one snapshot per UTC day
+ * - older than a year: one snapshot per week (Monday UTC)
+ * Rows that delta baselines read are never removed: the current baseline of each delta window
+ * and the latest snapshot of every series (the rating fallback in syncConnection)
+ */
+
+import { prisma } from '@/lib/prisma';
+import { bucketStart } from '@/lib/stats/snapshotHistory';
+import type { HistoryBucketSize } from '@/lib/stats/snapshotHistory';
+import { DELTA_WINDOW_KEYS, getWindowStart } from '@/lib/stats/deltaWindows';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FULL_RESOLUTION_DAYS = 14;
+export const DAILY_RESOLUTION_DAYS = 365;
+
+/** Rows per deleteMany call */
+const DELETE_BATCH_SIZE = 500;
+
+export type RetentionTier = 'full' | 'daily' | 'weekly';
+
+export type CompactionRow = {
+  id: string;
+  captured_at: Date;
+  puzzle_total: number | null;
+};
+
+export type CompactionPlan = {
+  deleteIds: string[];
+  /** Rows each tier would remove */
+  removed: Record<RetentionTier, number>;
+  /** Rows kept only because a delta window reads them */
+  protectedBaselines: number;
+};
+
+export type CompactionReport = {
+  dryRun: boolean;
+  series: number;
+  scanned: number;
+  removed: Record<RetentionTier, number>;
+  protectedBaselines: number;
+};
+
+export function getRetentionTier(capturedAt: Date, now: Date): RetentionTier {
+  const ageMs = now.getTime() - capturedAt.getTime();
+  if (ageMs < FULL_RESOLUTION_DAYS * DAY_MS) {
+    return 'full';
+  }
+  return ageMs < DAILY_RESOLUTION_DAYS * DAY_MS ? 'daily' : 'weekly';
+}
+
+/**
+ * Rows a delta window would use as its baseline right now: the latest snapshot at or before each window start
+ */
+function findBaselineIds(rows: CompactionRow[], now: Date): Set<string> {
+  const ids = new Set<string>();
+  for (const key of DELTA_WINDOW_KEYS) {
+    const start = getWindowStart(key, now);
+    if (!start) {
+      continue;
+    }
+    let baseline: CompactionRow | null = null;
+    for (const row of rows) {
+      if (row.captured_at.getTime() > start.getTime()) {
+        break;
+      }
+      baseline = row;
+    }
+    if (baseline) {
+      ids.add(baseline.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Decide which snapshots of one series (one student, one source) to remove
+ * Rows must be sorted by captured_at ascending. Each day/week keeps its latest snapshot with a
+ * puzzle counter, or its latest snapshot when none has one, so later baselines stay within the
+ * freshness tolerance of every window
+ */
+export function planSnapshotCompaction(rows: CompactionRow[], now: Date): CompactionPlan {
+  const removed: Record<RetentionTier, number> = { full: 0, daily: 0, weekly: 0 };
+  const baselineIds = findBaselineIds(rows, now);
+  const latestId = rows.length > 0 ? rows[rows.length - 1].id : null;
+
+  // Rows per tier bucket, in time order
+  const buckets = new Map<string, { tier: RetentionTier; rows: CompactionRow[] }>();
+  for (const row of rows) {
+    const tier = getRetentionTier(row.captured_at, now);
+    if (tier === 'full') {
+      continue;
+    }
+    const size: HistoryBucketSize = tier === 'daily' ? 'day' : 'week';
+    const key = `${tier}:${bucketStart(row.captured_at.getTime(), size)}`;
+    const bucket = buckets.get(key) ?? { tier, rows: [] };
+    bucket.rows.push(row);
+    buckets.set(key, bucket);
+  }
+
+  const deleteIds: string[] = [];
+  let protectedBaselines = 0;
+  for (const bucket of buckets.values()) {
+    const withCounter = bucket.rows.filter((row) => row.puzzle_total !== null);
+    const candidates = withCounter.length > 0 ? withCounter : bucket.rows;
+    const keep = candidates[candidates.length - 1];
+    for (const row of bucket.rows) {
+      if (row.id === keep.id || row.id === latestId) {
+        continue;
+      }
+      if (baselineIds.has(row.id)) {
+        protectedBaselines++;
+        continue;
+      }
+      deleteIds.push(row.id);
+      removed[bucket.tier]++;
+    }
+  }
+
+  return { deleteIds, removed, protectedBaselines };
+}
+
+/**
+ * Apply the retention policy to every series; with dryRun only counts what would be removed
+ */
+export async function compactSnapshots(options: { now: Date; dryRun: boolean }): Promise<CompactionReport> {
+  const { now, dryRun } = options;
+  const fullResolutionStart = new Date(now.getTime() - FULL_RESOLUTION_DAYS * DAY_MS);
+
+  const report: CompactionReport = {
+    dryRun,
+    series: 0,
+    scanned: 0,
+    removed: { full: 0, daily: 0, weekly: 0 },
+    protectedBaselines: 0,
+  };
+
+  // Only series with rows past the full resolution period have anything to compact
+  const series = await prisma.stats_snapshots.groupBy({
+    by: ['user_id', 'source'],
+    where: { captured_at: { lt: fullResolutionStart } },
+  });
+
+  for (const { user_id, source } of series) {
+    const rows = await prisma.stats_snapshots.findMany({
+      where: { user_id, source },
+      orderBy: { captured_at: 'asc' },
+      select: { id: true, captured_at: true, puzzle_total: true },
+    });
+    const plan = planSnapshotCompaction(rows, now);
+
+    report.series++;
+    report.scanned += rows.length;
+    report.protectedBaselines += plan.protectedBaselines;
+    for (const tier of Object.keys(plan.removed) as RetentionTier[]) {
+      report.removed[tier] += plan.removed[tier];
+    }
+
+    if (!dryRun) {
+      for (let i = 0; i < plan.deleteIds.length; i += DELETE_BATCH_SIZE) {
+        await prisma.stats_snapshots.deleteMany({
+          where: { id: { in: plan.deleteIds.slice(i, i + DELETE_BATCH_SIZE) } },
+        });
+      }
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,445 @@
+/**
+ * Sync one platform connection: fetch new games and ratings through the platform adapter,
+ * then write player_stats_v2, player_perf_stats and a stats snapshot
+ * Used by the sync job worker; never throws, failures are recorded on player_stats_v2
+ */
+
+import { prisma } from '@/lib/prisma';
+import { decryptToken } from '@/lib/security/tokenEncryption';
+import { getPlatformAdapter } from '@/lib/stats/platformRegistry';
+import { countStoredGamesByPerf, getGamesSyncStart, getLatestStoredGameAt, storeGames } from '@/lib/stats/gamesStore';
+import { buildPerfStats, loadPerfRatingSnapshots, upsertPerfStats } from '@/lib/stats/perfStats';
+import { buildTimedPuzzleStats, EMPTY_TIMED_PUZZLES, loadTimedPuzzleBaselines } from '@/lib/stats/timedPuzzles';
+import { computeWindowStats } from '@/lib/stats/windowStats';
+import type { PerfRatings } from '@/lib/stats/platformAdapter';
+import type { TimedPuzzleSnapshot } from '@/lib/stats/timedPuzzles';
+
+export type SyncConnection = {
+  id: string;
+  user_id: string;
+  platform: string;
+  platform_username: string | null;
+  games_cursor_at: Date | null;
+  lichess_oauth_token_encrypted: string | null;
+  needs_reauth: boolean;
+};
+
+export type PuzzleCountMethod = 'activity' | 'snapshot';
+
+/**
+ * Decrypt the stored OAuth token; a token that can't be decrypted is treated as absent
+ */
+function decryptAccessToken(connection: SyncConnection): string | null {
+  if (!connection.lichess_oauth_token_encrypted) {
+    return null;
+  }
+  try {
+    return decryptToken(connection.lichess_oauth_token_encrypted);
+  } catch (decryptError) {
+    console.warn(
+      `[sync] Could not decrypt stored token for connection ${connection.id}:`,
+      decryptError instanceof Error ? decryptError.message : String(decryptError)
+    );
+    return null;
+  }
+}
+
+export type SyncConnectionResult =
+  | {
+      studentId: string;
+      platform: string;
+      username: string;
+      ok: true;
+    }
+  | {
+      studentId: string;
+      platform: string;
+      username: string;
+      ok: false;
+      errorCode?: string;
+      errorMessage: string;
+    };
+
+export async function syncConnection(connection: SyncConnection, now: Date): Promise<SyncConnectionResult> {
+  const studentId = connection.user_id;
+  const platform = connection.platform;
+  const username = connection.platform_username!;
+  const account = { studentId, username, accessToken: decryptAccessToken(connection) };
+
+  // Extract error code from error message (check for 429 rate limit)
+  let errorCode: string | undefined = undefined;
+  let errorMessage = '';
+  let result: SyncConnectionResult;
+
+  try {
+    console.log(`[sync] Processing ${platform}/${username} (studentId: ${studentId})`);
+
+    // TODO: TEMPORARY DEBUG LOGGING - Remove after investigating stale badge issues
+    const existingStats = await prisma.player_stats_v2.findUnique({
+      where: {
+        student_id_platform: {
+          student_id: studentId,
+          platform: platform === 'chesscom' ? 'chesscom' : platform,
+        },
+      },
+    });
+    if (existingStats) {
+      console.log(`[sync] [DEBUG] ${username} existing computed_at: ${existingStats.computed_at?.toISOString() ?? 'null'}, last_update_ok: ${existingStats.last_update_ok}, last_update_error_code: ${existingStats.last_update_error_code}`);
+    } else {
+      console.log(`[sync] [DEBUG] ${username} no existing stats record`);
+    }
+
+    const adapter = getPlatformAdapter(platform);
+    if (!adapter) {
+      throw new Error(`Unsupported platform: ${platform}`);
+    }
+
+    // Fetch only games newer than the last stored one (throws on API failure),
+    // then derive the windowed counts from the games table
+    const sinceMs = await getGamesSyncStart(studentId, platform, now, connection.games_cursor_at);
+    const fetched = await adapter.fetchGames(account, sinceMs, now);
+    const insertedGames = await storeGames(studentId, fetched.games);
+    await fetched.commit?.();
+    console.log(`[sync] ${platform}/${username}: fetched ${fetched.games.length} games since ${new Date(sinceMs).toISOString()}, ${insertedGames} new${fetched.truncated ? ' (truncated)' : ''}`);
+
+    const perfCounts = await countStoredGamesByPerf(studentId, platform, now);
+
+    // Only update database if computation succeeded (no throw)
+    // Map from camelCase (module) to snake_case (DB)
+    const stats = {
+      rapid_24h: perfCounts.rapid.games24h,
+      rapid_7d: perfCounts.rapid.games7d,
+      blitz_24h: perfCounts.blitz.games24h,
+      blitz_7d: perfCounts.blitz.games7d,
+    };
+
+    // Fetch current ratings
+    let rapidRating: number | null = null;
+    let blitzRating: number | null = null;
+    let perfRatings: PerfRatings = {};
+    let lastSeenMs: number | null = null;
+
+    try {
+      const ratings = await adapter.fetchRatings(account);
+      rapidRating = ratings.rapidRating;
+      blitzRating = ratings.blitzRating;
+      perfRatings = ratings.perfRatings;
+      lastSeenMs = ratings.lastSeenMs ?? null;
+    } catch (ratingError) {
+      // Non-fatal: log but continue without ratings
+      console.warn(`[sync] Failed to fetch ratings for ${platform}/${username}:`, ratingError);
+    }
+
+    // All-time solved puzzle counter, the baseline for snapshot deltas (Chess.com has none)
+    const puzzleRes = await adapter.fetchPuzzleTotal(account);
+    const puzzleTotal = puzzleRes.status === 'OK' ? puzzleRes.puzzleTotal : null;
+
+    // Rating, game and puzzle deltas for every window, measured against older snapshots
+    // (before this sync's snapshot is written)
+    const windowStats = await computeWindowStats(studentId, platform, now, { ratings: perfRatings, puzzleTotal });
+    const window24h = windowStats['24h'];
+    const window7d = windowStats['7d'];
+
+    const rapidRatingDelta24h = window24h?.ratingDeltas.rapid ?? null;
+    const rapidRatingDelta7d = window7d?.ratingDeltas.rapid ?? null;
+    const blitzRatingDelta24h = window24h?.ratingDeltas.blitz ?? null;
+    const blitzRatingDelta7d = window7d?.ratingDeltas.blitz ?? null;
+
+    let puzzle24h: number | null = window24h?.puzzles ?? null;
+    let puzzle7d: number | null = window7d?.puzzles ?? null;
+
+    // Exact solved counts from the student's puzzle activity when they authorised a token;
+    // the snapshot deltas above stay as the fallback
+    let puzzle24hMethod: PuzzleCountMethod | null = puzzle24h !== null ? 'snapshot' : null;
+    let puzzle7dMethod: PuzzleCountMethod | null = puzzle7d !== null ? 'snapshot' : null;
+
+    if (adapter.fetchPuzzleActivity && account.accessToken) {
+      try {
+        const activity = await adapter.fetchPuzzleActivity(account, now);
+        puzzle24h = activity.solved24h;
+        puzzle24hMethod = 'activity';
+        // A truncated log undercounts the 7d window; keep the snapshot delta for it
+        if (!activity.truncated) {
+          puzzle7d = activity.solved7d;
+          puzzle7dMethod = 'activity';
+        }
+        // Exact counts win over snapshot deltas in the window stats as well
+        if (window24h) {
+          window24h.puzzles = puzzle24h;
+          window24h.puzzlesMethod = 'activity';
+        }
+        if (window7d && puzzle7dMethod === 'activity') {
+          window7d.puzzles = puzzle7d;
+          window7d.puzzlesMethod = 'activity';
+        }
+        if (connection.needs_reauth) {
+          await prisma.platform_connections.update({
+            where: { id: connection.id },
+            data: { needs_reauth: false },
+          });
+        }
+      } catch (activityError) {
+        const activityMessage = activityError instanceof Error ? activityError.message : String(activityError);
+        console.warn(`[sync] Puzzle activity unavailable for ${platform}/${username}, using snapshot deltas: ${activityMessage}`);
+        if (activityMessage === 'LICHESS_TOKEN_INVALID') {
+          // Token revoked or expired: the student has to reconnect Lichess
+          await prisma.platform_connections.update({
+            where: { id: connection.id },
+            data: { needs_reauth: true },
+          });
+        }
+      }
+    }
+
+    // Puzzle Storm (Lichess) / Puzzle Rush (Chess.com): non-fatal, unknown values stay null
+    let timedPuzzles: TimedPuzzleSnapshot = EMPTY_TIMED_PUZZLES;
+    try {
+      timedPuzzles = await adapter.fetchTimedPuzzles(account);
+    } catch (timedPuzzlesError) {
+      console.warn(`[sync] Failed to fetch Storm/Rush for ${platform}/${username}:`, timedPuzzlesError);
+    }
+    const timedPuzzleBaselines = await loadTimedPuzzleBaselines(studentId, platform, now);
+    const timedPuzzleStats = buildTimedPuzzleStats(timedPuzzles, timedPuzzleBaselines);
+    const timedPuzzleData = {
+      storm_best_score_24h: timedPuzzleStats.stormBestScore24h,
+      storm_best_score_7d: timedPuzzleStats.stormBestScore7d,
+      storm_runs_24h: timedPuzzleStats.stormRuns24h,
+      storm_runs_7d: timedPuzzleStats.stormRuns7d,
+      rush_attempts_24h: timedPuzzleStats.rushAttempts24h,
+      rush_attempts_7d: timedPuzzleStats.rushAttempts7d,
+      rush_best_score: timedPuzzleStats.rushBestScore,
+    };
+
+    // Last active: the platform's "last seen" where it reports one, or the newest game we stored;
+    // never moves backwards when the ratings call fails
+    const latestGameAt = await getLatestStoredGameAt(studentId, platform);
+    const lastActiveMs = Math.max(
+      lastSeenMs ?? 0,
+      latestGameAt?.getTime() ?? 0,
+      existingStats?.last_active_at?.getTime() ?? 0
+    );
+    const lastActiveAt = lastActiveMs > 0 ? new Date(lastActiveMs) : null;
+
+    // Upsert into player_stats_v2 using the unique constraint (student_id + platform)
+    // ALWAYS upsert with computed_at set to now(), even when counts are 0
+    await prisma.player_stats_v2.upsert({
+      where: {
+        student_id_platform: {
+          student_id: studentId,
+          platform: platform === 'chesscom' ? 'chesscom' : platform,
+        },
+      },
+      update: {
+        rapid_24h: stats.rapid_24h,
+        rapid_7d: stats.rapid_7d,
+        blitz_24h: stats.blitz_24h,
+        blitz_7d: stats.blitz_7d,
+        puzzle_total: puzzleTotal,
+        puzzle_24h: puzzle24h,
+        puzzle_7d: puzzle7d,
+        puzzle_24h_method: puzzle24hMethod,
+        puzzle_7d_method: puzzle7dMethod,
+        rapid_rating_delta_24h: rapidRatingDelta24h,
+        rapid_rating_delta_7d: rapidRatingDelta7d,
+        blitz_rating_delta_24h: blitzRatingDelta24h,
+        blitz_rating_delta_7d: blitzRatingDelta7d,
+        games_truncated: fetched.truncated,
+        ...timedPuzzleData,
+        window_stats: windowStats,
+        last_active_at: lastActiveAt,
+        computed_at: now,
+        last_update_ok: true,
+        last_update_error_code: null,
+        last_update_error_message: null,
+        last_update_attempt_at: now,
+      },
+      create: {
+        student_id: studentId,
+        platform: platform === 'chesscom' ? 'chesscom' : platform,
+        rapid_24h: stats.rapid_24h,
+        rapid_7d: stats.rapid_7d,
+        blitz_24h: stats.blitz_24h,
+        blitz_7d: stats.blitz_7d,
+        puzzle_total: puzzleTotal,
+        puzzle_24h: puzzle24h,
+        puzzle_7d: puzzle7d,
+        puzzle_24h_method: puzzle24hMethod,
+        puzzle_7d_method: puzzle7dMethod,
+        rapid_rating_delta_24h: rapidRatingDelta24h,
+        rapid_rating_delta_7d: rapidRatingDelta7d,
+        blitz_rating_delta_24h: blitzRatingDelta24h,
+        blitz_rating_delta_7d: blitzRatingDelta7d,
+        games_truncated: fetched.truncated,
+        ...timedPuzzleData,
+        window_stats: windowStats,
+        last_active_at: lastActiveAt,
+        computed_at: now,
+        last_update_ok: true,
+        last_update_error_code: null,
+        last_update_error_message: null,
+        last_update_attempt_at: now,
+      },
+    });
+
+    console.log(`[sync] upserted player_stats_v2 studentId=${studentId} platform=${platform} computed_at=${now.toISOString()}`);
+
+    // Per time control stats (bullet, blitz, rapid, classical, daily, chess960)
+    const perfSnapshots = await loadPerfRatingSnapshots(studentId, platform, now);
+    const perfStats = buildPerfStats(perfCounts, perfRatings, perfSnapshots);
+    await upsertPerfStats(studentId, platform, perfStats, now);
+
+    // Update platform_connections.last_synced_at (and the game cursor, if the platform keeps one) when sync succeeded
+    await prisma.platform_connections.update({
+      where: {
+        id: connection.id,
+      },
+      data: {
+        last_synced_at: now,
+        ...(fetched.cursorMs !== null ? { games_cursor_at: new Date(fetched.cursorMs) } : {}),
+      },
+    });
+
+    // Main success path completed - student is now considered succeeded
+    result = {
+      studentId,
+      platform,
+      username,
+      ok: true,
+    };
+
+    console.log(
+      `[sync] ✓ Success: ${platform}/${username} - rapid: ${stats.rapid_24h}/${stats.rapid_7d}, blitz: ${stats.blitz_24h}/${stats.blitz_7d}`
+    );
+
+    // Fallback: if ratings are null, try to preserve last known values from previous snapshot
+    let finalRapidRating = rapidRating;
+    let finalBlitzRating = blitzRating;
+    
+    if (rapidRating === null || blitzRating === null) {
+      const lastSnapshot = await prisma.stats_snapshots.findFirst({
+        where: {
+          user_id: studentId,
+          source: platform, // platform-specific snapshot
+        },
+        orderBy: { captured_at: 'desc' },
+        select: {
+          rapid_rating: true,
+          blitz_rating: true,
+        },
+      });
+      
+      if (lastSnapshot) {
+        if (finalRapidRating === null && lastSnapshot.rapid_rating !== null) {
+          finalRapidRating = lastSnapshot.rapid_rating;
+        }
+        if (finalBlitzRating === null && lastSnapshot.blitz_rating !== null) {
+          finalBlitzRating = lastSnapshot.blitz_rating;
+        }
+      }
+    }
+
+    // Insert snapshot history (NON-FATAL: wrapped in try/catch)
+    // If snapshot insertion fails, log warning but don't fail the student sync
+    // This snapshot is needed for rating deltas and to track current rating values
+    try {
+      await prisma.stats_snapshots.create({
+        data: {
+          user_id: studentId,
+          captured_at: now,
+          source: platform, // platform is 'lichess' or 'chesscom' (matches DB constraint)
+          rapid_rating: finalRapidRating,
+          blitz_rating: finalBlitzRating,
+          rapid_24h: stats.rapid_24h,
+          rapid_7d: stats.rapid_7d,
+          blitz_24h: stats.blitz_24h,
+          blitz_7d: stats.blitz_7d,
+          puzzle_total: puzzleTotal,
+          puzzle_24h: puzzle24h,
+          puzzle_7d: puzzle7d,
+          // Last known rating per control, baseline for future player_perf_stats deltas
+          perf_ratings: Object.fromEntries(
+            perfStats.filter((stat) => stat.rating !== null).map((stat) => [stat.perf, stat.rating])
+          ),
+          // Storm days, baselines for future storm_* values; Rush only has a best score
+          storm_days: timedPuzzles.stormDays ?? undefined,
+          rush_best_score: timedPuzzles.rushBestScore,
+          // Leave other rating/puzzle fields as default/null/0
+          puzzle_rating: null,
+          rapid_total: null,
+          blitz_total: null,
+        },
+      });
+    } catch (snapshotError) {
+      // Log warning but don't fail the student sync
+      console.warn(
+        `[sync] Warning: Failed to insert snapshot for ${platform}/${username} (studentId: ${studentId}):`,
+        snapshotError instanceof Error ? snapshotError.message : String(snapshotError)
+      );
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+    
+    // Extract error code: check for 429 rate limit in error message
+    // Error format from gamesActivityV2: "Lichess {perfType} API returned {status} {statusText} for {username}"
+    if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
+      errorCode = 'RATE_LIMIT';
+    }
+
+    // TODO: TEMPORARY DEBUG LOGGING - Remove after investigating stale badge issues
+    console.error(`[sync] [DEBUG] ${username} FAILED: error="${errorMessage}", errorCode="${errorCode ?? 'none'}", computed_at will remain null -> will be marked STALE`);
+
+    result = {
+      studentId,
+      platform,
+      username,
+      ok: false,
+      errorCode,
+      errorMessage,
+    };
+
+    console.error(
+      `[sync] ✗ Failed: ${platform}/${username} (studentId: ${studentId}) - ${errorMessage}${errorCode ? ` [${errorCode}]` : ''}`
+    );
+
+    // Persist failure info to player_stats_v2 (even on failure, we track the attempt)
+    // Note: On failure, we do NOT set computed_at (it remains null) to indicate stale data
+    try {
+      await prisma.player_stats_v2.upsert({
+        where: {
+          student_id_platform: {
+            student_id: studentId,
+            platform: platform === 'chesscom' ? 'chesscom' : platform,
+          },
+        },
+        update: {
+          last_update_ok: false,
+          last_update_error_code: errorCode || null,
+          last_update_error_message: errorMessage.substring(0, 500), // Limit message length
+          last_update_attempt_at: now,
+          // Do NOT update computed_at on failure - leave it as-is (null or old value)
+        },
+        create: {
+          student_id: studentId,
+          platform: platform === 'chesscom' ? 'chesscom' : platform,
+          rapid_24h: null,
+          rapid_7d: null,
+          blitz_24h: null,
+          blitz_7d: null,
+          computed_at: null,
+          last_update_ok: false,
+          last_update_error_code: errorCode || null,
+          last_update_error_message: errorMessage.substring(0, 500),
+          last_update_attempt_at: now,
+        },
+      });
+    } catch (dbError) {
+      // Log but don't fail - we've already recorded the failure
+      console.warn(
+        `[sync] Warning: Failed to persist error info for ${platform}/${username} (studentId: ${studentId}):`,
+        dbError instanceof Error ? dbError.message : String(dbError)
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,122 @@
+/**
+ * Tests for Puzzle Storm / Puzzle Rush parsing and 24h/7d derivation
+ * Uses Vitest
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildTimedPuzzleStats,
+  EMPTY_TIMED_PUZZLES,
+  parseChessComPuzzleRush,
+  parseStormDashboard,
+  stormActivitySince,
+} from './timedPuzzles';
+
+// Baseline loading touches the database; only the pure helpers are tested here
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+describe('timedPuzzles', () => {
+  describe('parseStormDashboard', () => {
+    it('keys days by UTC date', () => {
+      const days = parseStormDashboard({
+        high: { allTime: 40 },
+        days: [
+          { _id: '2024/3/1', score: 25, runs: 2 },
+          { _id: '2024/2/29', score: 12, runs: 1 },
+          { _id: 'garbage', score: 99, runs: 9 },
+        ],
+      });
+
+      expect(days).toEqual({
+        '2024-03-01': { score: 25, runs: 2 },
+        '2024-02-29': { score: 12, runs: 1 },
+      });
+    });
+
+    it('returns null when the response has no days', () => {
+      expect(parseStormDashboard({})).toBeNull();
+      expect(parseStormDashboard(null)).toBeNull();
+    });
+  });
+
+  describe('parseChessComPuzzleRush', () => {
+    it('reads only the best score; the daily entry describes a single run', () => {
+      expect(
+        parseChessComPuzzleRush({
+          puzzle_rush: { daily: { total_attempts: 14, score: 11 }, best: { total_attempts: 40, score: 37 } },
+        })
+      ).toEqual({ rushBestScore: 37 });
+    });
+
+    it('returns null for players who never played Puzzle Rush', () => {
+      expect(parseChessComPuzzleRush({ chess_rapid: {} })).toEqual({ rushBestScore: null });
+    });
+  });
+
+  describe('stormActivitySince', () => {
+    it('takes the best run and counts runs from the rest of the baseline day and every later day', () => {
+      const baseline = { '2024-03-01': { score: 10, runs: 1 } };
+      const current = {
+        '2024-02-29': { score: 50, runs: 4 },
+        '2024-03-01': { score: 30, runs: 3 },
+        '2024-03-02': { score: 20, runs: 2 },
+      };
+
+      expect(stormActivitySince(current, baseline, new Date('2024-03-01T12:00:00Z'))).toEqual({
+        bestScore: 30,
+        runs: 4,
+      });
+    });
+
+    it('leaves the best score unknown when later runs on the baseline day did not beat it', () => {
+      const baseline = { '2024-03-01': { score: 30, runs: 1 } };
+      const current = { '2024-03-01': { score: 30, runs: 3 } };
+
+      expect(stormActivitySince(current, baseline, new Date('2024-03-01T12:00:00Z'))).toEqual({
+        bestScore: null,
+        runs: 2,
+      });
+    });
+
+    it('returns null when the counts went backwards', () => {
+      const baseline = { '2024-03-01': { score: 30, runs: 3 } };
+      const current = { '2024-03-01': { score: 10, runs: 1 } };
+
+      expect(stormActivitySince(current, baseline, new Date('2024-03-01T12:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('buildTimedPuzzleStats', () => {
+    const capturedAt = new Date('2024-03-01T12:00:00Z');
+
+    it('derives Storm values and keeps a confirmed 0', () => {
+      const stats = buildTimedPuzzleStats(
+        { ...EMPTY_TIMED_PUZZLES, stormDays: { '2024-03-01': { score: 10, runs: 1 } } },
+        {
+          baseline24h: { captured_at: capturedAt, storm_days: { '2024-03-01': { score: 10, runs: 1 } } },
+          baseline7d: null,
+        }
+      );
+
+      expect(stats.stormBestScore24h).toBe(0);
+      expect(stats.stormRuns24h).toBe(0);
+      expect(stats.stormBestScore7d).toBeNull(); // no fresh baseline
+      expect(stats.rushAttempts24h).toBeNull();
+    });
+
+    it('keeps the Rush best score and leaves Rush activity unknown', () => {
+      const stats = buildTimedPuzzleStats(
+        { ...EMPTY_TIMED_PUZZLES, rushBestScore: 37 },
+        {
+          baseline24h: { captured_at: capturedAt, storm_days: null },
+          baseline7d: { captured_at: capturedAt, storm_days: null },
+        }
+      );
+
+      expect(stats.rushAttempts24h).toBeNull();
+      expect(stats.rushAttempts7d).toBeNull();
+      expect(stats.rushBestScore).toBe(37);
+      expect(stats.stormBestScore24h).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Timed puzzle modes: Lichess Puzzle Storm and Chess.com Puzzle Rush
+ * Storm days are stored on stats snapshots and turned into 24h/7d values against a baseline
+ * snapshot, with the same freshness rules as puzzle_24h / puzzle_7d; Rush only has a best score
+ */
+
+import { prisma } from '@/lib/prisma';
+import { baselineToleranceMs } from '@/lib/stats/deltaWindows';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Lichess Storm dashboard activity per UTC day ("YYYY-MM-DD")
+ * score is the day's best single run (lila keeps only the best run's details), runs counts every run
+ */
+export type StormDays = Record<string, { score: number; runs: number }>;
+
+/**
+ * Counters fetched for the timed puzzle modes
+ * Each platform fills in its own mode; everything else stays null
+ */
+export type TimedPuzzleSnapshot = {
+  stormDays: StormDays | null;
+  rushBestScore: number | null;
+};
+
+export const EMPTY_TIMED_PUZZLES: TimedPuzzleSnapshot = {
+  stormDays: null,
+  rushBestScore: null,
+};
+
+/**
+ * Derived values written to player_stats_v2; null means unknown, never "no activity"
+ */
+export type TimedPuzzleStats = {
+  /** Best single Storm run in the window; Lichess doesn't expose puzzles solved across runs */
+  stormBestScore24h: number | null;
+  stormBestScore7d: number | null;
+  stormRuns24h: number | null;
+  stormRuns7d: number | null;
+  /** Always null: Chess.com's public API has no Rush history to count runs or attempts from */
+  rushAttempts24h: null;
+  rushAttempts7d: null;
+  rushBestScore: number | null;
+};
+
+/**
+ * Snapshot fields needed as a baseline
+ */
+export type TimedPuzzleBaseline = {
+  captured_at: Date;
+  storm_days: unknown;
+};
+
+function utcDayKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse the Lichess Storm dashboard (/api/storm/dashboard/{username})
+ * Day ids look like "2024/3/1"; days that can't be parsed are skipped
+ */
+export function parseStormDashboard(data: unknown): StormDays | null {
+  const days = (data as { days?: unknown } | null)?.days;
+  if (!Array.isArray(days)) {
+    return null;
+  }
+
+  const result: StormDays = {};
+  for (const day of days) {
+    const match = typeof day?._id === 'string' ? day._id.match(/(\d{4})[/-](\d{1,2})[/-](\d{1,2})/) : null;
+    if (!match) continue;
+
+    const key = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+    result[key] = {
+      score: typeof day.score === 'number' ? day.score : 0,
+      runs: typeof day.runs === 'number' ? day.runs : 0,
+    };
+  }
+  return result;
+}
+
+/**
+ * Read the Puzzle Rush best score from the Chess.com stats document
+ * Only the best score is usable: puzzle_rush.daily describes a single run (its total_attempts is that
+ * run's puzzle count, not a running counter), so there is nothing to derive Rush activity from
+ */
+export function parseChessComPuzzleRush(stats: unknown): Pick<TimedPuzzleSnapshot, 'rushBestScore'> {
+  const rush = (stats as { puzzle_rush?: Record<string, { score?: unknown } | undefined> } | null)?.puzzle_rush;
+  const bestScore = rush?.best?.score;
+
+  return {
+    rushBestScore: typeof bestScore === 'number' ? bestScore : null,
+  };
+}
+
+/**
+ * Read storm_days from a snapshot (Json column)
+ */
+function snapshotStormDays(value: unknown): StormDays | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  return value as StormDays;
+}
+
+/**
+ * Best Storm run and number of runs since a baseline snapshot
+ * Later days count in full. On the baseline's own day only the runs after the baseline are known;
+ * their best score is known only if it beat the day's best at baseline time
+ * bestScore is null when there were runs but none of their scores is known
+ */
+export function stormActivitySince(
+  current: StormDays,
+  baseline: StormDays,
+  baselineCapturedAt: Date
+): { bestScore: number | null; runs: number } | null {
+  const baselineDay = utcDayKey(baselineCapturedAt.getTime());
+  const dayNow = current[baselineDay] ?? { score: 0, runs: 0 };
+  const dayBefore = baseline[baselineDay] ?? { score: 0, runs: 0 };
+
+  // Negative means the dashboard changed under us; unknown rather than a wrong number
+  if (dayNow.runs < dayBefore.runs || dayNow.score < dayBefore.score) {
+    return null;
+  }
+
+  let runs = dayNow.runs - dayBefore.runs;
+  let bestScore: number | null = dayNow.score > dayBefore.score ? dayNow.score : null;
+  for (const [day, value] of Object.entries(current)) {
+    if (day > baselineDay && value.runs > 0) {
+      runs += value.runs;
+      bestScore = Math.max(bestScore ?? 0, value.score);
+    }
+  }
+
+  return { bestScore: runs === 0 ? 0 : bestScore, runs };
+}
+
+/**
+ * Derive 24h/7d Storm values from the current counters and the baselines, plus the Rush best score
+ * Missing counters or baselines give null, not 0; Rush activity is always null (unknown)
+ */
+export function buildTimedPuzzleStats(
+  current: TimedPuzzleSnapshot,
+  baselines: { baseline24h: TimedPuzzleBaseline | null; baseline7d: TimedPuzzleBaseline | null }
+): TimedPuzzleStats {
+  const storm = (baseline: TimedPuzzleBaseline | null) => {
+    const baselineDays = baseline ? snapshotStormDays(baseline.storm_days) : null;
+    if (!current.stormDays || !baseline || !baselineDays) {
+      return null;
+    }
+    return stormActivitySince(current.stormDays, baselineDays, baseline.captured_at);
+  };
+
+  const storm24h = storm(baselines.baseline24h);
+  const storm7d = storm(baselines.baseline7d);
+
+  return {
+    stormBestScore24h: storm24h?.bestScore ?? null,
+    stormBestScore7d: storm7d?.bestScore ?? null,
+    stormRuns24h: storm24h?.runs ?? null,
+    stormRuns7d: storm7d?.runs ?? null,
+    rushAttempts24h: null,
+    rushAttempts7d: null,
+    rushBestScore: current.rushBestScore,
+  };
+}
+
+/**
+ * Load the 24h/7d baseline snapshots for a student on one platform
+ * Freshness tolerance scales with the window (baselineToleranceMs)
+ */
+export async function loadTimedPuzzleBaselines(
+  studentId: string,
+  platform: string,
+  now: Date
+): Promise<{ baseline24h: TimedPuzzleBaseline | null; baseline7d: TimedPuzzleBaseline | null }> {
+  const findBaseline = async (windowStart: Date, maxAgeMs: number) => {
+    const snapshot = await prisma.stats_snapshots.findFirst({
+      where: {
+        user_id: studentId,
+        source: platform,
+        captured_at: { lte: windowStart },
+      },
+      orderBy: { captured_at: 'desc' },
+      select: { captured_at: true, storm_days: true },
+    });
+
+    if (!snapshot || snapshot.captured_at.getTime() < windowStart.getTime() - maxAgeMs) {
+      return null;
+    }
+    return snapshot;
+  };
+
+  const [baseline24h, baseline7d] = await Promise.all([
+    findBaseline(new Date(now.getTime() - 24 * HOUR_MS), baselineToleranceMs(24 * HOUR_MS)),
+    findBaseline(new Date(now.getTime() - 7 * 24 * HOUR_MS), baselineToleranceMs(7 * 24 * HOUR_MS)),
+  ]);
+
+  return { baseline24h, baseline7d };
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for configurable delta windows
+ * Uses Vitest; window bounds and buildWindowStat are pure
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { baselineToleranceMs, getWindowStart, isBaselineFresh } from './deltaWindows';
+import { buildWindowStat } from './windowStats';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const now = new Date('2024-03-08T12:00:00Z');
+
+describe('deltaWindows', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps the original 24h and 7d tolerances and scales for longer windows', () => {
+    expect(baselineToleranceMs(DAY_MS)).toBe(12 * HOUR_MS);
+    expect(baselineToleranceMs(7 * DAY_MS)).toBe(DAY_MS);
+    expect(baselineToleranceMs(70 * DAY_MS)).toBe(10 * DAY_MS);
+  });
+
+  it('accepts baselines within the tolerance before the window start', () => {
+    const start = getWindowStart('30d', now)!;
+    expect(start.toISOString()).toBe('2024-02-07T12:00:00.000Z');
+    expect(isBaselineFresh(new Date(start.getTime() - 4 * DAY_MS), start, 30 * DAY_MS)).toBe(true);
+    expect(isBaselineFresh(new Date(start.getTime() - 5 * DAY_MS), start, 30 * DAY_MS)).toBe(false);
+  });
+
+  it('starts the season window at STATS_SEASON_START', () => {
+    expect(getWindowStart('season', now)).toBeNull();
+
+    vi.stubEnv('STATS_SEASON_START', '2024-01-01');
+    expect(getWindowStart('season', now)?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+
+    vi.stubEnv('STATS_SEASON_START', '2025-01-01'); // not started yet
+    expect(getWindowStart('season', now)).toBeNull();
+  });
+});
+
+describe('buildWindowStat', () => {
+  const baseline = {
+    captured_at: new Date('2024-02-07T06:00:00Z'),
+    perf_ratings: { bullet: 1400 },
+    rapid_rating: 1600,
+    blitz_rating: null,
+    puzzle_total: 900,
+  };
+
+  it('measures rating and puzzle deltas against the baseline', () => {
+    const stat = buildWindowStat({
+      start: new Date('2024-02-07T12:00:00Z'),
+      windowMs: 30 * DAY_MS,
+      baseline,
+      gameCounts: { rapid: 12 },
+      ratings: { rapid: 1650, bullet: 1380, blitz: 1500 },
+      puzzleTotal: 960,
+    });
+
+    expect(stat).toMatchObject({
+      baselineAt: '2024-02-07T06:00:00.000Z',
+      ratingDeltas: { rapid: 50, bullet: -20 }, // no blitz baseline
+      puzzles: 60,
+      puzzlesMethod: 'snapshot',
+    });
+    expect(stat.games).toMatchObject({ rapid: 12, blitz: 0 });
+  });
+
+  it('leaves long window game counts unknown without a baseline', () => {
+    const input = {
+      start: new Date('2024-02-07T12:00:00Z'),
+      baseline: null,
+      gameCounts: { rapid: 12 },
+      ratings: { rapid: 1650 },
+      puzzleTotal: 960,
+    };
+
+    const long = buildWindowStat({ ...input, windowMs: 30 * DAY_MS });
+    expect(long).toMatchObject({ baselineAt: null, games: null, ratingDeltas: {}, puzzles: null, puzzlesMethod: null });
+
+    // Every sync fetches the last 7 days, so shorter windows are always complete
+    const short = buildWindowStat({ ...input, windowMs: 3 * DAY_MS });
+    expect(short.games).toMatchObject({ rapid: 12 });
+  });
+
+  it('drops negative puzzle deltas (counter reset)', () => {
+    const stat = buildWindowStat({
+      start: new Date('2024-02-07T12:00:00Z'),
+      windowMs: 30 * DAY_MS,
+      baseline,
+      gameCounts: {},
+      ratings: {},
+      puzzleTotal: 100,
+    });
+
+    expect(stat.puzzles).toBeNull();
+  });
+});
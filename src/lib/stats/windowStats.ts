@@ -0,0 +1,164 @@
+/**
+ * Per window stats written to player_stats_v2.window_stats on every sync
+ * Computed from stored history only: the games table and the window's baseline snapshot
+ */
+
+import { prisma } from '@/lib/prisma';
+import { PERFS } from '@/lib/stats_v2/types';
+import type { Perf } from '@/lib/stats_v2/types';
+import type { PerfRatings } from '@/lib/stats/platformAdapter';
+import { snapshotPerfRatings } from '@/lib/stats/perfStats';
+import { DELTA_WINDOW_KEYS, getWindowStart, isBaselineFresh } from '@/lib/stats/deltaWindows';
+import type { DeltaWindowKey } from '@/lib/stats/deltaWindows';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every sync fetches at least this far back, so shorter windows always have complete game counts
+ */
+const GAMES_BACKFILL_MS = 7 * DAY_MS;
+
+export type WindowStat = {
+  start: string;
+  /** Snapshot the deltas are measured against; null when history doesn't reach back far enough */
+  baselineAt: string | null;
+  /** Games per control; null when stored games may not cover the whole window */
+  games: Partial<Record<Perf, number>> | null;
+  /** Rating change per control with both a fresh rating and a baseline rating */
+  ratingDeltas: Partial<Record<Perf, number>>;
+  puzzles: number | null;
+  puzzlesMethod: 'activity' | 'snapshot' | null;
+};
+
+/** Stored on player_stats_v2.window_stats */
+export type WindowStats = Partial<Record<DeltaWindowKey, WindowStat>>;
+
+export type WindowBaseline = {
+  captured_at: Date;
+  perf_ratings: unknown;
+  rapid_rating: number | null;
+  blitz_rating: number | null;
+  puzzle_total: number | null;
+};
+
+/**
+ * Combine one window's game counts, current values and baseline into a WindowStat
+ */
+export function buildWindowStat(input: {
+  start: Date;
+  windowMs: number;
+  baseline: WindowBaseline | null;
+  gameCounts: Partial<Record<Perf, number>>;
+  ratings: PerfRatings;
+  puzzleTotal: number | null;
+}): WindowStat {
+  const { baseline } = input;
+  const baselineRatings = baseline ? snapshotPerfRatings(baseline) : {};
+
+  const ratingDeltas: Partial<Record<Perf, number>> = {};
+  for (const perf of PERFS) {
+    const current = input.ratings[perf];
+    const previous = baselineRatings[perf];
+    if (current !== undefined && previous !== undefined) {
+      ratingDeltas[perf] = current - previous;
+    }
+  }
+
+  let puzzles: number | null = null;
+  if (input.puzzleTotal !== null && baseline?.puzzle_total !== null && baseline?.puzzle_total !== undefined) {
+    const delta = input.puzzleTotal - baseline.puzzle_total;
+    puzzles = delta >= 0 ? delta : null; // null if counter reset/anomaly
+  }
+
+  // A baseline proves syncs were already running at the window start, so no games are missing
+  const gamesComplete = input.windowMs <= GAMES_BACKFILL_MS || baseline !== null;
+
+  return {
+    start: input.start.toISOString(),
+    baselineAt: baseline ? baseline.captured_at.toISOString() : null,
+    games: gamesComplete
+      ? Object.fromEntries(PERFS.map((perf) => [perf, input.gameCounts[perf] ?? 0]))
+      : null,
+    ratingDeltas,
+    puzzles,
+    puzzlesMethod: puzzles !== null ? 'snapshot' : null,
+  };
+}
+
+/**
+ * Latest snapshot at or before the window start, if it is within the window's tolerance
+ */
+async function findWindowBaseline(
+  studentId: string,
+  platform: string,
+  windowStart: Date,
+  windowMs: number
+): Promise<WindowBaseline | null> {
+  const snapshot = await prisma.stats_snapshots.findFirst({
+    where: {
+      user_id: studentId,
+      source: platform,
+      captured_at: { lte: windowStart },
+    },
+    orderBy: { captured_at: 'desc' },
+    select: { captured_at: true, perf_ratings: true, rapid_rating: true, blitz_rating: true, puzzle_total: true },
+  });
+
+  if (!snapshot || !isBaselineFresh(snapshot.captured_at, windowStart, windowMs)) {
+    return null;
+  }
+  return snapshot;
+}
+
+async function countGamesSince(
+  studentId: string,
+  platform: string,
+  since: Date,
+  now: Date
+): Promise<Partial<Record<Perf, number>>> {
+  const rows = await prisma.games.groupBy({
+    by: ['time_class'],
+    where: {
+      student_id: studentId,
+      platform,
+      ended_at: { gte: since, lte: now },
+    },
+    _count: { _all: true },
+  });
+
+  const counts: Partial<Record<Perf, number>> = {};
+  for (const row of rows) {
+    if ((PERFS as string[]).includes(row.time_class)) {
+      counts[row.time_class as Perf] = row._count._all;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Compute every configured window for a student on one platform
+ * Call before this sync's snapshot is written, so baselines are always older snapshots
+ */
+export async function computeWindowStats(
+  studentId: string,
+  platform: string,
+  now: Date,
+  current: { ratings: PerfRatings; puzzleTotal: number | null }
+): Promise<WindowStats> {
+  const entries = await Promise.all(
+    DELTA_WINDOW_KEYS.map(async (key) => {
+      const start = getWindowStart(key, now);
+      if (!start) {
+        return null;
+      }
+      const windowMs = now.getTime() - start.getTime();
+      const [baseline, gameCounts] = await Promise.all([
+        findWindowBaseline(studentId, platform, start, windowMs),
+        countGamesSince(studentId, platform, start, now),
+      ]);
+      return [key, buildWindowStat({ start, windowMs, baseline, gameCounts, ...current })] as const;
+    })
+  );
+
+  return Object.fromEntries(entries.filter((entry) => entry !== null));
+}
@@ -1,3 +1,4 @@
+import { platformFetch } from '@/lib/platformHttp';
 import { Perf, DiagnosticInfo } from './types';
 
 interface ChessComGame {
@@ -45,21 +46,15 @@ export async function fetchChesscomGamesCount(
   try {
     // Fetch archives list
     const archivesUrl = `https://api.chess.com/pub/player/${username}/games/archives`;
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
 
     try {
-      const archivesResponse = await fetch(archivesUrl, {
+      const archivesResponse = await platformFetch(archivesUrl, {
+        timeoutMs: 8000,
         headers: {
           Accept: 'application/json',
-          'User-Agent': 'RoboChess/1.0',
         },
-        signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!archivesResponse.ok) {
         rapidDiagnostics.status = archivesResponse.status;
         blitzDiagnostics.status = archivesResponse.status;
@@ -80,19 +75,13 @@ export async function fetchChesscomGamesCount(
       // Process each archive
       for (const archiveUrl of recentArchives) {
         try {
-          const archiveController = new AbortController();
-          const archiveTimeout = setTimeout(() => archiveController.abort(), 8000);
-
-          const archiveResponse = await fetch(archiveUrl, {
+          const archiveResponse = await platformFetch(archiveUrl, {
+            timeoutMs: 8000,
             headers: {
               Accept: 'application/json',
-              'User-Agent': 'RoboChess/1.0',
             },
-            signal: archiveController.signal,
           });
 
-          clearTimeout(archiveTimeout);
-
           if (archiveResponse.ok) {
             const text = await archiveResponse.text();
             const data: ChessComArchive = JSON.parse(text);
@@ -152,7 +141,6 @@ export async function fetchChesscomGamesCount(
       rapidDiagnostics.lines = rapid24h + rapid7d;
       blitzDiagnostics.lines = blitz24h + blitz7d;
     } catch (fetchError) {
-      clearTimeout(timeoutId);
       rapidDiagnostics.error = fetchError instanceof Error ? fetchError.message : String(fetchError);
       blitzDiagnostics.error = rapidDiagnostics.error;
     }
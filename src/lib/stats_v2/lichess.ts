@@ -1,3 +1,4 @@
+import { platformFetch } from '@/lib/platformHttp';
 import { Perf, DiagnosticInfo } from './types';
 
 /**
@@ -26,20 +27,14 @@ export async function fetchLichessGamesCount(
     const url = `https://lichess.org/api/games/user/${username}?since=${since7dMs}&max=400&perfType=${perf}&moves=false&clocks=false&evals=false&opening=false&pgnInJson=false`;
     diagnostics.url = url;
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-
     try {
-      const response = await fetch(url, {
+      const response = await platformFetch(url, {
+        timeoutMs: 8000,
         headers: {
           Accept: 'application/x-ndjson',
-          'User-Agent': 'RoboChess/1.0',
         },
-        signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       diagnostics.status = response.status;
       diagnostics.contentType = response.headers.get('content-type') || null;
 
@@ -93,7 +88,6 @@ export async function fetchLichessGamesCount(
         }
       }
     } catch (fetchError) {
-      clearTimeout(timeoutId);
       diagnostics.error = fetchError instanceof Error ? fetchError.message : String(fetchError);
     }
   } catch (error) {
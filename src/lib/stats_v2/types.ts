@@ -1,5 +1,10 @@
 export type Platform = 'lichess' | 'chesscom';
-export type Perf = 'rapid' | 'blitz';
+export type Perf = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'daily' | 'chess960';
+
+/**
+ * Every tracked time control (daily = Chess.com daily / Lichess correspondence), in display order
+ */
+export const PERFS: Perf[] = ['bullet', 'blitz', 'rapid', 'classical', 'daily', 'chess960'];
 
 export interface DiagnosticInfo {
   url: string;